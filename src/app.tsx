@@ -1,18 +1,42 @@
 import { Route, BrowserRouter as Router, Routes } from 'react-router-dom';
+import { BackupsPage } from '@/components/BackupsPage';
+import { CSVImportPage } from '@/components/CSVImportPage';
 import { DeweyAdminPage } from '@/components/DeweyAdminPage';
+import { DeweyImportPage } from '@/components/DeweyImportPage';
 import { HomePage } from '@/components/HomePage';
+import { LabelsPage } from '@/components/LabelsPage';
+import { LibrarySwitcher } from '@/components/LibrarySwitcher';
+import { MealPlannerPage } from '@/components/MealPlannerPage';
+import { RecipeFileImportPage } from '@/components/RecipeFileImportPage';
 import { RecipePage } from '@/components/RecipePage';
+import { RecipePrintPage } from '@/components/RecipePrintPage';
+import { ScanPage } from '@/components/ScanPage';
+import { ShelfPage } from '@/components/ShelfPage';
+import { ShoppingListPage } from '@/components/ShoppingListPage';
+import { ShoppingListsPage } from '@/components/ShoppingListsPage';
 import { TagsPage } from '@/components/TagsPage';
 import '@/index.css';
 
 export function App() {
   return (
     <Router>
+      <LibrarySwitcher />
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/recipe/:id" element={<RecipePage />} />
+        <Route path="/recipe/:id/print" element={<RecipePrintPage />} />
         <Route path="/tags" element={<TagsPage />} />
         <Route path="/dewey-admin" element={<DeweyAdminPage />} />
+        <Route path="/dewey-admin/import" element={<DeweyImportPage />} />
+        <Route path="/planner" element={<MealPlannerPage />} />
+        <Route path="/shopping-lists" element={<ShoppingListsPage />} />
+        <Route path="/shopping-lists/:id" element={<ShoppingListPage />} />
+        <Route path="/backups" element={<BackupsPage />} />
+        <Route path="/import-csv" element={<CSVImportPage />} />
+        <Route path="/import-recipes" element={<RecipeFileImportPage />} />
+        <Route path="/labels" element={<LabelsPage />} />
+        <Route path="/scan" element={<ScanPage />} />
+        <Route path="/shelf" element={<ShelfPage />} />
       </Routes>
     </Router>
   );
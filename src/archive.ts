@@ -0,0 +1,410 @@
+import { createSnapshot } from '@/backups';
+import { createTar, readTar } from '@/lib/tar';
+import type {
+  ArchiveImportMode,
+  ArchiveImportSummary,
+  ClassificationScheme,
+  CookLogEntry,
+  DeweyCategory,
+  MealPlanEntry,
+  Recipe,
+  ShoppingListItem,
+} from '@/types/recipe';
+import { RecipeDB } from './db';
+
+// library.json, the heart of an archive. Bump ARCHIVE_VERSION whenever its
+// shape changes; importers refuse archives newer than they understand.
+export const ARCHIVE_FORMAT = 'recipe-manager-library';
+export const ARCHIVE_VERSION = 2;
+
+interface ArchivedRecipe
+  extends Omit<
+    Recipe,
+    | 'classifications'
+    | 'createdAt'
+    | 'files'
+    | 'lastCookedAt'
+    | 'matches'
+    | 'scaling'
+    | 'timesCooked'
+  > {
+  createdAt: string;
+  // Codes in the schemes other than the primary one, by scheme name
+  classifications?: Record<string, string>;
+  cookLog: Array<Omit<CookLogEntry, 'id' | 'recipeId'>>;
+  // Attachments, stored in the archive under path
+  files: Array<{ filename: string; path: string }>;
+}
+
+interface LibraryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  // The primary Dewey tree
+  deweyCategories: Array<Omit<DeweyCategory, 'id' | 'schemeId'>>;
+  // The other classification schemes, with their trees; from version 2
+  classificationSchemes?: Array<
+    Omit<ClassificationScheme, 'id' | 'isPrimary'> & {
+      categories: Array<Omit<DeweyCategory, 'id' | 'schemeId'>>;
+    }
+  >;
+  // recipeId refers to an id in recipes, not in any database
+  mealPlan: Array<Omit<MealPlanEntry, 'id' | 'recipeName' | 'deweyDecimal'>>;
+  recipes: ArchivedRecipe[];
+  shoppingLists: Array<{
+    name: string;
+    items: Array<Omit<ShoppingListItem, 'id'>>;
+  }>;
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+const LIBRARY_FILE = 'library.json';
+
+/**
+ * Packs the active library into a gzipped tar archive: library.json with
+ * every recipe, its cook log, the classification schemes and their trees,
+ * the meal plan and shopping lists, plus each attachment as a file of its own
+ *
+ * @returns The archive's bytes
+ */
+export async function exportArchive(): Promise<Uint8Array<ArrayBuffer>> {
+  const attachments: Array<{ name: string; data: Uint8Array }> = [];
+  const recipes: ArchivedRecipe[] = [];
+  const schemes = await RecipeDB.getClassificationSchemes();
+  const schemeNames = new Map(schemes.map(({ id, name }) => [id, name]));
+
+  for (const { id } of await RecipeDB.getAllRecipes()) {
+    const recipe = await RecipeDB.getRecipeById(id);
+    if (!recipe) continue;
+
+    const files: ArchivedRecipe['files'] = [];
+    for (const file of recipe.files ?? []) {
+      const stored = await RecipeDB.getFileById(file.id);
+      if (!stored) continue;
+      const path = `files/${attachments.length + 1}`;
+      attachments.push({ data: new Uint8Array(stored.content), name: path });
+      files.push({ filename: stored.filename, path });
+    }
+
+    const cookLog = (await RecipeDB.getCookLog(id)).map(
+      ({ id: _id, recipeId: _recipeId, ...entry }) => entry,
+    );
+
+    recipes.push({
+      classifications: Object.fromEntries(
+        Object.entries(recipe.classifications ?? {}).map(([id, code]) => [
+          schemeNames.get(Number(id)) ?? id,
+          code,
+        ]),
+      ),
+      cookLog,
+      createdAt: recipe.createdAt.toISOString(),
+      deweyDecimal: recipe.deweyDecimal,
+      files,
+      id: recipe.id,
+      ingredients: recipe.ingredients?.map(
+        ({ id: _id, ...ingredient }) => ingredient,
+      ),
+      name: recipe.name,
+      notes: recipe.notes,
+      page: recipe.page,
+      rating: recipe.rating,
+      servings: recipe.servings,
+      steps: recipe.steps?.map(({ text }) => ({ text })),
+      tags: recipe.tags,
+      url: recipe.url,
+    });
+  }
+
+  const shoppingLists: LibraryArchive['shoppingLists'] = [];
+  for (const summary of await RecipeDB.getShoppingLists()) {
+    const list = await RecipeDB.getShoppingList(summary.id);
+    if (!list) continue;
+    shoppingLists.push({
+      items: list.items.map(({ id: _id, ...item }) => item),
+      name: list.name,
+    });
+  }
+
+  const classificationSchemes: LibraryArchive['classificationSchemes'] = [];
+  for (const { id, isPrimary, ...scheme } of schemes) {
+    if (isPrimary) continue;
+    classificationSchemes.push({
+      ...scheme,
+      categories: (await RecipeDB.getAllDeweyCategories(id)).map(
+        ({ id: _id, schemeId: _schemeId, ...category }) => category,
+      ),
+    });
+  }
+
+  const library: LibraryArchive = {
+    classificationSchemes,
+    deweyCategories: (await RecipeDB.getAllDeweyCategories()).map(
+      ({ id: _id, schemeId: _schemeId, ...category }) => category,
+    ),
+    exportedAt: new Date().toISOString(),
+    format: ARCHIVE_FORMAT,
+    mealPlan: (
+      await RecipeDB.getMealPlanEntries('0000-01-01', '9999-12-31')
+    ).map(({ date, note, recipeId, servings, slot }) => ({
+      date,
+      note,
+      recipeId,
+      servings,
+      slot,
+    })),
+    recipes,
+    shoppingLists,
+    version: ARCHIVE_VERSION,
+  };
+
+  return Bun.gzipSync(
+    createTar([
+      {
+        data: new TextEncoder().encode(JSON.stringify(library, null, 2)),
+        name: LIBRARY_FILE,
+      },
+      ...attachments,
+    ]),
+  );
+}
+
+// Unpacks an archive and checks it is one this build can import
+const readArchive = (
+  data: Uint8Array<ArrayBuffer>,
+): { library: LibraryArchive; files: Map<string, Uint8Array> } => {
+  let entries: ReturnType<typeof readTar>;
+  try {
+    entries = readTar(Bun.gunzipSync(data));
+  } catch (_error) {
+    throw new ArchiveError('The file is not a library archive (.tar.gz)');
+  }
+
+  const files = new Map(entries.map(({ name, data }) => [name, data]));
+  const libraryFile = files.get(LIBRARY_FILE);
+  if (!libraryFile) {
+    throw new ArchiveError(`The archive has no ${LIBRARY_FILE}`);
+  }
+
+  let library: LibraryArchive;
+  try {
+    library = JSON.parse(new TextDecoder().decode(libraryFile));
+  } catch (_error) {
+    throw new ArchiveError(`${LIBRARY_FILE} is not valid JSON`);
+  }
+  if (library?.format !== ARCHIVE_FORMAT || !Array.isArray(library.recipes)) {
+    throw new ArchiveError('The file is not a library archive');
+  }
+  if (!(library.version <= ARCHIVE_VERSION)) {
+    throw new ArchiveError(
+      `The archive is format version ${library.version}, but this build only reads up to version ${ARCHIVE_VERSION}`,
+    );
+  }
+  return { files, library };
+};
+
+// Recipes count as the same when name, page and classification all match
+const recipeKey = (recipe: Pick<Recipe, 'name' | 'page' | 'deweyDecimal'>) =>
+  JSON.stringify([
+    recipe.name.trim().toLowerCase(),
+    recipe.page?.trim() || '',
+    recipe.deweyDecimal || '',
+  ]);
+
+// Meal plan entries count as the same when they plan a recipe for one meal
+const planKey = ({
+  date,
+  slot,
+  recipeId,
+}: Pick<MealPlanEntry, 'date' | 'slot' | 'recipeId'>) =>
+  `${date}|${slot}|${recipeId}`;
+
+/**
+ * Loads an archive into the active library. Every id in the archive is
+ * remapped to a fresh one, so archives from any machine can be combined.
+ *
+ * - replace: empties the library first, after saving a snapshot of it
+ * - merge: keeps what is there; recipes and shopping lists already in the
+ *   library are skipped, and Dewey codes already defined keep their local
+ *   names
+ *
+ * Nothing is written unless the whole archive imports.
+ *
+ * @param data The archive's bytes
+ * @param mode How to combine the archive with the library
+ * @returns What was imported
+ * @throws ArchiveError if the archive can't be read or is missing a file
+ * @throws DeweyConflictError if a recipe's code is already in use
+ */
+export async function importArchive(
+  data: Uint8Array<ArrayBuffer>,
+  mode: ArchiveImportMode,
+): Promise<ArchiveImportSummary> {
+  const { library, files } = readArchive(data);
+  const summary: ArchiveImportSummary = {
+    cookLogEntries: 0,
+    deweyCategories: 0,
+    files: 0,
+    mealPlanEntries: 0,
+    recipes: 0,
+    renumbered: [],
+    shoppingLists: 0,
+    skippedRecipes: 0,
+  };
+
+  if (mode === 'replace') {
+    await createSnapshot(RecipeDB.getLibraries().active, 'pre-import');
+  }
+
+  // All in one transaction, so an archive that fails part way, on a Dewey
+  // code already in use or a missing file, leaves the library as it was
+  await RecipeDB.transaction(async () => {
+    if (mode === 'replace') {
+      await RecipeDB.clearLibrary();
+    }
+
+    const existingCodes = new Set(
+      (await RecipeDB.getAllDeweyCategories()).map(
+        ({ deweyCode }) => deweyCode,
+      ),
+    );
+    for (const category of library.deweyCategories ?? []) {
+      if (existingCodes.has(category.deweyCode)) continue;
+      await RecipeDB.addDeweyCategory(category);
+      existingCodes.add(category.deweyCode);
+      summary.deweyCategories++;
+    }
+
+    // Schemes are matched by name; one the library already has keeps its
+    // own settings
+    const schemeIds = new Map(
+      (await RecipeDB.getClassificationSchemes()).map(({ id, name }) => [
+        name,
+        id,
+      ]),
+    );
+    for (const { categories, ...scheme } of library.classificationSchemes ??
+      []) {
+      const schemeId =
+        schemeIds.get(scheme.name) ??
+        (await RecipeDB.addClassificationScheme(scheme)).id;
+      schemeIds.set(scheme.name, schemeId);
+      const schemeCodes = new Set(
+        (await RecipeDB.getAllDeweyCategories(schemeId)).map(
+          ({ deweyCode }) => deweyCode,
+        ),
+      );
+      for (const category of categories) {
+        if (schemeCodes.has(category.deweyCode)) continue;
+        await RecipeDB.addDeweyCategory({ ...category, schemeId });
+        schemeCodes.add(category.deweyCode);
+        summary.deweyCategories++;
+      }
+    }
+
+    const existingRecipes = new Map(
+      (await RecipeDB.getAllRecipes()).map((recipe) => [
+        recipeKey(recipe),
+        recipe.id,
+      ]),
+    );
+    // Archive recipe id -> id in this library
+    const recipeIds = new Map<number, number>();
+
+    for (const recipe of library.recipes) {
+      const existingId = existingRecipes.get(recipeKey(recipe));
+      if (existingId !== undefined) {
+        recipeIds.set(recipe.id, existingId);
+        summary.skippedRecipes++;
+        continue;
+      }
+
+      const createdAt = new Date(recipe.createdAt);
+      const classifications: Record<number, string> = {};
+      for (const [name, code] of Object.entries(recipe.classifications ?? {})) {
+        const schemeId = schemeIds.get(name);
+        if (schemeId !== undefined) {
+          classifications[schemeId] = code;
+        }
+      }
+      const added = await RecipeDB.addRecipe({
+        classifications,
+        createdAt: Number.isNaN(createdAt.getTime()) ? undefined : createdAt,
+        deweyDecimal: recipe.deweyDecimal,
+        ingredients: recipe.ingredients,
+        name: recipe.name,
+        notes: recipe.notes,
+        page: recipe.page,
+        rating: recipe.rating,
+        servings: recipe.servings,
+        steps: recipe.steps,
+        tags: recipe.tags ?? [],
+        url: recipe.url,
+      });
+      recipeIds.set(recipe.id, added.id);
+      existingRecipes.set(recipeKey(recipe), added.id);
+      summary.recipes++;
+      // A sequence code taken here is given the next free number
+      if (recipe.deweyDecimal && added.deweyDecimal !== recipe.deweyDecimal) {
+        summary.renumbered.push({
+          from: recipe.deweyDecimal,
+          name: recipe.name,
+          recipeId: added.id,
+          to: added.deweyDecimal ?? '',
+        });
+      }
+
+      for (const file of recipe.files ?? []) {
+        const content = files.get(file.path);
+        if (!content) {
+          throw new ArchiveError(`The archive is missing ${file.path}`);
+        }
+        await RecipeDB.addFile(added.id, file.filename, content.slice().buffer);
+        summary.files++;
+      }
+
+      for (const entry of recipe.cookLog ?? []) {
+        await RecipeDB.addCookLogEntry({ ...entry, recipeId: added.id });
+        summary.cookLogEntries++;
+      }
+    }
+
+    const existingPlan = new Set(
+      (await RecipeDB.getMealPlanEntries('0000-01-01', '9999-12-31')).map(
+        planKey,
+      ),
+    );
+    for (const entry of library.mealPlan ?? []) {
+      const recipeId = recipeIds.get(entry.recipeId);
+      if (recipeId === undefined) continue;
+      if (existingPlan.has(planKey({ ...entry, recipeId }))) continue;
+      await RecipeDB.addMealPlanEntry({ ...entry, recipeId });
+      summary.mealPlanEntries++;
+    }
+
+    const existingLists = new Set(
+      (await RecipeDB.getShoppingLists()).map(({ name }) => name),
+    );
+    for (const list of library.shoppingLists ?? []) {
+      if (existingLists.has(list.name)) continue;
+      const created = await RecipeDB.addShoppingList(list.name, []);
+      for (const { checked, ...item } of list.items) {
+        const added = await RecipeDB.addShoppingListItem(created.id, item);
+        if (checked) {
+          await RecipeDB.updateShoppingListItem(created.id, added.id, {
+            checked,
+          });
+        }
+      }
+      summary.shoppingLists++;
+    }
+  });
+
+  return summary;
+}
@@ -0,0 +1,248 @@
+import { Database } from 'bun:sqlite';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import type { SnapshotSettings } from '@/config';
+import { getSchemaStatus, LATEST_VERSION, migrateDatabase } from '@/migrations';
+import type { Snapshot, SnapshotKind } from '@/types/recipe';
+import { RecipeDB } from './db';
+
+export class RestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RestoreError';
+  }
+}
+
+let settings: SnapshotSettings | undefined;
+
+// Snapshots are named <library>--<kind>--<timestamp>.db, all in one directory
+const SNAPSHOT_NAME_PATTERN =
+  /^(.+)--(scheduled|manual|pre-restore|pre-import)--(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+const getSettings = (): SnapshotSettings => {
+  if (!settings) {
+    throw new Error('Snapshots have not been configured');
+  }
+  return settings;
+};
+
+const parseSnapshotName = (
+  name: string,
+): { libraryId: string; kind: SnapshotKind; createdAt: Date } | null => {
+  const match = name.match(SNAPSHOT_NAME_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, libraryId = '', kind, date, hours, minutes, seconds, millis] = match;
+  return {
+    createdAt: new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`),
+    kind: kind as SnapshotKind,
+    libraryId,
+  };
+};
+
+const toSnapshotName = (libraryId: string, kind: SnapshotKind): string =>
+  `${libraryId}--${kind}--${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+
+/**
+ * Checks that a file is a recipe database this build can open
+ *
+ * @param path Path of the candidate database file
+ * @returns An error message, or null if the file is usable
+ */
+const validateDatabaseFile = (path: string): string | null => {
+  let database: Database | undefined;
+  try {
+    database = new Database(path, { readonly: true });
+    const [check] = database
+      .query<{ quick_check: string }, []>('PRAGMA quick_check')
+      .all();
+    if (check?.quick_check !== 'ok') {
+      return 'The database is damaged';
+    }
+    const recipes = database
+      .query(
+        "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'recipes'",
+      )
+      .get();
+    if (!recipes) {
+      return 'The file is not a recipe database';
+    }
+  } catch (_error) {
+    return 'The file is not a SQLite database';
+  } finally {
+    database?.close();
+  }
+
+  const { currentVersion } = getSchemaStatus(path);
+  if (currentVersion > LATEST_VERSION) {
+    return 'The backup was made by a newer Recipe Manager';
+  }
+  return null;
+};
+
+export function configureSnapshots(snapshotSettings: SnapshotSettings): void {
+  settings = snapshotSettings;
+}
+
+/**
+ * Takes a consistent copy of a library's database while the server keeps
+ * running, and prunes old scheduled snapshots
+ *
+ * @param libraryId The library to copy
+ * @param kind Why the snapshot was taken; only scheduled ones are pruned
+ * @returns The new snapshot
+ */
+export async function createSnapshot(
+  libraryId: string,
+  kind: SnapshotKind,
+): Promise<Snapshot> {
+  const { directory, keep } = getSettings();
+  await mkdir(directory, { recursive: true });
+
+  const name = toSnapshotName(libraryId, kind);
+  await RecipeDB.snapshotLibrary(libraryId, join(directory, name));
+
+  if (kind === 'scheduled') {
+    const scheduled = (await listSnapshots(libraryId)).filter(
+      (snapshot) => snapshot.kind === 'scheduled',
+    );
+    for (const snapshot of scheduled.slice(keep)) {
+      await rm(join(directory, snapshot.name), { force: true });
+    }
+  }
+
+  const { size } = await stat(join(directory, name));
+  return { createdAt: new Date(), kind, name, size };
+}
+
+/**
+ * Lists a library's snapshots, newest first
+ *
+ * @param libraryId The library whose snapshots to list
+ * @returns The snapshots found in the snapshot directory
+ */
+export async function listSnapshots(libraryId: string): Promise<Snapshot[]> {
+  const { directory } = getSettings();
+  const names = await readdir(directory).catch(() => [] as string[]);
+
+  const snapshots: Snapshot[] = [];
+  for (const name of names) {
+    const parsed = parseSnapshotName(name);
+    if (parsed?.libraryId !== libraryId) {
+      continue;
+    }
+    const { size } = await stat(join(directory, name));
+    snapshots.push({
+      createdAt: parsed.createdAt,
+      kind: parsed.kind,
+      name,
+      size,
+    });
+  }
+  return snapshots.sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  );
+}
+
+/**
+ * Finds a snapshot's file, refusing names that belong to another library or
+ * point outside the snapshot directory
+ *
+ * @param libraryId The library the snapshot must belong to
+ * @param name The snapshot's file name
+ * @returns The file's path, or null if there is no such snapshot
+ */
+export async function getSnapshotPath(
+  libraryId: string,
+  name: string,
+): Promise<string | null> {
+  if (parseSnapshotName(name)?.libraryId !== libraryId) {
+    return null;
+  }
+  const path = join(getSettings().directory, name);
+  return (await Bun.file(path).exists()) ? path : null;
+}
+
+export async function deleteSnapshot(
+  libraryId: string,
+  name: string,
+): Promise<boolean> {
+  const path = await getSnapshotPath(libraryId, name);
+  if (!path) {
+    return false;
+  }
+  await rm(path, { force: true });
+  return true;
+}
+
+/**
+ * Replaces a library's database with a backup. The backup is checked and
+ * migrated first, and the current database is kept as a pre-restore
+ * snapshot, so a bad restore can itself be undone.
+ *
+ * @param libraryId The library to restore
+ * @param backup Contents of the backup database file
+ * @throws RestoreError if the backup can't be used
+ */
+export async function restoreDatabase(
+  libraryId: string,
+  backup: Blob,
+): Promise<void> {
+  const { directory } = getSettings();
+  await mkdir(directory, { recursive: true });
+
+  // Stage the upload next to the snapshots so the final swap is a rename
+  const stagingPath = join(directory, `.restore-${Date.now()}.db`);
+  await Bun.write(stagingPath, backup);
+  try {
+    const validationError = validateDatabaseFile(stagingPath);
+    if (validationError) {
+      throw new RestoreError(validationError);
+    }
+    migrateDatabase(stagingPath);
+
+    // Nothing reaches the library between the snapshot and the swap, so
+    // the snapshot holds every change the restore throws away
+    await RecipeDB.lockLibrary(libraryId, async () => {
+      await createSnapshot(libraryId, 'pre-restore');
+      await RecipeDB.replaceLibraryDatabase(libraryId, stagingPath);
+    });
+  } finally {
+    await rm(stagingPath, { force: true });
+  }
+}
+
+/**
+ * Snapshots each library whose newest scheduled snapshot is older than the
+ * configured interval, now and then once an hour, so restarts don't reset
+ * the schedule
+ *
+ * @param libraryIds The libraries to keep snapshotting
+ */
+export function startSnapshotSchedule(libraryIds: string[]): void {
+  const { intervalHours } = getSettings();
+  if (intervalHours <= 0) {
+    return;
+  }
+
+  const runDueSnapshots = async () => {
+    for (const libraryId of libraryIds) {
+      try {
+        const [latest] = (await listSnapshots(libraryId)).filter(
+          (snapshot) => snapshot.kind === 'scheduled',
+        );
+        const age = latest ? Date.now() - latest.createdAt.getTime() : Infinity;
+        if (age >= intervalHours * 60 * 60 * 1000) {
+          const snapshot = await createSnapshot(libraryId, 'scheduled');
+          console.log(`Saved snapshot ${snapshot.name}`);
+        }
+      } catch (error) {
+        console.error(`Failed to snapshot library ${libraryId}:`, error);
+      }
+    }
+  };
+
+  runDueSnapshots();
+  setInterval(runDueSnapshots, 60 * 60 * 1000);
+}
@@ -0,0 +1,134 @@
+import { CalendarPlus } from 'lucide-react';
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { startOfWeek, toDateKey } from '@/lib/dates';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { MealPlanEntry, MealSlot, Recipe } from '@/types/recipe';
+
+interface AddToMealPlanProps {
+  recipe: Recipe;
+}
+
+export function AddToMealPlan({ recipe }: AddToMealPlanProps) {
+  const { addMealPlanEntry } = useRecipeStore();
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [slot, setSlot] = useState<MealSlot>('dinner');
+  const [servings, setServings] = useState(recipe.servings?.toString() || '');
+  const [note, setNote] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [added, setAdded] = useState<MealPlanEntry | null>(null);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const entry = await addMealPlanEntry({
+        date,
+        note: note.trim() || undefined,
+        recipeId: recipe.id,
+        servings: parseFloat(servings) > 0 ? parseFloat(servings) : undefined,
+        slot,
+      });
+      setAdded(entry);
+      setNote('');
+    } catch (error) {
+      console.error('Failed to add to meal plan:', error);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        onClick={() => {
+          setOpen(!open);
+          setAdded(null);
+        }}
+        className="flex items-center gap-2"
+      >
+        <CalendarPlus className="w-4 h-4" />
+        Add to Plan
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-2 w-72 p-4 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div>
+            <Label htmlFor="plan-date">Date</Label>
+            <Input
+              id="plan-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="plan-slot">Meal</Label>
+            <select
+              id="plan-slot"
+              value={slot}
+              onChange={(e) => setSlot(e.target.value as MealSlot)}
+              className="mt-1 block w-full h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="breakfast">Breakfast</option>
+              <option value="lunch">Lunch</option>
+              <option value="dinner">Dinner</option>
+              <option value="snack">Snack</option>
+            </select>
+          </div>
+
+          <div>
+            <Label htmlFor="plan-servings">Servings</Label>
+            <Input
+              id="plan-servings"
+              type="number"
+              min="1"
+              step="any"
+              value={servings}
+              onChange={(e) => setServings(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="plan-note">Note</Label>
+            <Input
+              id="plan-note"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. office lunch"
+              className="mt-1"
+            />
+          </div>
+
+          <Button
+            onClick={handleAdd}
+            disabled={!date || adding}
+            className="w-full"
+          >
+            {adding ? 'Adding...' : 'Add'}
+          </Button>
+
+          {added && (
+            <p className="text-sm text-green-700">
+              Added.{' '}
+              <Link
+                to={`/planner?week=${startOfWeek(added.date)}`}
+                className="underline hover:text-green-900"
+              >
+                View week
+              </Link>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import {
+  ArrowLeft,
+  Camera,
+  Download,
+  FileArchive,
+  FileUp,
+  RotateCcw,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRecipeStore } from '@/store/recipeStore';
+import type {
+  ArchiveImportMode,
+  ArchiveImportSummary,
+  Snapshot,
+  SnapshotKind,
+} from '@/types/recipe';
+
+const KIND_LABELS: Record<SnapshotKind, string> = {
+  manual: 'Manual',
+  'pre-import': 'Before import',
+  'pre-restore': 'Before restore',
+  scheduled: 'Scheduled',
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const describeImport = (summary: ArchiveImportSummary): string => {
+  const parts = [
+    `${summary.recipes} recipes`,
+    `${summary.files} attachments`,
+    `${summary.deweyCategories} Dewey categories`,
+    `${summary.cookLogEntries} cook log entries`,
+    `${summary.mealPlanEntries} meal plan entries`,
+    `${summary.shoppingLists} shopping lists`,
+  ];
+  const skipped = summary.skippedRecipes
+    ? ` ${summary.skippedRecipes} recipes were already in the library.`
+    : '';
+  return `Imported ${parts.join(', ')}.${skipped}`;
+};
+
+export function BackupsPage() {
+  const navigate = useNavigate();
+  const {
+    snapshots,
+    error,
+    loadSnapshots,
+    createSnapshot,
+    deleteSnapshot,
+    downloadSnapshot,
+    downloadBackup,
+    restoreSnapshot,
+    restoreBackup,
+    exportLibrary,
+    importLibrary,
+    clearError,
+  } = useRecipeStore();
+
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ArchiveImportMode>('merge');
+  const [imported, setImported] = useState<ArchiveImportSummary | null>(null);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  // Runs one backup action at a time, reporting success below the buttons
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (error) {
+      console.error('Backup action failed:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestoreFromFile = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.db,.sqlite,.sqlite3';
+    fileInput.style.display = 'none';
+
+    fileInput.onchange = async (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
+      if (!file) return;
+      if (
+        !confirm(
+          `Replace this library with "${file.name}"? The current recipes are kept as a snapshot first.`,
+        )
+      ) {
+        return;
+      }
+      await run(() => restoreBackup(file), `Restored from ${file.name}`);
+    };
+
+    document.body.appendChild(fileInput);
+    fileInput.click();
+  };
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      await exportLibrary();
+    } catch (error) {
+      console.error('Export failed:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.tar.gz,.tgz,application/gzip';
+    fileInput.style.display = 'none';
+
+    fileInput.onchange = async (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
+      if (!file) return;
+      if (
+        importMode === 'replace' &&
+        !confirm(
+          `Replace everything in this library with "${file.name}"? The current recipes are kept as a snapshot first.`,
+        )
+      ) {
+        return;
+      }
+
+      setBusy(true);
+      setImported(null);
+      try {
+        setImported(await importLibrary(file, importMode));
+      } catch (error) {
+        console.error('Import failed:', error);
+      } finally {
+        setBusy(false);
+      }
+    };
+
+    document.body.appendChild(fileInput);
+    fileInput.click();
+  };
+
+  const handleRestore = (snapshot: Snapshot) => {
+    if (
+      !confirm(
+        `Replace this library with the snapshot from ${snapshot.createdAt.toLocaleString()}? The current recipes are kept as a snapshot first.`,
+      )
+    ) {
+      return;
+    }
+    run(
+      () => restoreSnapshot(snapshot.name),
+      `Restored the snapshot from ${snapshot.createdAt.toLocaleString()}`,
+    );
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    if (
+      !confirm(
+        `Delete the snapshot from ${snapshot.createdAt.toLocaleString()}?`,
+      )
+    ) {
+      return;
+    }
+    deleteSnapshot(snapshot.name).catch((error) =>
+      console.error('Failed to delete snapshot:', error),
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Backups</h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Back Up and Restore</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Backups are consistent copies of the whole library, attachments
+            included, taken while the server keeps running. Snapshots are also
+            taken on a schedule, and before every restore.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => run(downloadBackup)}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download Backup
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => run(createSnapshot, 'Snapshot saved')}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <Camera className="w-4 h-4" />
+              Take Snapshot
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleRestoreFromFile}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              Restore from File
+            </Button>
+          </div>
+          {message && <p className="text-sm text-green-700">{message}</p>}
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Move a Library</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            A library archive holds every recipe with its attachments, cook log,
+            Dewey categories, meal plan and shopping lists. Merging adds the
+            archive's recipes to this library, skipping ones already here;
+            replacing empties this library first.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <FileArchive className="w-4 h-4" />
+              Export Library
+            </Button>
+            <select
+              aria-label="Import mode"
+              value={importMode}
+              onChange={(e) =>
+                setImportMode(e.target.value as ArchiveImportMode)
+              }
+              className="h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="merge">Merge into this library</option>
+              <option value="replace">Replace this library</option>
+            </select>
+            <Button
+              variant="outline"
+              onClick={handleImport}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <FileUp className="w-4 h-4" />
+              Import Library
+            </Button>
+          </div>
+          {imported && (
+            <p className="text-sm text-green-700">{describeImport(imported)}</p>
+          )}
+          {imported && imported.renumbered.length > 0 && (
+            <div className="mt-2 p-3 bg-gray-50 rounded-lg text-sm">
+              <p className="mb-1 text-gray-700">
+                These codes were taken here, so relabel the recipes with their
+                new codes:
+              </p>
+              <ul className="space-y-1">
+                {imported.renumbered.map((renumbering) => (
+                  <li key={renumbering.recipeId}>
+                    <Link
+                      to={`/recipe/${renumbering.recipeId}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {renumbering.name}
+                    </Link>{' '}
+                    <span className="font-mono text-gray-600">
+                      {renumbering.from} → {renumbering.to}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        {snapshots.length === 0 ? (
+          <p className="text-gray-500">No snapshots yet.</p>
+        ) : (
+          snapshots.map((snapshot) => (
+            <div
+              key={snapshot.name}
+              className="flex flex-wrap items-center gap-4 p-4 bg-white border border-gray-200 rounded-lg"
+            >
+              <span className="flex-1 font-medium text-gray-900">
+                {snapshot.createdAt.toLocaleString()}
+              </span>
+              <span className="text-sm text-gray-500">
+                {KIND_LABELS[snapshot.kind]}
+              </span>
+              <span className="text-sm text-gray-500">
+                {formatSize(snapshot.size)}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  downloadSnapshot(snapshot.name).catch((error) =>
+                    console.error('Failed to download snapshot:', error),
+                  )
+                }
+                className="text-gray-400 hover:text-blue-600"
+                title="Download"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRestore(snapshot)}
+                disabled={busy}
+                className="text-gray-400 hover:text-blue-600"
+                title="Restore"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(snapshot)}
+                className="text-gray-400 hover:text-red-600"
+                title="Delete snapshot"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { ArrowLeft, FileUp, Upload, X } from 'lucide-react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRecipeStore } from '@/store/recipeStore';
+import type {
+  CSVColumnMapping,
+  CSVField,
+  CSVImportResult,
+  CSVImportRow,
+} from '@/types/recipe';
+
+const FIELD_LABELS: Record<CSVField, string> = {
+  createdAt: 'Created date',
+  deweyDecimal: 'Dewey code',
+  id: 'ID (update existing)',
+  name: 'Name',
+  notes: 'Notes',
+  page: 'Page',
+  rating: 'Rating',
+  servings: 'Servings',
+  tags: 'Tags',
+  url: 'URL',
+};
+
+const ACTION_STYLES: Record<CSVImportRow['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  update: 'bg-blue-100 text-blue-800',
+};
+
+const ACTION_LABELS: Record<CSVImportRow['action'], string> = {
+  create: 'Add',
+  error: 'Error',
+  update: 'Update',
+};
+
+export function CSVImportPage() {
+  const navigate = useNavigate();
+  const { uploadCSV, error, clearError } = useRecipeStore();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CSVImportResult | null>(null);
+  const [result, setResult] = useState<CSVImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Dry-runs the import so the preview reflects the file and mapping. If the
+  // server rejects a mapping, the last good preview stays up.
+  const loadPreview = async (csvFile: File, mapping?: CSVColumnMapping) => {
+    setBusy(true);
+    setResult(null);
+    clearError();
+    try {
+      setPreview(await uploadCSV(csvFile, { dryRun: true, mapping }));
+    } catch (error) {
+      console.error('Failed to preview CSV:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleChooseFile = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.csv';
+    fileInput.style.display = 'none';
+
+    fileInput.onchange = (event) => {
+      const chosen = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
+      if (!chosen) return;
+      setFile(chosen);
+      setPreview(null);
+      loadPreview(chosen);
+    };
+
+    document.body.appendChild(fileInput);
+    fileInput.click();
+  };
+
+  const handleMappingChange = (column: number, field: CSVField | null) => {
+    if (!file || !preview) return;
+    const mapping = preview.headers.map((_header, index) => {
+      if (index === column) return field;
+      // Each field can only come from one column
+      const current = preview.mapping[index] ?? null;
+      return current === field ? null : current;
+    });
+    loadPreview(file, mapping);
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setBusy(true);
+    try {
+      setResult(
+        await uploadCSV(file, { dryRun: false, mapping: preview.mapping }),
+      );
+      setPreview(null);
+      setFile(null);
+    } catch (error) {
+      console.error('Failed to import CSV:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shown = result ?? preview;
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Import CSV</h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{file ? file.name : 'Choose a File'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The first row must name the columns. Pick the recipe field each
+            column holds and check the preview; nothing is saved until you
+            import. Rows whose ID matches a recipe update it, and all other rows
+            add new recipes.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={handleChooseFile}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <FileUp className="w-4 h-4" />
+              {file ? 'Choose Another File' : 'Choose CSV File'}
+            </Button>
+            {preview && (
+              <Button
+                onClick={handleImport}
+                disabled={
+                  busy || preview.createdCount + preview.updatedCount === 0
+                }
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Import {preview.createdCount + preview.updatedCount} Recipes
+              </Button>
+            )}
+          </div>
+
+          {preview && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {preview.headers.map((header, column) => (
+                <label
+                  // biome-ignore lint/suspicious/noArrayIndexKey: columns are identified by position
+                  key={column}
+                  className="flex items-center justify-between gap-2 text-sm"
+                >
+                  <span className="truncate font-medium text-gray-700">
+                    {header || `Column ${column + 1}`}
+                  </span>
+                  <select
+                    value={preview.mapping[column] ?? ''}
+                    onChange={(e) =>
+                      handleMappingChange(
+                        column,
+                        (e.target.value as CSVField) || null,
+                      )
+                    }
+                    disabled={busy}
+                    className="h-8 px-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Don't import</option>
+                    {Object.entries(FIELD_LABELS).map(([field, label]) => (
+                      <option key={field} value={field}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {shown && (
+            <p
+              className={`text-sm ${result ? 'text-green-700' : 'text-gray-600'}`}
+            >
+              {result
+                ? `Added ${result.createdCount} and updated ${result.updatedCount} recipes`
+                : `${shown.createdCount} to add, ${shown.updatedCount} to update`}
+              {shown.errorCount > 0 &&
+                `; ${shown.errorCount} rows with errors ${result ? 'were' : 'will be'} skipped`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {shown && shown.rows.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Line</th>
+                <th className="px-4 py-2 font-medium">Action</th>
+                <th className="px-4 py-2 font-medium">Recipe</th>
+                <th className="px-4 py-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.rows.map((row) => (
+                <tr key={row.line} className="border-t border-gray-100">
+                  <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[row.action]}`}
+                    >
+                      {ACTION_LABELS[row.action]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">
+                    {row.recipeId && row.action !== 'error' ? (
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/recipe/${row.recipeId}`)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.name}
+                      </button>
+                    ) : (
+                      row.name
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">{row.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
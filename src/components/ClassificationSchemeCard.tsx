@@ -0,0 +1,261 @@
+import { Plus, Save, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { ClassificationScheme, DeweySequencePolicy } from '@/types/recipe';
+
+const POLICY_DESCRIPTIONS: Record<DeweySequencePolicy, string> = {
+  'fill-gaps':
+    "Use the lowest free number, so a deleted recipe's code goes to the next recipe filed there.",
+  'never-reuse':
+    "Never reissue a number, even after its recipe is deleted, so old labels can't point at a different recipe.",
+  next: 'Use one past the highest number on the shelf.',
+};
+
+type SchemeFormData = Omit<ClassificationScheme, 'id' | 'isPrimary'>;
+
+const NEW_SCHEME: SchemeFormData = {
+  codePattern: '',
+  name: '',
+  sequenceDigits: 3,
+  sequencePolicy: 'next',
+};
+
+interface ClassificationSchemeCardProps {
+  scheme?: ClassificationScheme;
+  onSelect: (schemeId: number) => void;
+}
+
+// Picks the scheme the admin page works on, and edits, adds and deletes schemes
+export function ClassificationSchemeCard({
+  scheme,
+  onSelect,
+}: ClassificationSchemeCardProps) {
+  const {
+    classificationSchemes,
+    addClassificationScheme,
+    updateClassificationScheme,
+    deleteClassificationScheme,
+  } = useRecipeStore();
+
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<SchemeFormData>(NEW_SCHEME);
+
+  useEffect(() => {
+    if (!scheme) return;
+    setAdding(false);
+    setFormData({
+      codePattern: scheme.codePattern ?? '',
+      name: scheme.name,
+      sequenceDigits: scheme.sequenceDigits,
+      sequencePolicy: scheme.sequencePolicy,
+    });
+  }, [scheme]);
+
+  const startAdding = () => {
+    setAdding(true);
+    setFormData(NEW_SCHEME);
+  };
+
+  const cancelAdding = () => {
+    setAdding(false);
+    if (scheme) {
+      setFormData({
+        codePattern: scheme.codePattern ?? '',
+        name: scheme.name,
+        sequenceDigits: scheme.sequenceDigits,
+        sequencePolicy: scheme.sequencePolicy,
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (adding) {
+        const newScheme = await addClassificationScheme(formData);
+        setAdding(false);
+        onSelect(newScheme.id);
+      } else if (scheme) {
+        await updateClassificationScheme(scheme.id, formData);
+      }
+    } catch {
+      // The store has already surfaced the error
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !scheme ||
+      !confirm(
+        `Delete the "${scheme.name}" scheme, its categories and every recipe's code in it? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await deleteClassificationScheme(scheme.id);
+      const primary = classificationSchemes.find(({ isPrimary }) => isPrimary);
+      if (primary) onSelect(primary.id);
+    } catch {
+      // The store has already surfaced the error
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6">
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold">Classification Scheme</h3>
+            <div className="flex gap-2">
+              <select
+                aria-label="Scheme"
+                value={scheme?.id ?? ''}
+                onChange={(e) => onSelect(Number(e.target.value))}
+                disabled={adding}
+                className="h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {classificationSchemes.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <Button
+                onClick={startAdding}
+                variant="outline"
+                size="sm"
+                disabled={adding}
+                className="flex items-center gap-1"
+              >
+                <Plus className="w-3 h-3" />
+                New Scheme
+              </Button>
+              {scheme && !scheme.isPrimary && !adding && (
+                <Button
+                  onClick={handleDelete}
+                  variant="destructive"
+                  size="sm"
+                  className="flex items-center gap-1"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  Delete Scheme
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="scheme-name">Name</Label>
+              <Input
+                id="scheme-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                placeholder="e.g., Cuisine"
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="scheme-pattern">Code format (optional)</Label>
+              <Input
+                id="scheme-pattern"
+                value={formData.codePattern}
+                onChange={(e) =>
+                  setFormData({ ...formData, codePattern: e.target.value })
+                }
+                placeholder="e.g., ^[A-Z]{3}(\.\d+)*$"
+                className="mt-1 font-mono"
+              />
+              <p className="mt-1 text-sm text-gray-600">
+                A regular expression every category code must match.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="scheme-digits">Sequence number digits</Label>
+              <Input
+                id="scheme-digits"
+                type="number"
+                min="1"
+                max="6"
+                value={formData.sequenceDigits}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    sequenceDigits: parseInt(e.target.value, 10) || 1,
+                  })
+                }
+                className="mt-1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sequence-policy">
+                Numbering recipes within a category
+              </Label>
+              <select
+                id="sequence-policy"
+                value={formData.sequencePolicy}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    sequencePolicy: e.target.value as DeweySequencePolicy,
+                  })
+                }
+                className="mt-1 block h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="next">Next after the highest</option>
+                <option value="fill-gaps">Fill gaps</option>
+                <option value="never-reuse">Never reuse</option>
+              </select>
+              <p className="mt-1 text-sm text-gray-600">
+                {POLICY_DESCRIPTIONS[formData.sequencePolicy]}
+              </p>
+            </div>
+          </div>
+
+          {scheme &&
+            !adding &&
+            formData.sequenceDigits !== scheme.sequenceDigits && (
+              <p className="text-sm text-amber-700">
+                Codes already given keep their number of digits.
+              </p>
+            )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSave}
+              disabled={saving || !formData.name.trim()}
+              className="flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {adding ? 'Add Scheme' : 'Save Scheme'}
+            </Button>
+            {adding && (
+              <Button
+                onClick={cancelAdding}
+                variant="outline"
+                className="flex items-center gap-2"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
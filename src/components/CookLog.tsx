@@ -0,0 +1,256 @@
+import { ChefHat, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StarRating } from '@/components/ui/star-rating';
+import { parseDateKey, toDateKey } from '@/lib/dates';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { Recipe } from '@/types/recipe';
+
+interface CookLogProps {
+  recipe: Recipe;
+  rating?: number;
+  onRatingChange: (rating: number) => void;
+}
+
+const formatCookDate = (date: string) =>
+  (parseDateKey(date) || new Date()).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+export function CookLog({ recipe, rating, onRatingChange }: CookLogProps) {
+  const {
+    cookLog,
+    loadCookLog,
+    addCookLogEntry,
+    updateCookLogEntry,
+    deleteCookLogEntry,
+  } = useRecipeStore();
+
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [attemptRating, setAttemptRating] = useState<number | undefined>();
+  const [servings, setServings] = useState('');
+  const [cookedBy, setCookedBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCookLog(recipe.id);
+  }, [loadCookLog, recipe.id]);
+
+  // The store holds the log of whichever recipe loaded last
+  const entries = cookLog.filter((entry) => entry.recipeId === recipe.id);
+  const rated = entries.filter((entry) => entry.rating);
+  const averageRating =
+    rated.length > 0
+      ? rated.reduce((sum, entry) => sum + (entry.rating || 0), 0) /
+        rated.length
+      : undefined;
+
+  const openForm = () => {
+    setDate(toDateKey(new Date()));
+    setAttemptRating(undefined);
+    setServings(recipe.servings?.toString() || '');
+    setCookedBy(entries[0]?.cookedBy || '');
+    setNotes('');
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await addCookLogEntry({
+        cookedBy: cookedBy.trim() || undefined,
+        date,
+        notes: notes.trim() || undefined,
+        rating: attemptRating,
+        recipeId: recipe.id,
+        servings: parseFloat(servings) > 0 ? parseFloat(servings) : undefined,
+      });
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to log cooking:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <Label>Cooking History</Label>
+          <p className="text-sm text-gray-600">
+            {entries.length === 0
+              ? 'Not cooked yet'
+              : `Cooked ${entries.length} ${entries.length === 1 ? 'time' : 'times'}`}
+          </p>
+        </div>
+        {!open && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={openForm}
+            className="flex items-center gap-2"
+          >
+            <ChefHat className="w-4 h-4" />
+            Mark as Cooked
+          </Button>
+        )}
+      </div>
+
+      {open && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="cooked-on">Date</Label>
+              <Input
+                id="cooked-on"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cooked-servings">Servings</Label>
+              <Input
+                id="cooked-servings"
+                type="number"
+                min="1"
+                step="any"
+                value={servings}
+                onChange={(e) => setServings(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cooked-by">Cooked by</Label>
+              <Input
+                id="cooked-by"
+                type="text"
+                value={cookedBy}
+                onChange={(e) => setCookedBy(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>How did it turn out?</Label>
+            <div className="mt-1">
+              <StarRating
+                rating={attemptRating}
+                onRatingChange={setAttemptRating}
+                size="md"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="cooked-notes">Notes</Label>
+            <textarea
+              id="cooked-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What would you change next time?"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={!date || saving}
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {averageRating !== undefined && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          Average of {rated.length} rated{' '}
+          {rated.length === 1 ? 'attempt' : 'attempts'}:{' '}
+          {averageRating.toFixed(1)}
+          {Math.round(averageRating) !== rating && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onRatingChange(Math.round(averageRating))}
+            >
+              Use as recipe rating
+            </Button>
+          )}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="relative pl-4">
+              <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-blue-500" />
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span className="font-medium text-gray-900">
+                  {formatCookDate(entry.date)}
+                </span>
+                <StarRating
+                  rating={entry.rating}
+                  onRatingChange={(newRating) =>
+                    updateCookLogEntry(entry.id, { rating: newRating }).catch(
+                      (error) =>
+                        console.error(
+                          'Failed to update cook log entry:',
+                          error,
+                        ),
+                    )
+                  }
+                  size="sm"
+                />
+                {entry.servings && (
+                  <span className="text-sm text-gray-600">
+                    {entry.servings} servings
+                  </span>
+                )}
+                {entry.cookedBy && (
+                  <span className="text-sm text-gray-600">
+                    by {entry.cookedBy}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() =>
+                    deleteCookLogEntry(entry.id).catch((error) =>
+                      console.error('Failed to remove cook log entry:', error),
+                    )
+                  }
+                  className="ml-auto text-gray-300 hover:text-red-600"
+                  title="Remove from history"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {entry.notes && (
+                <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">
+                  {entry.notes}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -4,19 +4,28 @@ import {
   ChevronRight,
   Edit2,
   Plus,
+  Printer,
   Save,
   Trash2,
   Upload,
   X,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ClassificationSchemeCard } from '@/components/ClassificationSchemeCard';
+import { DeweyIntegrityCard } from '@/components/DeweyIntegrityCard';
+import { DeweyNumberingCard } from '@/components/DeweyNumberingCard';
+import { ExportMenu } from '@/components/ExportMenu';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useRecipeStore } from '@/store/recipeStore';
-import type { DeweyCategory } from '@/types/recipe';
+import type {
+  DeweyCategory,
+  DeweyRenumbering,
+  DeweySubtreeMove,
+} from '@/types/recipe';
 
 interface CategoryFormData {
   deweyCode: string;
@@ -27,21 +36,34 @@ interface CategoryFormData {
 }
 
 export function DeweyAdminPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const {
-    deweyCategories: categories,
+    deweyCategories,
+    schemeCategories,
+    classificationSchemes,
     loading,
     error,
     loadDeweyCategories,
+    loadSchemeCategories,
+    loadClassificationSchemes,
     addDeweyCategory,
     updateDeweyCategory,
+    moveDeweySubtree,
     deleteDeweyCategory,
-    setError,
     clearError,
   } = useRecipeStore();
+  // Pages that link back here, such as the import page, can pick the scheme
+  const [schemeId, setSchemeId] = useState<number | null>(
+    Number(searchParams.get('scheme')) || null,
+  );
   const [editingCategory, setEditingCategory] = useState<DeweyCategory | null>(
     null,
   );
   const [showAddForm, setShowAddForm] = useState(false);
+  // What saving a new code or parent would do, shown before it's done
+  const [movePreview, setMovePreview] = useState<DeweySubtreeMove | null>(null);
+  const [relabelList, setRelabelList] = useState<DeweyRenumbering[]>([]);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(),
   );
@@ -53,9 +75,31 @@ export function DeweyAdminPage() {
     parentCode: '',
   });
 
+  // The tree being edited; the primary Dewey one until another is picked
+  const scheme =
+    classificationSchemes.find(({ id }) => id === schemeId) ??
+    classificationSchemes.find(({ isPrimary }) => isPrimary);
+  const isPrimaryScheme = !scheme || scheme.isPrimary;
+  const categories = isPrimaryScheme
+    ? deweyCategories
+    : (schemeCategories[scheme.id] ?? []);
+
   useEffect(() => {
     loadDeweyCategories();
-  }, [loadDeweyCategories]);
+    loadClassificationSchemes();
+  }, [loadDeweyCategories, loadClassificationSchemes]);
+
+  useEffect(() => {
+    if (scheme && !scheme.isPrimary) {
+      loadSchemeCategories(scheme.id);
+    }
+  }, [scheme, loadSchemeCategories]);
+
+  const handleSelectScheme = (id: number) => {
+    resetForm();
+    setExpandedCategories(new Set());
+    setSchemeId(id);
+  };
 
   const handleAddCategory = async () => {
     try {
@@ -65,6 +109,7 @@ export function DeweyAdminPage() {
         level: formData.level,
         name: formData.name,
         parentCode: formData.parentCode || undefined,
+        schemeId: scheme?.id,
       });
       setShowAddForm(false);
       resetForm();
@@ -76,6 +121,28 @@ export function DeweyAdminPage() {
   const handleUpdateCategory = async () => {
     if (!editingCategory) return;
 
+    const moving =
+      formData.deweyCode !== editingCategory.deweyCode ||
+      (formData.parentCode || undefined) !==
+        (editingCategory.parentCode || undefined);
+    if (moving && !movePreview) {
+      try {
+        setMovePreview(
+          await moveDeweySubtree(
+            editingCategory.id,
+            {
+              deweyCode: formData.deweyCode,
+              parentCode: formData.parentCode || undefined,
+            },
+            true,
+          ),
+        );
+      } catch (error) {
+        console.error('Failed to preview category move:', error);
+      }
+      return;
+    }
+
     try {
       await updateDeweyCategory(editingCategory.id, {
         deweyCode: formData.deweyCode,
@@ -84,10 +151,12 @@ export function DeweyAdminPage() {
         name: formData.name,
         parentCode: formData.parentCode || undefined,
       });
+      setRelabelList(movePreview?.recipes ?? []);
       setEditingCategory(null);
       resetForm();
     } catch (error) {
       console.error('Failed to update category:', error);
+      setMovePreview(null);
     }
   };
 
@@ -121,7 +190,7 @@ export function DeweyAdminPage() {
   const handleClearAllCategories = async () => {
     if (
       !confirm(
-        'Are you sure you want to delete ALL Dewey categories? This cannot be undone.',
+        `Are you sure you want to delete ALL ${scheme?.name ?? 'Dewey'} categories? This cannot be undone.`,
       )
     ) {
       return;
@@ -172,6 +241,7 @@ export function DeweyAdminPage() {
   };
 
   const resetForm = () => {
+    setMovePreview(null);
     setFormData({
       deweyCode: '',
       isActive: true,
@@ -183,170 +253,6 @@ export function DeweyAdminPage() {
     setEditingCategory(null);
   };
 
-  const processCSVFile = async (file: File) => {
-    try {
-      const text = await file.text();
-      const lines = text.split('\n').filter((line) => line.trim());
-
-      let importedCount = 0;
-      const errors: string[] = [];
-      const categoriesMap = new Map<string, DeweyCategory>(); // Track imported categories
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        try {
-          // Parse CSV line - each field contains "code name" format
-          const fields = line.split(',');
-
-          // Process each field that contains data
-          for (const field of fields) {
-            const trimmedField = field.trim();
-            if (!trimmedField) continue;
-
-            // Parse the field to extract code and name
-            const { code, name } = parseCodeAndName(trimmedField);
-            if (!code || !name) continue;
-
-            // Skip if already processed
-            if (categoriesMap.has(code)) continue;
-
-            // Check if category already exists in database
-            const existingCategory = categories.find(
-              (cat) => cat.deweyCode === code,
-            );
-            if (existingCategory) {
-              categoriesMap.set(code, existingCategory);
-              continue;
-            }
-
-            // Determine level based on dewey code length
-            const level = getDeweyLevel(code);
-
-            // Determine parent code based on dewey hierarchy
-            const parentCode = getDeweyParentCode(code);
-
-            // Create the category
-            const newCategory = await addDeweyCategory({
-              deweyCode: code,
-              isActive: true,
-              level,
-              name,
-              parentCode: parentCode || undefined,
-            });
-
-            categoriesMap.set(code, newCategory);
-            importedCount++;
-          }
-        } catch (error) {
-          console.error(`Error importing line: ${line}`, error);
-          errors.push(
-            `Line "${line.substring(0, 50)}...": ${error instanceof Error ? error.message : 'Unknown error'}`,
-          );
-        }
-      }
-
-      if (errors.length > 0) {
-        setError(
-          `Import completed with ${errors.length} errors. Imported ${importedCount} categories. First error: ${errors[0]}`,
-        );
-      } else {
-        alert(`Successfully imported ${importedCount} categories!`);
-      }
-    } catch (error) {
-      console.error('Failed to import CSV:', error);
-      setError(
-        `Failed to import CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      );
-    }
-  };
-
-  const handleLoadDefaults = async () => {
-    if (
-      !confirm(
-        'Load default Dewey categories? This will add standard categories to the database.',
-      )
-    ) {
-      return;
-    }
-
-    try {
-      clearError();
-
-      // Fetch the default CSV file from the server
-      const response = await fetch('/api/dewey/default-csv');
-      if (!response.ok) {
-        throw new Error('Failed to load default CSV file');
-      }
-
-      const text = await response.text();
-
-      // Create a File object from the text to reuse existing import logic
-      const file = new File([text], 'dewey.csv', { type: 'text/csv' });
-
-      // Use the existing CSV import logic
-      await processCSVFile(file);
-    } catch (error) {
-      console.error('Failed to load default categories:', error);
-      setError(
-        `Failed to load default categories: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      );
-    }
-  };
-
-  const handleImportFromCSV = async () => {
-    // Create file input element
-    const fileInput = document.createElement('input');
-    fileInput.type = 'file';
-    fileInput.accept = '.csv';
-    fileInput.style.display = 'none';
-
-    fileInput.onchange = async (event) => {
-      const file = (event.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-
-      if (
-        !confirm(
-          `Import categories from "${file.name}"? This will add new categories to the database.`,
-        )
-      ) {
-        return;
-      }
-
-      try {
-        await processCSVFile(file);
-      } finally {
-        document.body.removeChild(fileInput);
-      }
-    };
-
-    document.body.appendChild(fileInput);
-    fileInput.click();
-  };
-
-  // Helper function to parse CSV line handling quoted fields
-  const _parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-
-    result.push(current);
-    return result.map((field) => field.replace(/^"|"$/g, '').trim());
-  };
-
   // Helper function to calculate level based on dewey code format
   const _calculateLevel = (deweyCode: string): number => {
     if (!deweyCode) return 1;
@@ -364,64 +270,6 @@ export function DeweyAdminPage() {
     return deweyCode.substring(0, lastPeriodIndex);
   };
 
-  // Helper function to parse code and name from a field like "000 Chicken"
-  const parseCodeAndName = (field: string): { code: string; name: string } => {
-    if (!field.trim()) return { code: '', name: '' };
-
-    // Match pattern like "000 Chicken" or "000.0 Breast"
-    const match = field.match(/^([0-9.]+)\s+(.+)$/);
-    if (match?.[1] && match[2]) {
-      return { code: match[1].trim(), name: match[2].trim() };
-    }
-
-    // If no numeric code found, treat entire field as name
-    return { code: '', name: field.trim() };
-  };
-
-  // Helper function to determine level based on dewey code hierarchy
-  const getDeweyLevel = (deweyCode: string): number => {
-    if (!deweyCode) return 1;
-
-    // Handle decimal hierarchy
-    if (deweyCode.includes('.')) {
-      const parts = deweyCode.split('.');
-      const beforeDot = parts[0] || '';
-      const afterDot = parts[1] || '';
-
-      // Level = base level from digits + decimal level
-      // "000.0" = 3 (from "000") + 1 (from ".0") = 4
-      // "000.00" = 3 (from "000") + 2 (from ".00") = 5
-      return beforeDot.length + afterDot.length;
-    }
-
-    // Handle digit hierarchy: "0" = 1, "00" = 2, "000" = 3
-    return deweyCode.length;
-  };
-
-  // Helper function to get parent code based on dewey hierarchy
-  const getDeweyParentCode = (deweyCode: string): string | undefined => {
-    if (!deweyCode) return undefined;
-
-    // Handle decimal hierarchy: "000.00" -> "000.0" -> "000"
-    if (deweyCode.includes('.')) {
-      const lastDotIndex = deweyCode.lastIndexOf('.');
-      const beforeDot = deweyCode.substring(0, lastDotIndex);
-      const afterDot = deweyCode.substring(lastDotIndex + 1);
-
-      if (afterDot.length > 1) {
-        // Remove last digit after decimal: "000.00" -> "000.0"
-        return `${beforeDot}.${afterDot.slice(0, -1)}`;
-      } else {
-        // Remove decimal part: "000.0" -> "000"
-        return beforeDot;
-      }
-    }
-
-    // Handle digit hierarchy: "000" -> "00" -> "0" -> undefined
-    if (deweyCode.length <= 1) return undefined;
-    return deweyCode.slice(0, -1);
-  };
-
   const getCategoryTree = () => {
     const rootCategories = categories.filter((cat) => !cat.parentCode);
     return rootCategories.sort((a, b) =>
@@ -571,6 +419,15 @@ export function DeweyAdminPage() {
             </div>
 
             <div className="flex items-center gap-2">
+              {isPrimaryScheme && (
+                <ExportMenu
+                  size="sm"
+                  options={{
+                    deweyCode: category.deweyCode,
+                    title: `${category.deweyCode} ${category.name}`,
+                  }}
+                />
+              )}
               <Button
                 onClick={() => startAdding(category.deweyCode)}
                 size="sm"
@@ -642,7 +499,8 @@ export function DeweyAdminPage() {
               Dewey Decimal System Administration
             </h1>
             <p className="text-gray-600">
-              Manage the Dewey decimal classification categories
+              Manage the Dewey decimal categories and other classification
+              schemes
             </p>
           </div>
 
@@ -655,13 +513,22 @@ export function DeweyAdminPage() {
               Add Root Category
             </Button>
             <Button
-              onClick={handleImportFromCSV}
+              onClick={() =>
+                navigate(
+                  isPrimaryScheme
+                    ? '/dewey-admin/import'
+                    : `/dewey-admin/import?scheme=${scheme.id}`,
+                )
+              }
               variant="outline"
               className="flex items-center gap-2"
             >
               <Upload className="w-4 h-4" />
               Import from CSV
             </Button>
+            {isPrimaryScheme && (
+              <ExportMenu options={{ title: 'Recipes by Dewey Code' }} />
+            )}
             <Button
               onClick={handleClearAllCategories}
               variant="destructive"
@@ -702,9 +569,10 @@ export function DeweyAdminPage() {
                   <Input
                     id="dewey-code"
                     value={formData.deweyCode}
-                    onChange={(e) =>
-                      setFormData({ ...formData, deweyCode: e.target.value })
-                    }
+                    onChange={(e) => {
+                      setMovePreview(null);
+                      setFormData({ ...formData, deweyCode: e.target.value });
+                    }}
                     placeholder="e.g., 000.00"
                     className="mt-1"
                   />
@@ -746,9 +614,10 @@ export function DeweyAdminPage() {
                   <Input
                     id="parent-code"
                     value={formData.parentCode}
-                    onChange={(e) =>
-                      setFormData({ ...formData, parentCode: e.target.value })
-                    }
+                    onChange={(e) => {
+                      setMovePreview(null);
+                      setFormData({ ...formData, parentCode: e.target.value });
+                    }}
                     placeholder="e.g., 000"
                     className="mt-1"
                   />
@@ -770,6 +639,39 @@ export function DeweyAdminPage() {
                 </Label>
               </div>
 
+              {movePreview && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm space-y-2">
+                  <p className="text-amber-800">
+                    This renumbers {movePreview.categories.length}{' '}
+                    {movePreview.categories.length === 1
+                      ? 'category'
+                      : 'categories'}{' '}
+                    and {movePreview.recipes.length}{' '}
+                    {movePreview.recipes.length === 1 ? 'recipe' : 'recipes'}
+                    {movePreview.retaggedRecipes > 0 &&
+                      `, and updates the category tags of ${movePreview.retaggedRecipes}`}
+                    .
+                  </p>
+                  {movePreview.recipes.length > 0 && (
+                    <>
+                      <p className="text-gray-700">
+                        These recipes' labels will need replacing:
+                      </p>
+                      <ul className="max-h-48 overflow-y-auto space-y-1">
+                        {movePreview.recipes.map((recipe) => (
+                          <li key={recipe.recipeId}>
+                            {recipe.name}{' '}
+                            <span className="font-mono text-gray-600">
+                              {recipe.from} → {recipe.to}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button
                   onClick={
@@ -778,7 +680,9 @@ export function DeweyAdminPage() {
                   className="flex items-center gap-2"
                 >
                   <Save className="w-4 h-4" />
-                  {editingCategory ? 'Update' : 'Add'} Category
+                  {movePreview
+                    ? 'Move and Renumber'
+                    : `${editingCategory ? 'Update' : 'Add'} Category`}
                 </Button>
                 <Button
                   onClick={resetForm}
@@ -794,6 +698,64 @@ export function DeweyAdminPage() {
         </Card>
       )}
 
+      {relabelList.length > 0 && (
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">Labels to Replace</h3>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() =>
+                      navigate(
+                        `/labels?ids=${relabelList.map((recipe) => recipe.recipeId).join(',')}`,
+                      )
+                    }
+                    size="sm"
+                    className="flex items-center gap-1"
+                  >
+                    <Printer className="w-3 h-3" />
+                    Print New Labels
+                  </Button>
+                  <Button
+                    onClick={() => setRelabelList([])}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Done
+                  </Button>
+                </div>
+              </div>
+              <ul className="text-sm space-y-1">
+                {relabelList.map((recipe) => (
+                  <li key={recipe.recipeId}>
+                    <Link
+                      to={`/recipe/${recipe.recipeId}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {recipe.name}
+                    </Link>{' '}
+                    <span className="font-mono text-gray-600">
+                      {recipe.from} → {recipe.to}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ClassificationSchemeCard scheme={scheme} onSelect={handleSelectScheme} />
+
+      {isPrimaryScheme && (
+        <>
+          <DeweyNumberingCard />
+
+          <DeweyIntegrityCard />
+        </>
+      )}
+
       <Card>
         <CardContent className="pt-6">
           <div className="space-y-4">
@@ -801,7 +763,14 @@ export function DeweyAdminPage() {
               Category Tree ({categories.length} total categories)
             </h3>
 
-            {categories.length === 0 ? (
+            {categories.length === 0 && !isPrimaryScheme ? (
+              <div className="text-center py-8 text-gray-500">
+                <p>
+                  No categories yet. Import them from CSV or add a root category
+                  to start the tree.
+                </p>
+              </div>
+            ) : categories.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <p className="mb-4">
                   No categories found. Import from CSV or add categories
@@ -809,14 +778,14 @@ export function DeweyAdminPage() {
                 </p>
                 <div className="flex justify-center gap-2">
                   <Button
-                    onClick={handleLoadDefaults}
+                    onClick={() => navigate('/dewey-admin/import?defaults=1')}
                     className="flex items-center gap-2"
                   >
                     <Upload className="w-4 h-4" />
                     Load Default Categories
                   </Button>
                   <Button
-                    onClick={handleImportFromCSV}
+                    onClick={() => navigate('/dewey-admin/import')}
                     variant="outline"
                     className="flex items-center gap-2"
                   >
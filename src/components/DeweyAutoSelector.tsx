@@ -1,28 +1,63 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { DeweySelector } from '@/components/DeweySelector';
 import { useRecipeStore } from '@/store/recipeStore';
+import type { ClassificationScheme } from '@/types/recipe';
 
 interface DeweyAutoSelectorProps {
   onSelect: (deweyCode: string) => void;
   selectedCode?: string;
+  // Picks from this scheme's tree instead of the Dewey one
+  scheme?: ClassificationScheme;
 }
 
 export function DeweyAutoSelector({
   onSelect,
   selectedCode,
+  scheme,
 }: DeweyAutoSelectorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  // The sequence code held for this form until its recipe is saved
+  const reservedCode = useRef<string | null>(null);
 
   const {
-    deweyCategories,
+    deweyCategories: primaryCategories,
+    schemeCategories,
     loadDeweyCategories,
-    getNextDeweySequence,
+    loadSchemeCategories,
+    reserveDeweyCode,
+    releaseDeweyReservation,
     deweyCategoriesLoading,
   } = useRecipeStore();
 
+  const otherSchemeId = scheme && !scheme.isPrimary ? scheme.id : undefined;
+  const deweyCategories =
+    otherSchemeId === undefined
+      ? primaryCategories
+      : (schemeCategories[otherSchemeId] ?? []);
+
   useEffect(() => {
-    loadDeweyCategories();
-  }, [loadDeweyCategories]);
+    if (otherSchemeId === undefined) {
+      loadDeweyCategories();
+    } else {
+      loadSchemeCategories(otherSchemeId);
+    }
+  }, [otherSchemeId, loadDeweyCategories, loadSchemeCategories]);
+
+  useEffect(
+    () => () => {
+      if (reservedCode.current) {
+        releaseDeweyReservation(reservedCode.current, otherSchemeId);
+      }
+    },
+    [releaseDeweyReservation, otherSchemeId],
+  );
+
+  const releaseReservedCode = () => {
+    if (reservedCode.current) {
+      releaseDeweyReservation(reservedCode.current, otherSchemeId);
+      reservedCode.current = null;
+    }
+  };
 
   const handleBaseCodeSelect = async (deweyCode: string) => {
     // Check if this is a complete path that can generate a sequence
@@ -36,21 +71,28 @@ export function DeweyAutoSelector({
         (cat) => cat.parentCode === deweyCode,
       );
 
-      if (!hasChildren && selectedCategory.level >= 4) {
-        // This is a leaf node and at level 4 or higher, we can generate a sequence
+      // Dewey leaves take a sequence from level 4; other schemes' at any level
+      if (
+        !hasChildren &&
+        (otherSchemeId !== undefined || selectedCategory.level >= 4)
+      ) {
         try {
           setIsGenerating(true);
-          const sequence = await getNextDeweySequence(deweyCode);
-          onSelect(sequence);
+          const reservation = await reserveDeweyCode(deweyCode, otherSchemeId);
+          releaseReservedCode();
+          reservedCode.current = reservation.code;
+          onSelect(reservation.code);
         } catch (error) {
-          console.error('Failed to get next sequence:', error);
+          console.error('Failed to reserve next sequence:', error);
           // Fallback to base code if sequence generation fails
+          releaseReservedCode();
           onSelect(deweyCode);
         } finally {
           setIsGenerating(false);
         }
       } else {
         // No sequence generation, just use the base code
+        releaseReservedCode();
         onSelect(deweyCode);
       }
     }
@@ -60,7 +102,7 @@ export function DeweyAutoSelector({
     return (
       <div className="w-full p-4">
         <div className="text-center text-gray-500">
-          Loading Dewey categories...
+          Loading {scheme?.name ?? 'Dewey'} categories...
         </div>
       </div>
     );
@@ -73,6 +115,7 @@ export function DeweyAutoSelector({
         selectedCode={selectedCode}
         deweyCategories={deweyCategories}
         isLoading={deweyCategoriesLoading}
+        schemeName={otherSchemeId === undefined ? undefined : scheme?.name}
       />
 
       {isGenerating && (
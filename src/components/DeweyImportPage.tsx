@@ -0,0 +1,320 @@
+import { ArrowLeft, FileUp, Upload, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { useRecipeStore } from '@/store/recipeStore';
+import type {
+  DeweyImportChange,
+  DeweyImportEntry,
+  DeweyImportResult,
+  DeweyImportStrategy,
+} from '@/types/recipe';
+
+const STRATEGY_DESCRIPTIONS: Record<DeweyImportStrategy, string> = {
+  merge:
+    'Add new categories and update the names and parents of existing ones to match the file.',
+  replace:
+    'Make the categories match the file: update existing ones and delete any the file leaves out, except those recipes are still filed under.',
+  skip: 'Add new categories and leave existing ones as they are.',
+};
+
+const ACTION_STYLES: Record<DeweyImportEntry['action'], string> = {
+  add: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  remove: 'bg-amber-100 text-amber-800',
+  skip: 'bg-gray-100 text-gray-700',
+  update: 'bg-blue-100 text-blue-800',
+};
+
+const ACTION_LABELS: Record<DeweyImportEntry['action'], string> = {
+  add: 'Add',
+  error: 'Error',
+  remove: 'Delete',
+  skip: 'Keep',
+  update: 'Update',
+};
+
+const FIELD_LABELS: Record<DeweyImportChange['field'], string> = {
+  level: 'level',
+  name: 'name',
+  parentCode: 'parent',
+};
+
+const describeChange = (change: DeweyImportChange) =>
+  `${FIELD_LABELS[change.field]}: ${change.from ?? 'none'} → ${change.to ?? 'none'}`;
+
+export function DeweyImportPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const {
+    classificationSchemes,
+    importDeweyCategories,
+    loadClassificationSchemes,
+    error,
+    clearError,
+  } = useRecipeStore();
+  // Another scheme's tree, when the Dewey page sends one
+  const schemeId = Number(searchParams.get('scheme')) || undefined;
+  const scheme = classificationSchemes.find(({ id }) => id === schemeId);
+
+  const [file, setFile] = useState<File | null>(null);
+  const [strategy, setStrategy] = useState<DeweyImportStrategy>('merge');
+  const [preview, setPreview] = useState<DeweyImportResult | null>(null);
+  const [result, setResult] = useState<DeweyImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Dry-runs the import so the preview reflects the file and strategy
+  const loadPreview = useCallback(
+    async (csvFile: File, importStrategy: DeweyImportStrategy) => {
+      setBusy(true);
+      setResult(null);
+      clearError();
+      try {
+        setPreview(
+          await importDeweyCategories(
+            csvFile,
+            { dryRun: true, strategy: importStrategy },
+            schemeId,
+          ),
+        );
+      } catch (error) {
+        console.error('Failed to preview Dewey import:', error);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [importDeweyCategories, clearError, schemeId],
+  );
+
+  useEffect(() => {
+    if (schemeId) loadClassificationSchemes();
+  }, [schemeId, loadClassificationSchemes]);
+
+  const loadDefaults = searchParams.get('defaults') === '1';
+  useEffect(() => {
+    if (!loadDefaults) return;
+    fetch('/api/dewey/default-csv')
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to load default categories');
+        return response.text();
+      })
+      .then((text) => {
+        const defaults = new File([text], 'Default categories', {
+          type: 'text/csv',
+        });
+        setFile(defaults);
+        loadPreview(defaults, 'merge');
+      })
+      .catch((error) => console.error(error));
+  }, [loadDefaults, loadPreview]);
+
+  const handleChooseFile = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.csv';
+    fileInput.style.display = 'none';
+
+    fileInput.onchange = (event) => {
+      const chosen = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
+      if (!chosen) return;
+      setFile(chosen);
+      setPreview(null);
+      loadPreview(chosen, strategy);
+    };
+
+    document.body.appendChild(fileInput);
+    fileInput.click();
+  };
+
+  const handleStrategyChange = (next: DeweyImportStrategy) => {
+    setStrategy(next);
+    if (file) loadPreview(file, next);
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    if (
+      preview.removedCount > 0 &&
+      !confirm(`Delete ${preview.removedCount} categories the file leaves out?`)
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      setResult(
+        await importDeweyCategories(
+          file,
+          { dryRun: false, strategy },
+          schemeId,
+        ),
+      );
+      setPreview(null);
+      setFile(null);
+    } catch (error) {
+      console.error('Failed to import Dewey categories:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const shown = result ?? preview;
+  const changeCount = preview
+    ? preview.addedCount + preview.updatedCount + preview.removedCount
+    : 0;
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() =>
+            navigate(
+              schemeId ? `/dewey-admin?scheme=${schemeId}` : '/dewey-admin',
+            )
+          }
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">
+          Import {scheme && !scheme.isPrimary ? scheme.name : 'Dewey'}{' '}
+          Categories
+        </h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{file ? file.name : 'Choose a File'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Put one category on each row, as its code and name ("641.5 Soups"),
+            one column further right than the category it belongs under. Codes
+            are checked against their place in the tree; nothing is saved until
+            you import.
+          </p>
+
+          <div>
+            <Label htmlFor="import-strategy">Existing categories</Label>
+            <select
+              id="import-strategy"
+              value={strategy}
+              onChange={(e) =>
+                handleStrategyChange(e.target.value as DeweyImportStrategy)
+              }
+              disabled={busy}
+              className="mt-1 block h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="merge">Merge</option>
+              <option value="skip">Keep</option>
+              <option value="replace">Replace</option>
+            </select>
+            <p className="mt-1 text-sm text-gray-600">
+              {STRATEGY_DESCRIPTIONS[strategy]}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={handleChooseFile}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <FileUp className="w-4 h-4" />
+              {file ? 'Choose Another File' : 'Choose CSV File'}
+            </Button>
+            {preview && (
+              <Button
+                onClick={handleImport}
+                disabled={busy || changeCount === 0}
+                className="flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Import {changeCount} Changes
+              </Button>
+            )}
+          </div>
+
+          {shown && (
+            <p
+              className={`text-sm ${result ? 'text-green-700' : 'text-gray-600'}`}
+            >
+              {result
+                ? `Added ${result.addedCount}, updated ${result.updatedCount} and deleted ${result.removedCount} categories`
+                : `${shown.addedCount} to add, ${shown.updatedCount} to update, ${shown.removedCount} to delete`}
+              {`; ${shown.unchangedCount} already match`}
+              {shown.skippedCount > 0 &&
+                `; ${shown.skippedCount} differ but ${result ? 'were' : 'will be'} kept`}
+              {shown.errorCount > 0 &&
+                `; ${shown.errorCount} rows with errors ${result ? 'were' : 'will be'} skipped`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {shown && shown.entries.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Line</th>
+                <th className="px-4 py-2 font-medium">Action</th>
+                <th className="px-4 py-2 font-medium">Category</th>
+                <th className="px-4 py-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.entries.map((entry) => (
+                <tr
+                  key={`${entry.line ?? 'existing'}-${entry.deweyCode}`}
+                  className="border-t border-gray-100"
+                >
+                  <td className="px-4 py-2 text-gray-500">{entry.line}</td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_STYLES[entry.action]}`}
+                    >
+                      {ACTION_LABELS[entry.action]}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">
+                    {entry.deweyCode && (
+                      <span className="font-mono mr-2">{entry.deweyCode}</span>
+                    )}
+                    {entry.name}
+                    {entry.writtenCode && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        (written as {entry.writtenCode})
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">
+                    {entry.changes?.map((change) => (
+                      <div key={change.field}>{describeChange(change)}</div>
+                    ))}
+                    {entry.message}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { Printer, ShieldCheck, Wrench } from 'lucide-react';
+import { type ReactNode, useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useRecipeStore } from '@/store/recipeStore';
+import type {
+  DeweyRecipeIssue,
+  DeweyRepairFix,
+  DeweyRepairResult,
+  DeweyValidationReport,
+} from '@/types/recipe';
+
+const FIX_LABELS: Record<DeweyRepairFix, string> = {
+  'activate-categories': 'Reactivate these categories',
+  'fix-levels': 'Set levels from the codes',
+  'reparent-orphans':
+    'Move under the nearest existing category their code implies',
+  'restore-missing-categories':
+    'Recreate these categories, named after their codes',
+  'shelve-by-tags':
+    'File under the most specific category named by one of their tags',
+};
+
+interface IssueSectionProps {
+  title: string;
+  count: number;
+  fix?: DeweyRepairFix;
+  selected: Set<DeweyRepairFix>;
+  onToggle: (fix: DeweyRepairFix) => void;
+  children: ReactNode;
+}
+
+function IssueSection({
+  title,
+  count,
+  fix,
+  selected,
+  onToggle,
+  children,
+}: IssueSectionProps) {
+  if (count === 0) return null;
+
+  return (
+    <div className="border-t pt-3 space-y-2">
+      <h4 className="font-medium">
+        {title} ({count})
+      </h4>
+      <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">{children}</ul>
+      {fix ? (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.has(fix)}
+            onChange={() => onToggle(fix)}
+            className="w-4 h-4"
+          />
+          {FIX_LABELS[fix]}
+        </label>
+      ) : (
+        <p className="text-sm text-gray-500">Rename or delete these by hand.</p>
+      )}
+    </div>
+  );
+}
+
+function RecipeIssueItem({ recipe }: { recipe: DeweyRecipeIssue }) {
+  return (
+    <li>
+      <Link
+        to={`/recipe/${recipe.id}`}
+        className="text-blue-600 hover:underline"
+      >
+        {recipe.name}
+      </Link>
+      {recipe.deweyDecimal && (
+        <span className="ml-2 font-mono text-gray-600">
+          {recipe.deweyDecimal}
+        </span>
+      )}
+    </li>
+  );
+}
+
+export function DeweyIntegrityCard() {
+  const navigate = useNavigate();
+  const { validateDewey, repairDewey } = useRecipeStore();
+
+  const [report, setReport] = useState<DeweyValidationReport | null>(null);
+  const [selected, setSelected] = useState<Set<DeweyRepairFix>>(new Set());
+  const [result, setResult] = useState<DeweyRepairResult | null>(null);
+  const [repairing, setRepairing] = useState(false);
+
+  const check = useCallback(async () => {
+    try {
+      setReport(await validateDewey());
+      setSelected(new Set());
+    } catch {
+      // The store has already surfaced the error
+    }
+  }, [validateDewey]);
+
+  useEffect(() => {
+    check();
+  }, [check]);
+
+  const toggleFix = (fix: DeweyRepairFix) => {
+    const next = new Set(selected);
+    if (next.has(fix)) {
+      next.delete(fix);
+    } else {
+      next.add(fix);
+    }
+    setSelected(next);
+  };
+
+  const handleRepair = async () => {
+    setRepairing(true);
+    try {
+      const repaired = await repairDewey([...selected]);
+      setResult(repaired);
+      setReport(repaired.report);
+      setSelected(new Set());
+    } catch {
+      // The store has already surfaced the error
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const problemCount = report
+    ? report.orphans.length +
+      report.levelMismatches.length +
+      report.duplicateNames.length +
+      report.missingCategories.length +
+      report.inactiveCategories.length
+    : 0;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6">
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold">Integrity Check</h3>
+            <Button
+              onClick={check}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-1"
+            >
+              <ShieldCheck className="w-3 h-3" />
+              Check again
+            </Button>
+          </div>
+
+          {report && problemCount === 0 && (
+            <p className="text-sm text-gray-600">
+              The category tree is consistent and every shelved recipe is filed
+              under an active category.
+            </p>
+          )}
+
+          {result && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm space-y-1">
+              {Object.entries(result.fixed).map(([fix, count]) => (
+                <p key={fix} className="text-green-800">
+                  {FIX_LABELS[fix as DeweyRepairFix]}: {count} fixed
+                </p>
+              ))}
+              {result.shelved.length > 0 && (
+                <Button
+                  onClick={() =>
+                    navigate(
+                      `/labels?ids=${result.shelved.map((recipe) => recipe.recipeId).join(',')}`,
+                    )
+                  }
+                  size="sm"
+                  className="flex items-center gap-1"
+                >
+                  <Printer className="w-3 h-3" />
+                  Print Labels for Newly Shelved Recipes
+                </Button>
+              )}
+            </div>
+          )}
+
+          {report && (
+            <>
+              <IssueSection
+                title="Categories whose parent doesn't exist"
+                count={report.orphans.length}
+                fix="reparent-orphans"
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.orphans.map((category) => (
+                  <li key={category.id}>
+                    <span className="font-mono">{category.deweyCode}</span>{' '}
+                    {category.name}{' '}
+                    <span className="text-gray-500">
+                      (parent {category.parentCode})
+                    </span>
+                  </li>
+                ))}
+              </IssueSection>
+
+              <IssueSection
+                title="Levels that don't match their codes"
+                count={report.levelMismatches.length}
+                fix="fix-levels"
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.levelMismatches.map((category) => (
+                  <li key={category.id}>
+                    <span className="font-mono">{category.deweyCode}</span>{' '}
+                    {category.name}{' '}
+                    <span className="text-gray-500">
+                      {`(level ${category.level}, expected ${category.expectedLevel})`}
+                    </span>
+                  </li>
+                ))}
+              </IssueSection>
+
+              <IssueSection
+                title="Names used twice under one parent"
+                count={report.duplicateNames.length}
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.duplicateNames.map((duplicate) => (
+                  <li key={`${duplicate.parentCode}-${duplicate.name}`}>
+                    {duplicate.name}:{' '}
+                    <span className="font-mono">
+                      {duplicate.categories
+                        .map((category) => category.deweyCode)
+                        .join(', ')}
+                    </span>
+                  </li>
+                ))}
+              </IssueSection>
+
+              <IssueSection
+                title="Recipes filed under missing categories"
+                count={report.missingCategories.length}
+                fix="restore-missing-categories"
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.missingCategories.map((missing) => (
+                  <li key={missing.deweyCode}>
+                    <span className="font-mono">{missing.deweyCode}</span>:{' '}
+                    {missing.recipes.map((recipe) => recipe.name).join(', ')}
+                  </li>
+                ))}
+              </IssueSection>
+
+              <IssueSection
+                title="Recipes filed under inactive categories"
+                count={report.inactiveCategories.length}
+                fix="activate-categories"
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.inactiveCategories.map(({ category, recipes }) => (
+                  <li key={category.id}>
+                    <span className="font-mono">{category.deweyCode}</span>{' '}
+                    {category.name}:{' '}
+                    {recipes.map((recipe) => recipe.name).join(', ')}
+                  </li>
+                ))}
+              </IssueSection>
+
+              <IssueSection
+                title="Unshelved recipes"
+                count={report.unshelvedRecipes.length}
+                fix="shelve-by-tags"
+                selected={selected}
+                onToggle={toggleFix}
+              >
+                {report.unshelvedRecipes.map((recipe) => (
+                  <RecipeIssueItem key={recipe.id} recipe={recipe} />
+                ))}
+              </IssueSection>
+
+              {selected.size > 0 && (
+                <Button
+                  onClick={handleRepair}
+                  disabled={repairing}
+                  className="flex items-center gap-2"
+                >
+                  <Wrench className="w-4 h-4" />
+                  {repairing ? 'Repairing...' : 'Repair Selected'}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { DeweyConflictReport, DeweyRenumbering } from '@/types/recipe';
+
+export function DeweyNumberingCard() {
+  const { getDeweyConflicts, resolveDeweyConflicts } = useRecipeStore();
+
+  const [report, setReport] = useState<DeweyConflictReport | null>(null);
+  const [renumberings, setRenumberings] = useState<DeweyRenumbering[]>([]);
+  const [resolving, setResolving] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setReport(await getDeweyConflicts());
+    } catch {
+      // The store has already surfaced the error
+    }
+  }, [getDeweyConflicts]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleResolve = async () => {
+    if (
+      report?.conflicts.length &&
+      !confirm(
+        'Give every recipe that shares a code, except the oldest, a new number? Their printed labels will need replacing.',
+      )
+    ) {
+      return;
+    }
+
+    setResolving(true);
+    try {
+      setRenumberings(await resolveDeweyConflicts());
+      await loadReport();
+    } catch {
+      // The store has already surfaced the error
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="pt-6">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Sequence Numbers</h3>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Duplicate codes</h4>
+              <Button
+                onClick={loadReport}
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-1"
+              >
+                <RefreshCw className="w-3 h-3" />
+                Check again
+              </Button>
+            </div>
+
+            {report && report.conflicts.length === 0 && report.uniqueIndex && (
+              <p className="text-sm text-gray-600">
+                Every recipe has a code of its own.
+              </p>
+            )}
+
+            {report && report.conflicts.length === 0 && !report.uniqueIndex && (
+              <>
+                <p className="text-sm text-gray-600">
+                  Every recipe has a code of its own, but duplicates aren't
+                  refused yet.
+                </p>
+                <Button onClick={handleResolve} disabled={resolving} size="sm">
+                  {resolving ? 'Saving...' : 'Refuse Duplicate Codes'}
+                </Button>
+              </>
+            )}
+
+            {report && report.conflicts.length > 0 && (
+              <>
+                <p className="text-sm text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4" />
+                  {report.conflicts.length} codes are shared by more than one
+                  recipe. Codes can't be guaranteed unique until these are
+                  renumbered.
+                </p>
+                <ul className="text-sm space-y-1">
+                  {report.conflicts.map((conflict) => (
+                    <li key={conflict.code}>
+                      <span className="font-mono">{conflict.code}</span>:{' '}
+                      {conflict.recipes.map((recipe, index) => (
+                        <span key={recipe.id}>
+                          {index > 0 && ', '}
+                          <Link
+                            to={`/recipe/${recipe.id}`}
+                            className="text-blue-600 hover:underline"
+                          >
+                            {recipe.name}
+                          </Link>
+                        </span>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+                <Button onClick={handleResolve} disabled={resolving} size="sm">
+                  {resolving ? 'Renumbering...' : 'Renumber Duplicates'}
+                </Button>
+              </>
+            )}
+
+            {renumberings.length > 0 && (
+              <div className="p-3 bg-gray-50 rounded-lg text-sm">
+                <p className="mb-1 text-gray-700">
+                  Relabel these recipes with their new codes:
+                </p>
+                <ul className="space-y-1">
+                  {renumberings.map((renumbering) => (
+                    <li key={renumbering.recipeId}>
+                      <Link
+                        to={`/recipe/${renumbering.recipeId}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {renumbering.name}
+                      </Link>{' '}
+                      <span className="font-mono text-gray-600">
+                        {renumbering.from} → {renumbering.to}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,8 @@ interface DeweySelectorProps {
   deweyCategories: DeweyCategory[];
   isLoading?: boolean;
   onLoadDefaults?: () => void;
+  // The scheme the categories belong to, when it isn't the Dewey tree
+  schemeName?: string;
 }
 
 // Skeleton component for when calculations are loading
@@ -56,6 +58,7 @@ export function DeweySelector({
   deweyCategories,
   isLoading = false,
   onLoadDefaults,
+  schemeName,
 }: DeweySelectorProps) {
   const [currentPath, setCurrentPath] = useState<DeweyCategory[]>([]);
   const [availableCategories, setAvailableCategories] = useState<
@@ -198,7 +201,7 @@ export function DeweySelector({
             htmlFor="dewey_decimal_classification"
             className="text-sm font-medium text-gray-700"
           >
-            Dewey Decimal Classification
+            {schemeName ?? 'Dewey Decimal Classification'}
           </label>
           {selectedCode && (
             <Button
@@ -327,8 +330,8 @@ export function DeweySelector({
             {currentPath.length === 0 ? (
               <div>
                 <p className="mb-4">
-                  No Dewey categories available. Please add categories through
-                  the admin interface.
+                  No {schemeName ?? 'Dewey'} categories available. Please add
+                  categories through the admin interface.
                 </p>
                 {onLoadDefaults && (
                   <Button
@@ -0,0 +1,88 @@
+import { ChevronDown, FileDown } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { RecipeExportFormat, RecipeExportOptions } from '@/types/recipe';
+
+const FORMATS: Array<{
+  format: RecipeExportFormat;
+  label: string;
+  description: string;
+}> = [
+  {
+    description: 'Contents by Dewey code and an index of tags, for printing',
+    format: 'pdf',
+    label: 'PDF cookbook',
+  },
+  {
+    description: 'One file per recipe with front matter, for keeping in git',
+    format: 'markdown',
+    label: 'Markdown files',
+  },
+];
+
+interface ExportMenuProps {
+  // Which recipes to export
+  options: RecipeExportOptions;
+  size?: 'default' | 'sm';
+}
+
+export function ExportMenu({ options, size = 'default' }: ExportMenuProps) {
+  const { exportRecipes } = useRecipeStore();
+
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = async (format: RecipeExportFormat) => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      await exportRecipes(format, options);
+      setOpen(false);
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : 'Failed to export recipes',
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        onClick={() => setOpen(!open)}
+        variant="outline"
+        size={size}
+        className="flex items-center gap-1"
+      >
+        <FileDown className={size === 'sm' ? 'w-3 h-3' : 'w-4 h-4'} />
+        Export
+        <ChevronDown className="w-3 h-3" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-10 mt-2 w-72 p-2 bg-white border border-gray-200 rounded-lg shadow-lg">
+          {FORMATS.map(({ format, label, description }) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleExport(format)}
+              disabled={exporting}
+              className="block w-full text-left px-3 py-2 rounded-md hover:bg-gray-100 disabled:opacity-50"
+            >
+              <span className="block text-sm font-medium text-gray-900">
+                {label}
+              </span>
+              <span className="block text-xs text-gray-500">{description}</span>
+            </button>
+          ))}
+          {message && (
+            <p className="px-3 py-2 text-sm text-red-600">{message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { Download, Shuffle } from 'lucide-react';
+import { Download } from 'lucide-react';
 import { useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ExportMenu } from '@/components/ExportMenu';
+import { RandomPicker } from '@/components/RandomPicker';
 import { RecipeForm } from '@/components/RecipeForm';
 import { RecipeList } from '@/components/RecipeList';
 import { SearchBar } from '@/components/SearchBar';
@@ -12,8 +14,10 @@ import {
   SearchBarSkeleton,
 } from '@/components/skeletons';
 import { Button } from '@/components/ui/button';
+import { formatCSVField } from '@/lib/csv';
+import { toDateKey } from '@/lib/dates';
 import { useRecipeStore } from '@/store/recipeStore';
-import type { Recipe } from '@/types/recipe';
+import type { Recipe, RecipeSort, SearchField } from '@/types/recipe';
 
 export function HomePage() {
   const navigate = useNavigate();
@@ -26,8 +30,17 @@ export function HomePage() {
     loading,
     searchTerm,
     selectedTags,
+    query,
+    queryError,
+    sort,
+    totalRecipes,
+    nextCursor,
+    loadingMore,
     setSearchTerm,
     setSelectedTags,
+    setQuery,
+    setSort,
+    loadMoreRecipes,
     loadRecipes,
     addRecipe,
     deleteRecipe,
@@ -39,6 +52,14 @@ export function HomePage() {
   // Show skeletons only during initial loading, not when database is empty
   const showSkeletons = loading;
 
+  // Tally which fields the current search matched, for the search bar summary
+  const matchCounts: Partial<Record<SearchField, number>> = {};
+  for (const recipe of recipes) {
+    for (const match of recipe.matches || []) {
+      matchCounts[match.field] = (matchCounts[match.field] || 0) + 1;
+    }
+  }
+
   // Update URL params when search state changes
   useEffect(() => {
     const newParams = new URLSearchParams();
@@ -48,22 +69,32 @@ export function HomePage() {
     if (selectedTags.length > 0) {
       newParams.set('tags', selectedTags.join(','));
     }
+    if (query) {
+      newParams.set('q', query);
+    }
+    if (sort) {
+      newParams.set('sort', sort);
+    }
     setSearchParams(newParams);
-  }, [searchTerm, selectedTags, setSearchParams]);
+  }, [searchTerm, selectedTags, query, sort, setSearchParams]);
 
   // Initialize from URL params on mount
   useEffect(() => {
     const tagsParam = searchParams.get('tags');
     const searchParam = searchParams.get('search');
+    const queryParam = searchParams.get('q');
+    const sortParam = searchParams.get('sort') as RecipeSort | null;
 
-    if (tagsParam || searchParam) {
+    if (tagsParam || searchParam || queryParam || sortParam) {
       const tags = tagsParam ? tagsParam.split(',') : [];
       const search = searchParam || '';
 
       // Set store state to match URL without triggering search yet
       useRecipeStore.setState({
+        query: queryParam || '',
         searchTerm: search,
         selectedTags: tags,
+        sort: sortParam,
       });
 
       loadRecipes(search, tags, true);
@@ -83,19 +114,10 @@ export function HomePage() {
       }
     } catch (error) {
       console.error('Failed to add recipe:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add recipe');
     }
   };
 
-  const handleRandomRecipe = () => {
-    if (recipes.length === 0) {
-      return; // No recipes to select from
-    }
-
-    const randomIndex = Math.floor(Math.random() * recipes.length);
-    const randomRecipe = recipes[randomIndex] || { id: 0 };
-    navigate(`/recipe/${randomRecipe.id}`);
-  };
-
   const handleDownloadCSV = async () => {
     try {
       // Always get all recipes for CSV export, not just filtered ones
@@ -111,24 +133,26 @@ export function HomePage() {
         'Rating',
         'Tags',
         'Created Date',
+        'Dewey Code',
       ];
 
       // Convert recipes to CSV rows
       const csvRows = allRecipes.map((recipe) => [
         recipe.id,
-        `"${(recipe.name || '').replace(/"/g, '""')}"`, // Escape quotes in name
-        `"${(recipe.page || '').replace(/"/g, '""')}"`, // Escape quotes in page
-        `"${(recipe.url || '').replace(/"/g, '""')}"`, // Escape quotes in url
-        `"${(recipe.notes || '').replace(/"/g, '""')}"`, // Escape quotes in notes
-        recipe.rating || '',
-        `"${recipe.tags.join(', ')}"`, // Comma-separated tags in single column
-        recipe.createdAt.toLocaleDateString(),
+        recipe.name,
+        recipe.page,
+        recipe.url,
+        recipe.notes,
+        recipe.rating,
+        recipe.tags.join(', '), // Comma-separated tags in single column
+        toDateKey(recipe.createdAt),
+        recipe.deweyDecimal,
       ]);
 
       // Combine headers and rows
       const csvContent = [headers, ...csvRows]
-        .map((row) => row.join(','))
-        .join('\n');
+        .map((row) => row.map(formatCSVField).join(','))
+        .join('\r\n');
 
       // Create and download file
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -165,26 +189,45 @@ export function HomePage() {
             searchTerm={searchTerm}
             selectedTags={selectedTags}
             availableTags={availableTags}
+            matchCounts={matchCounts}
+            query={query}
+            queryError={queryError}
             onSearchTermChange={setSearchTerm}
             onSelectedTagsChange={setSelectedTags}
+            onQueryChange={setQuery}
           />
 
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-semibold text-gray-900">
-              {searchTerm || selectedTags.length > 0
-                ? `Found ${recipes.length} recipe${recipes.length !== 1 ? 's' : ''}`
-                : `${recipes.length} recipe${recipes.length !== 1 ? 's' : ''}`}
+              {searchTerm || selectedTags.length > 0 || query
+                ? `Found ${totalRecipes} recipe${totalRecipes !== 1 ? 's' : ''}`
+                : `${totalRecipes} recipe${totalRecipes !== 1 ? 's' : ''}`}
             </h2>
 
-            <Button
-              onClick={handleRandomRecipe}
-              disabled={recipes.length === 0}
-              variant="outline"
-              className="flex items-center gap-2"
+            <select
+              value={sort ?? (searchTerm || query ? '' : 'created')}
+              onChange={(e) =>
+                setSort((e.target.value as RecipeSort | '') || null)
+              }
+              className="ml-auto mr-2 h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Sort recipes"
             >
-              <Shuffle className="w-4 h-4" />
-              Random Recipe
-            </Button>
+              {(searchTerm || query) && <option value="">Best match</option>}
+              <option value="created">Newest first</option>
+              <option value="name">Name</option>
+              <option value="rating">Highest rated</option>
+              <option value="dewey">Dewey code</option>
+              <option value="cooked">Recently cooked</option>
+              <option value="times-cooked">Most cooked</option>
+            </select>
+
+            <RandomPicker />
+
+            <div className="ml-2">
+              <ExportMenu
+                options={{ query, search: searchTerm, tags: selectedTags }}
+              />
+            </div>
           </div>
 
           <RecipeList
@@ -192,6 +235,9 @@ export function HomePage() {
             onDeleteRecipe={deleteRecipe}
             onRemoveTag={removeTagFromRecipe}
             onRatingChange={updateRecipeRating}
+            hasMore={!!nextCursor}
+            loadingMore={loadingMore}
+            onLoadMore={loadMoreRecipes}
           />
 
           <div className="mt-8 text-center">
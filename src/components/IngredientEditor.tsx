@@ -0,0 +1,168 @@
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { RecipeIngredient } from '@/types/recipe';
+
+interface IngredientEditorProps {
+  ingredients: RecipeIngredient[];
+  onChange: (ingredients: RecipeIngredient[]) => void;
+}
+
+export function IngredientEditor({
+  ingredients,
+  onChange,
+}: IngredientEditorProps) {
+  // Stable React keys for rows that have not been saved yet (and so have no id)
+  const rowKeys = useRef(new WeakMap<RecipeIngredient, string>());
+  const nextKey = useRef(0);
+
+  const getRowKey = (ingredient: RecipeIngredient) => {
+    let key = rowKeys.current.get(ingredient);
+    if (!key) {
+      key = ingredient.id
+        ? `ingredient-${ingredient.id}`
+        : `new-ingredient-${nextKey.current++}`;
+      rowKeys.current.set(ingredient, key);
+    }
+    return key;
+  };
+
+  const updateRow = (index: number, changes: Partial<RecipeIngredient>) => {
+    const current = ingredients[index];
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    rowKeys.current.set(updated, getRowKey(current));
+    onChange(ingredients.map((row, i) => (i === index ? updated : row)));
+  };
+
+  const addRow = () => {
+    // Carry the previous row's group forward so grouped lists are quick to enter
+    const lastGroup = ingredients[ingredients.length - 1]?.group;
+    onChange([...ingredients, { group: lastGroup, item: '' }]);
+  };
+
+  const removeRow = (index: number) => {
+    onChange(ingredients.filter((_, i) => i !== index));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    const current = ingredients[index];
+    const other = ingredients[target];
+    if (!current || !other) return;
+
+    const reordered = [...ingredients];
+    reordered[index] = other;
+    reordered[target] = current;
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {ingredients.length === 0 && (
+        <p className="text-sm text-gray-500">No ingredients yet.</p>
+      )}
+
+      {ingredients.map((ingredient, index) => (
+        <div
+          key={getRowKey(ingredient)}
+          className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 rounded-lg"
+        >
+          <Input
+            type="number"
+            min="0"
+            step="any"
+            value={ingredient.quantity ?? ''}
+            onChange={(e) =>
+              updateRow(index, {
+                quantity:
+                  e.target.value === ''
+                    ? undefined
+                    : parseFloat(e.target.value),
+              })
+            }
+            placeholder="Qty"
+            aria-label="Quantity"
+            className="w-20"
+          />
+          <Input
+            type="text"
+            value={ingredient.unit || ''}
+            onChange={(e) => updateRow(index, { unit: e.target.value })}
+            placeholder="Unit"
+            aria-label="Unit"
+            className="w-24"
+          />
+          <Input
+            type="text"
+            value={ingredient.item}
+            onChange={(e) => updateRow(index, { item: e.target.value })}
+            placeholder="Ingredient"
+            aria-label="Ingredient"
+            className="flex-1 min-w-[10rem]"
+          />
+          <Input
+            type="text"
+            value={ingredient.preparation || ''}
+            onChange={(e) => updateRow(index, { preparation: e.target.value })}
+            placeholder="Preparation (e.g. diced)"
+            aria-label="Preparation"
+            className="w-44"
+          />
+          <Input
+            type="text"
+            value={ingredient.group || ''}
+            onChange={(e) => updateRow(index, { group: e.target.value })}
+            placeholder="Group (optional)"
+            aria-label="Group"
+            className="w-40"
+          />
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveRow(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveRow(index, 1)}
+              disabled={index === ingredients.length - 1}
+              title="Move down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeRow(index)}
+              title="Remove ingredient"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addRow}
+        className="flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" />
+        Add Ingredient
+      </Button>
+    </div>
+  );
+}
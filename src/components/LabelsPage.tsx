@@ -0,0 +1,429 @@
+import { ArrowLeft, Printer, Search } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  LABEL_TEMPLATES,
+  type LabelKind,
+  type LabelTemplate,
+  labelPosition,
+  SHEET_HEIGHT,
+  SHEET_WIDTH,
+} from '@/lib/labels';
+import { QueryParseError } from '@/lib/query';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { QrCodeContent, Recipe } from '@/types/recipe';
+
+const KIND_LABELS: Record<LabelKind, string> = {
+  card: 'Index card: code, name, location and tags',
+  shelf: 'Shelf label: code, name and location',
+  spine: 'Spine label: code and short name',
+};
+
+const DEFAULT_QUERY = 'has:dewey';
+
+const selectClassName =
+  'h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+function LabelContent({
+  recipe,
+  kind,
+  qrUrl,
+}: {
+  recipe: Recipe;
+  kind: LabelKind;
+  qrUrl?: string;
+}) {
+  const code = recipe.deweyDecimal
+    ? formatDeweyDecimal(recipe.deweyDecimal)
+    : '—';
+
+  if (kind === 'spine') {
+    return (
+      <>
+        <p className="font-mono font-bold text-[1.1em] leading-tight">{code}</p>
+        <p className="text-[0.75em] leading-tight truncate">{recipe.name}</p>
+      </>
+    );
+  }
+
+  if (kind === 'shelf') {
+    return (
+      <div className="flex h-full gap-[0.08in]">
+        <div className="flex-1 min-w-0">
+          <p className="font-mono font-bold text-[1.2em] leading-tight">
+            {code}
+          </p>
+          <p className="text-[0.8em] leading-tight font-medium line-clamp-2">
+            {recipe.name}
+          </p>
+          {recipe.page && (
+            <p className="text-[0.65em] leading-tight text-gray-700 truncate">
+              {recipe.page}
+            </p>
+          )}
+        </div>
+        {qrUrl && <img src={qrUrl} alt="" className="h-full aspect-square" />}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-start gap-2 border-b border-gray-400 pb-[0.1in] mb-[0.1in]">
+        <p className="text-[1em] font-bold leading-tight">{recipe.name}</p>
+        <p className="font-mono font-bold text-[1em] leading-tight shrink-0">
+          {code}
+        </p>
+      </div>
+      {recipe.page && (
+        <p className="text-[0.7em] leading-snug">Location: {recipe.page}</p>
+      )}
+      {recipe.tags.length > 0 && (
+        <p className="text-[0.7em] leading-snug">
+          Tags: {recipe.tags.join(', ')}
+        </p>
+      )}
+      {recipe.rating && (
+        <p className="text-[0.7em] leading-snug">
+          Rating: {'★'.repeat(recipe.rating)}
+          {'☆'.repeat(5 - recipe.rating)}
+        </p>
+      )}
+      {qrUrl && (
+        <img
+          src={qrUrl}
+          alt=""
+          className="absolute right-[0.2in] bottom-[0.2in] w-[1.1in] h-[1.1in]"
+        />
+      )}
+    </>
+  );
+}
+
+// Lays labels out at their real size on Letter sheets; the screen preview
+// outlines each label, print leaves the outlines off
+function LabelSheets({
+  recipes,
+  template,
+  kind,
+  start,
+  copies,
+  qrUrl,
+}: {
+  recipes: Recipe[];
+  template: LabelTemplate;
+  kind: LabelKind;
+  start: number;
+  copies: number;
+  // The QR code to print on a recipe's label, if any
+  qrUrl?: (recipe: Recipe) => string | undefined;
+}) {
+  const labels = recipes.flatMap((recipe) =>
+    Array.from({ length: copies }, () => recipe),
+  );
+  const positioned = labels.map((recipe, index) => ({
+    recipe,
+    ...labelPosition(template, start + index),
+  }));
+  const sheetCount =
+    positioned.length > 0 ? (positioned.at(-1)?.sheet ?? 0) + 1 : 0;
+  // Scale the text with the label so the same layout suits every template
+  const fontSize = `${Math.min(template.labelHeight, 1.5) * 10 + 4}pt`;
+
+  return (
+    <div className="space-y-6 print:space-y-0">
+      {Array.from({ length: sheetCount }, (_unused, sheet) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: sheets are identified by position
+          key={sheet}
+          className="relative mx-auto bg-white shadow-md overflow-hidden print:shadow-none print:break-after-page"
+          style={{ height: `${SHEET_HEIGHT}in`, width: `${SHEET_WIDTH}in` }}
+        >
+          {positioned
+            .filter((label) => label.sheet === sheet)
+            .map(({ recipe, top, left }, index) => (
+              <div
+                // biome-ignore lint/suspicious/noArrayIndexKey: copies of a recipe share its id
+                key={index}
+                className="absolute overflow-hidden text-black outline outline-1 outline-dashed outline-gray-300 print:outline-none"
+                style={{
+                  fontSize,
+                  height: `${template.labelHeight}in`,
+                  left: `${left}in`,
+                  padding: kind === 'card' ? '0.25in' : '0.06in 0.1in',
+                  top: `${top}in`,
+                  width: `${template.labelWidth}in`,
+                }}
+              >
+                <LabelContent
+                  recipe={recipe}
+                  kind={kind}
+                  qrUrl={qrUrl?.(recipe)}
+                />
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function LabelsPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { findRecipesByQuery, getQrCodeUrl, getRecipeById } = useRecipeStore();
+
+  const ids = searchParams.get('ids');
+  const [query, setQuery] = useState(searchParams.get('q') ?? DEFAULT_QUERY);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [templateId, setTemplateId] = useState(LABEL_TEMPLATES[0]?.id ?? '');
+  const template =
+    LABEL_TEMPLATES.find((candidate) => candidate.id === templateId) ??
+    (LABEL_TEMPLATES[0] as LabelTemplate);
+  const [kind, setKind] = useState<LabelKind>(template.kind);
+  const [start, setStart] = useState('1');
+  const [copies, setCopies] = useState('1');
+  const [qrContent, setQrContent] = useState<QrCodeContent | 'none'>('none');
+
+  const perSheet = template.columns * template.rows;
+  const startIndex = Math.min(
+    Math.max((parseInt(start, 10) || 1) - 1, 0),
+    perSheet - 1,
+  );
+  const copyCount = Math.min(Math.max(parseInt(copies, 10) || 1, 1), 100);
+
+  const loadRecipes = useCallback(async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      if (ids) {
+        const loaded = await Promise.all(
+          ids.split(',').map((id) => getRecipeById(id.trim())),
+        );
+        setRecipes(loaded.filter((recipe): recipe is Recipe => !!recipe));
+      } else {
+        const found = await findRecipesByQuery(
+          searchParams.get('q') ?? DEFAULT_QUERY,
+        );
+        setRecipes(found);
+        if (found.length === 0) setMessage('No recipes match this query.');
+      }
+    } catch (error) {
+      setRecipes([]);
+      setMessage(
+        error instanceof QueryParseError
+          ? `Invalid query: ${error.message}`
+          : 'Failed to load recipes',
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [ids, searchParams, findRecipesByQuery, getRecipeById]);
+
+  useEffect(() => {
+    loadRecipes();
+  }, [loadRecipes]);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const chosen = LABEL_TEMPLATES.find((candidate) => candidate.id === id);
+    if (chosen) setKind(chosen.kind);
+    setStart('1');
+  };
+
+  // Spine labels are too small for a code a phone can read
+  const qrUrl =
+    qrContent === 'none' || kind === 'spine'
+      ? undefined
+      : (recipe: Recipe) =>
+          qrContent === 'dewey' && !recipe.deweyDecimal
+            ? undefined
+            : getQrCodeUrl(recipe.id, { content: qrContent });
+
+  const labelCount = recipes.length * copyCount;
+  const sheetCount = Math.ceil((startIndex + labelCount) / perSheet);
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl print:p-0 print:max-w-none">
+      <style>{'@page { size: letter; margin: 0; }'}</style>
+
+      <div className="print:hidden">
+        <div className="flex items-center gap-4 mb-6">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Labels and Index Cards
+          </h1>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6 space-y-4">
+            {ids ? (
+              <p className="text-sm text-gray-600">
+                Printing labels for {recipes.map((r) => r.name).join(', ')}.{' '}
+                <button
+                  type="button"
+                  onClick={() => setSearchParams({ q: query })}
+                  className="text-blue-600 hover:underline"
+                >
+                  Choose recipes by query instead
+                </button>
+              </p>
+            ) : (
+              <form
+                className="flex gap-2 items-end"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setSearchParams({ q: query });
+                }}
+              >
+                <div className="flex-1">
+                  <Label htmlFor="labels-query">Recipes</Label>
+                  <Input
+                    id="labels-query"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="e.g. dewey:641.5* or tag:soup"
+                    className="mt-1"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  variant="outline"
+                  className="flex items-center gap-2"
+                >
+                  <Search className="w-4 h-4" />
+                  Find
+                </Button>
+              </form>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="labels-template">Sheet</Label>
+                <select
+                  id="labels-template"
+                  value={template.id}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  className={`${selectClassName} mt-1 w-full`}
+                >
+                  {LABEL_TEMPLATES.map((candidate) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="labels-kind">Content</Label>
+                <select
+                  id="labels-kind"
+                  value={kind}
+                  onChange={(e) => setKind(e.target.value as LabelKind)}
+                  className={`${selectClassName} mt-1 w-full`}
+                >
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="labels-qr">QR code</Label>
+                <select
+                  id="labels-qr"
+                  value={qrContent}
+                  onChange={(e) =>
+                    setQrContent(e.target.value as QrCodeContent | 'none')
+                  }
+                  disabled={kind === 'spine'}
+                  className={`${selectClassName} mt-1 w-full`}
+                >
+                  <option value="none">None</option>
+                  <option value="url">Link to the recipe</option>
+                  <option value="dewey">Dewey code</option>
+                </select>
+                {kind === 'spine' && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Spine labels are too small for a QR code.
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="labels-start">
+                  Start at label (to reuse a part-used sheet)
+                </Label>
+                <Input
+                  id="labels-start"
+                  type="number"
+                  min={1}
+                  max={perSheet}
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="labels-copies">Copies of each</Label>
+                <Input
+                  id="labels-copies"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={copies}
+                  onChange={(e) => setCopies(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                {loading
+                  ? 'Loading recipes...'
+                  : `${labelCount} label${labelCount === 1 ? '' : 's'} on ${sheetCount} sheet${sheetCount === 1 ? '' : 's'}`}
+              </p>
+              <Button
+                onClick={() => window.print()}
+                disabled={loading || labelCount === 0}
+                className="flex items-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                Print
+              </Button>
+            </div>
+            {message && <p className="text-sm text-red-600">{message}</p>}
+            <p className="text-xs text-gray-500">
+              Print at actual size (100%, no "fit to page") so the labels line
+              up with the sheet.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <LabelSheets
+        recipes={recipes}
+        template={template}
+        kind={kind}
+        start={startIndex}
+        copies={copyCount}
+        qrUrl={qrUrl}
+      />
+    </div>
+  );
+}
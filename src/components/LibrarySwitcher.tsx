@@ -0,0 +1,52 @@
+import { LibraryBig } from 'lucide-react';
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useRecipeStore } from '@/store/recipeStore';
+
+// Header bar for choosing between the configured libraries. Hidden when there
+// is only one, so single-library setups look as they always have.
+export function LibrarySwitcher() {
+  const navigate = useNavigate();
+  const { libraries, activeLibrary, loadLibraries, switchLibrary } =
+    useRecipeStore();
+
+  useEffect(() => {
+    loadLibraries();
+  }, [loadLibraries]);
+
+  if (libraries.length < 2) {
+    return null;
+  }
+
+  const handleChange = async (id: string) => {
+    try {
+      await switchLibrary(id);
+      navigate('/');
+    } catch (error) {
+      console.error('Failed to switch library:', error);
+    }
+  };
+
+  return (
+    <header className="bg-white border-b border-gray-200 print:hidden">
+      <div className="container mx-auto px-8 py-2 flex items-center justify-end gap-2">
+        <LibraryBig className="w-4 h-4 text-gray-500" />
+        <label htmlFor="library-switcher" className="text-sm text-gray-600">
+          Library
+        </label>
+        <select
+          id="library-switcher"
+          value={activeLibrary ?? ''}
+          onChange={(e) => handleChange(e.target.value)}
+          className="h-8 px-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {libraries.map((library) => (
+            <option key={library.id} value={library.id}>
+              {library.name}
+            </option>
+          ))}
+        </select>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,426 @@
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  ShoppingCart,
+  X,
+} from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { addDays, parseDateKey, startOfWeek, toDateKey } from '@/lib/dates';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { MealPlanEntry, MealSlot, Recipe } from '@/types/recipe';
+
+const MEAL_SLOTS: Array<{ slot: MealSlot; label: string }> = [
+  { label: 'Breakfast', slot: 'breakfast' },
+  { label: 'Lunch', slot: 'lunch' },
+  { label: 'Dinner', slot: 'dinner' },
+  { label: 'Snack', slot: 'snack' },
+];
+
+// Drag payload types, so a cell can tell a new recipe from a moved entry
+const RECIPE_DRAG_TYPE = 'application/x-recipe-id';
+const ENTRY_DRAG_TYPE = 'application/x-meal-plan-entry-id';
+
+interface MealPlanEntryCardProps {
+  entry: MealPlanEntry;
+  onUpdate: (
+    id: number,
+    updates: Partial<Pick<MealPlanEntry, 'servings' | 'note'>>,
+  ) => void;
+  onRemove: (id: number) => void;
+}
+
+function MealPlanEntryCard({
+  entry,
+  onUpdate,
+  onRemove,
+}: MealPlanEntryCardProps) {
+  const [editing, setEditing] = useState(false);
+  const [servings, setServings] = useState(entry.servings?.toString() || '');
+  const [note, setNote] = useState(entry.note || '');
+
+  const handleSave = () => {
+    onUpdate(entry.id, {
+      note: note.trim(),
+      servings: parseFloat(servings) > 0 ? parseFloat(servings) : 0,
+    });
+    setEditing(false);
+  };
+
+  return (
+    // biome-ignore lint/a11y/noStaticElementInteractions: drag source only; its buttons handle keyboard use
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(ENTRY_DRAG_TYPE, entry.id.toString());
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      className="group p-2 bg-white border border-gray-200 rounded-md shadow-sm text-xs cursor-move"
+    >
+      <div className="flex items-start justify-between gap-1">
+        <Link
+          to={`/recipe/${entry.recipeId}`}
+          className="font-medium text-blue-700 hover:text-blue-900 hover:underline"
+        >
+          {entry.recipeName}
+        </Link>
+        <button
+          type="button"
+          onClick={() => onRemove(entry.id)}
+          className="text-gray-400 hover:text-red-600"
+          title="Remove from plan"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {entry.deweyDecimal && (
+        <p className="text-blue-600">
+          {formatDeweyDecimal(entry.deweyDecimal)}
+        </p>
+      )}
+
+      {editing ? (
+        <div className="mt-1 space-y-1">
+          <Input
+            type="number"
+            min="1"
+            step="any"
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            placeholder="Servings"
+            className="h-7 text-xs"
+          />
+          <Input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note"
+            className="h-7 text-xs"
+          />
+          <div className="flex gap-1">
+            <Button size="sm" className="h-6 text-xs" onClick={handleSave}>
+              Save
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 text-xs"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="mt-1 block w-full text-left text-gray-600 hover:text-gray-900"
+          title="Edit servings and note"
+        >
+          {entry.servings ? `Serves ${entry.servings}` : 'Add servings'}
+          {entry.note && <span className="block italic">{entry.note}</span>}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function MealPlannerPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const {
+    mealPlanEntries,
+    error,
+    loadMealPlan,
+    addMealPlanEntry,
+    updateMealPlanEntry,
+    deleteMealPlanEntry,
+    findRecipes,
+    createShoppingList,
+    clearError,
+  } = useRecipeStore();
+
+  const weekStart = startOfWeek(
+    searchParams.get('week') || toDateKey(new Date()),
+  );
+  const weekDays = Array.from({ length: 7 }, (_, index) =>
+    addDays(weekStart, index),
+  );
+  const weekEnd = weekDays[6] || weekStart;
+  const today = toDateKey(new Date());
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Recipe[]>([]);
+  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMealPlan(weekStart, weekEnd);
+  }, [loadMealPlan, weekStart, weekEnd]);
+
+  useEffect(() => {
+    const loadResults = async () => {
+      setSearchResults(await findRecipes(searchTerm));
+    };
+    loadResults();
+  }, [findRecipes, searchTerm]);
+
+  const goToWeek = (date: string) => {
+    setSearchParams({ week: startOfWeek(date) });
+  };
+
+  const addToCell = async (recipeId: number, date: string, slot: MealSlot) => {
+    const recipe =
+      searchResults.find((result) => result.id === recipeId) || selectedRecipe;
+    try {
+      await addMealPlanEntry({
+        date,
+        recipeId,
+        servings: recipe?.id === recipeId ? recipe.servings : undefined,
+        slot,
+      });
+    } catch (error) {
+      console.error('Failed to add to meal plan:', error);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, date: string, slot: MealSlot) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const entryId = e.dataTransfer.getData(ENTRY_DRAG_TYPE);
+    if (entryId) {
+      updateMealPlanEntry(parseInt(entryId, 10), { date, slot }).catch(
+        (error) => console.error('Failed to move meal plan entry:', error),
+      );
+      return;
+    }
+
+    const recipeId = e.dataTransfer.getData(RECIPE_DRAG_TYPE);
+    if (recipeId) {
+      addToCell(parseInt(recipeId, 10), date, slot);
+    }
+  };
+
+  const handleUpdateEntry = (
+    id: number,
+    updates: Partial<Pick<MealPlanEntry, 'servings' | 'note'>>,
+  ) => {
+    updateMealPlanEntry(id, updates).catch((error) =>
+      console.error('Failed to update meal plan entry:', error),
+    );
+  };
+
+  const handleRemoveEntry = (id: number) => {
+    deleteMealPlanEntry(id).catch((error) =>
+      console.error('Failed to remove meal plan entry:', error),
+    );
+  };
+
+  const handleShoppingList = async () => {
+    try {
+      const list = await createShoppingList({ end: weekEnd, start: weekStart });
+      navigate(`/shopping-lists/${list.id}`);
+    } catch (error) {
+      console.error('Failed to create shopping list:', error);
+    }
+  };
+
+  const formatDay = (date: string) =>
+    (parseDateKey(date) || new Date()).toLocaleDateString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      weekday: 'short',
+    });
+
+  return (
+    <div className="container mx-auto p-8 max-w-7xl">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Meal Planner</h1>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToWeek(addDays(weekStart, -7))}
+            title="Previous week"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => goToWeek(today)}>
+            This Week
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToWeek(addDays(weekStart, 7))}
+            title="Next week"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-600 ml-2">
+            {formatDay(weekStart)} – {formatDay(weekEnd)}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleShoppingList}
+            disabled={mealPlanEntries.length === 0}
+            className="flex items-center gap-2 ml-2"
+            title="Make a shopping list for this week's meals"
+          >
+            <ShoppingCart className="w-4 h-4" />
+            Shopping List
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <Card className="lg:w-64 flex-shrink-0">
+          <CardContent className="pt-4 space-y-3">
+            <Input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Find a recipe..."
+            />
+            <p className="text-xs text-gray-500">
+              Drag a recipe onto a meal, or select it and click +.
+            </p>
+            <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+              {searchResults.map((recipe) => (
+                <button
+                  type="button"
+                  key={recipe.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(
+                      RECIPE_DRAG_TYPE,
+                      recipe.id.toString(),
+                    );
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  onClick={() =>
+                    setSelectedRecipe(
+                      selectedRecipe?.id === recipe.id ? null : recipe,
+                    )
+                  }
+                  className={`w-full text-left p-2 border rounded-md text-sm cursor-grab ${
+                    selectedRecipe?.id === recipe.id
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-medium">{recipe.name}</span>
+                  {recipe.deweyDecimal && (
+                    <span className="block text-xs text-blue-600">
+                      {formatDeweyDecimal(recipe.deweyDecimal)}
+                    </span>
+                  )}
+                </button>
+              ))}
+              {searchResults.length === 0 && (
+                <p className="text-sm text-gray-500">No recipes found.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex-1 overflow-x-auto">
+          <div className="grid grid-cols-[6rem_repeat(7,minmax(8rem,1fr))] gap-1 min-w-[62rem]">
+            <div />
+            {weekDays.map((date) => (
+              <div
+                key={date}
+                className={`p-2 text-center text-sm font-semibold rounded-md ${
+                  date === today ? 'bg-blue-100 text-blue-900' : 'text-gray-700'
+                }`}
+              >
+                {formatDay(date)}
+              </div>
+            ))}
+
+            {MEAL_SLOTS.map(({ slot, label }) => (
+              <div key={slot} className="contents">
+                <div className="p-2 text-sm font-medium text-gray-600">
+                  {label}
+                </div>
+                {weekDays.map((date) => {
+                  const cellKey = `${date}:${slot}`;
+                  const entries = mealPlanEntries.filter(
+                    (entry) => entry.date === date && entry.slot === slot,
+                  );
+
+                  return (
+                    // biome-ignore lint/a11y/noStaticElementInteractions: drop target; the + button is the keyboard path
+                    <div
+                      key={cellKey}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropTarget(cellKey);
+                      }}
+                      onDragLeave={() => setDropTarget(null)}
+                      onDrop={(e) => handleDrop(e, date, slot)}
+                      className={`min-h-24 p-1 space-y-1 border rounded-md ${
+                        dropTarget === cellKey
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-gray-200 bg-gray-50'
+                      }`}
+                    >
+                      {entries.map((entry) => (
+                        <MealPlanEntryCard
+                          key={entry.id}
+                          entry={entry}
+                          onUpdate={handleUpdateEntry}
+                          onRemove={handleRemoveEntry}
+                        />
+                      ))}
+                      {selectedRecipe && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            addToCell(selectedRecipe.id, date, slot)
+                          }
+                          className="w-full flex justify-center p-1 text-gray-400 hover:text-blue-600"
+                          title={`Add ${selectedRecipe.name}`}
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { Shuffle, SlidersHorizontal } from 'lucide-react';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { StarRating } from '@/components/ui/star-rating';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { RandomRecipeOptions, Recipe } from '@/types/recipe';
+
+export function RandomPicker() {
+  const navigate = useNavigate();
+  const { pickRandomRecipes } = useRecipeStore();
+
+  const [open, setOpen] = useState(false);
+  const [deweyCode, setDeweyCode] = useState('');
+  const [minRating, setMinRating] = useState('');
+  const [notCookedDays, setNotCookedDays] = useState('7');
+  const [weighted, setWeighted] = useState(true);
+  const [count, setCount] = useState('7');
+  const [suggestions, setSuggestions] = useState<Recipe[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [picking, setPicking] = useState(false);
+
+  const pick = async (pickCount: number): Promise<Recipe[]> => {
+    const options: RandomRecipeOptions = {
+      count: pickCount,
+      deweyCode: deweyCode.trim() || undefined,
+      minRating: minRating ? parseInt(minRating, 10) : undefined,
+      notCookedDays:
+        parseInt(notCookedDays, 10) > 0
+          ? parseInt(notCookedDays, 10)
+          : undefined,
+      weighted,
+    };
+
+    setPicking(true);
+    setMessage(null);
+    try {
+      const picked = await pickRandomRecipes(options);
+      if (picked.length === 0) {
+        setMessage('No recipes match these filters.');
+      }
+      return picked;
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : 'Failed to pick recipes',
+      );
+      return [];
+    } finally {
+      setPicking(false);
+    }
+  };
+
+  const handleRandomRecipe = async () => {
+    const [recipe] = await pick(1);
+    if (recipe) {
+      navigate(`/recipe/${recipe.id}`);
+    } else {
+      setOpen(true);
+    }
+  };
+
+  const handleSuggest = async () => {
+    setSuggestions(await pick(Math.max(parseInt(count, 10) || 1, 1)));
+  };
+
+  return (
+    <div className="relative flex gap-1">
+      <Button
+        onClick={handleRandomRecipe}
+        disabled={picking}
+        variant="outline"
+        className="flex items-center gap-2"
+      >
+        <Shuffle className="w-4 h-4" />
+        Random Recipe
+      </Button>
+      <Button
+        onClick={() => setOpen(!open)}
+        variant="outline"
+        title="Random picker options"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-10 mt-2 w-96 p-4 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <p className="text-xs text-gray-500">
+            Picks from recipes matching the current search and tags.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="random-dewey">Dewey subtree</Label>
+              <Input
+                id="random-dewey"
+                type="text"
+                value={deweyCode}
+                onChange={(e) => setDeweyCode(e.target.value)}
+                placeholder="e.g. 641.5"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="random-rating">Minimum rating</Label>
+              <select
+                id="random-rating"
+                value={minRating}
+                onChange={(e) => setMinRating(e.target.value)}
+                className="mt-1 block w-full h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Any</option>
+                <option value="2">2+ stars</option>
+                <option value="3">3+ stars</option>
+                <option value="4">4+ stars</option>
+                <option value="5">5 stars</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="random-not-cooked">Not cooked in (days)</Label>
+              <Input
+                id="random-not-cooked"
+                type="number"
+                min="0"
+                value={notCookedDays}
+                onChange={(e) => setNotCookedDays(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="random-count">Suggestions</Label>
+              <Input
+                id="random-count"
+                type="number"
+                min="1"
+                max="20"
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="random-weighted"
+              type="checkbox"
+              checked={weighted}
+              onChange={(e) => setWeighted(e.target.checked)}
+              className="w-4 h-4"
+            />
+            <Label htmlFor="random-weighted" className="cursor-pointer">
+              Favour higher-rated recipes
+            </Label>
+          </div>
+
+          <Button
+            onClick={handleSuggest}
+            disabled={picking}
+            className="w-full flex items-center justify-center gap-2"
+          >
+            <Shuffle className="w-4 h-4" />
+            {suggestions ? 'Shuffle Again' : "What's for Dinner?"}
+          </Button>
+
+          {message && <p className="text-sm text-gray-600">{message}</p>}
+
+          {suggestions && suggestions.length > 0 && (
+            <ol className="space-y-2 max-h-80 overflow-y-auto">
+              {suggestions.map((recipe) => (
+                <li key={recipe.id}>
+                  <Link
+                    to={`/recipe/${recipe.id}`}
+                    className="block p-2 border border-gray-200 rounded-md hover:bg-gray-50"
+                  >
+                    <span className="font-medium text-gray-900">
+                      {recipe.name}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-gray-500">
+                      <StarRating rating={recipe.rating} readonly size="sm" />
+                      {recipe.deweyDecimal &&
+                        formatDeweyDecimal(recipe.deweyDecimal)}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { ArrowLeft, FileUp, X } from 'lucide-react';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { RecipeFileFormat, RecipeFileImportResult } from '@/types/recipe';
+
+const FORMAT_LABELS: Record<RecipeFileFormat, string> = {
+  mastercook: 'MasterCook (.mxp, .mx2)',
+  'meal-master': 'Meal-Master (.mmf, .txt)',
+  mealie: 'Mealie (.zip, .json)',
+  paprika: 'Paprika (.paprikarecipes)',
+  tandoor: 'Tandoor (.zip, .json)',
+};
+
+export function RecipeFileImportPage() {
+  const navigate = useNavigate();
+  const { importRecipeFile, error, clearError } = useRecipeStore();
+
+  const [format, setFormat] = useState<RecipeFileFormat | ''>('');
+  const [assignDewey, setAssignDewey] = useState(false);
+  const [filename, setFilename] = useState<string | null>(null);
+  const [result, setResult] = useState<RecipeFileImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const missingPhotos =
+    result?.recipes.filter(({ photoErrors }) => photoErrors).length ?? 0;
+
+  const handleChooseFile = () => {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept =
+      '.paprikarecipes,.zip,.json,.mxp,.mx2,.mmf,.mm,.txt,.xml';
+    fileInput.style.display = 'none';
+
+    fileInput.onchange = async (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
+      if (!file) return;
+
+      setFilename(file.name);
+      setResult(null);
+      clearError();
+      setBusy(true);
+      try {
+        setResult(
+          await importRecipeFile(file, {
+            assignDewey,
+            format: format || undefined,
+          }),
+        );
+      } catch (error) {
+        console.error('Failed to import recipes:', error);
+      } finally {
+        setBusy(false);
+      }
+    };
+
+    document.body.appendChild(fileInput);
+    fileInput.click();
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">
+          Import from Another App
+        </h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>{filename ?? 'Choose an Export'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Imports every recipe in an export from Paprika, Mealie, Tandoor,
+            MasterCook or Meal-Master. Categories become tags and photos are
+            attached to their recipes. A recipe that can't be read is listed
+            below and the rest are still imported.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={format}
+              onChange={(e) =>
+                setFormat(e.target.value as RecipeFileFormat | '')
+              }
+              disabled={busy}
+              className="h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Detect the format</option>
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={assignDewey}
+                onChange={(e) => setAssignDewey(e.target.checked)}
+                disabled={busy}
+              />
+              File under the Dewey category named like a recipe's category
+            </label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleChooseFile}
+            disabled={busy}
+            className="flex items-center gap-2"
+          >
+            <FileUp className="w-4 h-4" />
+            {busy ? 'Importing...' : 'Choose File and Import'}
+          </Button>
+
+          {result && (
+            <p className="text-sm text-green-700">
+              Imported {result.importedCount} recipes from{' '}
+              {FORMAT_LABELS[result.format].replace(/ \(.*\)$/, '')}
+              {result.errorCount > 0 &&
+                `; ${result.errorCount} could not be imported`}
+              {missingPhotos > 0 &&
+                `; ${missingPhotos} ${missingPhotos === 1 ? 'is' : 'are'} missing photos`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && result.recipes.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Recipe</th>
+                <th className="px-4 py-2 font-medium">Result</th>
+                <th className="px-4 py-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.recipes.map((row, index) => (
+                <tr
+                  // biome-ignore lint/suspicious/noArrayIndexKey: imported recipes can share a name
+                  key={index}
+                  className="border-t border-gray-100"
+                >
+                  <td className="px-4 py-2 text-gray-900">
+                    {row.recipeId ? (
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/recipe/${row.recipeId}`)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.name}
+                      </button>
+                    ) : (
+                      row.name
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        row.error
+                          ? 'bg-red-100 text-red-800'
+                          : row.photoErrors
+                            ? 'bg-amber-100 text-amber-800'
+                            : 'bg-green-100 text-green-800'
+                      }`}
+                    >
+                      {row.error
+                        ? 'Failed'
+                        : row.photoErrors
+                          ? 'Imported, photos missing'
+                          : 'Imported'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">
+                    {row.error ??
+                      [
+                        row.deweyDecimal && `Filed at ${row.deweyDecimal}`,
+                        row.photoCount &&
+                          `${row.photoCount} photo${row.photoCount === 1 ? '' : 's'}`,
+                        ...(row.photoErrors ?? []).map(
+                          (photoError) => `Photo not attached: ${photoError}`,
+                        ),
+                      ]
+                        .filter(Boolean)
+                        .join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,15 @@
-import { Upload } from 'lucide-react';
+import {
+  CalendarDays,
+  DatabaseBackup,
+  FileDown,
+  Globe,
+  Library,
+  ScanQrCode,
+  ShoppingCart,
+  Tags,
+  Upload,
+  X,
+} from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { DeweyAutoSelector } from '@/components/DeweyAutoSelector';
@@ -7,8 +18,9 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { formatQuantity } from '@/lib/scaling';
 import { useRecipeStore } from '@/store/recipeStore';
-import type { Recipe } from '@/types/recipe';
+import type { ImportedRecipe, Recipe } from '@/types/recipe';
 
 interface RecipeFormProps {
   availableTags: string[];
@@ -24,13 +36,30 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
   const [recipePage, setRecipePage] = useState('');
   const [tags, setTags] = useState<string[]>([]);
   const [deweyDecimal, setDeweyDecimal] = useState('');
+  const [classifications, setClassifications] = useState<
+    Record<number, string>
+  >({});
   const [shouldNavigateToRecipe, setShouldNavigateToRecipe] = useState(false);
+  const [showImportPanel, setShowImportPanel] = useState(false);
+  const [importUrl, setImportUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importedRecipe, setImportedRecipe] = useState<ImportedRecipe | null>(
+    null,
+  );
 
-  const { deweyCategories, loadDeweyCategories, uploadCSV } = useRecipeStore();
+  const {
+    deweyCategories,
+    loadDeweyCategories,
+    classificationSchemes,
+    loadClassificationSchemes,
+    importRecipeFromHtml,
+  } = useRecipeStore();
 
   useEffect(() => {
     loadDeweyCategories();
-  }, [loadDeweyCategories]);
+    loadClassificationSchemes();
+  }, [loadDeweyCategories, loadClassificationSchemes]);
 
   // Generate hierarchical Dewey tags from a Dewey code
   const getDeweyHierarchyTags = (deweyCode: string): string[] => {
@@ -114,70 +143,103 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
     if (!recipeName.trim()) return;
 
     const newRecipe: Omit<Recipe, 'id' | 'createdAt'> = {
+      classifications,
       deweyDecimal: deweyDecimal || undefined,
       name: recipeName.trim(),
       page: recipePage.trim() || undefined,
       tags: tags,
     };
 
+    if (importedRecipe) {
+      newRecipe.ingredients = importedRecipe.ingredients;
+      newRecipe.notes = getImportedNotes(importedRecipe);
+      newRecipe.servings = importedRecipe.servings;
+      newRecipe.steps = importedRecipe.steps;
+      newRecipe.url = importedRecipe.url;
+    }
+
     onAddRecipe(newRecipe, shouldNavigateToRecipe);
     setRecipeName('');
     setRecipePage('');
     setTags([]);
     setDeweyDecimal('');
+    setClassifications({});
     setShouldNavigateToRecipe(false);
+    setImportedRecipe(null);
+  };
+
+  // Times, description and photo have no dedicated fields, so keep them in notes
+  const getImportedNotes = (imported: ImportedRecipe): string | undefined => {
+    const times = [
+      imported.prepTime && `Prep: ${imported.prepTime} min`,
+      imported.cookTime && `Cook: ${imported.cookTime} min`,
+      imported.totalTime && `Total: ${imported.totalTime} min`,
+    ].filter(Boolean);
+
+    const lines = [
+      imported.description,
+      times.length > 0 ? times.join(' · ') : undefined,
+      imported.image && `Photo: ${imported.image}`,
+    ].filter(Boolean);
+
+    return lines.length > 0 ? lines.join('\n\n') : undefined;
   };
 
-  const handleUploadCSV = async () => {
-    // Create file input element
+  const applyImportedRecipe = (imported: ImportedRecipe) => {
+    setImportedRecipe(imported);
+    setRecipeName(imported.name);
+    setTags((current) => [
+      ...current,
+      ...imported.tags.filter((tag) => !current.includes(tag)),
+    ]);
+    setShowImportPanel(false);
+    setImportUrl('');
+  };
+
+  const handleImportFromUrl = async () => {
+    if (!importUrl.trim()) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      applyImportedRecipe(
+        await importRecipeFromHtml({ url: importUrl.trim() }),
+      );
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : 'Failed to import recipe',
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFromFile = () => {
     const fileInput = document.createElement('input');
     fileInput.type = 'file';
-    fileInput.accept = '.csv';
+    fileInput.accept = '.html,.htm';
     fileInput.style.display = 'none';
 
     fileInput.onchange = async (event) => {
       const file = (event.target as HTMLInputElement).files?.[0];
+      document.body.removeChild(fileInput);
       if (!file) return;
 
-      if (
-        !confirm(
-          `Upload recipes from "${file.name}"? This will add new recipes and update existing ones based on ID matches.`,
-        )
-      ) {
-        return;
-      }
-
+      setImporting(true);
+      setImportError(null);
       try {
-        const result = await uploadCSV(file);
-
-        let message = `Successfully processed CSV:`;
-        if (result.importedCount > 0) {
-          message += `\n- Imported ${result.importedCount} new recipes`;
-        }
-        if (result.updatedCount > 0) {
-          message += `\n- Updated ${result.updatedCount} existing recipes`;
-        }
-
-        if (result.errorCount > 0) {
-          message += `\n\nThere were ${result.errorCount} errors during import:`;
-          result.errors.forEach((error, index) => {
-            if (index < 3) {
-              message += `\n- ${error}`;
-            }
-          });
-          if (result.errors.length > 3) {
-            message += `\n... and ${result.errors.length - 3} more errors`;
-          }
-        }
-
-        alert(message);
+        applyImportedRecipe(
+          await importRecipeFromHtml({
+            file,
+            url: importUrl.trim() || undefined,
+          }),
+        );
       } catch (error) {
-        console.error('Failed to upload CSV:', error);
-        alert(
-          `Failed to upload CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        setImportError(
+          error instanceof Error ? error.message : 'Failed to import recipe',
         );
       } finally {
-        document.body.removeChild(fileInput);
+        setImporting(false);
       }
     };
 
@@ -202,6 +264,70 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
             />
           </div>
 
+          {importedRecipe && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-2">
+              <div className="flex justify-between items-start gap-4">
+                <div className="text-sm text-blue-900">
+                  <p className="font-medium">
+                    Imported from{' '}
+                    {importedRecipe.url ? (
+                      <a
+                        href={importedRecipe.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                      >
+                        {importedRecipe.url}
+                      </a>
+                    ) : (
+                      'saved page'
+                    )}
+                  </p>
+                  <p>
+                    {importedRecipe.ingredients.length} ingredients ·{' '}
+                    {importedRecipe.steps.length} steps
+                    {importedRecipe.servings
+                      ? ` · serves ${importedRecipe.servings}`
+                      : ''}
+                    {importedRecipe.totalTime
+                      ? ` · ${importedRecipe.totalTime} min`
+                      : ''}
+                  </p>
+                </div>
+                {importedRecipe.image && (
+                  <img
+                    src={importedRecipe.image}
+                    alt={importedRecipe.name}
+                    className="w-20 h-20 object-cover rounded"
+                  />
+                )}
+              </div>
+              {importedRecipe.ingredients.length > 0 && (
+                <ul className="text-sm text-gray-700 list-disc list-inside max-h-40 overflow-y-auto">
+                  {importedRecipe.ingredients.map((ingredient, index) => (
+                    <li key={`${index}-${ingredient.item}`}>
+                      {ingredient.quantity !== undefined &&
+                        `${formatQuantity(ingredient.quantity, ingredient.unit)} `}
+                      {ingredient.unit && `${ingredient.unit} `}
+                      {ingredient.item}
+                      {ingredient.preparation && `, ${ingredient.preparation}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setImportedRecipe(null)}
+                className="flex items-center gap-1"
+              >
+                <X className="w-3 h-3" />
+                Discard Import
+              </Button>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="recipe-page">Location</Label>
             <Input
@@ -233,6 +359,23 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
             />
           </div>
 
+          {classificationSchemes
+            .filter((scheme) => !scheme.isPrimary)
+            .map((scheme) => (
+              <div key={scheme.id}>
+                <DeweyAutoSelector
+                  scheme={scheme}
+                  onSelect={(code) =>
+                    setClassifications({
+                      ...classifications,
+                      [scheme.id]: code,
+                    })
+                  }
+                  selectedCode={classifications[scheme.id]}
+                />
+              </div>
+            ))}
+
           <div className="flex items-center space-x-2">
             <input
               id="navigate-checkbox"
@@ -250,7 +393,7 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
             <Button type="submit" className="w-full">
               Add Recipe
             </Button>
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
               <Button
                 type="button"
                 variant="outline"
@@ -268,13 +411,127 @@ export function RecipeForm({ availableTags, onAddRecipe }: RecipeFormProps) {
               <Button
                 type="button"
                 variant="outline"
-                onClick={handleUploadCSV}
+                onClick={() => navigate('/shelf')}
+                className="flex items-center gap-2"
+              >
+                <Library className="w-4 h-4" />
+                Shelf
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/planner')}
+                className="flex items-center gap-2"
+              >
+                <CalendarDays className="w-4 h-4" />
+                Meal Planner
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/shopping-lists')}
+                className="flex items-center gap-2"
+              >
+                <ShoppingCart className="w-4 h-4" />
+                Shopping Lists
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/backups')}
+                className="flex items-center gap-2"
+              >
+                <DatabaseBackup className="w-4 h-4" />
+                Backups
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/labels')}
+                className="flex items-center gap-2"
+              >
+                <Tags className="w-4 h-4" />
+                Labels
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/scan')}
+                className="flex items-center gap-2"
+              >
+                <ScanQrCode className="w-4 h-4" />
+                Scan
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/import-csv')}
                 className="flex items-center gap-2"
               >
                 <Upload className="w-4 h-4" />
                 Upload CSV
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => navigate('/import-recipes')}
+                className="flex items-center gap-2"
+              >
+                <FileDown className="w-4 h-4" />
+                Import from App
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowImportPanel(!showImportPanel)}
+                className="flex items-center gap-2"
+              >
+                <Globe className="w-4 h-4" />
+                Import from Page
+              </Button>
             </div>
+
+            {showImportPanel && (
+              <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+                <Label htmlFor="import-url">Recipe page URL</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="import-url"
+                    type="url"
+                    value={importUrl}
+                    onChange={(e) => setImportUrl(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleImportFromUrl();
+                      }
+                    }}
+                    placeholder="https://..."
+                  />
+                  <Button
+                    type="button"
+                    onClick={handleImportFromUrl}
+                    disabled={importing || !importUrl.trim()}
+                  >
+                    {importing ? 'Importing...' : 'Fetch'}
+                  </Button>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleImportFromFile}
+                  disabled={importing}
+                  className="flex items-center gap-1"
+                >
+                  <Upload className="w-3 h-3" />
+                  Open Saved .html File
+                </Button>
+                {importError && (
+                  <p className="text-sm text-red-600">{importError}</p>
+                )}
+              </div>
+            )}
           </div>
         </form>
       </CardContent>
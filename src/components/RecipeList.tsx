@@ -1,16 +1,43 @@
 import { X } from 'lucide-react';
+import { useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { StarRating } from '@/components/ui/star-rating';
+import { parseDateKey } from '@/lib/dates';
+import { SEARCH_FIELD_LABELS, splitHighlights } from '@/lib/search';
 import { formatDeweyDecimal } from '@/lib/utils';
-import type { Recipe } from '@/types/recipe';
+import type { Recipe, SearchMatch } from '@/types/recipe';
 
 interface RecipeListProps {
   recipes: Recipe[];
   onDeleteRecipe: (id: string | number) => void;
   onRemoveTag?: (recipeId: string | number, tagToRemove: string) => void;
   onRatingChange?: (recipeId: string | number, rating: number) => void;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+function SearchMatchSnippet({ match }: { match: SearchMatch }) {
+  return (
+    <p className="text-sm text-gray-600 mb-2">
+      <span className="text-xs font-medium text-gray-500 mr-1">
+        {SEARCH_FIELD_LABELS[match.field]}:
+      </span>
+      {splitHighlights(match.snippet).map((segment, index) =>
+        segment.highlighted ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: segments are static text
+          <mark key={index} className="bg-yellow-200 rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          // biome-ignore lint/suspicious/noArrayIndexKey: segments are static text
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
 }
 
 export function RecipeList({
@@ -18,8 +45,27 @@ export function RecipeList({
   onDeleteRecipe,
   onRemoveTag,
   onRatingChange,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
 }: RecipeListProps) {
   const navigate = useNavigate();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Load the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: '400px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
 
   const handleTagClick = (tag: string, e: React.MouseEvent) => {
     e.preventDefault();
@@ -60,6 +106,12 @@ export function RecipeList({
                   </p>
                 )}
 
+                {recipe.matches
+                  ?.filter((match) => match.field !== 'name')
+                  .map((match) => (
+                    <SearchMatchSnippet key={match.field} match={match} />
+                  ))}
+
                 <div className="flex flex-wrap gap-2 mb-3">
                   {recipe.tags.map((tag) => (
                     <span
@@ -108,6 +160,8 @@ export function RecipeList({
 
                 <p className="text-sm text-gray-500">
                   Added {recipe.createdAt.toLocaleDateString()}
+                  {recipe.lastCookedAt &&
+                    ` · Cooked ${recipe.timesCooked === 1 ? 'once' : `${recipe.timesCooked} times`}, last ${parseDateKey(recipe.lastCookedAt)?.toLocaleDateString()}`}
                 </p>
               </Link>
 
@@ -127,6 +181,14 @@ export function RecipeList({
           </CardContent>
         </Card>
       ))}
+
+      {hasMore && onLoadMore && (
+        <div ref={sentinelRef} className="text-center py-4">
+          <Button variant="outline" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
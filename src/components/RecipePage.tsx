@@ -5,13 +5,26 @@ import {
   ChevronRight,
   Download,
   FileText,
+  Printer,
   Save,
+  Tag,
   Upload,
   X,
 } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
-import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  Link,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from 'react-router-dom';
+import { AddToMealPlan } from '@/components/AddToMealPlan';
+import { CookLog } from '@/components/CookLog';
 import { DeweyAutoSelector } from '@/components/DeweyAutoSelector';
+import { IngredientEditor } from '@/components/IngredientEditor';
+import { RecipeQrCode } from '@/components/RecipeQrCode';
+import { RecipeScaler } from '@/components/RecipeScaler';
+import { StepEditor } from '@/components/StepEditor';
 import { TagInput } from '@/components/TagInput';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -20,11 +33,21 @@ import { Label } from '@/components/ui/label';
 import { StarRating } from '@/components/ui/star-rating';
 import { formatDeweyDecimal } from '@/lib/utils';
 import { useRecipeStore } from '@/store/recipeStore';
-import type { Recipe } from '@/types/recipe';
+import type {
+  Recipe,
+  RecipeIngredient,
+  RecipeStep,
+  RecipeWalkOrder,
+} from '@/types/recipe';
 
 export function RecipePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  // Reached from the shelf, previous and next follow the shelf too
+  const [searchParams] = useSearchParams();
+  const order: RecipeWalkOrder =
+    searchParams.get('order') === 'dewey' ? 'dewey' : 'created';
+  const orderQuery = order === 'dewey' ? '?order=dewey' : '';
 
   // Zustand store
   const {
@@ -39,6 +62,8 @@ export function RecipePage() {
     deleteRecipe,
     loadTags,
     loadDeweyCategories,
+    classificationSchemes,
+    loadClassificationSchemes,
     uploadFile,
     deleteFile,
     downloadFile,
@@ -51,11 +76,22 @@ export function RecipePage() {
   const [recipePage, setRecipePage] = useState('');
   const [recipeUrl, setRecipeUrl] = useState('');
   const [recipeNotes, setRecipeNotes] = useState('');
+  const [recipeServings, setRecipeServings] = useState('');
   const [recipeRating, setRecipeRating] = useState<number | undefined>(
     undefined,
   );
   const [tags, setTags] = useState<string[]>([]);
   const [deweyDecimal, setDeweyDecimal] = useState('');
+  const [deweyError, setDeweyError] = useState<string | null>(null);
+  const [classifications, setClassifications] = useState<
+    Record<number, string>
+  >({});
+  const [classificationError, setClassificationError] = useState<{
+    schemeId: number;
+    message: string;
+  } | null>(null);
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+  const [steps, setSteps] = useState<RecipeStep[]>([]);
   const [nextRecipe, setNextRecipe] = useState<Recipe | null>(null);
   const [previousRecipe, setPreviousRecipe] = useState<Recipe | null>(null);
   const [saving, setSaving] = useState(false);
@@ -73,9 +109,13 @@ export function RecipePage() {
         setRecipePage(recipeData.page || '');
         setRecipeUrl(recipeData.url || '');
         setRecipeNotes(recipeData.notes || '');
+        setRecipeServings(recipeData.servings?.toString() || '');
         setRecipeRating(recipeData.rating);
         setTags(recipeData.tags);
         setDeweyDecimal(recipeData.deweyDecimal || '');
+        setClassifications(recipeData.classifications ?? {});
+        setIngredients(recipeData.ingredients || []);
+        setSteps(recipeData.steps || []);
       }
     } catch (error) {
       console.error('Failed to load recipe:', error);
@@ -87,15 +127,15 @@ export function RecipePage() {
 
     try {
       const [next, previous] = await Promise.all([
-        getNextRecipe(id),
-        getPreviousRecipe(id),
+        getNextRecipe(id, order),
+        getPreviousRecipe(id, order),
       ]);
       setNextRecipe(next);
       setPreviousRecipe(previous);
     } catch (error) {
       console.error('Failed to load navigation:', error);
     }
-  }, [id, getNextRecipe, getPreviousRecipe]);
+  }, [id, order, getNextRecipe, getPreviousRecipe]);
 
   useEffect(() => {
     if (id) {
@@ -103,12 +143,14 @@ export function RecipePage() {
       loadNavigation();
       loadTags();
       loadDeweyCategories();
+      loadClassificationSchemes();
       clearError();
     }
   }, [
     id,
     loadTags,
     loadDeweyCategories,
+    loadClassificationSchemes,
     clearError,
     loadRecipe,
     loadNavigation,
@@ -174,12 +216,21 @@ export function RecipePage() {
     const hasPageChanges = recipePage !== (recipe.page || '');
     const hasUrlChanges = recipeUrl !== (recipe.url || '');
     const hasNotesChanges = recipeNotes !== (recipe.notes || '');
+    const hasServingsChanges =
+      recipeServings !== (recipe.servings?.toString() || '');
+    const hasIngredientChanges =
+      JSON.stringify(ingredients) !== JSON.stringify(recipe.ingredients || []);
+    const hasStepChanges =
+      JSON.stringify(steps) !== JSON.stringify(recipe.steps || []);
 
     if (
       !hasNameChanges &&
       !hasPageChanges &&
       !hasUrlChanges &&
-      !hasNotesChanges
+      !hasNotesChanges &&
+      !hasServingsChanges &&
+      !hasIngredientChanges &&
+      !hasStepChanges
     )
       return;
 
@@ -190,6 +241,9 @@ export function RecipePage() {
         page?: string;
         url?: string;
         notes?: string;
+        servings?: number;
+        ingredients?: RecipeIngredient[];
+        steps?: RecipeStep[];
       } = {};
 
       if (hasNameChanges) {
@@ -208,6 +262,18 @@ export function RecipePage() {
         updates.notes = recipeNotes;
       }
 
+      if (hasServingsChanges) {
+        updates.servings = parseFloat(recipeServings) || 0;
+      }
+
+      if (hasIngredientChanges) {
+        updates.ingredients = ingredients;
+      }
+
+      if (hasStepChanges) {
+        updates.steps = steps;
+      }
+
       await updateRecipe(id, updates);
       // Reload the recipe to get the updated data
       await loadRecipe();
@@ -250,7 +316,10 @@ export function RecipePage() {
   const handleDeweyDecimalChange = async (newDeweyDecimal: string) => {
     if (!id || !recipe) return;
 
+    const previousDeweyDecimal = deweyDecimal;
+    const previousTags = tags;
     setDeweyDecimal(newDeweyDecimal);
+    setDeweyError(null);
 
     // Auto-generate hierarchical tags
     let updatedTags = [...tags];
@@ -276,17 +345,57 @@ export function RecipePage() {
 
     // Auto-save Dewey decimal and tags immediately
     try {
-      await updateRecipe(id, {
+      const savedRecipe = await updateRecipe(id, {
         deweyDecimal: newDeweyDecimal,
         tags: updatedTags,
       });
+      // Another recipe may have been filed under the code first, in which
+      // case the server gave this one the next free number
+      setDeweyDecimal(savedRecipe.deweyDecimal ?? '');
       setRecipe((prev) =>
         prev
-          ? { ...prev, deweyDecimal: newDeweyDecimal, tags: updatedTags }
+          ? {
+              ...prev,
+              deweyDecimal: savedRecipe.deweyDecimal,
+              tags: updatedTags,
+            }
           : null,
       );
     } catch (error) {
       console.error('Failed to save Dewey decimal:', error);
+      // Keep the recipe on screen rather than the store's error page
+      clearError();
+      setDeweyDecimal(previousDeweyDecimal);
+      setTags(previousTags);
+      setDeweyError(
+        error instanceof Error ? error.message : 'Failed to save Dewey code',
+      );
+    }
+  };
+
+  const handleClassificationChange = async (schemeId: number, code: string) => {
+    if (!id || !recipe) return;
+
+    const previousClassifications = classifications;
+    setClassifications({ ...classifications, [schemeId]: code });
+    setClassificationError(null);
+
+    try {
+      const savedRecipe = await updateRecipe(id, {
+        classifications: { [schemeId]: code },
+      });
+      setClassifications(savedRecipe.classifications ?? {});
+      setRecipe((prev) =>
+        prev ? { ...prev, classifications: savedRecipe.classifications } : null,
+      );
+    } catch (error) {
+      console.error('Failed to save classification:', error);
+      clearError();
+      setClassifications(previousClassifications);
+      setClassificationError({
+        message: error instanceof Error ? error.message : 'Failed to save code',
+        schemeId,
+      });
     }
   };
 
@@ -416,24 +525,50 @@ export function RecipePage() {
     recipeName !== recipe.name ||
     recipePage !== (recipe.page || '') ||
     recipeUrl !== (recipe.url || '') ||
-    recipeNotes !== (recipe.notes || '');
+    recipeNotes !== (recipe.notes || '') ||
+    recipeServings !== (recipe.servings?.toString() || '') ||
+    JSON.stringify(ingredients) !== JSON.stringify(recipe.ingredients || []) ||
+    JSON.stringify(steps) !== JSON.stringify(recipe.steps || []);
+
+  // The shelf category the recipe stands in: its code, or the code without
+  // its sequence number
+  const deweyCode = recipe.deweyDecimal ?? '';
+  const shelfCode =
+    !deweyCode.includes('.') ||
+    deweyCategories.some((cat) => cat.deweyCode === deweyCode)
+      ? deweyCode
+      : deweyCode.slice(0, deweyCode.lastIndexOf('.'));
 
   return (
     <div className="container mx-auto p-8 max-w-4xl">
       <div className="mb-6">
-        <Link
-          to="/"
-          className="inline-flex items-center text-blue-600 hover:text-blue-800 mb-4"
-        >
-          <ArrowLeft className="w-4 h-4 mr-2" />
-          Back to recipes
-        </Link>
+        {order === 'dewey' ? (
+          <Link
+            to={
+              shelfCode
+                ? `/shelf?code=${encodeURIComponent(shelfCode)}`
+                : '/shelf'
+            }
+            className="inline-flex items-center text-blue-600 hover:text-blue-800 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to shelf
+          </Link>
+        ) : (
+          <Link
+            to="/"
+            className="inline-flex items-center text-blue-600 hover:text-blue-800 mb-4"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to recipes
+          </Link>
+        )}
 
         <div className="flex justify-between items-center mb-4">
           <div className="flex gap-2">
             {previousRecipe && (
               <Link
-                to={`/recipe/${previousRecipe.id}`}
+                to={`/recipe/${previousRecipe.id}${orderQuery}`}
                 className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 <ChevronLeft className="w-4 h-4 mr-1" />
@@ -444,7 +579,7 @@ export function RecipePage() {
           <div className="flex gap-2">
             {nextRecipe && (
               <Link
-                to={`/recipe/${nextRecipe.id}`}
+                to={`/recipe/${nextRecipe.id}${orderQuery}`}
                 className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 hover:text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
                 {nextRecipe.name}
@@ -467,9 +602,42 @@ export function RecipePage() {
                 📚 Dewey: {formatDeweyDecimal(recipe.deweyDecimal)}
               </p>
             )}
+            {classificationSchemes
+              .filter((scheme) => recipe.classifications?.[scheme.id])
+              .map((scheme) => (
+                <p
+                  key={scheme.id}
+                  className="text-sm text-blue-600 font-medium"
+                >
+                  📚 {scheme.name}: {recipe.classifications?.[scheme.id]}
+                </p>
+              ))}
           </div>
 
           <div className="flex gap-2">
+            <AddToMealPlan recipe={recipe} />
+
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/recipe/${recipe.id}/print`)}
+              className="flex items-center gap-2"
+            >
+              <Printer className="w-4 h-4" />
+              Print
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/labels?ids=${recipe.id}`)}
+              className="flex items-center gap-2"
+              title="Print a shelf label or index card"
+            >
+              <Tag className="w-4 h-4" />
+              Label
+            </Button>
+
+            <RecipeQrCode recipe={recipe} />
+
             <Button
               onClick={handleSave}
               disabled={!hasChanges || saving}
@@ -556,6 +724,20 @@ export function RecipePage() {
               />
             </div>
 
+            <div>
+              <Label htmlFor="recipe-servings">Servings</Label>
+              <Input
+                id="recipe-servings"
+                type="number"
+                min="0"
+                step="any"
+                value={recipeServings}
+                onChange={(e) => setRecipeServings(e.target.value)}
+                placeholder="How many does this recipe serve?"
+                className="mt-1"
+              />
+            </div>
+
             <div>
               <Label>Rating (auto-saved)</Label>
               <div className="mt-2">
@@ -588,11 +770,78 @@ export function RecipePage() {
                   selectedCode={deweyDecimal}
                 />
               </div>
+              {deweyError && (
+                <p className="mt-2 text-sm text-red-600">{deweyError}</p>
+              )}
             </div>
+
+            {classificationSchemes
+              .filter((scheme) => !scheme.isPrimary)
+              .map((scheme) => (
+                <div key={scheme.id}>
+                  <Label>{scheme.name} (auto-saved)</Label>
+                  <div className="mt-2">
+                    <DeweyAutoSelector
+                      scheme={scheme}
+                      onSelect={(code) =>
+                        handleClassificationChange(scheme.id, code)
+                      }
+                      selectedCode={classifications[scheme.id]}
+                    />
+                  </div>
+                  {classificationError?.schemeId === scheme.id && (
+                    <p className="mt-2 text-sm text-red-600">
+                      {classificationError.message}
+                    </p>
+                  )}
+                </div>
+              ))}
           </div>
         </CardContent>
       </Card>
 
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="space-y-6">
+            {recipe.ingredients && recipe.ingredients.length > 0 && (
+              <div>
+                <Label>Scale &amp; Convert</Label>
+                <div className="mt-2">
+                  <RecipeScaler recipe={recipe} />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <Label>Ingredients</Label>
+              <div className="mt-2">
+                <IngredientEditor
+                  ingredients={ingredients}
+                  onChange={setIngredients}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Steps</Label>
+              <div className="mt-2">
+                <StepEditor steps={steps} onChange={setSteps} />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <CookLog
+            recipe={recipe}
+            rating={recipeRating}
+            onRatingChange={handleRatingChange}
+          />
+        </CardContent>
+      </Card>
+
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="space-y-4">
@@ -0,0 +1,140 @@
+import { ArrowLeft, Printer } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { formatIngredient } from '@/lib/ingredients';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { Recipe } from '@/types/recipe';
+
+// The edit page prints its buttons and inputs, so this one lays the recipe
+// out for paper: no controls, ingredients in two columns, steps kept whole
+export function RecipePrintPage() {
+  const { id } = useParams<{ id: string }>();
+  const { getRecipeById } = useRecipeStore();
+
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    getRecipeById(id)
+      .then(setRecipe)
+      .catch((error) => console.error('Failed to load recipe:', error))
+      .finally(() => setLoaded(true));
+  }, [id, getRecipeById]);
+
+  if (!loaded) {
+    return (
+      <div className="container mx-auto p-8 max-w-3xl">
+        <div className="text-center py-8">Loading recipe...</div>
+      </div>
+    );
+  }
+
+  if (!recipe) {
+    return (
+      <div className="container mx-auto p-8 max-w-3xl">
+        <div className="text-center py-8">
+          <p className="text-red-600 mb-4">Recipe not found</p>
+          <Link to="/" className="text-blue-600 hover:underline">
+            ← Back to recipes
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const ingredients = recipe.ingredients ?? [];
+  const steps = recipe.steps ?? [];
+  const details = [
+    recipe.deweyDecimal && `Dewey ${formatDeweyDecimal(recipe.deweyDecimal)}`,
+    recipe.page && `Location: ${recipe.page}`,
+    recipe.servings && `Serves ${recipe.servings}`,
+    recipe.rating &&
+      `${'★'.repeat(recipe.rating)}${'☆'.repeat(5 - recipe.rating)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="container mx-auto p-8 max-w-3xl print:p-0 print:max-w-none">
+      <style>{'@page { size: letter; margin: 0.6in; }'}</style>
+
+      <div className="flex justify-between items-center mb-8 print:hidden">
+        <Link
+          to={`/recipe/${recipe.id}`}
+          className="inline-flex items-center text-blue-600 hover:text-blue-800"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to recipe
+        </Link>
+        <Button
+          onClick={() => window.print()}
+          className="flex items-center gap-2"
+        >
+          <Printer className="w-4 h-4" />
+          Print
+        </Button>
+      </div>
+
+      <article className="bg-white text-gray-900 font-serif">
+        <header className="border-b border-gray-300 pb-3 mb-5">
+          <h1 className="text-3xl font-bold">{recipe.name}</h1>
+          {details.length > 0 && (
+            <p className="mt-1 text-sm text-gray-600">{details.join(' · ')}</p>
+          )}
+          {recipe.tags.length > 0 && (
+            <p className="mt-1 text-sm text-gray-600">
+              {recipe.tags.join(', ')}
+            </p>
+          )}
+          {recipe.url && (
+            <p className="mt-1 text-xs text-gray-500 break-all">{recipe.url}</p>
+          )}
+        </header>
+
+        {ingredients.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-lg font-bold mb-2">Ingredients</h2>
+            <ul className="columns-2 gap-8 text-sm">
+              {ingredients.map((ingredient, index) => (
+                <li
+                  key={ingredient.id ?? `ingredient-${index}`}
+                  className="break-inside-avoid py-0.5"
+                >
+                  {ingredient.group &&
+                    ingredient.group !== ingredients[index - 1]?.group && (
+                      <p className="mt-2 font-semibold">{ingredient.group}</p>
+                    )}
+                  {formatIngredient(ingredient)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {steps.length > 0 && (
+          <section className="mb-6">
+            <h2 className="text-lg font-bold mb-2">Method</h2>
+            <ol className="list-decimal pl-6 space-y-2 text-sm">
+              {steps.map((step, index) => (
+                <li
+                  key={step.id ?? `step-${index}`}
+                  className="break-inside-avoid"
+                >
+                  {step.text}
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        {recipe.notes && (
+          <section className="break-inside-avoid">
+            <h2 className="text-lg font-bold mb-2">Notes</h2>
+            <p className="text-sm whitespace-pre-wrap">{recipe.notes}</p>
+          </section>
+        )}
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { ChevronDown, QrCode } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { QrCodeContent, QrCodeFormat, Recipe } from '@/types/recipe';
+
+interface RecipeQrCodeProps {
+  recipe: Recipe;
+}
+
+export function RecipeQrCode({ recipe }: RecipeQrCodeProps) {
+  const { getQrCodeUrl, downloadQrCode } = useRecipeStore();
+
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState<QrCodeContent>('url');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleDownload = async (format: QrCodeFormat) => {
+    setMessage(null);
+    try {
+      await downloadQrCode(recipe.id, { content, format });
+    } catch (error) {
+      setMessage(
+        error instanceof Error ? error.message : 'Failed to download QR code',
+      );
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1"
+        title="QR code for this recipe's binder sleeve or shelf"
+      >
+        <QrCode className="w-4 h-4" />
+        QR
+        <ChevronDown className="w-3 h-3" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-10 mt-2 w-64 p-3 bg-white border border-gray-200 rounded-lg shadow-lg space-y-3">
+          <img
+            src={getQrCodeUrl(recipe.id, { content })}
+            alt={`QR code for ${recipe.name}`}
+            className="w-40 h-40 mx-auto"
+          />
+          <div className="flex gap-3 text-sm text-gray-700">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                name="qr-content"
+                checked={content === 'url'}
+                onChange={() => setContent('url')}
+              />
+              Link
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title={
+                recipe.deweyDecimal
+                  ? undefined
+                  : 'This recipe has no Dewey code'
+              }
+            >
+              <input
+                type="radio"
+                name="qr-content"
+                checked={content === 'dewey'}
+                disabled={!recipe.deweyDecimal}
+                onChange={() => setContent('dewey')}
+              />
+              Dewey code
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            {content === 'url'
+              ? "Any phone camera opens this recipe's page."
+              : 'Smaller code; open it with the Scan page.'}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownload('svg')}
+            >
+              SVG
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownload('png')}
+            >
+              PNG
+            </Button>
+          </div>
+          {message && <p className="text-sm text-red-600">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatQuantity } from '@/lib/scaling';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { Recipe, UnitSystem } from '@/types/recipe';
+
+interface RecipeScalerProps {
+  recipe: Recipe;
+}
+
+const QUICK_FACTORS = [0.5, 1, 2, 3];
+
+export function RecipeScaler({ recipe }: RecipeScalerProps) {
+  const { getScaledRecipe } = useRecipeStore();
+  const [factor, setFactor] = useState(1);
+  const [servings, setServings] = useState('');
+  const [units, setUnits] = useState<UnitSystem | ''>('');
+  const [scaled, setScaled] = useState<Recipe | null>(null);
+  const [scaleError, setScaleError] = useState<string | null>(null);
+
+  const requestedServings = parseFloat(servings);
+  const isScaling =
+    factor !== 1 || !!units || (requestedServings > 0 && !!recipe.servings);
+
+  useEffect(() => {
+    if (!isScaling) {
+      setScaled(null);
+      setScaleError(null);
+      return;
+    }
+
+    const loadScaled = async () => {
+      try {
+        const result = await getScaledRecipe(recipe.id, {
+          factor: requestedServings > 0 ? undefined : factor,
+          servings: requestedServings > 0 ? requestedServings : undefined,
+          units: units || undefined,
+        });
+        setScaled(result);
+        setScaleError(null);
+      } catch (error) {
+        setScaleError(
+          error instanceof Error ? error.message : 'Failed to scale recipe',
+        );
+      }
+    };
+
+    loadScaled();
+  }, [getScaledRecipe, recipe, factor, requestedServings, units, isScaling]);
+
+  const handleQuickFactor = (value: number) => {
+    setFactor(value);
+    setServings('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        {recipe.servings && (
+          <div>
+            <Label htmlFor="scale-servings">
+              Servings (recipe makes {recipe.servings})
+            </Label>
+            <Input
+              id="scale-servings"
+              type="number"
+              min="1"
+              step="any"
+              value={servings}
+              onChange={(e) => {
+                setServings(e.target.value);
+                setFactor(1);
+              }}
+              placeholder={recipe.servings.toString()}
+              className="mt-1 w-32"
+            />
+          </div>
+        )}
+
+        <div>
+          <Label>Scale</Label>
+          <div className="mt-1 flex gap-1">
+            {QUICK_FACTORS.map((value) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={
+                  factor === value && !(requestedServings > 0)
+                    ? 'default'
+                    : 'outline'
+                }
+                onClick={() => handleQuickFactor(value)}
+              >
+                {formatQuantity(value)}×
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label htmlFor="scale-units">Units</Label>
+          <select
+            id="scale-units"
+            value={units}
+            onChange={(e) => setUnits(e.target.value as UnitSystem | '')}
+            className="mt-1 block h-9 px-3 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">As written</option>
+            <option value="metric">Metric</option>
+            <option value="us">US customary</option>
+          </select>
+        </div>
+      </div>
+
+      {scaleError && <p className="text-sm text-red-600">{scaleError}</p>}
+
+      {isScaling && scaled && (
+        <div className="space-y-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-blue-800 font-medium">
+            Scaled {formatQuantity(scaled.scaling?.factor ?? 1)}×
+            {scaled.servings ? ` — makes ${scaled.servings}` : ''}
+          </p>
+
+          {scaled.ingredients && scaled.ingredients.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {scaled.ingredients.map((ingredient, index) => (
+                <li key={ingredient.id ?? `scaled-${index}`}>
+                  {ingredient.group &&
+                    ingredient.group !==
+                      scaled.ingredients?.[index - 1]?.group && (
+                      <p className="mt-2 font-semibold text-gray-700">
+                        {ingredient.group}
+                      </p>
+                    )}
+                  {ingredient.quantity !== undefined && (
+                    <span className="font-medium">
+                      {formatQuantity(
+                        ingredient.quantity,
+                        ingredient.unit,
+                      )}{' '}
+                    </span>
+                  )}
+                  {ingredient.unit && <span>{ingredient.unit} </span>}
+                  {ingredient.item}
+                  {ingredient.preparation && (
+                    <span className="text-gray-600">
+                      , {ingredient.preparation}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {units && scaled.steps && scaled.steps.length > 0 && (
+            <ol className="list-decimal list-inside space-y-1 text-sm">
+              {scaled.steps.map((step, index) => (
+                <li key={step.id ?? `scaled-step-${index}`}>{step.text}</li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { ArrowLeft, Camera, Search } from 'lucide-react';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { decodeQr } from '@/lib/qr';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { Recipe } from '@/types/recipe';
+
+// The Barcode Detection API isn't in TypeScript's DOM types yet
+interface BarcodeDetectorInstance {
+  detect(image: ImageBitmapSource): Promise<Array<{ rawValue: string }>>;
+}
+declare const BarcodeDetector: new (options: {
+  formats: string[];
+}) => BarcodeDetectorInstance;
+
+const canDetectBarcodes = () => 'BarcodeDetector' in window;
+
+// Photos are scaled down to this many pixels on their longer side before
+// decodeQr looks for a code, which is plenty for a label filling part of it
+const MAX_PHOTO_SIZE = 1200;
+
+// Uses the browser's own barcode detection where there is some (Chrome and
+// Edge), and jsQR elsewhere
+async function readQrCode(file: File): Promise<string | null> {
+  const photo = await createImageBitmap(file);
+  if (canDetectBarcodes()) {
+    const detector = new BarcodeDetector({ formats: ['qr_code'] });
+    const [barcode] = await detector.detect(photo);
+    return barcode?.rawValue ?? null;
+  }
+
+  const scale = Math.min(
+    1,
+    MAX_PHOTO_SIZE / Math.max(photo.width, photo.height),
+  );
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(photo.width * scale);
+  canvas.height = Math.round(photo.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.drawImage(photo, 0, 0, canvas.width, canvas.height);
+  return decodeQr(context.getImageData(0, 0, canvas.width, canvas.height));
+}
+
+// Recipe QR codes hold either a link to /recipe/:id or a bare Dewey code
+const RECIPE_PATH = /\/recipe\/(\d+)\/?$/;
+const DEWEY_CODE = /^[\w.]+$/;
+
+export function ScanPage() {
+  const navigate = useNavigate();
+  const { findRecipesByQuery } = useRecipeStore();
+
+  const [code, setCode] = useState('');
+  const [matches, setMatches] = useState<Recipe[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const openCode = async (text: string) => {
+    const value = text.trim();
+    setMatches([]);
+    setMessage(null);
+    if (!value) return;
+
+    try {
+      const id = new URL(value, window.location.origin).pathname.match(
+        RECIPE_PATH,
+      )?.[1];
+      if (id) {
+        navigate(`/recipe/${id}`);
+        return;
+      }
+    } catch {
+      // Not a link; try it as a Dewey code
+    }
+
+    if (!DEWEY_CODE.test(value)) {
+      setMessage(`"${value}" isn't a recipe link or Dewey code`);
+      return;
+    }
+
+    const found = await findRecipesByQuery(`dewey:${value}`);
+    const [first] = found;
+    if (found.length === 1 && first) {
+      navigate(`/recipe/${first.id}`);
+    } else if (found.length === 0) {
+      setMessage(`No recipe has the Dewey code ${value}`);
+    } else {
+      setMatches(found);
+    }
+  };
+
+  const handleScan = () => {
+    const cameraInput = document.createElement('input');
+    cameraInput.type = 'file';
+    cameraInput.accept = 'image/*';
+    cameraInput.capture = 'environment'; // Use back camera by default
+    cameraInput.style.display = 'none';
+
+    cameraInput.onchange = async (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      setBusy(true);
+      setMatches([]);
+      setMessage(null);
+      try {
+        const text = await readQrCode(file);
+        if (text !== null) {
+          setCode(text);
+          await openCode(text);
+        } else {
+          setMessage(
+            'No QR code found in the photo. Try again closer and in good light.',
+          );
+        }
+      } catch (error) {
+        console.error('Failed to read QR code:', error);
+        setMessage('Failed to read the QR code');
+      } finally {
+        setBusy(false);
+      }
+    };
+
+    document.body.appendChild(cameraInput);
+    cameraInput.click();
+    document.body.removeChild(cameraInput);
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-2xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Scan a Label</h1>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-6">
+          <div className="space-y-2">
+            <Button
+              onClick={handleScan}
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <Camera className="w-4 h-4" />
+              {busy ? 'Reading...' : 'Scan QR Code'}
+            </Button>
+            <p className="text-sm text-gray-600">
+              Take a photo of the QR code on a binder sleeve, shelf label or
+              index card to open its recipe.
+            </p>
+          </div>
+
+          <form
+            className="flex gap-2 items-end"
+            onSubmit={async (e) => {
+              e.preventDefault();
+              setBusy(true);
+              try {
+                await openCode(code);
+              } catch {
+                setMessage('Failed to look up the code');
+              } finally {
+                setBusy(false);
+              }
+            }}
+          >
+            <div className="flex-1">
+              <Label htmlFor="scan-code">Dewey code or recipe link</Label>
+              <Input
+                id="scan-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="e.g. 641.5.001"
+                className="mt-1"
+              />
+            </div>
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={busy}
+              className="flex items-center gap-2"
+            >
+              <Search className="w-4 h-4" />
+              Open
+            </Button>
+          </form>
+
+          {message && <p className="text-sm text-red-600">{message}</p>}
+
+          {matches.length > 0 && (
+            <div>
+              <p className="text-sm text-gray-600 mb-2">
+                {matches.length} recipes share this code:
+              </p>
+              <ul className="space-y-1">
+                {matches.map((recipe) => (
+                  <li key={recipe.id}>
+                    <Link
+                      to={`/recipe/${recipe.id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {recipe.name}
+                    </Link>
+                    {recipe.deweyDecimal && (
+                      <span className="ml-2 text-xs text-gray-500 font-mono">
+                        {formatDeweyDecimal(recipe.deweyDecimal)}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
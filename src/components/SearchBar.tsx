@@ -1,22 +1,36 @@
 import { TagInput } from '@/components/TagInput';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { SEARCH_FIELD_LABELS } from '@/lib/search';
+import type { SearchField } from '@/types/recipe';
 
 interface SearchBarProps {
   searchTerm: string;
   selectedTags: string[];
   availableTags: string[];
+  matchCounts?: Partial<Record<SearchField, number>>;
+  query: string;
+  queryError: { message: string; position: number } | null;
   onSearchTermChange: (term: string) => void;
   onSelectedTagsChange: (tags: string[]) => void;
+  onQueryChange: (query: string) => void;
 }
 
 export function SearchBar({
   searchTerm,
   selectedTags,
   availableTags,
+  matchCounts,
+  query,
+  queryError,
   onSearchTermChange,
   onSelectedTagsChange,
+  onQueryChange,
 }: SearchBarProps) {
+  const matchedFields = Object.entries(matchCounts || {}) as Array<
+    [SearchField, number]
+  >;
+
   return (
     <div className="space-y-4 mb-6 p-4 bg-gray-50 rounded-lg">
       <div>
@@ -26,9 +40,22 @@ export function SearchBar({
           type="text"
           value={searchTerm}
           onChange={(e) => onSearchTermChange(e.target.value)}
-          placeholder="Search by recipe name..."
+          placeholder='Search names, tags, ingredients, notes, files... use "quotes" for phrases'
           className="mt-1"
         />
+        {searchTerm && matchedFields.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2 text-xs text-gray-600">
+            <span>Matched in:</span>
+            {matchedFields.map(([field, count]) => (
+              <span
+                key={field}
+                className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded"
+              >
+                {SEARCH_FIELD_LABELS[field]} ({count})
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       <div>
@@ -42,6 +69,35 @@ export function SearchBar({
           />
         </div>
       </div>
+
+      <div>
+        <Label htmlFor="query">Advanced Query</Label>
+        <Input
+          id="query"
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder='tag:chicken -tag:spicy rating:>=4 (has:file OR dewey:641.*) "sous vide"'
+          className={`mt-1 font-mono text-sm ${queryError ? 'border-red-500' : ''}`}
+          aria-invalid={!!queryError}
+        />
+        {queryError ? (
+          <div className="mt-2 text-xs text-red-600">
+            <p>{queryError.message}</p>
+            <pre className="mt-1 font-mono whitespace-pre-wrap">
+              {query}
+              {'\n'}
+              {' '.repeat(queryError.position)}^
+            </pre>
+          </div>
+        ) : (
+          <p className="mt-2 text-xs text-gray-500">
+            Fields: tag:, dewey:, rating:, created:, cooked:, timescooked:,
+            has:, name:, notes:, ingredient:, file:, url:. Combine with OR,
+            -negate and (groups).
+          </p>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,239 @@
+import { ArrowLeft, ChevronRight } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { formatDeweyDecimal } from '@/lib/utils';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { DeweyShelfCategory, Recipe } from '@/types/recipe';
+
+const byCode = (a: DeweyShelfCategory, b: DeweyShelfCategory) =>
+  a.deweyCode.localeCompare(b.deweyCode);
+
+// Walks the library in the order recipes stand on the shelf, one category
+// at a time; `code` in the URL is the category being looked at
+export function ShelfPage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { getDeweyShelf, getShelfRecipes } = useRecipeStore();
+
+  const [shelf, setShelf] = useState<DeweyShelfCategory[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hideEmpty, setHideEmpty] = useState(true);
+
+  const code = searchParams.get('code') ?? '';
+
+  useEffect(() => {
+    getDeweyShelf()
+      .then(setShelf)
+      .catch(() => {
+        // The store has already surfaced the error
+      })
+      .finally(() => setLoading(false));
+  }, [getDeweyShelf]);
+
+  useEffect(() => {
+    if (!code) {
+      setRecipes([]);
+      return;
+    }
+    getShelfRecipes(code)
+      .then(setRecipes)
+      .catch(() => setRecipes([]));
+  }, [code, getShelfRecipes]);
+
+  const byParent = useMemo(() => {
+    const children = new Map<string, DeweyShelfCategory[]>();
+    for (const category of shelf) {
+      const key = category.parentCode ?? '';
+      children.set(key, [...(children.get(key) ?? []), category]);
+    }
+    return children;
+  }, [shelf]);
+
+  const current = shelf.find(({ deweyCode }) => deweyCode === code);
+
+  // The current category and its ancestors, root first
+  const path = useMemo(() => {
+    const ancestors: DeweyShelfCategory[] = [];
+    const seen = new Set<string>();
+    let category = current;
+    while (category && !seen.has(category.deweyCode)) {
+      seen.add(category.deweyCode);
+      ancestors.unshift(category);
+      const parentCode = category.parentCode;
+      category = shelf.find(({ deweyCode }) => deweyCode === parentCode);
+    }
+    return ancestors;
+  }, [current, shelf]);
+
+  const children = (byParent.get(code) ?? [])
+    .filter(({ isActive, totalCount }) =>
+      hideEmpty ? totalCount > 0 : isActive || totalCount > 0,
+    )
+    .sort(byCode);
+
+  const openCategory = (deweyCode: string) => {
+    setSearchParams(deweyCode ? { code: deweyCode } : {});
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-8 max-w-4xl">
+        <div className="text-center">Loading shelf...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Shelf</h1>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <button
+          type="button"
+          onClick={() => openCategory('')}
+          className={`px-2 py-1 rounded hover:bg-gray-100 ${
+            path.length === 0 ? 'bg-blue-100 font-medium' : 'text-blue-600'
+          }`}
+        >
+          All Categories
+        </button>
+        {path.map((category, index) => (
+          <React.Fragment key={category.id}>
+            <ChevronRight className="w-3 h-3 text-gray-400" />
+            <button
+              type="button"
+              onClick={() => openCategory(category.deweyCode)}
+              className={`px-2 py-1 rounded hover:bg-gray-100 ${
+                index === path.length - 1
+                  ? 'bg-blue-100 font-medium'
+                  : 'text-blue-600'
+              }`}
+            >
+              <span className="font-mono text-xs mr-1">
+                {category.deweyCode}
+              </span>
+              {category.name}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {current && (
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-semibold">
+                  <span className="font-mono mr-2">{current.deweyCode}</span>
+                  {current.name}
+                </h3>
+                <span className="text-sm text-gray-600">
+                  {current.totalCount} recipe
+                  {current.totalCount !== 1 ? 's' : ''} here and below
+                </span>
+              </div>
+
+              {recipes.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No recipes are filed under this category itself.
+                </p>
+              ) : (
+                <ol className="divide-y border rounded-lg">
+                  {recipes.map((recipe) => (
+                    <li key={recipe.id}>
+                      <Link
+                        to={`/recipe/${recipe.id}?order=dewey`}
+                        className="flex items-center gap-3 p-3 hover:bg-gray-50"
+                      >
+                        <span className="font-mono text-sm text-gray-600 min-w-[100px]">
+                          {recipe.deweyDecimal &&
+                            formatDeweyDecimal(recipe.deweyDecimal)}
+                        </span>
+                        <span className="text-sm font-medium text-gray-900">
+                          {recipe.name}
+                        </span>
+                        {recipe.page && (
+                          <span className="text-xs text-gray-500">
+                            {recipe.page}
+                          </span>
+                        )}
+                      </Link>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-lg font-semibold">
+          {current ? 'Subcategories' : 'Categories'}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <input
+            id="hide-empty"
+            type="checkbox"
+            checked={hideEmpty}
+            onChange={(e) => setHideEmpty(e.target.checked)}
+            className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+          />
+          <Label htmlFor="hide-empty" className="cursor-pointer">
+            Hide empty categories
+          </Label>
+        </div>
+      </div>
+
+      {children.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-gray-600 text-center">
+              {shelf.length === 0
+                ? 'There are no Dewey categories yet. Add them on the Dewey page.'
+                : 'Nothing further down this shelf.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-2">
+          {children.map((category) => (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => openCategory(category.deweyCode)}
+              className={`w-full text-left flex justify-between items-center p-3 rounded-lg border bg-white hover:shadow-md transition-shadow ${
+                category.totalCount === 0 ? 'text-gray-500' : 'text-gray-900'
+              }`}
+            >
+              <span>
+                <span className="font-mono text-sm mr-3">
+                  {category.deweyCode}
+                </span>
+                <span className="font-medium">{category.name}</span>
+              </span>
+              <span className="bg-blue-100 text-blue-800 text-sm font-medium px-2.5 py-0.5 rounded">
+                {category.totalCount} recipe
+                {category.totalCount !== 1 ? 's' : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { ArrowLeft, Copy, Download, Plus, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { parseIngredientLine } from '@/lib/ingredients';
+import { formatShoppingItem, formatShoppingList } from '@/lib/shopping';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { ShoppingListItem } from '@/types/recipe';
+
+export function ShoppingListPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const listId = Number(id);
+
+  const {
+    shoppingList,
+    error,
+    loadShoppingList,
+    addShoppingListItem,
+    updateShoppingListItem,
+    deleteShoppingListItem,
+    downloadShoppingList,
+    clearError,
+  } = useRecipeStore();
+
+  const [newItem, setNewItem] = useState('');
+  const [hideChecked, setHideChecked] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    loadShoppingList(listId);
+  }, [loadShoppingList, listId]);
+
+  const list = shoppingList?.id === listId ? shoppingList : null;
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    // Accept "2 lb apples" as well as just "apples"
+    const { item, quantity, unit } = parseIngredientLine(newItem.trim());
+    try {
+      await addShoppingListItem(listId, { item, quantity, unit });
+      setNewItem('');
+    } catch (error) {
+      console.error('Failed to add item:', error);
+    }
+  };
+
+  const handleToggle = (item: ShoppingListItem) => {
+    updateShoppingListItem(listId, item.id, { checked: !item.checked }).catch(
+      (error) => console.error('Failed to update item:', error),
+    );
+  };
+
+  const handleRemove = (itemId: number) => {
+    deleteShoppingListItem(listId, itemId).catch((error) =>
+      console.error('Failed to remove item:', error),
+    );
+  };
+
+  const handleCopy = async () => {
+    if (!list) return;
+    try {
+      await navigator.clipboard.writeText(
+        formatShoppingList(
+          list.name,
+          list.items.filter((item) => !item.checked),
+          'text',
+        ),
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy shopping list:', error);
+    }
+  };
+
+  if (!list) {
+    return (
+      <div className="container mx-auto p-8 max-w-3xl">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/shopping-lists')}
+          className="flex items-center gap-2 mb-6"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <p className="text-gray-500">{error || 'Loading...'}</p>
+      </div>
+    );
+  }
+
+  const visibleItems = list.items.filter(
+    (item) => !hideChecked || !item.checked,
+  );
+  const categories = [...new Set(visibleItems.map((item) => item.category))];
+  const checkedCount = list.items.filter((item) => item.checked).length;
+
+  return (
+    <div className="container mx-auto p-8 max-w-3xl">
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/shopping-lists')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">{list.name}</h1>
+        <span className="text-sm text-gray-500">
+          {checkedCount}/{list.items.length} checked
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCopy}
+          className="flex items-center gap-2"
+          title="Copy the unchecked items as plain text"
+        >
+          <Copy className="w-4 h-4" />
+          {copied ? 'Copied!' : 'Copy'}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadShoppingList(listId, 'markdown')}
+          className="flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Markdown
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadShoppingList(listId, 'text')}
+          className="flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Text
+        </Button>
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={hideChecked}
+            onChange={(e) => setHideChecked(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Hide checked
+        </label>
+      </div>
+
+      <form onSubmit={handleAddItem} className="flex gap-2 mb-6">
+        <Input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder="Add an item, e.g. 2 lb apples or paper towels"
+        />
+        <Button type="submit" className="flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add
+        </Button>
+      </form>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-gray-500">
+          {list.items.length === 0
+            ? 'This list is empty. Add items above.'
+            : 'Everything is checked off.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category) => (
+            <Card key={category}>
+              <CardContent className="pt-4">
+                <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                  {category}
+                </h2>
+                <ul className="divide-y divide-gray-100">
+                  {visibleItems
+                    .filter((item) => item.category === category)
+                    .map((item) => (
+                      <li key={item.id} className="flex items-start gap-3 py-2">
+                        <input
+                          id={`item-${item.id}`}
+                          type="checkbox"
+                          checked={item.checked}
+                          onChange={() => handleToggle(item)}
+                          className="mt-1 w-4 h-4"
+                        />
+                        <label
+                          htmlFor={`item-${item.id}`}
+                          className={`flex-1 cursor-pointer ${
+                            item.checked
+                              ? 'line-through text-gray-400'
+                              : 'text-gray-900'
+                          }`}
+                        >
+                          {formatShoppingItem(item)}
+                          {item.recipes.length > 0 && (
+                            <span className="block text-xs text-gray-500">
+                              {item.recipes.join(', ')}
+                            </span>
+                          )}
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(item.id)}
+                          className="text-gray-300 hover:text-red-600"
+                          title="Remove item"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { ArrowLeft, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { addDays, startOfWeek, toDateKey } from '@/lib/dates';
+import { useRecipeStore } from '@/store/recipeStore';
+import type { Recipe } from '@/types/recipe';
+
+interface ChosenRecipe {
+  recipe: Recipe;
+  servings: string;
+}
+
+export function ShoppingListsPage() {
+  const navigate = useNavigate();
+  const {
+    shoppingLists,
+    error,
+    loadShoppingLists,
+    createShoppingList,
+    deleteShoppingList,
+    findRecipes,
+    clearError,
+  } = useRecipeStore();
+
+  const thisWeek = startOfWeek(toDateKey(new Date()));
+  const [name, setName] = useState('');
+  const [usePlan, setUsePlan] = useState(true);
+  const [start, setStart] = useState(thisWeek);
+  const [end, setEnd] = useState(addDays(thisWeek, 6));
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<Recipe[]>([]);
+  const [chosen, setChosen] = useState<ChosenRecipe[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadShoppingLists();
+  }, [loadShoppingLists]);
+
+  useEffect(() => {
+    const loadResults = async () => {
+      setSearchResults(searchTerm.trim() ? await findRecipes(searchTerm) : []);
+    };
+    loadResults();
+  }, [findRecipes, searchTerm]);
+
+  const chooseRecipe = (recipe: Recipe) => {
+    if (!chosen.some((entry) => entry.recipe.id === recipe.id)) {
+      setChosen([
+        ...chosen,
+        { recipe, servings: recipe.servings?.toString() || '' },
+      ]);
+    }
+    setSearchTerm('');
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const list = await createShoppingList({
+        end: usePlan ? end : undefined,
+        name: name.trim() || undefined,
+        recipes: chosen.map((entry) => ({
+          id: entry.recipe.id,
+          servings:
+            parseFloat(entry.servings) > 0
+              ? parseFloat(entry.servings)
+              : undefined,
+        })),
+        start: usePlan ? start : undefined,
+      });
+      navigate(`/shopping-lists/${list.id}`);
+    } catch (error) {
+      console.error('Failed to create shopping list:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = (id: number, listName: string) => {
+    if (!confirm(`Delete the shopping list "${listName}"?`)) return;
+    deleteShoppingList(id).catch((error) =>
+      console.error('Failed to delete shopping list:', error),
+    );
+  };
+
+  return (
+    <div className="container mx-auto p-8 max-w-4xl">
+      <div className="flex items-center gap-4 mb-6">
+        <Button
+          variant="outline"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold text-gray-900">Shopping Lists</h1>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700 flex justify-between">
+          {error}
+          <button type="button" onClick={clearError} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>New Shopping List</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="list-name">Name</Label>
+            <Input
+              id="list-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Named after the meal plan or recipes if left blank"
+              className="mt-1"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                id="use-plan"
+                type="checkbox"
+                checked={usePlan}
+                onChange={(e) => setUsePlan(e.target.checked)}
+                className="w-4 h-4"
+              />
+              <Label htmlFor="use-plan" className="cursor-pointer">
+                Everything on the meal plan between
+              </Label>
+            </div>
+            {usePlan && (
+              <div className="flex flex-wrap items-center gap-2 pl-6">
+                <Input
+                  type="date"
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                  className="w-auto"
+                  aria-label="Start date"
+                />
+                <span className="text-sm text-gray-600">and</span>
+                <Input
+                  type="date"
+                  value={end}
+                  onChange={(e) => setEnd(e.target.value)}
+                  className="w-auto"
+                  aria-label="End date"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recipe-search">
+              {usePlan ? 'Plus these recipes' : 'These recipes'}
+            </Label>
+            <div className="relative">
+              <Input
+                id="recipe-search"
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="Find a recipe..."
+              />
+              {searchResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg">
+                  {searchResults.map((recipe) => (
+                    <button
+                      type="button"
+                      key={recipe.id}
+                      onClick={() => chooseRecipe(recipe)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                    >
+                      {recipe.name}
+                      <Plus className="w-4 h-4 text-gray-400" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {chosen.map((entry) => (
+              <div
+                key={entry.recipe.id}
+                className="flex items-center gap-2 p-2 border border-gray-200 rounded-md text-sm"
+              >
+                <span className="flex-1 font-medium">{entry.recipe.name}</span>
+                <Input
+                  type="number"
+                  min="1"
+                  step="any"
+                  value={entry.servings}
+                  onChange={(e) =>
+                    setChosen(
+                      chosen.map((other) =>
+                        other.recipe.id === entry.recipe.id
+                          ? { ...other, servings: e.target.value }
+                          : other,
+                      ),
+                    )
+                  }
+                  placeholder="Servings"
+                  className="w-24 h-8"
+                  aria-label={`Servings of ${entry.recipe.name}`}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setChosen(
+                      chosen.filter(
+                        (other) => other.recipe.id !== entry.recipe.id,
+                      ),
+                    )
+                  }
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={creating}
+            className="flex items-center gap-2"
+          >
+            <ShoppingCart className="w-4 h-4" />
+            {creating ? 'Creating...' : 'Create List'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-2">
+        {shoppingLists.length === 0 ? (
+          <p className="text-gray-500">No shopping lists yet.</p>
+        ) : (
+          shoppingLists.map((list) => (
+            <div
+              key={list.id}
+              className="flex items-center gap-4 p-4 bg-white border border-gray-200 rounded-lg"
+            >
+              <Link
+                to={`/shopping-lists/${list.id}`}
+                className="flex-1 font-medium text-gray-900 hover:text-blue-600"
+              >
+                {list.name}
+              </Link>
+              <span className="text-sm text-gray-500">
+                {list.checkedCount}/{list.itemCount} checked
+              </span>
+              <span className="text-sm text-gray-500">
+                {list.createdAt.toLocaleDateString()}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleDelete(list.id, list.name)}
+                className="text-gray-400 hover:text-red-600"
+                title="Delete list"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
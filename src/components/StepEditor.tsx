@@ -0,0 +1,118 @@
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import type { RecipeStep } from '@/types/recipe';
+
+interface StepEditorProps {
+  steps: RecipeStep[];
+  onChange: (steps: RecipeStep[]) => void;
+}
+
+export function StepEditor({ steps, onChange }: StepEditorProps) {
+  // Stable React keys for rows that have not been saved yet (and so have no id)
+  const rowKeys = useRef(new WeakMap<RecipeStep, string>());
+  const nextKey = useRef(0);
+
+  const getRowKey = (step: RecipeStep) => {
+    let key = rowKeys.current.get(step);
+    if (!key) {
+      key = step.id ? `step-${step.id}` : `new-step-${nextKey.current++}`;
+      rowKeys.current.set(step, key);
+    }
+    return key;
+  };
+
+  const updateRow = (index: number, text: string) => {
+    const current = steps[index];
+    if (!current) return;
+
+    const updated = { ...current, text };
+    rowKeys.current.set(updated, getRowKey(current));
+    onChange(steps.map((row, i) => (i === index ? updated : row)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    const current = steps[index];
+    const other = steps[target];
+    if (!current || !other) return;
+
+    const reordered = [...steps];
+    reordered[index] = other;
+    reordered[target] = current;
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.length === 0 && (
+        <p className="text-sm text-gray-500">No steps yet.</p>
+      )}
+
+      {steps.map((step, index) => (
+        <div
+          key={getRowKey(step)}
+          className="flex items-start gap-2 p-2 bg-gray-50 rounded-lg"
+        >
+          <span className="mt-2 w-6 text-sm font-semibold text-gray-600 text-right">
+            {index + 1}.
+          </span>
+          <textarea
+            value={step.text}
+            onChange={(e) => updateRow(index, e.target.value)}
+            placeholder="Describe this step..."
+            aria-label={`Step ${index + 1}`}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            rows={2}
+          />
+          <div className="flex items-center gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveRow(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => moveRow(index, 1)}
+              disabled={index === steps.length - 1}
+              title="Move down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeRow(index)}
+              title="Remove step"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...steps, { text: '' }])}
+        className="flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" />
+        Add Step
+      </Button>
+    </div>
+  );
+}
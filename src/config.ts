@@ -0,0 +1,231 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+// A separate recipe collection with its own database file
+export interface LibraryConfig {
+  id: string;
+  name: string;
+  path: string;
+}
+
+// Where database snapshots go and how often they are taken automatically
+export interface SnapshotSettings {
+  directory: string;
+  intervalHours: number;
+  keep: number;
+}
+
+export interface AppConfig {
+  defaultLibrary: string;
+  host: string;
+  libraries: LibraryConfig[];
+  port: number;
+  snapshots: SnapshotSettings;
+}
+
+// Shape of recipe-manager.json; every field is optional
+interface ConfigFile {
+  defaultLibrary?: string;
+  host?: string;
+  libraries?: Array<Partial<LibraryConfig>>;
+  port?: number;
+  snapshots?: Partial<SnapshotSettings>;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+const DEFAULT_CONFIG_FILE = 'recipe-manager.json';
+const DEFAULT_LIBRARY: LibraryConfig = {
+  id: 'default',
+  name: 'Recipes',
+  path: 'recipes.db',
+};
+const DEFAULT_HOST = '0.0.0.0';
+const DEFAULT_PORT = 3000;
+const LIBRARY_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const DEFAULT_SNAPSHOTS: SnapshotSettings = {
+  directory: 'backups',
+  intervalHours: 24,
+  keep: 7,
+};
+
+// Value of a command line flag, given as either --flag value or --flag=value
+const readFlag = (argv: string[], flag: string): string | undefined => {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${flag}`) {
+      const value = argv[i + 1];
+      if (value === undefined || value.startsWith('--')) {
+        throw new ConfigError(`--${flag} needs a value`);
+      }
+      return value;
+    }
+    if (arg?.startsWith(`--${flag}=`)) {
+      return arg.slice(flag.length + 3);
+    }
+  }
+  return undefined;
+};
+
+const parsePort = (value: unknown, source: string): number => {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigError(`${source} must be a port number, got "${value}"`);
+  }
+  return port;
+};
+
+const readConfigFile = (path: string): ConfigFile => {
+  try {
+    const config = JSON.parse(readFileSync(path, 'utf8'));
+    if (
+      typeof config !== 'object' ||
+      config === null ||
+      Array.isArray(config)
+    ) {
+      throw new ConfigError(`${path} must contain a JSON object`);
+    }
+    return config;
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    throw new ConfigError(
+      `Could not read ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+};
+
+// Library paths in the config file are relative to the file itself, so the
+// same file works whichever directory the binary is started from
+const toLibraries = (
+  entries: Array<Partial<LibraryConfig>>,
+  baseDir: string,
+  source: string,
+): LibraryConfig[] => {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new ConfigError(`${source}: libraries must be a non-empty list`);
+  }
+
+  const libraries = entries.map((entry, index) => {
+    const { id, name, path } = entry ?? {};
+    if (typeof id !== 'string' || !LIBRARY_ID_PATTERN.test(id)) {
+      throw new ConfigError(
+        `${source}: library ${index + 1} needs an id of lowercase letters, digits and dashes`,
+      );
+    }
+    if (typeof path !== 'string' || !path.trim()) {
+      throw new ConfigError(`${source}: library "${id}" needs a path`);
+    }
+    return {
+      id,
+      name: typeof name === 'string' && name.trim() ? name.trim() : id,
+      path: resolve(baseDir, path),
+    };
+  });
+
+  const ids = libraries.map(({ id }) => id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new ConfigError(`${source}: library id "${duplicate}" is used twice`);
+  }
+  return libraries;
+};
+
+// Snapshot settings from the config file, with the directory relative to it
+const toSnapshotSettings = (
+  snapshots: Partial<SnapshotSettings>,
+  baseDir: string,
+  source: string,
+): SnapshotSettings => {
+  const { directory, intervalHours, keep } = {
+    ...DEFAULT_SNAPSHOTS,
+    ...snapshots,
+  };
+  if (typeof directory !== 'string' || !directory.trim()) {
+    throw new ConfigError(`${source}: snapshots.directory must be a path`);
+  }
+  if (typeof intervalHours !== 'number' || !(intervalHours >= 0)) {
+    throw new ConfigError(
+      `${source}: snapshots.intervalHours must be a number of hours, or 0 to turn scheduled snapshots off`,
+    );
+  }
+  if (!Number.isInteger(keep) || keep < 1) {
+    throw new ConfigError(`${source}: snapshots.keep must be at least 1`);
+  }
+  return { directory: resolve(baseDir, directory), intervalHours, keep };
+};
+
+/**
+ * Works out the server settings. Command line flags win over environment
+ * variables, which win over the config file:
+ *
+ * - `--config` / `RECIPE_MANAGER_CONFIG`: config file, default
+ *   `recipe-manager.json` in the working directory if it exists
+ * - `--db` / `RECIPE_MANAGER_DB`: use this single database instead of the
+ *   configured libraries
+ * - `--library` / `RECIPE_MANAGER_LIBRARY`: the default library, for requests
+ *   that name none
+ * - `--port` / `RECIPE_MANAGER_PORT` and `--host` / `RECIPE_MANAGER_HOST`
+ *
+ * @param argv Command line arguments
+ * @param env Environment variables
+ * @returns The resolved configuration
+ * @throws ConfigError if any setting is invalid
+ */
+export function loadConfig(
+  argv: string[] = process.argv,
+  env: Record<string, string | undefined> = process.env,
+): AppConfig {
+  const explicitPath = readFlag(argv, 'config') ?? env.RECIPE_MANAGER_CONFIG;
+  const configPath = resolve(explicitPath ?? DEFAULT_CONFIG_FILE);
+  if (explicitPath && !existsSync(configPath)) {
+    throw new ConfigError(`Config file ${configPath} does not exist`);
+  }
+  const file = existsSync(configPath) ? readConfigFile(configPath) : {};
+
+  const databasePath = readFlag(argv, 'db') ?? env.RECIPE_MANAGER_DB;
+  const libraries = databasePath
+    ? [{ ...DEFAULT_LIBRARY, path: resolve(databasePath) }]
+    : file.libraries
+      ? toLibraries(file.libraries, dirname(configPath), configPath)
+      : [{ ...DEFAULT_LIBRARY, path: resolve(DEFAULT_LIBRARY.path) }];
+
+  const defaultLibrary =
+    readFlag(argv, 'library') ??
+    env.RECIPE_MANAGER_LIBRARY ??
+    (databasePath ? undefined : file.defaultLibrary) ??
+    libraries[0]?.id ??
+    DEFAULT_LIBRARY.id;
+  if (!libraries.some(({ id }) => id === defaultLibrary)) {
+    throw new ConfigError(`There is no library "${defaultLibrary}"`);
+  }
+
+  const portFlag = readFlag(argv, 'port');
+  const port =
+    portFlag !== undefined
+      ? parsePort(portFlag, '--port')
+      : env.RECIPE_MANAGER_PORT !== undefined
+        ? parsePort(env.RECIPE_MANAGER_PORT, 'RECIPE_MANAGER_PORT')
+        : file.port !== undefined
+          ? parsePort(file.port, `${configPath}: port`)
+          : DEFAULT_PORT;
+
+  const host =
+    readFlag(argv, 'host') ??
+    env.RECIPE_MANAGER_HOST ??
+    (typeof file.host === 'string' ? file.host : DEFAULT_HOST);
+
+  const snapshots = toSnapshotSettings(
+    file.snapshots ?? {},
+    existsSync(configPath) ? dirname(configPath) : process.cwd(),
+    configPath,
+  );
+
+  return { defaultLibrary, host, libraries, port, snapshots };
+}
@@ -1,111 +1,1022 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { SQL, sql } from 'bun';
-import type { DeweyCategory, Recipe } from '@/types/recipe';
-
-// Database setup
-const db = new SQL('sqlite://recipes.db');
-
-// Initialize database tables
-const initializeDatabase = async () => {
-  try {
-    await db`
-      CREATE TABLE IF NOT EXISTS recipes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        page TEXT,
-        url TEXT,
-        notes TEXT,
-        rating INTEGER CHECK (rating >= 1 AND rating <= 5),
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
+import { rename, rm } from 'fs/promises';
+import type { LibraryConfig } from '@/config';
+import { getDeweyLevel, getDeweyParentCode } from '@/lib/dewey';
+import {
+  encodeCursor,
+  type ListCursor,
+  ListCursorError,
+} from '@/lib/pagination';
+import type { ComparisonOperator, QueryNode } from '@/lib/query';
+import { weightedSample } from '@/lib/random';
+import { HIGHLIGHT_END, HIGHLIGHT_START, toFtsTerm } from '@/lib/search';
+import { compareShoppingItems, type ShoppingItemDraft } from '@/lib/shopping';
+import {
+  CREATE_DEWEY_UNIQUE_INDEX,
+  DEWEY_UNIQUE_INDEX,
+} from '@/migrations/008_dewey_allocation';
+import { PRIMARY_SCHEME_ID } from '@/migrations/009_classification_schemes';
+import type {
+  ClassificationScheme,
+  CookLogEntry,
+  DeweyCategory,
+  DeweyCategoryIssue,
+  DeweyConflict,
+  DeweyConflictReport,
+  DeweyRecipeIssue,
+  DeweyRenumbering,
+  DeweyRepairFix,
+  DeweyRepairResult,
+  DeweyReservation,
+  DeweySequencePolicy,
+  DeweySettings,
+  DeweyShelfCategory,
+  DeweySubtreeMove,
+  DeweySubtreeTarget,
+  DeweyValidationReport,
+  LibraryList,
+  MealPlanEntry,
+  Recipe,
+  RecipeIngredient,
+  RecipePage,
+  RecipeSort,
+  RecipeStep,
+  RecipeWalkOrder,
+  SearchField,
+  SearchMatch,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListSummary,
+} from '@/types/recipe';
+
+// Database setup. Each library is a separate SQLite file. Schemas are
+// created and upgraded by src/migrations, which must run before a library is
+// opened.
+let libraries: LibraryConfig[] = [];
+let defaultLibraryId = '';
+const connections = new Map<string, SQL>();
+
+// Every query goes to the library its request named (see
+// RecipeDB.runInLibrary), or to the default one when it named none. There is
+// no server-wide choice, so clients working on different libraries at once
+// never write to each other's.
+const requestLibrary = new AsyncLocalStorage<string>();
+
+const currentLibraryId = (): string =>
+  requestLibrary.getStore() ?? defaultLibraryId;
+
+// A transaction holds its whole connection, as SQLite connections are not
+// pooled. Queries from outside it wait until it ends, rather than being
+// committed or rolled back along with it. A locked library (see
+// RecipeDB.lockLibrary) is held the same way, by whatever locked it.
+const openTransactions = new Map<string, Promise<unknown>>();
+const transactionScope = new AsyncLocalStorage<SQL>();
+const lockScope = new AsyncLocalStorage<string>();
+
+// Queries sent to each library outside any transaction and not yet answered,
+// which a lock waits for
+const runningQueries = new Map<string, Set<Promise<unknown>>>();
+
+// The transaction or lock holding a library that must end before anything
+// else can start there, unless it is the lock the caller runs under. Waiting
+// for it is left to the caller, so that nothing can slip in between finding
+// the library free and taking it.
+const holder = (libraryId: string): Promise<unknown> | undefined =>
+  lockScope.getStore() === libraryId
+    ? undefined
+    : openTransactions.get(libraryId);
+
+const whenIdle = async <T,>(
+  query: (connection: SQL) => SQL.Query<T>,
+  libraryId = currentLibraryId(),
+): Promise<T> => {
+  for (;;) {
+    const transaction = transactionScope.getStore();
+    if (transaction) {
+      return query(transaction).execute();
+    }
+    const open = holder(libraryId);
+    if (!open) {
+      // The connection is looked up only now, as a restore replaces it
+      const running = query(libraryConnection(libraryId)).execute();
+      let queries = runningQueries.get(libraryId);
+      if (!queries) {
+        queries = new Set();
+        runningQueries.set(libraryId, queries);
+      }
+      queries.add(running);
+      const settled = () => queries.delete(running);
+      running.then(settled, settled);
+      return running;
+    }
+    await open.catch(() => {});
+  }
+};
 
-    await db`
-      CREATE TABLE IF NOT EXISTS tags (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT UNIQUE NOT NULL
-      )
-    `;
+const db = Object.assign(
+  (strings: TemplateStringsArray, ...values: unknown[]) =>
+    whenIdle((connection) => connection(strings, ...values)),
+  {
+    unsafe: (query: string) =>
+      whenIdle((connection) => connection.unsafe(query)),
+  },
+);
 
-    await db`
-      CREATE TABLE IF NOT EXISTS recipe_tags (
-        recipe_id INTEGER NOT NULL,
-        tag_id INTEGER NOT NULL,
-        PRIMARY KEY (recipe_id, tag_id),
-        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
-        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
-      )
-    `;
+const findLibrary = (id: string): LibraryConfig | undefined =>
+  libraries.find((library) => library.id === id);
 
-    await db`
-      CREATE TABLE IF NOT EXISTS recipe_files (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        recipe_id INTEGER NOT NULL,
-        filename TEXT NOT NULL,
-        content BLOB NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
-      )
-    `;
+function libraryConnection(id: string): SQL {
+  const library = findLibrary(id);
+  if (!library) {
+    throw new Error(`There is no library "${id}"`);
+  }
 
-    await db`
-      CREATE TABLE IF NOT EXISTS dewey_categories (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        dewey_code TEXT UNIQUE NOT NULL,
-        name TEXT NOT NULL,
-        level INTEGER NOT NULL,
-        parent_code TEXT,
-        is_active BOOLEAN DEFAULT 1
-      )
-    `;
+  let connection = connections.get(library.id);
+  if (!connection) {
+    connection = new SQL(`sqlite://${library.path}`);
+    connections.set(library.id, connection);
+  }
+  return connection;
+}
+
+// Columns of the full-text index, in the order they are declared. Each is
+// weighted for ranking: a hit in the name counts far more than one in notes.
+const SEARCH_COLUMNS: Array<{ field: SearchField; weight: number }> = [
+  { field: 'name', weight: 10 },
+  { field: 'tags', weight: 5 },
+  { field: 'ingredients', weight: 3 },
+  { field: 'notes', weight: 1 },
+  { field: 'files', weight: 2 },
+  { field: 'url', weight: 1 },
+];
+
+// Cache for database queries, one per library
+const caches = new Map<string, Map<string, any>>();
+
+const libraryCache = (): Map<string, any> => {
+  const id = currentLibraryId();
+  let cache = caches.get(id);
+  if (!cache) {
+    cache = new Map();
+    caches.set(id, cache);
+  }
+  return cache;
+};
+
+// Clear specific cache keys
+const clearRecipeCache = (): void => {
+  libraryCache().delete('getAllRecipes');
+  clearTagCache();
+};
+
+const clearTagCache = (): void => {
+  libraryCache().delete('getAllTags');
+  libraryCache().delete('getTagsWithCounts');
+};
+
+// Categories are cached per scheme
+const clearDeweyCache = (): void => {
+  for (const key of libraryCache().keys()) {
+    if (key.startsWith('getAllDeweyCategories')) {
+      libraryCache().delete(key);
+    }
+  }
+  libraryCache().delete('getClassificationSchemes');
+};
+
+// Structured recipe content (ingredients and steps), stored in position order
+const getRecipeIngredients = async (
+  recipeId: number,
+): Promise<RecipeIngredient[]> => {
+  const rows =
+    await db`SELECT * FROM recipe_ingredients WHERE recipe_id = ${recipeId} ORDER BY position`;
+  return rows.map(
+    (row: {
+      id: number;
+      quantity: number | null;
+      unit: string | null;
+      item: string;
+      preparation: string | null;
+      group_name: string | null;
+    }) => ({
+      group: row.group_name || undefined,
+      id: row.id,
+      item: row.item,
+      preparation: row.preparation || undefined,
+      quantity: row.quantity ?? undefined,
+      unit: row.unit || undefined,
+    }),
+  );
+};
+
+const getRecipeSteps = async (recipeId: number): Promise<RecipeStep[]> => {
+  const rows =
+    await db`SELECT id, text FROM recipe_steps WHERE recipe_id = ${recipeId} ORDER BY position`;
+  return rows.map((row: { id: number; text: string }) => ({
+    id: row.id,
+    text: row.text,
+  }));
+};
+
+// Replace all ingredients for a recipe; array order becomes the stored position
+const setRecipeIngredients = async (
+  recipeId: number,
+  ingredients: RecipeIngredient[],
+): Promise<void> => {
+  await db`DELETE FROM recipe_ingredients WHERE recipe_id = ${recipeId}`;
+
+  let position = 0;
+  for (const ingredient of ingredients) {
+    if (!ingredient.item?.trim()) continue;
+
+    await db`INSERT INTO recipe_ingredients ${sql({
+      group_name: ingredient.group?.trim() || null,
+      item: ingredient.item.trim(),
+      position: position++,
+      preparation: ingredient.preparation?.trim() || null,
+      quantity: ingredient.quantity ?? null,
+      recipe_id: recipeId,
+      unit: ingredient.unit?.trim() || null,
+    })}`;
+  }
+};
+
+const setRecipeSteps = async (
+  recipeId: number,
+  steps: RecipeStep[],
+): Promise<void> => {
+  await db`DELETE FROM recipe_steps WHERE recipe_id = ${recipeId}`;
+
+  let position = 0;
+  for (const step of steps) {
+    if (!step.text?.trim()) continue;
+
+    await db`INSERT INTO recipe_steps ${sql({
+      position: position++,
+      recipe_id: recipeId,
+      text: step.text.trim(),
+    })}`;
+  }
+};
+
+// Fetch tags for many recipes in one query instead of one query per recipe
+const getTagsForRecipes = async (
+  recipeIds: number[],
+): Promise<Map<number, string[]>> => {
+  const tagsByRecipe = new Map<number, string[]>();
+  if (recipeIds.length === 0) return tagsByRecipe;
+
+  const rows = await db`SELECT rt.recipe_id, t.name
+                        FROM recipe_tags rt
+                        JOIN tags t ON t.id = rt.tag_id
+                        WHERE rt.recipe_id IN ${sql(recipeIds)}`;
+  for (const row of rows as Array<{ recipe_id: number; name: string }>) {
+    const tags = tagsByRecipe.get(row.recipe_id) || [];
+    tags.push(row.name);
+    tagsByRecipe.set(row.recipe_id, tags);
+  }
+  return tagsByRecipe;
+};
+
+// Cook log totals for recipe r, used to filter and sort listings
+const LAST_COOKED_SQL =
+  '(SELECT MAX(c.cooked_on) FROM cook_log c WHERE c.recipe_id = r.id)';
+const TIMES_COOKED_SQL =
+  '(SELECT COUNT(*) FROM cook_log c WHERE c.recipe_id = r.id)';
+
+// Fetch when and how often many recipes were cooked in one query
+const getCookStatsForRecipes = async (
+  recipeIds: number[],
+): Promise<Map<number, { lastCookedAt: string; timesCooked: number }>> => {
+  const statsByRecipe = new Map<
+    number,
+    { lastCookedAt: string; timesCooked: number }
+  >();
+  if (recipeIds.length === 0) return statsByRecipe;
+
+  const rows = await db`SELECT recipe_id,
+                               MAX(cooked_on) AS last_cooked_at,
+                               COUNT(*) AS times_cooked
+                        FROM cook_log
+                        WHERE recipe_id IN ${sql(recipeIds)}
+                        GROUP BY recipe_id`;
+  for (const row of rows) {
+    statsByRecipe.set(row.recipe_id, {
+      lastCookedAt: row.last_cooked_at,
+      timesCooked: row.times_cooked,
+    });
+  }
+  return statsByRecipe;
+};
+
+// snippet() for every indexed column; the columns that matched contain markers
+const searchSnippetsSql = () =>
+  SEARCH_COLUMNS.map(
+    ({ field }, index) =>
+      sql`snippet(recipe_search, ${index}, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 12) AS ${sql(`${field}_snippet`)}`,
+  ).reduce((columns, column) => sql`${columns}, ${column}`);
+
+const searchRankSql = () =>
+  sql`bm25(recipe_search, ${sql.unsafe(
+    SEARCH_COLUMNS.map(({ weight }) => weight).join(', '),
+  )})`;
+
+// Map listing rows to recipes, fetching all their tags in one query. Rows
+// ranked by a full-text query also carry the fields that matched.
+const toListedRecipes = async (
+  rows: any[],
+  withMatches: boolean,
+): Promise<Recipe[]> => {
+  const recipeIds = rows.map((row) => row.id);
+  const tagsByRecipe = await getTagsForRecipes(recipeIds);
+  const statsByRecipe = await getCookStatsForRecipes(recipeIds);
+
+  return rows.map((recipe) => {
+    const matches: SearchMatch[] = SEARCH_COLUMNS.filter(({ field }) =>
+      recipe[`${field}_snippet`]?.includes(HIGHLIGHT_START),
+    ).map(({ field }) => ({
+      field,
+      snippet: recipe[`${field}_snippet`],
+    }));
+
+    return {
+      createdAt: new Date(recipe.created_at),
+      deweyDecimal: recipe.dewey_decimal || undefined,
+      id: recipe.id,
+      lastCookedAt: statsByRecipe.get(recipe.id)?.lastCookedAt,
+      matches: withMatches ? matches : undefined,
+      name: recipe.name,
+      notes: recipe.notes || undefined,
+      page: recipe.page || undefined,
+      rating: recipe.rating || undefined,
+      servings: recipe.servings || undefined,
+      tags: tagsByRecipe.get(recipe.id) || [],
+      timesCooked: statsByRecipe.get(recipe.id)?.timesCooked ?? 0,
+      url: recipe.url || undefined,
+    };
+  });
+};
+
+// Query operators come from a fixed set, so they are safe to inline
+const COMPARISON_SQL: Record<ComparisonOperator, string> = {
+  '<': '<',
+  '<=': '<=',
+  '=': '=',
+  '>': '>',
+  '>=': '>=',
+};
+
+// `*` wildcards to a LIKE pattern, escaping LIKE's own wildcards
+const toLikePattern = (value: string): string =>
+  value.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '%');
+
+// Compile a parsed search query into a WHERE condition on recipes r
+const buildQueryCondition = (node: QueryNode): SQL.Query<any> => {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      if (node.children.length === 0) return sql`1 = 1`;
+      const joiner = sql.unsafe(node.type === 'and' ? 'AND' : 'OR');
+      return node.children
+        .map((child) => sql`(${buildQueryCondition(child)})`)
+        .reduce((condition, child) => sql`${condition} ${joiner} ${child}`);
+    }
+
+    case 'not':
+      // IS NOT 1 rather than NOT, so rows where the condition is NULL
+      // (e.g. -rating:>=4 on an unrated recipe) count as not matching
+      return sql`(${buildQueryCondition(node.child)}) IS NOT 1`;
+
+    case 'text': {
+      const term = toFtsTerm(node.text, node.phrase);
+      if (!term) return sql`1 = 1`;
+      const match = node.field ? `${node.field} : ${term}` : term;
+      return sql`r.id IN (SELECT rowid FROM recipe_search WHERE recipe_search MATCH ${match})`;
+    }
+
+    case 'tag':
+      return sql`EXISTS (
+        SELECT 1 FROM recipe_tags rt
+        JOIN tags t ON t.id = rt.tag_id
+        WHERE rt.recipe_id = r.id
+          AND t.name LIKE ${toLikePattern(node.value)} ESCAPE '\\'
+      )`;
+
+    case 'dewey':
+      return sql`r.dewey_decimal LIKE ${toLikePattern(node.value)} ESCAPE '\\'`;
+
+    case 'rating':
+      return sql`r.rating ${sql.unsafe(COMPARISON_SQL[node.operator])} ${node.value}`;
+
+    case 'timesCooked':
+      return sql`${sql.unsafe(TIMES_COOKED_SQL)} ${sql.unsafe(COMPARISON_SQL[node.operator])} ${node.value}`;
+
+    case 'created':
+    case 'cooked': {
+      // created_at is stored as "YYYY-MM-DD HH:MM:SS" and cooked_on as
+      // "YYYY-MM-DD", both of which sort as text
+      const column = sql.unsafe(
+        node.type === 'created' ? 'r.created_at' : LAST_COOKED_SQL,
+      );
+      switch (node.operator) {
+        case '=':
+          return sql`${column} >= ${node.start} AND ${column} < ${node.end}`;
+        case '>':
+          return sql`${column} >= ${node.end}`;
+        case '>=':
+          return sql`${column} >= ${node.start}`;
+        case '<':
+          return sql`${column} < ${node.start}`;
+        case '<=':
+          return sql`${column} < ${node.end}`;
+      }
+      break;
+    }
+
+    case 'has':
+      switch (node.target) {
+        case 'cooked':
+          return sql`EXISTS (SELECT 1 FROM cook_log c WHERE c.recipe_id = r.id)`;
+        case 'dewey':
+          return sql`COALESCE(r.dewey_decimal, '') != ''`;
+        case 'file':
+          return sql`EXISTS (SELECT 1 FROM recipe_files rf WHERE rf.recipe_id = r.id)`;
+        case 'ingredients':
+          return sql`EXISTS (SELECT 1 FROM recipe_ingredients ri WHERE ri.recipe_id = r.id)`;
+        case 'notes':
+          return sql`COALESCE(r.notes, '') != ''`;
+        case 'rating':
+          return sql`r.rating IS NOT NULL`;
+        case 'servings':
+          return sql`r.servings > 0`;
+        case 'steps':
+          return sql`EXISTS (SELECT 1 FROM recipe_steps rs WHERE rs.recipe_id = r.id)`;
+        case 'tags':
+          return sql`EXISTS (SELECT 1 FROM recipe_tags rt WHERE rt.recipe_id = r.id)`;
+        case 'url':
+          return sql`COALESCE(r.url, '') != ''`;
+      }
+  }
+
+  throw new Error(`Unsupported query node: ${JSON.stringify(node)}`);
+};
+
+// Unrated recipes are picked as often as a middling 3-star one, so new
+// recipes still come up in random picks
+const UNRATED_WEIGHT = 3;
+
+// How each sort orders recipes. r.id breaks ties in the same direction so a
+// keyset cursor of (key, id) always lands on a unique row.
+const RECIPE_SORTS: Record<
+  Exclude<RecipeSort, 'relevance'>,
+  { key: string; descending: boolean }
+> = {
+  // Never-cooked recipes sort after every cooked one
+  cooked: { descending: true, key: `COALESCE(${LAST_COOKED_SQL}, '')` },
+  // datetime() so the key comes back as text rather than a parsed Date
+  created: { descending: true, key: 'datetime(r.created_at)' },
+  // Unclassified recipes sort after every Dewey code
+  dewey: { descending: false, key: "COALESCE(r.dewey_decimal, '~')" },
+  name: { descending: false, key: 'r.name COLLATE NOCASE' },
+  rating: { descending: true, key: 'COALESCE(r.rating, 0)' },
+  'times-cooked': { descending: true, key: TIMES_COOKED_SQL },
+};
 
-    // Add dewey_decimal column to recipes table if it doesn't exist
+export const RECIPE_WALK_ORDERS: RecipeWalkOrder[] = ['created', 'dewey'];
+
+// Full-text terms the results should be ranked and highlighted by; negated
+// terms are left out since they never appear in the results
+const collectRankingTerms = (node: QueryNode): string[] => {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectRankingTerms);
+    case 'text': {
+      const term = toFtsTerm(node.text, node.phrase);
+      if (!term) return [];
+      return [node.field ? `${node.field} : ${term}` : term];
+    }
+    default:
+      return [];
+  }
+};
+
+const toCookLogEntry = (entry: any): CookLogEntry => ({
+  cookedBy: entry.cooked_by || undefined,
+  date: entry.cooked_on,
+  id: entry.id,
+  notes: entry.notes || undefined,
+  rating: entry.rating || undefined,
+  recipeId: entry.recipe_id,
+  servings: entry.servings || undefined,
+});
+
+const toMealPlanEntry = (entry: any): MealPlanEntry => ({
+  date: entry.date,
+  deweyDecimal: entry.dewey_decimal || undefined,
+  id: entry.id,
+  note: entry.note || undefined,
+  recipeId: entry.recipe_id,
+  recipeName: entry.recipe_name,
+  servings: entry.servings || undefined,
+  slot: entry.slot,
+});
+
+const getMealPlanEntry = async (id: number): Promise<MealPlanEntry | null> => {
+  const [entry] = await db`SELECT m.*, r.name AS recipe_name, r.dewey_decimal
+                           FROM meal_plan_entries m
+                           JOIN recipes r ON r.id = m.recipe_id
+                           WHERE m.id = ${id}`;
+  return entry ? toMealPlanEntry(entry) : null;
+};
+
+const toShoppingListItem = (item: any): ShoppingListItem => ({
+  category: item.category,
+  checked: Boolean(item.checked),
+  id: item.id,
+  item: item.item,
+  manual: Boolean(item.manual),
+  quantity: item.quantity ?? undefined,
+  recipes: item.recipes ? JSON.parse(item.recipes) : [],
+  unit: item.unit || undefined,
+});
+
+const getShoppingListItem = async (
+  listId: number,
+  itemId: number,
+): Promise<ShoppingListItem | null> => {
+  const [item] =
+    await db`SELECT * FROM shopping_list_items WHERE id = ${itemId} AND list_id = ${listId}`;
+  return item ? toShoppingListItem(item) : null;
+};
+
+// Dewey code allocation. A recipe's code is usually its category's code, a
+// dot and a sequence number ("641.5.003"). Numbers are handed out by
+// reservation while a form is open and checked again when the recipe is
+// saved; the unique index catches anything that slips between the two.
+// Each classification scheme numbers its own categories, with its own
+// policy and number of digits.
+const DEWEY_RESERVATION_MINUTES = 120;
+export const DEWEY_SEQUENCE_POLICIES: DeweySequencePolicy[] = [
+  'next',
+  'fill-gaps',
+  'never-reuse',
+];
+// Tries before giving up on a reservation that keeps being taken
+const DEWEY_RESERVATION_ATTEMPTS = 5;
+const MAX_SEQUENCE_DIGITS = 6;
+const MAX_CODE_PATTERN_LENGTH = 200;
+
+export class ClassificationSchemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassificationSchemeError';
+  }
+}
+
+const toClassificationScheme = (row: any): ClassificationScheme => ({
+  codePattern: row.code_pattern || undefined,
+  id: row.id,
+  isPrimary: row.id === PRIMARY_SCHEME_ID,
+  name: row.name,
+  sequenceDigits: row.sequence_digits,
+  sequencePolicy: DEWEY_SEQUENCE_POLICIES.includes(row.sequence_policy)
+    ? row.sequence_policy
+    : 'next',
+});
+
+const getScheme = async (schemeId: number): Promise<ClassificationScheme> => {
+  const scheme = (await RecipeDB.getClassificationSchemes()).find(
+    ({ id }) => id === schemeId,
+  );
+  if (!scheme) {
+    throw new ClassificationSchemeError(
+      `There is no classification scheme ${schemeId}`,
+    );
+  }
+  return scheme;
+};
+
+// Checks the fields of a scheme being added or changed
+const checkSchemeFields = (
+  fields: Partial<Omit<ClassificationScheme, 'id' | 'isPrimary'>>,
+): void => {
+  if (fields.name !== undefined && !fields.name.trim()) {
+    throw new ClassificationSchemeError('A scheme needs a name');
+  }
+  if (fields.codePattern !== undefined) {
+    if (typeof fields.codePattern !== 'string') {
+      throw new ClassificationSchemeError('The code format must be text');
+    }
+    if (fields.codePattern.length > MAX_CODE_PATTERN_LENGTH) {
+      throw new ClassificationSchemeError(
+        `The code format can be at most ${MAX_CODE_PATTERN_LENGTH} characters long`,
+      );
+    }
     try {
-      await db`ALTER TABLE recipes ADD COLUMN dewey_decimal TEXT`;
-    } catch (_error) {
-      // Column already exists, ignore error
+      new RegExp(fields.codePattern);
+    } catch {
+      throw new ClassificationSchemeError(
+        `${fields.codePattern} isn't a valid regular expression`,
+      );
     }
+  }
+  if (
+    fields.sequenceDigits !== undefined &&
+    !(
+      Number.isInteger(fields.sequenceDigits) &&
+      fields.sequenceDigits >= 1 &&
+      fields.sequenceDigits <= MAX_SEQUENCE_DIGITS
+    )
+  ) {
+    throw new ClassificationSchemeError(
+      `Sequence numbers must have between 1 and ${MAX_SEQUENCE_DIGITS} digits`,
+    );
+  }
+  if (
+    fields.sequencePolicy !== undefined &&
+    !DEWEY_SEQUENCE_POLICIES.includes(fields.sequencePolicy)
+  ) {
+    throw new ClassificationSchemeError(
+      `The sequence policy must be one of ${DEWEY_SEQUENCE_POLICIES.join(', ')}`,
+    );
+  }
+};
 
-    console.log('Database initialized successfully');
-  } catch (error) {
-    console.error('Failed to initialize database:', error);
+// Checks a category code against its scheme's code format
+const checkCategoryCode = (
+  scheme: ClassificationScheme,
+  code: string,
+): void => {
+  if (scheme.codePattern && !new RegExp(scheme.codePattern).test(code)) {
+    throw new ClassificationSchemeError(
+      `${code} doesn't match the ${scheme.name} code format (${scheme.codePattern})`,
+    );
   }
 };
 
-// Initialize database on startup
-(async () => {
-  await initializeDatabase();
-})();
+const isNameUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE' &&
+  error.message.includes('classification_schemes.name');
 
-// Cache for database queries
-const cache = new Map<string, any>();
+export class DeweyConflictError extends Error {
+  constructor(code: string, recipeName: string) {
+    super(`Dewey code ${code} is already used by "${recipeName}"`);
+    this.name = 'DeweyConflictError';
+  }
+}
+
+const isDeweyUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error &&
+  (error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE' &&
+  (error.message.includes('recipes.dewey_decimal') ||
+    error.message.includes('recipe_classifications.code'));
+
+const formatDeweySequence = (
+  scheme: ClassificationScheme,
+  baseCode: string,
+  sequence: number,
+): string =>
+  `${baseCode}.${sequence.toString().padStart(scheme.sequenceDigits, '0')}`;
+
+// The category and number of a sequence code; null for anything else,
+// including a category's own code such as "641.5" under "641"
+const splitDeweySequence = async (
+  scheme: ClassificationScheme,
+  code: string,
+): Promise<{ baseCode: string; sequence: number } | null> => {
+  const dot = code.lastIndexOf('.');
+  const digits = code.slice(dot + 1);
+  if (dot <= 0 || !/^\d+$/.test(digits)) {
+    return null;
+  }
+  const baseCode = code.slice(0, dot);
+  const [row] = await db`SELECT
+    EXISTS (SELECT 1 FROM dewey_categories WHERE scheme_id = ${scheme.id} AND dewey_code = ${baseCode}) AS has_base,
+    EXISTS (SELECT 1 FROM dewey_categories WHERE scheme_id = ${scheme.id} AND dewey_code = ${code}) AS is_category`;
+  return row.has_base && !row.is_category
+    ? { baseCode, sequence: parseInt(digits, 10) }
+    : null;
+};
 
-// Clear specific cache keys
-const clearRecipeCache = (): void => {
-  cache.delete('getAllRecipes');
-  clearTagCache();
+const recordDeweySequence = async (
+  scheme: ClassificationScheme,
+  baseCode: string,
+  sequence: number,
+): Promise<void> => {
+  await db`INSERT INTO dewey_sequences ${sql({ base_code: baseCode, last_sequence: sequence, scheme_id: scheme.id })}
+           ON CONFLICT (scheme_id, base_code) DO UPDATE
+           SET last_sequence = MAX(last_sequence, excluded.last_sequence)`;
 };
 
-const clearTagCache = (): void => {
-  cache.delete('getAllTags');
-  cache.delete('getTagsWithCounts');
+// The next free number under a category, counting recipes and unexpired
+// reservations as taken
+const nextDeweySequence = async (
+  scheme: ClassificationScheme,
+  baseCode: string,
+): Promise<number> => {
+  const prefix = `${baseCode}.`;
+  const rows = await db`SELECT code FROM recipe_codes
+                        WHERE scheme_id = ${scheme.id}
+                          AND substr(code, 1, ${prefix.length}) = ${prefix}
+                        UNION
+                        SELECT code FROM dewey_reservations
+                        WHERE scheme_id = ${scheme.id} AND base_code = ${baseCode}
+                          AND expires_at > ${new Date().toISOString()}`;
+  const taken = new Set<number>();
+  for (const { code } of rows) {
+    const digits = code.slice(prefix.length);
+    if (/^\d+$/.test(digits)) {
+      taken.add(parseInt(digits, 10));
+    }
+  }
+
+  const policy = scheme.sequencePolicy;
+  if (policy === 'fill-gaps') {
+    let sequence = 1;
+    while (taken.has(sequence)) sequence++;
+    return sequence;
+  }
+
+  let sequence = Math.max(0, ...taken) + 1;
+  if (policy === 'never-reuse') {
+    const [mark] = await db`SELECT last_sequence FROM dewey_sequences
+                            WHERE scheme_id = ${scheme.id} AND base_code = ${baseCode}`;
+    if (mark) {
+      sequence = Math.max(sequence, mark.last_sequence + 1);
+    }
+  }
+  return sequence;
 };
 
-const clearDeweyCache = (): void => {
-  cache.delete('getAllDeweyCategories');
+// The recipe other than recipeId that has a code, if any
+const findDeweyCodeOwner = async (
+  scheme: ClassificationScheme,
+  code: string,
+  recipeId?: number,
+): Promise<{ name: string } | undefined> => {
+  const [owner] = await db`SELECT r.name FROM recipe_codes c
+                           JOIN recipes r ON r.id = c.recipe_id
+                           WHERE c.scheme_id = ${scheme.id} AND c.code = ${code}
+                             AND c.recipe_id != ${recipeId ?? -1}
+                           LIMIT 1`;
+  return owner;
+};
+
+// The category a recipe's code implies when no category has it, e.g. after
+// its category was deleted: the code without a sequence number
+const impliedDeweyBaseCode = (
+  scheme: ClassificationScheme,
+  code: string,
+): string =>
+  new RegExp(`\\.\\d{${scheme.sequenceDigits}}$`).test(code)
+    ? code.slice(0, code.lastIndexOf('.'))
+    : code;
+
+// What is wrong with a recipe's code in a scheme, if anything. It must be a
+// category code or one followed by a sequence number, in the scheme's
+// format, and once the scheme has a category tree the category must be in
+// it. Categories deleted later leave codes the integrity check reports.
+const findRecipeCodeProblem = async (
+  scheme: ClassificationScheme,
+  code: string,
+): Promise<string | undefined> => {
+  const [row] = await db`SELECT
+    EXISTS (SELECT 1 FROM dewey_categories WHERE scheme_id = ${scheme.id}) AS has_tree,
+    EXISTS (SELECT 1 FROM dewey_categories WHERE scheme_id = ${scheme.id} AND dewey_code = ${code}) AS is_category`;
+  const split = await splitDeweySequence(scheme, code);
+  const categoryCode = row.is_category
+    ? code
+    : (split?.baseCode ?? impliedDeweyBaseCode(scheme, code));
+  if (
+    scheme.codePattern &&
+    !new RegExp(scheme.codePattern).test(categoryCode)
+  ) {
+    return `${code} doesn't match the ${scheme.name} code format (${scheme.codePattern})`;
+  }
+  if (row.has_tree && !row.is_category && !split) {
+    return `${code} isn't filed under any ${scheme.name} category`;
+  }
+  return undefined;
+};
+
+// Checks a code as a recipe is saved. A sequence code another recipe has
+// taken since the form reserved it is swapped for the next free number in
+// the same category; any other code in use is a conflict.
+const claimDeweyCode = async (
+  scheme: ClassificationScheme,
+  code: string,
+  recipeId?: number,
+): Promise<string> => {
+  const problem = await findRecipeCodeProblem(scheme, code);
+  if (problem) {
+    throw new ClassificationSchemeError(problem);
+  }
+
+  const split = await splitDeweySequence(scheme, code);
+  const owner = await findDeweyCodeOwner(scheme, code, recipeId);
+  await db`DELETE FROM dewey_reservations WHERE scheme_id = ${scheme.id} AND code = ${code}`;
+  if (!owner) {
+    if (split) {
+      await recordDeweySequence(scheme, split.baseCode, split.sequence);
+    }
+    return code;
+  }
+  if (!split) {
+    throw new DeweyConflictError(code, owner.name);
+  }
+
+  const sequence = await nextDeweySequence(scheme, split.baseCode);
+  await recordDeweySequence(scheme, split.baseCode, sequence);
+  return formatDeweySequence(scheme, split.baseCode, sequence);
+};
+
+// Writes a recipe's code in a scheme as it is, without the checks a save
+// makes
+const writeRecipeCode = async (
+  schemeId: number,
+  recipeId: number,
+  code: string,
+): Promise<void> => {
+  if (schemeId === PRIMARY_SCHEME_ID) {
+    await db`UPDATE recipes SET dewey_decimal = ${code} WHERE id = ${recipeId}`;
+  } else {
+    await db`UPDATE recipe_classifications SET code = ${code}
+             WHERE recipe_id = ${recipeId} AND scheme_id = ${schemeId}`;
+  }
+};
+
+const getRecipeClassifications = async (
+  recipeId: number,
+): Promise<Record<number, string>> => {
+  const rows =
+    await db`SELECT scheme_id, code FROM recipe_classifications WHERE recipe_id = ${recipeId}`;
+  return Object.fromEntries(
+    rows.map((row: { scheme_id: number; code: string }) => [
+      row.scheme_id,
+      row.code,
+    ]),
+  );
+};
+
+// Files a recipe under the given codes in schemes other than the primary
+// one, whose code is its deweyDecimal. An empty code takes it out of that
+// scheme; schemes left out are untouched.
+const setRecipeClassifications = async (
+  recipeId: number,
+  classifications: Record<number, string>,
+): Promise<void> => {
+  const current = await getRecipeClassifications(recipeId);
+  for (const [key, value] of Object.entries(classifications)) {
+    const schemeId = Number(key);
+    if (schemeId === PRIMARY_SCHEME_ID) continue;
+    const code = value?.trim();
+    if (!code) {
+      await db`DELETE FROM recipe_classifications
+               WHERE recipe_id = ${recipeId} AND scheme_id = ${schemeId}`;
+      continue;
+    }
+    // As with deweyDecimal, only a new code is checked
+    if (code === current[schemeId]) continue;
+
+    const claimed = await claimDeweyCode(
+      await getScheme(schemeId),
+      code,
+      recipeId,
+    );
+    try {
+      await db`INSERT INTO recipe_classifications ${sql({
+        code: claimed,
+        recipe_id: recipeId,
+        scheme_id: schemeId,
+      })} ON CONFLICT (recipe_id, scheme_id) DO UPDATE SET code = excluded.code`;
+    } catch (error) {
+      if (isDeweyUniqueViolation(error)) {
+        throw new DeweyConflictError(claimed, 'another recipe');
+      }
+      throw error;
+    }
+  }
+};
+
+export class DeweyMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeweyMoveError';
+  }
+}
+
+interface DeweyTreeNode {
+  name: string;
+  parentCode?: string;
+}
+
+// Names of a category and its ancestors, root first, which is how recipes
+// filed under it are tagged
+const deweyPathNames = (
+  code: string,
+  tree: Map<string, DeweyTreeNode>,
+): string[] => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current: string | undefined = code;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const node = tree.get(current);
+    if (!node) break;
+    names.unshift(node.name);
+    current = node.parentCode;
+  }
+  return names;
+};
+
+// The category a recipe is filed under: its code, or for a sequence code
+// such as "641.5.003", the code without its number
+const deweyBaseCode = (
+  code: string,
+  tree: Map<string, DeweyTreeNode>,
+): string | undefined => {
+  if (tree.has(code)) {
+    return code;
+  }
+  const dot = code.lastIndexOf('.');
+  const baseCode = code.slice(0, dot);
+  return dot > 0 && /^\d+$/.test(code.slice(dot + 1)) && tree.has(baseCode)
+    ? baseCode
+    : undefined;
 };
 
+export const DEWEY_REPAIR_FIXES: DeweyRepairFix[] = [
+  'reparent-orphans',
+  'fix-levels',
+  'restore-missing-categories',
+  'activate-categories',
+  'shelve-by-tags',
+];
+
+const toDeweyCategoryIssue = ({
+  deweyCode,
+  id,
+  name,
+}: DeweyCategory): DeweyCategoryIssue => ({ deweyCode, id, name });
+
 // Recipe database operations
 export const RecipeDB = {
+  // Classification scheme operations
+  async addClassificationScheme(
+    scheme: Omit<ClassificationScheme, 'id' | 'isPrimary'>,
+  ): Promise<ClassificationScheme> {
+    checkSchemeFields(scheme);
+    try {
+      const [result] = await db`INSERT INTO classification_schemes ${sql({
+        code_pattern: scheme.codePattern || null,
+        name: scheme.name.trim(),
+        sequence_digits: scheme.sequenceDigits,
+        sequence_policy: scheme.sequencePolicy,
+      })} RETURNING *`;
+      clearDeweyCache();
+      return toClassificationScheme(result);
+    } catch (error) {
+      if (isNameUniqueViolation(error)) {
+        throw new ClassificationSchemeError(
+          `There is already a scheme called "${scheme.name.trim()}"`,
+        );
+      }
+      throw error;
+    }
+  },
+  // Cook log operations
+  async addCookLogEntry(
+    entry: Omit<CookLogEntry, 'id'>,
+  ): Promise<CookLogEntry> {
+    const [result] = await db`INSERT INTO cook_log ${sql({
+      cooked_by: entry.cookedBy || null,
+      cooked_on: entry.date,
+      notes: entry.notes || null,
+      rating: entry.rating || null,
+      recipe_id: entry.recipeId,
+      servings: entry.servings || null,
+    })} RETURNING *`;
+
+    clearRecipeCache();
+    return toCookLogEntry(result);
+  },
+
   // Dewey Category operations
   async addDeweyCategory(
     category: Omit<DeweyCategory, 'id'>,
   ): Promise<DeweyCategory> {
+    const scheme = await getScheme(category.schemeId ?? PRIMARY_SCHEME_ID);
+    checkCategoryCode(scheme, category.deweyCode);
     const [result] = await db`INSERT INTO dewey_categories ${sql({
       dewey_code: category.deweyCode,
       is_active: category.isActive,
       level: category.level,
       name: category.name,
       parent_code: category.parentCode || null,
+      scheme_id: scheme.id,
     })} RETURNING *`;
 
     clearDeweyCache();
@@ -113,10 +1024,11 @@ export const RecipeDB = {
     return {
       deweyCode: result.dewey_code,
       id: result.id,
-      isActive: result.is_active,
+      isActive: !!result.is_active,
       level: result.level,
       name: result.name,
       parentCode: result.parent_code || undefined,
+      schemeId: result.scheme_id,
     };
   },
   // File operations
@@ -136,48 +1048,184 @@ export const RecipeDB = {
       id: result.id,
     };
   },
-  async addRecipe(recipe: Omit<Recipe, 'id' | 'createdAt'>): Promise<Recipe> {
-    const createdAt = new Date();
-
-    // Insert recipe
-    const [result] = await db`INSERT INTO recipes ${sql({
-      created_at: createdAt.toISOString(),
-      dewey_decimal: recipe.deweyDecimal || null,
-      name: recipe.name,
-      notes: recipe.notes || null,
-      page: recipe.page || null,
-      rating: recipe.rating || null,
-      url: recipe.url || null,
+  async addMealPlanEntry(
+    entry: Omit<MealPlanEntry, 'id' | 'recipeName' | 'deweyDecimal'>,
+  ): Promise<MealPlanEntry> {
+    const [result] = await db`INSERT INTO meal_plan_entries ${sql({
+      date: entry.date,
+      note: entry.note || null,
+      recipe_id: entry.recipeId,
+      servings: entry.servings || null,
+      slot: entry.slot,
     })} RETURNING id`;
-    const recipeId = result.id;
 
-    // Handle tags
-    for (const tagName of recipe.tags) {
-      // Insert tag if it doesn't exist (or get existing one)
-      await db`INSERT OR IGNORE INTO tags ${sql({ name: tagName })}`;
+    return (await getMealPlanEntry(result.id)) as MealPlanEntry;
+  },
+
+  async addRecipe(
+    recipe: Omit<Recipe, 'id' | 'createdAt'> & { createdAt?: Date },
+  ): Promise<Recipe> {
+    // The code is claimed in the transaction that saves it, so no other
+    // save can take it in between and turn a renumbering into a conflict
+    return RecipeDB.transaction(async () => {
+      const createdAt = recipe.createdAt ?? new Date();
+      const deweyDecimal = recipe.deweyDecimal
+        ? await claimDeweyCode(
+            await getScheme(PRIMARY_SCHEME_ID),
+            recipe.deweyDecimal,
+          )
+        : undefined;
+
+      // Insert recipe
+      let result: { id: number };
+      try {
+        [result] = await db`INSERT INTO recipes ${sql({
+          created_at: createdAt.toISOString(),
+          dewey_decimal: deweyDecimal || null,
+          name: recipe.name,
+          notes: recipe.notes || null,
+          page: recipe.page || null,
+          rating: recipe.rating || null,
+          servings: recipe.servings || null,
+          url: recipe.url || null,
+        })} RETURNING id`;
+      } catch (error) {
+        if (isDeweyUniqueViolation(error)) {
+          throw new DeweyConflictError(
+            deweyDecimal as string,
+            'another recipe',
+          );
+        }
+        throw error;
+      }
+      const recipeId = result.id;
 
-      // Get tag ID
-      const [tag] = await db`SELECT id FROM tags WHERE name = ${tagName}`;
+      if (recipe.ingredients) {
+        await setRecipeIngredients(recipeId, recipe.ingredients);
+      }
+      if (recipe.steps) {
+        await setRecipeSteps(recipeId, recipe.steps);
+      }
 
-      // Link recipe to tag
-      await db`INSERT INTO recipe_tags ${sql({
-        recipe_id: recipeId,
-        tag_id: tag.id,
-      })}`;
+      // Handle tags
+      for (const tagName of recipe.tags) {
+        // Insert tag if it doesn't exist (or get existing one)
+        await db`INSERT OR IGNORE INTO tags ${sql({ name: tagName })}`;
+
+        // Get tag ID
+        const [tag] = await db`SELECT id FROM tags WHERE name = ${tagName}`;
+
+        // Link recipe to tag
+        await db`INSERT INTO recipe_tags ${sql({
+          recipe_id: recipeId,
+          tag_id: tag.id,
+        })}`;
+      }
+
+      if (recipe.classifications) {
+        await setRecipeClassifications(recipeId, recipe.classifications);
+      }
+
+      clearRecipeCache();
+
+      return {
+        classifications: await getRecipeClassifications(recipeId),
+        createdAt,
+        deweyDecimal,
+        id: recipeId,
+        ingredients: recipe.ingredients,
+        name: recipe.name,
+        notes: recipe.notes,
+        page: recipe.page,
+        rating: recipe.rating,
+        servings: recipe.servings,
+        steps: recipe.steps,
+        tags: recipe.tags,
+        url: recipe.url,
+      };
+    });
+  },
+
+  // Shopping list operations
+  async addShoppingList(
+    name: string,
+    items: ShoppingItemDraft[],
+  ): Promise<ShoppingList> {
+    const [list] = await db`INSERT INTO shopping_lists ${sql({
+      name,
+    })} RETURNING id`;
+
+    for (const item of items) {
+      await this.addShoppingListItem(list.id, item);
     }
 
-    clearRecipeCache();
+    return (await this.getShoppingList(list.id)) as ShoppingList;
+  },
+
+  async addShoppingListItem(
+    listId: number,
+    item: ShoppingItemDraft,
+  ): Promise<ShoppingListItem> {
+    const [result] = await db`INSERT INTO shopping_list_items ${sql({
+      category: item.category,
+      item: item.item,
+      list_id: listId,
+      manual: item.manual,
+      quantity: item.quantity ?? null,
+      recipes: item.recipes.length > 0 ? JSON.stringify(item.recipes) : null,
+      unit: item.unit || null,
+    })} RETURNING *`;
+
+    return toShoppingListItem(result);
+  },
 
+  // Writes a planned category import into a scheme's tree in one
+  // transaction
+  async applyDeweyImport(plan: {
+    schemeId: number;
+    add: Array<Omit<DeweyCategory, 'id' | 'schemeId'>>;
+    update: Array<Pick<DeweyCategory, 'id' | 'level' | 'name' | 'parentCode'>>;
+    remove: number[];
+  }): Promise<void> {
+    await RecipeDB.transaction(async () => {
+      for (const id of plan.remove) {
+        await db`DELETE FROM dewey_categories
+                 WHERE id = ${id} AND scheme_id = ${plan.schemeId}`;
+      }
+      for (const category of plan.add) {
+        await db`INSERT INTO dewey_categories ${sql({
+          dewey_code: category.deweyCode,
+          is_active: category.isActive,
+          level: category.level,
+          name: category.name,
+          parent_code: category.parentCode || null,
+          scheme_id: plan.schemeId,
+        })}`;
+      }
+      for (const category of plan.update) {
+        await db`UPDATE dewey_categories SET ${sql({
+          level: category.level,
+          name: category.name,
+          parent_code: category.parentCode || null,
+        })} WHERE id = ${category.id} AND scheme_id = ${plan.schemeId}`;
+      }
+    });
+    clearDeweyCache();
+  },
+
+  // What saving a recipe with a Dewey code would meet, without claiming the
+  // code: the recipe that already has it, and whether it is a sequence code,
+  // which a save swaps for the next free number instead of turning away
+  async checkDeweyCode(
+    code: string,
+    recipeId?: number,
+  ): Promise<{ owner?: string; isSequence: boolean; problem?: string }> {
+    const scheme = await getScheme(PRIMARY_SCHEME_ID);
+    const owner = await findDeweyCodeOwner(scheme, code, recipeId);
     return {
-      createdAt,
-      deweyDecimal: recipe.deweyDecimal,
-      id: recipeId,
-      name: recipe.name,
-      notes: recipe.notes,
-      page: recipe.page,
-      rating: recipe.rating,
-      tags: recipe.tags,
-      url: recipe.url,
+      isSequence: (await splitDeweySequence(scheme, code)) !== null,
+      owner: owner?.name,
+      problem: await findRecipeCodeProblem(scheme, code),
     };
   },
 
@@ -196,6 +1244,78 @@ export const RecipeDB = {
     clearTagCache();
   },
 
+  // Empties the active library, e.g. before importing a replacement
+  async clearLibrary(): Promise<void> {
+    for (const table of [
+      'recipe_tags',
+      'tags',
+      'recipe_files',
+      'recipe_ingredients',
+      'recipe_steps',
+      'cook_log',
+      'meal_plan_entries',
+      'recipe_classifications',
+      'recipes',
+      'dewey_categories',
+      'dewey_reservations',
+      'dewey_sequences',
+      'shopping_list_items',
+      'shopping_lists',
+    ]) {
+      await db.unsafe(`DELETE FROM ${table}`);
+    }
+    // The primary scheme stays, as every library has one
+    await db`DELETE FROM classification_schemes WHERE id != ${PRIMARY_SCHEME_ID}`;
+    libraryCache().clear();
+  },
+
+  // How many recipes are filed under each category of a scheme, by code
+  async countRecipesByDeweyCategory(
+    schemeId = PRIMARY_SCHEME_ID,
+  ): Promise<Map<string, number>> {
+    const categories = await RecipeDB.getAllDeweyCategories(schemeId);
+    const tree = new Map<string, DeweyTreeNode>(
+      categories.map(({ deweyCode, name, parentCode }) => [
+        deweyCode,
+        { name, parentCode },
+      ]),
+    );
+    const counts = new Map<string, number>();
+    const rows =
+      await db`SELECT code FROM recipe_codes WHERE scheme_id = ${schemeId}`;
+    for (const row of rows) {
+      const baseCode = deweyBaseCode(row.code, tree);
+      if (baseCode) {
+        counts.set(baseCode, (counts.get(baseCode) ?? 0) + 1);
+      }
+    }
+    return counts;
+  },
+
+  // Removes a scheme with its categories and every recipe's code in it;
+  // the primary scheme can't be removed
+  async deleteClassificationScheme(id: number): Promise<void> {
+    if (id === PRIMARY_SCHEME_ID) {
+      throw new ClassificationSchemeError(
+        "The primary scheme can't be deleted",
+      );
+    }
+    await RecipeDB.transaction(async () => {
+      await db`DELETE FROM recipe_classifications WHERE scheme_id = ${id}`;
+      await db`DELETE FROM dewey_categories WHERE scheme_id = ${id}`;
+      await db`DELETE FROM dewey_reservations WHERE scheme_id = ${id}`;
+      await db`DELETE FROM dewey_sequences WHERE scheme_id = ${id}`;
+      await db`DELETE FROM classification_schemes WHERE id = ${id}`;
+    });
+    clearDeweyCache();
+    clearRecipeCache();
+  },
+
+  async deleteCookLogEntry(id: number): Promise<void> {
+    await db`DELETE FROM cook_log WHERE id = ${id}`;
+    clearRecipeCache();
+  },
+
   async deleteDeweyCategory(id: number): Promise<void> {
     await db`DELETE FROM dewey_categories WHERE id = ${id}`;
     clearDeweyCache();
@@ -206,20 +1326,42 @@ export const RecipeDB = {
     await db`DELETE FROM recipe_files WHERE id = ${id}`;
   },
 
+  async deleteMealPlanEntry(id: number): Promise<void> {
+    await db`DELETE FROM meal_plan_entries WHERE id = ${id}`;
+  },
+
   async deleteRecipe(id: string | number): Promise<void> {
-    await db`DELETE FROM recipes WHERE id = ${parseInt(id.toString(), 10)}`;
+    const recipeId = parseInt(id.toString(), 10);
+    await db`DELETE FROM recipe_ingredients WHERE recipe_id = ${recipeId}`;
+    await db`DELETE FROM recipe_steps WHERE recipe_id = ${recipeId}`;
+    await db`DELETE FROM meal_plan_entries WHERE recipe_id = ${recipeId}`;
+    await db`DELETE FROM cook_log WHERE recipe_id = ${recipeId}`;
+    await db`DELETE FROM recipe_classifications WHERE recipe_id = ${recipeId}`;
+    await db`DELETE FROM recipes WHERE id = ${recipeId}`;
     await this.cleanupOrphanedTags();
     clearRecipeCache();
   },
 
-  async getAllDeweyCategories(): Promise<DeweyCategory[]> {
-    const cacheKey = 'getAllDeweyCategories';
-    if (cache.has(cacheKey)) {
-      return cache.get(cacheKey);
+  async deleteShoppingList(id: number): Promise<void> {
+    await db`DELETE FROM shopping_list_items WHERE list_id = ${id}`;
+    await db`DELETE FROM shopping_lists WHERE id = ${id}`;
+  },
+
+  async deleteShoppingListItem(listId: number, itemId: number): Promise<void> {
+    await db`DELETE FROM shopping_list_items WHERE id = ${itemId} AND list_id = ${listId}`;
+  },
+
+  async getAllDeweyCategories(
+    schemeId = PRIMARY_SCHEME_ID,
+  ): Promise<DeweyCategory[]> {
+    const cacheKey = `getAllDeweyCategories:${schemeId}`;
+    if (libraryCache().has(cacheKey)) {
+      return libraryCache().get(cacheKey);
     }
 
-    const categories =
-      await db`SELECT * FROM dewey_categories ORDER BY dewey_code`;
+    const categories = await db`SELECT * FROM dewey_categories
+                                WHERE scheme_id = ${schemeId}
+                                ORDER BY dewey_code`;
 
     const result = categories.map(
       (category: {
@@ -229,76 +1371,67 @@ export const RecipeDB = {
         level: number;
         name: string;
         parent_code: string | null;
+        scheme_id: number;
       }) => ({
         deweyCode: category.dewey_code,
         id: category.id,
-        isActive: category.is_active,
+        isActive: !!category.is_active,
         level: category.level,
         name: category.name,
         parentCode: category.parent_code || undefined,
+        schemeId: category.scheme_id,
       }),
     );
 
-    cache.set(cacheKey, result);
+    libraryCache().set(cacheKey, result);
     return result;
   },
   async getAllRecipes(): Promise<Recipe[]> {
     const cacheKey = 'getAllRecipes';
-    if (cache.has(cacheKey)) {
-      return cache.get(cacheKey);
+    if (libraryCache().has(cacheKey)) {
+      return libraryCache().get(cacheKey);
     }
 
     const recipes = await db`SELECT * FROM recipes ORDER BY created_at DESC`;
+    const result = await toListedRecipes(recipes, false);
 
-    const result = await Promise.all(
-      recipes.map(
-        async (recipe: {
-          id: number;
-          dewey_decimal: string | null;
-          created_at: string;
-          name: string;
-          notes: string | null;
-          page: number | null;
-          rating: number | null;
-          url: string | null;
-        }) => {
-          const tags = await db`SELECT t.name 
-                            FROM tags t 
-                            JOIN recipe_tags rt ON t.id = rt.tag_id 
-                            WHERE rt.recipe_id = ${recipe.id}`;
-
-          return {
-            createdAt: new Date(recipe.created_at),
-            deweyDecimal: recipe.dewey_decimal || undefined,
-            id: recipe.id,
-            name: recipe.name,
-            notes: recipe.notes || undefined,
-            page: recipe.page || undefined,
-            rating: recipe.rating || undefined,
-            tags: tags.map((tag: { name: string }) => tag.name),
-            url: recipe.url || undefined,
-          };
-        },
-      ),
-    );
-
-    cache.set(cacheKey, result);
+    libraryCache().set(cacheKey, result);
     return result;
   },
 
   async getAllTags(): Promise<string[]> {
     const cacheKey = 'getAllTags';
-    if (cache.has(cacheKey)) {
-      return cache.get(cacheKey);
+    if (libraryCache().has(cacheKey)) {
+      return libraryCache().get(cacheKey);
     }
 
     const rows = await db`SELECT name FROM tags ORDER BY name`;
     const result = rows.map((row: { name: string }) => row.name);
 
-    cache.set(cacheKey, result);
+    libraryCache().set(cacheKey, result);
+    return result;
+  },
+
+  async getClassificationSchemes(): Promise<ClassificationScheme[]> {
+    const cacheKey = 'getClassificationSchemes';
+    if (libraryCache().has(cacheKey)) {
+      return libraryCache().get(cacheKey);
+    }
+
+    const rows = await db`SELECT * FROM classification_schemes ORDER BY id`;
+    const result = rows.map(toClassificationScheme);
+
+    libraryCache().set(cacheKey, result);
     return result;
   },
 
+  async getCookLog(recipeId: number): Promise<CookLogEntry[]> {
+    const entries = await db`SELECT * FROM cook_log
+                             WHERE recipe_id = ${recipeId}
+                             ORDER BY cooked_on DESC, id DESC`;
+    return entries.map(toCookLogEntry);
+  },
+
   async getDeweyChildCategories(parentCode: string): Promise<DeweyCategory[]> {
     const allCategories = await this.getAllDeweyCategories();
     return allCategories
@@ -308,6 +1441,33 @@ export const RecipeDB = {
       .sort((a, b) => a.deweyCode.localeCompare(b.deweyCode));
   },
 
+  // Recipes that share a code, which the unique index can't be created
+  // over, and whether the index is in place yet
+  async getDeweyConflicts(): Promise<DeweyConflictReport> {
+    const rows = await db`SELECT id, name, dewey_decimal FROM recipes
+                          WHERE dewey_decimal IN (
+                            SELECT dewey_decimal FROM recipes
+                            WHERE COALESCE(dewey_decimal, '') != ''
+                            GROUP BY dewey_decimal HAVING COUNT(*) > 1
+                          )
+                          ORDER BY dewey_decimal, created_at, id`;
+
+    const conflicts: DeweyConflict[] = [];
+    for (const row of rows) {
+      const last = conflicts.at(-1);
+      const recipe = { id: row.id, name: row.name };
+      if (last && last.code === row.dewey_decimal) {
+        last.recipes.push(recipe);
+      } else {
+        conflicts.push({ code: row.dewey_decimal, recipes: [recipe] });
+      }
+    }
+
+    const [index] =
+      await db`SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = ${DEWEY_UNIQUE_INDEX}`;
+    return { conflicts, uniqueIndex: !!index };
+  },
+
   async getDeweyRootCategories(): Promise<DeweyCategory[]> {
     const allCategories = await this.getAllDeweyCategories();
     return allCategories
@@ -315,11 +1475,45 @@ export const RecipeDB = {
       .sort((a, b) => a.deweyCode.localeCompare(b.deweyCode));
   },
 
-  async getFileById(
-    fileId: string | number,
-  ): Promise<{ filename: string; content: Uint8Array } | null> {
-    const id = parseInt(fileId.toString(), 10);
-    const [file] =
+  async getDeweySettings(): Promise<DeweySettings> {
+    return {
+      sequencePolicy: (await getScheme(PRIMARY_SCHEME_ID)).sequencePolicy,
+    };
+  },
+
+  // The primary category tree with recipe counts, for the shelf browser
+  async getDeweyShelf(): Promise<DeweyShelfCategory[]> {
+    const categories = await RecipeDB.getAllDeweyCategories();
+    const counts = await RecipeDB.countRecipesByDeweyCategory();
+    const parents = new Map(
+      categories.map(({ deweyCode, parentCode }) => [deweyCode, parentCode]),
+    );
+    const totals = new Map(counts);
+
+    // Each category's recipes count towards every ancestor's total; the
+    // seen set stops at a loop in the parent links
+    for (const [code, count] of counts) {
+      const seen = new Set([code]);
+      let parentCode = parents.get(code);
+      while (parentCode && !seen.has(parentCode)) {
+        seen.add(parentCode);
+        totals.set(parentCode, (totals.get(parentCode) ?? 0) + count);
+        parentCode = parents.get(parentCode);
+      }
+    }
+
+    return categories.map((category) => ({
+      ...category,
+      recipeCount: counts.get(category.deweyCode) ?? 0,
+      totalCount: totals.get(category.deweyCode) ?? 0,
+    }));
+  },
+
+  async getFileById(
+    fileId: string | number,
+  ): Promise<{ filename: string; content: Uint8Array } | null> {
+    const id = parseInt(fileId.toString(), 10);
+    const [file] =
       await db`SELECT filename, content FROM recipe_files WHERE id = ${id}`;
     if (!file) return null;
     return {
@@ -340,33 +1534,62 @@ export const RecipeDB = {
     }));
   },
 
-  async getNextDeweySequence(baseDeweyCode: string): Promise<string> {
-    // Get all recipes with Dewey codes that start with the base code
-    const [result] =
-      await db`SELECT dewey_decimal FROM recipes WHERE dewey_decimal LIKE ${`${baseDeweyCode}.%`} ORDER BY dewey_decimal DESC LIMIT 1`;
-
-    if (!result) {
-      return `${baseDeweyCode}.001`;
-    }
+  // The libraries, and the one the current request works on
+  getLibraries(): LibraryList {
+    return {
+      active: currentLibraryId(),
+      libraries: libraries.map(({ id, name }) => ({ id, name })),
+    };
+  },
 
-    const lastCode = result.dewey_decimal;
-    const parts = lastCode.split('.');
-    const lastNumber = parseInt(parts[parts.length - 1], 10);
-    const nextNumber = (lastNumber + 1).toString().padStart(3, '0');
+  async getMealPlanEntries(
+    startDate: string,
+    endDate: string,
+  ): Promise<MealPlanEntry[]> {
+    const entries = await db`SELECT m.*, r.name AS recipe_name, r.dewey_decimal
+                             FROM meal_plan_entries m
+                             JOIN recipes r ON r.id = m.recipe_id
+                             WHERE m.date BETWEEN ${startDate} AND ${endDate}
+                             ORDER BY m.date, m.id`;
+    return entries.map(toMealPlanEntry);
+  },
 
-    return `${baseDeweyCode}.${nextNumber}`;
+  // The code the next recipe in a category would get, without reserving it
+  async getNextDeweySequence(
+    baseDeweyCode: string,
+    schemeId = PRIMARY_SCHEME_ID,
+  ): Promise<string> {
+    const scheme = await getScheme(schemeId);
+    return formatDeweySequence(
+      scheme,
+      baseDeweyCode,
+      await nextDeweySequence(scheme, baseDeweyCode),
+    );
   },
 
-  async getNextRecipe(currentId: string | number): Promise<Recipe | null> {
+  async getNextRecipe(
+    currentId: string | number,
+    order: RecipeWalkOrder = 'created',
+  ): Promise<Recipe | null> {
     const recipeId = parseInt(currentId.toString(), 10);
 
-    // Get the next recipe (newer) - one with a more recent created_at
-    const [recipe] = await db`SELECT * FROM recipes 
-                              WHERE created_at > (
-                                SELECT created_at FROM recipes WHERE id = ${recipeId}
-                              )
-                              ORDER BY created_at ASC 
-                              LIMIT 1`;
+    // Get the next recipe along the shelf, or the next (newer) one with a
+    // more recent created_at
+    const [recipe] =
+      order === 'dewey'
+        ? await db`SELECT * FROM recipes
+                   WHERE COALESCE(dewey_decimal, '') != ''
+                     AND (dewey_decimal, id) > (
+                       SELECT dewey_decimal, id FROM recipes WHERE id = ${recipeId}
+                     )
+                   ORDER BY dewey_decimal ASC, id ASC
+                   LIMIT 1`
+        : await db`SELECT * FROM recipes 
+                   WHERE created_at > (
+                     SELECT created_at FROM recipes WHERE id = ${recipeId}
+                   )
+                   ORDER BY created_at ASC 
+                   LIMIT 1`;
 
     if (!recipe) return null;
 
@@ -377,6 +1600,7 @@ export const RecipeDB = {
 
     return {
       createdAt: new Date(recipe.created_at),
+      deweyDecimal: recipe.dewey_decimal || undefined,
       id: recipe.id,
       name: recipe.name,
       notes: recipe.notes || undefined,
@@ -386,16 +1610,29 @@ export const RecipeDB = {
     };
   },
 
-  async getPreviousRecipe(currentId: string | number): Promise<Recipe | null> {
+  async getPreviousRecipe(
+    currentId: string | number,
+    order: RecipeWalkOrder = 'created',
+  ): Promise<Recipe | null> {
     const recipeId = parseInt(currentId.toString(), 10);
 
-    // Get the previous recipe (older) - one with an earlier created_at
-    const [recipe] = await db`SELECT * FROM recipes 
-                              WHERE created_at < (
-                                SELECT created_at FROM recipes WHERE id = ${recipeId}
-                              )
-                              ORDER BY created_at DESC 
-                              LIMIT 1`;
+    // Get the previous recipe along the shelf, or the previous (older) one
+    // with an earlier created_at
+    const [recipe] =
+      order === 'dewey'
+        ? await db`SELECT * FROM recipes
+                   WHERE COALESCE(dewey_decimal, '') != ''
+                     AND (dewey_decimal, id) < (
+                       SELECT dewey_decimal, id FROM recipes WHERE id = ${recipeId}
+                     )
+                   ORDER BY dewey_decimal DESC, id DESC
+                   LIMIT 1`
+        : await db`SELECT * FROM recipes 
+                   WHERE created_at < (
+                     SELECT created_at FROM recipes WHERE id = ${recipeId}
+                   )
+                   ORDER BY created_at DESC 
+                   LIMIT 1`;
 
     if (!recipe) return null;
 
@@ -406,6 +1643,7 @@ export const RecipeDB = {
 
     return {
       createdAt: new Date(recipe.created_at),
+      deweyDecimal: recipe.dewey_decimal || undefined,
       id: recipe.id,
       name: recipe.name,
       notes: recipe.notes || undefined,
@@ -429,7 +1667,12 @@ export const RecipeDB = {
     const files =
       await db`SELECT id, filename FROM recipe_files WHERE recipe_id = ${recipeId} ORDER BY created_at DESC`;
 
+    const ingredients = await getRecipeIngredients(recipeId);
+    const steps = await getRecipeSteps(recipeId);
+    const cookStats = (await getCookStatsForRecipes([recipeId])).get(recipeId);
+
     return {
+      classifications: await getRecipeClassifications(recipeId),
       createdAt: new Date(recipe.created_at),
       deweyDecimal: recipe.dewey_decimal || undefined,
       files: files.map((file: { id: number; filename: string }) => ({
@@ -437,56 +1680,80 @@ export const RecipeDB = {
         id: file.id,
       })),
       id: recipe.id,
+      ingredients,
+      lastCookedAt: cookStats?.lastCookedAt,
       name: recipe.name,
       notes: recipe.notes || undefined,
       page: recipe.page || undefined,
       rating: recipe.rating || undefined,
+      servings: recipe.servings || undefined,
+      steps,
       tags: tags.map((tag: { name: string }) => tag.name),
+      timesCooked: cookStats?.timesCooked ?? 0,
       url: recipe.url || undefined,
     };
   },
 
-  async getRecipesByDeweyCode(deweyCode: string): Promise<Recipe[]> {
-    const recipes =
-      await db`SELECT * FROM recipes WHERE dewey_decimal = ${deweyCode} ORDER BY created_at DESC`;
-
-    return await Promise.all(
-      recipes.map(
-        async (recipe: {
-          id: number;
-          dewey_decimal: string | null;
-          created_at: string;
-          name: string;
-          notes: string | null;
-          page: number | null;
-          rating: number | null;
-          url: string | null;
-        }) => {
-          const tags = await db`SELECT t.name 
-                            FROM tags t 
-                            JOIN recipe_tags rt ON t.id = rt.tag_id 
-                            WHERE rt.recipe_id = ${recipe.id}`;
-
-          return {
-            createdAt: new Date(recipe.created_at),
-            deweyDecimal: recipe.dewey_decimal || undefined,
-            id: recipe.id,
-            name: recipe.name,
-            notes: recipe.notes || undefined,
-            page: recipe.page || undefined,
-            rating: recipe.rating || undefined,
-            tags: tags.map((tag: { name: string }) => tag.name),
-            url: recipe.url || undefined,
-          };
-        },
+  // Recipes filed under a category itself, not those below it, in shelf
+  // order
+  async getShelfRecipes(deweyCode: string): Promise<Recipe[]> {
+    const categories = await RecipeDB.getAllDeweyCategories();
+    const tree = new Map<string, DeweyTreeNode>(
+      categories.map(({ deweyCode, name, parentCode }) => [
+        deweyCode,
+        { name, parentCode },
+      ]),
+    );
+    const prefix = `${deweyCode}.`;
+    const rows = await db`SELECT * FROM recipes
+                          WHERE dewey_decimal = ${deweyCode}
+                             OR substr(dewey_decimal, 1, ${prefix.length}) = ${prefix}
+                          ORDER BY dewey_decimal, id`;
+    return toListedRecipes(
+      rows.filter(
+        (row: any) => deweyBaseCode(row.dewey_decimal, tree) === deweyCode,
       ),
+      false,
     );
   },
 
+  async getShoppingList(id: number): Promise<ShoppingList | null> {
+    const [list] = await db`SELECT * FROM shopping_lists WHERE id = ${id}`;
+    if (!list) return null;
+
+    const items =
+      await db`SELECT * FROM shopping_list_items WHERE list_id = ${id}`;
+
+    return {
+      createdAt: new Date(list.created_at),
+      id: list.id,
+      items: items.map(toShoppingListItem).sort(compareShoppingItems),
+      name: list.name,
+    };
+  },
+
+  async getShoppingLists(): Promise<ShoppingListSummary[]> {
+    const lists = await db`SELECT l.*,
+                                  COUNT(i.id) AS item_count,
+                                  COALESCE(SUM(i.checked), 0) AS checked_count
+                           FROM shopping_lists l
+                           LEFT JOIN shopping_list_items i ON i.list_id = l.id
+                           GROUP BY l.id
+                           ORDER BY l.created_at DESC, l.id DESC`;
+
+    return lists.map((list: any) => ({
+      checkedCount: list.checked_count,
+      createdAt: new Date(list.created_at),
+      id: list.id,
+      itemCount: list.item_count,
+      name: list.name,
+    }));
+  },
+
   async getTagsWithCounts(): Promise<Array<{ name: string; count: number }>> {
     const cacheKey = 'getTagsWithCounts';
-    if (cache.has(cacheKey)) {
-      return cache.get(cacheKey);
+    if (libraryCache().has(cacheKey)) {
+      return libraryCache().get(cacheKey);
     }
 
     const rows = await db`SELECT t.name, COUNT(rt.recipe_id) as count
@@ -499,117 +1766,812 @@ export const RecipeDB = {
       name: row.name,
     }));
 
-    cache.set(cacheKey, result);
+    libraryCache().set(cacheKey, result);
     return result;
   },
 
-  async searchRecipes(
-    searchTerm: string,
-    selectedTags: string[],
+  hasLibrary(id: string): boolean {
+    return findLibrary(id) !== undefined;
+  },
+
+  async listRecipes(
+    query: QueryNode,
+    options: { limit: number; cursor?: ListCursor; sort?: RecipeSort },
+  ): Promise<RecipePage> {
+    const condition = buildQueryCondition(query);
+    const rankingQuery = collectRankingTerms(query).join(' OR ');
+
+    // Relevance needs something to rank by; otherwise fall back to newest
+    const requestedSort =
+      options.sort ?? (rankingQuery ? 'relevance' : 'created');
+    const byRelevance = requestedSort === 'relevance' && !!rankingQuery;
+    const sortName =
+      requestedSort === 'relevance' && !byRelevance ? 'created' : requestedSort;
+    const order = RECIPE_SORTS[sortName === 'relevance' ? 'created' : sortName];
+    const direction = sql.unsafe(order.descending ? 'DESC' : 'ASC');
+
+    const { cursor, limit } = options;
+    // Another sort's key would be compared against this sort's column, and
+    // quietly give the wrong page
+    if (cursor && 'id' in cursor && cursor.sort !== sortName) {
+      throw new ListCursorError(
+        `The cursor is for recipes sorted by ${cursor.sort}, not ${sortName}; start again without it`,
+      );
+    }
+
+    const [{ total }] =
+      await db`SELECT COUNT(*) AS total FROM recipes r WHERE ${condition}`;
+
+    const offset = cursor && 'offset' in cursor ? cursor.offset : 0;
+    const afterCursor =
+      cursor && 'id' in cursor && !byRelevance
+        ? sql`AND (${sql.unsafe(order.key)}, r.id) ${sql.unsafe(order.descending ? '<' : '>')} (${cursor.value}, ${cursor.id})`
+        : sql``;
+
+    const searchJoin = rankingQuery
+      ? sql`LEFT JOIN (
+          SELECT rowid AS search_id, ${searchSnippetsSql()},
+                 ${searchRankSql()} AS search_rank
+          FROM recipe_search
+          WHERE recipe_search MATCH ${rankingQuery}
+        ) s ON s.search_id = r.id`
+      : sql``;
+
+    const orderBy = byRelevance
+      ? sql`s.search_rank IS NULL, s.search_rank, r.created_at DESC, r.id DESC`
+      : sql`sort_key ${direction}, r.id ${direction}`;
+
+    // Fetch one extra row to learn whether there is another page
+    const rows = await db`
+      SELECT r.*, ${sql.unsafe(order.key)} AS sort_key
+             ${rankingQuery ? sql`, s.*` : sql``}
+      FROM recipes r
+      ${searchJoin}
+      WHERE (${condition}) ${afterCursor}
+      ORDER BY ${orderBy}
+      LIMIT ${limit + 1} OFFSET ${offset}
+    `;
+
+    const pageRows = rows.slice(0, limit);
+    const last = pageRows[pageRows.length - 1];
+    let nextCursor: string | null = null;
+    if (rows.length > limit && last) {
+      // Keep paging by offset if that is how this listing started
+      nextCursor =
+        byRelevance || (cursor && 'offset' in cursor)
+          ? encodeCursor({ offset: offset + limit })
+          : encodeCursor({
+              id: last.id,
+              sort: sortName,
+              value: last.sort_key,
+            });
+    }
+
+    return {
+      nextCursor,
+      recipes: await toListedRecipes(pageRows, !!rankingQuery),
+      total,
+    };
+  },
+
+  // Runs fn with the library to itself. It starts once the transactions
+  // and queries already under way there have finished, and any others wait
+  // until it is done, unless fn makes them itself.
+  async lockLibrary<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    if (lockScope.getStore() === id) {
+      return fn();
+    }
+
+    for (let open = holder(id); open; open = holder(id)) {
+      await open.catch(() => {});
+    }
+    let release = () => {};
+    openTransactions.set(
+      id,
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+    try {
+      await Promise.allSettled(runningQueries.get(id) ?? []);
+      return await lockScope.run(id, fn);
+    } finally {
+      openTransactions.delete(id);
+      release();
+    }
+  },
+
+  // Gives a category a new code and/or parent, carrying its descendants and
+  // the recipes filed under any of them along: codes that start with the
+  // old code have that prefix replaced, and recipes' category tags follow
+  // the new ancestry. Returns null if there is no such category.
+  async moveDeweySubtree(
+    id: number,
+    target: DeweySubtreeTarget,
+    options: { dryRun?: boolean } = {},
+  ): Promise<DeweySubtreeMove | null> {
+    // The move is planned inside the transaction that carries it out, so
+    // nothing can change the tree or the recipes' codes in between
+    return RecipeDB.transaction(async () => {
+      const [row] =
+        await db`SELECT scheme_id FROM dewey_categories WHERE id = ${id}`;
+      if (!row) {
+        return null;
+      }
+      const scheme = await getScheme(row.scheme_id);
+      const categories = await RecipeDB.getAllDeweyCategories(scheme.id);
+      const root = categories.find((category) => category.id === id);
+      if (!root) {
+        return null;
+      }
+
+      const toCode = target.deweyCode.trim();
+      const parentCode = target.parentCode?.trim() || undefined;
+      if (!toCode) {
+        throw new DeweyMoveError('A Dewey code is required');
+      }
+
+      // Descendants are found by parent links rather than by code, since a
+      // child's code needn't start with its parent's
+      const subtree = [root];
+      for (let i = 0; i < subtree.length; i++) {
+        const code = subtree[i]?.deweyCode;
+        subtree.push(...categories.filter((c) => c.parentCode === code));
+      }
+      const inSubtree = new Set(subtree.map(({ deweyCode }) => deweyCode));
+
+      const parent = parentCode
+        ? categories.find(({ deweyCode }) => deweyCode === parentCode)
+        : undefined;
+      if (parentCode && !parent) {
+        throw new DeweyMoveError(`There is no category ${parentCode}`);
+      }
+      if (parentCode && inSubtree.has(parentCode)) {
+        throw new DeweyMoveError(
+          `${root.deweyCode} can't be moved under ${parentCode}, which is part of it`,
+        );
+      }
+
+      const newCodes = new Map(
+        subtree.map(({ deweyCode }) => [
+          deweyCode,
+          deweyCode.startsWith(root.deweyCode)
+            ? toCode + deweyCode.slice(root.deweyCode.length)
+            : deweyCode,
+        ]),
+      );
+      for (const [from, to] of newCodes) {
+        if (from !== to) {
+          checkCategoryCode(scheme, to);
+        }
+      }
+      if (new Set(newCodes.values()).size !== newCodes.size) {
+        throw new DeweyMoveError(
+          `Renumbering ${root.deweyCode} as ${toCode} would give two categories the same code`,
+        );
+      }
+      for (const code of newCodes.values()) {
+        const other = categories.find(
+          ({ deweyCode }) => deweyCode === code && !inSubtree.has(deweyCode),
+        );
+        if (other) {
+          throw new DeweyMoveError(
+            `Dewey code ${code} is already used by the category "${other.name}"`,
+          );
+        }
+      }
+
+      const newRootLevel =
+        parentCode === root.parentCode
+          ? root.level
+          : parent
+            ? parent.level + 1
+            : 1;
+      const levelChange = newRootLevel - root.level;
+
+      const oldTree = new Map<string, DeweyTreeNode>(
+        categories.map(({ deweyCode, name, parentCode }) => [
+          deweyCode,
+          { name, parentCode },
+        ]),
+      );
+      const newTree = new Map<string, DeweyTreeNode>(
+        categories
+          .filter(({ deweyCode }) => !inSubtree.has(deweyCode))
+          .map(({ deweyCode, name, parentCode }) => [
+            deweyCode,
+            { name, parentCode },
+          ]),
+      );
+      for (const category of subtree) {
+        newTree.set(newCodes.get(category.deweyCode) ?? category.deweyCode, {
+          name: category.name,
+          parentCode:
+            category === root
+              ? parentCode
+              : category.parentCode && newCodes.get(category.parentCode),
+        });
+      }
+
+      const recipeRows =
+        await db`SELECT r.id, r.name, c.code FROM recipe_codes c
+                                  JOIN recipes r ON r.id = c.recipe_id
+                                  WHERE c.scheme_id = ${scheme.id}
+                                  ORDER BY c.code, r.id`;
+      const owners = new Map<string, string>();
+      const moved: Array<
+        DeweyRenumbering & { oldTags: string[]; newTags: string[] }
+      > = [];
+      for (const row of recipeRows) {
+        owners.set(row.code, row.name);
+        const baseCode = deweyBaseCode(row.code, oldTree);
+        if (!baseCode || !inSubtree.has(baseCode)) continue;
+        const newBaseCode = newCodes.get(baseCode) ?? baseCode;
+        // Recipes are only tagged with their place in the primary tree
+        moved.push({
+          from: row.code,
+          name: row.name,
+          newTags: scheme.isPrimary ? deweyPathNames(newBaseCode, newTree) : [],
+          oldTags: scheme.isPrimary ? deweyPathNames(baseCode, oldTree) : [],
+          recipeId: row.id,
+          to: newBaseCode + row.code.slice(baseCode.length),
+        });
+      }
+      const movedCodes = new Set(moved.map(({ from }) => from));
+      for (const { to } of moved) {
+        const owner = owners.get(to);
+        if (owner && !movedCodes.has(to)) {
+          throw new DeweyConflictError(to, owner);
+        }
+      }
+
+      const renumbered = moved.filter(({ from, to }) => from !== to);
+      const retagged = moved.filter(
+        ({ newTags, oldTags }) => newTags.join('\n') !== oldTags.join('\n'),
+      );
+      const result: DeweySubtreeMove = {
+        applied: !options.dryRun,
+        categories: subtree
+          .map(({ deweyCode, id, name }) => ({
+            from: deweyCode,
+            id,
+            name,
+            to: newCodes.get(deweyCode) ?? deweyCode,
+          }))
+          .filter(({ from, to }) => from !== to),
+        recipes: renumbered.map(({ from, name, recipeId, to }) => ({
+          from,
+          name,
+          recipeId,
+          to,
+        })),
+        retaggedRecipes: retagged.length,
+      };
+      if (options.dryRun) {
+        return result;
+      }
+
+      // Codes are unique, so everything that moves is parked on a
+      // placeholder first in case one code takes over another's
+      for (const category of result.categories) {
+        await db`UPDATE dewey_categories SET dewey_code = ${`moving:${category.id}`}
+                 WHERE id = ${category.id}`;
+      }
+      for (const category of subtree) {
+        await db`UPDATE dewey_categories SET ${sql({
+          dewey_code: newCodes.get(category.deweyCode) ?? category.deweyCode,
+          level: category.level + levelChange,
+          parent_code:
+            (category === root
+              ? parentCode
+              : category.parentCode &&
+                (newCodes.get(category.parentCode) ?? category.parentCode)) ||
+            null,
+        })} WHERE id = ${category.id}`;
+      }
+
+      for (const recipe of renumbered) {
+        await writeRecipeCode(
+          scheme.id,
+          recipe.recipeId,
+          `moving:${recipe.recipeId}`,
+        );
+      }
+      for (const recipe of renumbered) {
+        await writeRecipeCode(scheme.id, recipe.recipeId, recipe.to);
+      }
+
+      for (const recipe of retagged) {
+        const rows = await db`SELECT t.name FROM tags t
+                              JOIN recipe_tags rt ON t.id = rt.tag_id
+                              WHERE rt.recipe_id = ${recipe.recipeId}`;
+        const tags = rows
+          .map((row: { name: string }) => row.name)
+          .filter((tag: string) => !recipe.oldTags.includes(tag));
+        await RecipeDB.updateRecipe(recipe.recipeId, {
+          tags: [...new Set([...tags, ...recipe.newTags])],
+        });
+      }
+
+      // Numbers issued and reserved under the old codes move with them
+      for (const { from, to } of result.categories) {
+        const [mark] = await db`SELECT last_sequence FROM dewey_sequences
+                                WHERE scheme_id = ${scheme.id} AND base_code = ${from}`;
+        await db`DELETE FROM dewey_sequences WHERE scheme_id = ${scheme.id} AND base_code = ${from}`;
+        await db`DELETE FROM dewey_reservations WHERE scheme_id = ${scheme.id} AND base_code = ${from}`;
+        if (mark) {
+          await recordDeweySequence(scheme, to, mark.last_sequence);
+        }
+      }
+
+      clearDeweyCache();
+      clearRecipeCache();
+      return result;
+    });
+  },
+
+  async pickRandomRecipes(
+    query: QueryNode,
+    options: { count: number; weighted: boolean },
   ): Promise<Recipe[]> {
-    let recipes: any[] = [];
-
-    if (selectedTags.length > 0) {
-      recipes = await db`
-        SELECT r.* FROM recipes r
-        WHERE r.id IN (
-          SELECT rt.recipe_id 
-          FROM recipe_tags rt
-          JOIN tags t ON rt.tag_id = t.id
-          WHERE t.name IN ${sql(selectedTags)}
-          GROUP BY rt.recipe_id
-          HAVING COUNT(DISTINCT t.name) = ${selectedTags.length}
-        )
-        ORDER BY r.created_at DESC
-      `;
-    } else {
-      // Get all recipes
-      recipes = await db`SELECT * FROM recipes ORDER BY created_at DESC`;
-    }
-
-    // Filter by search term if provided
-    if (searchTerm) {
-      const filteredRecipes = [];
-      for (const recipe of recipes) {
-        // Check recipe name
-        if (recipe.name.toLowerCase().includes(searchTerm.toLowerCase())) {
-          filteredRecipes.push(recipe);
-          continue;
+    const candidates = await db`SELECT r.id, r.rating FROM recipes r
+                                WHERE ${buildQueryCondition(query)}`;
+
+    const picked = weightedSample(
+      candidates as Array<{ id: number; rating: number | null }>,
+      (candidate) =>
+        options.weighted ? candidate.rating || UNRATED_WEIGHT : 1,
+      options.count,
+    ).map((candidate) => candidate.id);
+    if (picked.length === 0) return [];
+
+    const rows = await db`SELECT * FROM recipes WHERE id IN ${sql(picked)}`;
+    const recipes = await toListedRecipes(rows, false);
+
+    // Keep the order they were drawn in
+    return picked.flatMap(
+      (id) => recipes.find((recipe) => recipe.id === id) || [],
+    );
+  },
+
+  async releaseDeweyReservation(
+    code: string,
+    schemeId = PRIMARY_SCHEME_ID,
+  ): Promise<void> {
+    await db`DELETE FROM dewey_reservations WHERE scheme_id = ${schemeId} AND code = ${code}`;
+  },
+
+  // Applies the chosen fixes for what validateDewey reports, in an order
+  // where each sees the previous ones' results, and checks again
+  async repairDewey(fixes: DeweyRepairFix[]): Promise<DeweyRepairResult> {
+    const scheme = await getScheme(PRIMARY_SCHEME_ID);
+    const fixed: DeweyRepairResult['fixed'] = {};
+    const shelved: DeweyRenumbering[] = [];
+
+    await RecipeDB.transaction(async () => {
+      if (fixes.includes('restore-missing-categories')) {
+        const { missingCategories } = await RecipeDB.validateDewey();
+        // Shorter codes first, so a restored parent is there for its child
+        const codes = missingCategories
+          .map(({ deweyCode }) => deweyCode)
+          .sort((a, b) => a.length - b.length);
+        for (const code of codes) {
+          const existing = new Set(
+            (await RecipeDB.getAllDeweyCategories()).map((c) => c.deweyCode),
+          );
+          let parentCode = getDeweyParentCode(code);
+          while (parentCode && !existing.has(parentCode)) {
+            parentCode = getDeweyParentCode(parentCode);
+          }
+          await RecipeDB.addDeweyCategory({
+            deweyCode: code,
+            isActive: true,
+            level: getDeweyLevel(code),
+            name: code,
+            parentCode,
+          });
+        }
+        fixed['restore-missing-categories'] = codes.length;
+      }
+
+      if (fixes.includes('reparent-orphans')) {
+        const { orphans } = await RecipeDB.validateDewey();
+        const existing = new Set(
+          (await RecipeDB.getAllDeweyCategories()).map((c) => c.deweyCode),
+        );
+        for (const orphan of orphans) {
+          let parentCode = getDeweyParentCode(orphan.deweyCode);
+          while (parentCode && !existing.has(parentCode)) {
+            parentCode = getDeweyParentCode(parentCode);
+          }
+          await db`UPDATE dewey_categories SET parent_code = ${parentCode ?? null}
+                   WHERE id = ${orphan.id}`;
+        }
+        clearDeweyCache();
+        fixed['reparent-orphans'] = orphans.length;
+      }
+
+      if (fixes.includes('fix-levels')) {
+        const { levelMismatches } = await RecipeDB.validateDewey();
+        for (const category of levelMismatches) {
+          await db`UPDATE dewey_categories SET level = ${category.expectedLevel}
+                   WHERE id = ${category.id}`;
         }
+        clearDeweyCache();
+        fixed['fix-levels'] = levelMismatches.length;
+      }
 
-        // Check tags
-        const tags = await db`SELECT t.name 
-                              FROM tags t 
-                              JOIN recipe_tags rt ON t.id = rt.tag_id 
-                              WHERE rt.recipe_id = ${recipe.id}`;
-        const hasMatchingTag = tags.some((tag: { name: string }) =>
-          tag.name.toLowerCase().includes(searchTerm.toLowerCase()),
+      if (fixes.includes('activate-categories')) {
+        const { inactiveCategories } = await RecipeDB.validateDewey();
+        for (const { category } of inactiveCategories) {
+          await db`UPDATE dewey_categories SET is_active = 1 WHERE id = ${category.id}`;
+        }
+        clearDeweyCache();
+        fixed['activate-categories'] = inactiveCategories.length;
+      }
+
+      if (fixes.includes('shelve-by-tags')) {
+        const { unshelvedRecipes } = await RecipeDB.validateDewey();
+        const categories = (await RecipeDB.getAllDeweyCategories()).filter(
+          (category) => category.isActive,
+        );
+        const tree = new Map<string, DeweyTreeNode>(
+          categories.map(({ deweyCode, name, parentCode }) => [
+            deweyCode,
+            { name, parentCode },
+          ]),
         );
-        if (hasMatchingTag) {
-          filteredRecipes.push(recipe);
+        for (const recipe of unshelvedRecipes) {
+          const rows = await db`SELECT t.name FROM tags t
+                                JOIN recipe_tags rt ON t.id = rt.tag_id
+                                WHERE rt.recipe_id = ${recipe.id}`;
+          const tags: string[] = rows.map((row: { name: string }) => row.name);
+          const lowerTags = new Set(tags.map((tag) => tag.toLowerCase()));
+          const [category] = categories
+            .filter(({ name }) => lowerTags.has(name.toLowerCase()))
+            .sort(
+              (a, b) =>
+                b.level - a.level || a.deweyCode.localeCompare(b.deweyCode),
+            );
+          if (!category) continue;
+
+          const sequence = await nextDeweySequence(scheme, category.deweyCode);
+          const code = formatDeweySequence(
+            scheme,
+            category.deweyCode,
+            sequence,
+          );
+          await db`UPDATE recipes SET dewey_decimal = ${code} WHERE id = ${recipe.id}`;
+          await recordDeweySequence(scheme, category.deweyCode, sequence);
+          await RecipeDB.updateRecipe(recipe.id, {
+            tags: [
+              ...tags,
+              ...deweyPathNames(category.deweyCode, tree).filter(
+                (name) => !lowerTags.has(name.toLowerCase()),
+              ),
+            ],
+          });
+          shelved.push({
+            from: '',
+            name: recipe.name,
+            recipeId: recipe.id,
+            to: code,
+          });
         }
+        fixed['shelve-by-tags'] = shelved.length;
       }
-      recipes = filteredRecipes;
+    });
+
+    clearDeweyCache();
+    clearRecipeCache();
+    return { fixed, report: await RecipeDB.validateDewey(), shelved };
+  },
+
+  // Swaps a library's database file for another one, e.g. to restore a
+  // backup, holding the library locked meanwhile. The replacement must
+  // already be migrated.
+  async replaceLibraryDatabase(id: string, sourcePath: string): Promise<void> {
+    const library = findLibrary(id);
+    if (!library) {
+      throw new Error(`There is no library "${id}"`);
     }
 
-    return Promise.all(
-      recipes.map(async (recipe) => {
-        const tags = await db`SELECT t.name 
-                            FROM tags t 
-                            JOIN recipe_tags rt ON t.id = rt.tag_id 
-                            WHERE rt.recipe_id = ${recipe.id}`;
+    await RecipeDB.lockLibrary(id, async () => {
+      await connections.get(id)?.close();
+      connections.delete(id);
+      // A journal left next to the old file would be replayed into the new one
+      for (const suffix of ['-journal', '-wal', '-shm']) {
+        await rm(`${library.path}${suffix}`, { force: true });
+      }
+      await rename(sourcePath, library.path);
 
-        return {
-          createdAt: new Date(recipe.created_at),
-          deweyDecimal: recipe.dewey_decimal || undefined,
-          id: recipe.id,
-          name: recipe.name,
-          notes: recipe.notes || undefined,
-          page: recipe.page || undefined,
-          rating: recipe.rating || undefined,
-          tags: tags.map((tag: { name: string }) => tag.name),
-          url: recipe.url || undefined,
-        };
-      }),
+      caches.delete(id);
+    });
+  },
+
+  // Sets the next code in a category aside for a recipe form, so another
+  // form adding to the same category is given a different one
+  async reserveDeweyCode(
+    baseCode: string,
+    schemeId = PRIMARY_SCHEME_ID,
+  ): Promise<DeweyReservation> {
+    const scheme = await getScheme(schemeId);
+    const now = new Date();
+    await db`DELETE FROM dewey_reservations WHERE expires_at <= ${now.toISOString()}`;
+    const expiresAt = new Date(
+      now.getTime() + DEWEY_RESERVATION_MINUTES * 60 * 1000,
+    ).toISOString();
+
+    // The code's primary key turns away a number another request reserved
+    // after this one looked
+    for (let attempt = 0; attempt < DEWEY_RESERVATION_ATTEMPTS; attempt++) {
+      const sequence = await nextDeweySequence(scheme, baseCode);
+      const code = formatDeweySequence(scheme, baseCode, sequence);
+      const [reserved] = await db`INSERT INTO dewey_reservations ${sql({
+        base_code: baseCode,
+        code,
+        expires_at: expiresAt,
+        scheme_id: scheme.id,
+      })} ON CONFLICT (scheme_id, code) DO NOTHING RETURNING code`;
+      if (reserved) {
+        await recordDeweySequence(scheme, baseCode, sequence);
+        return { code, expiresAt };
+      }
+    }
+    throw new Error(`Could not reserve a Dewey code under ${baseCode}`);
+  },
+
+  // Gives every recipe but the oldest in each conflict the next free code
+  // in its category, or under its own code if that is a category code, then
+  // creates the unique index
+  async resolveDeweyConflicts(): Promise<DeweyRenumbering[]> {
+    const scheme = await getScheme(PRIMARY_SCHEME_ID);
+    const renumbered: DeweyRenumbering[] = [];
+
+    await RecipeDB.transaction(async () => {
+      const { conflicts } = await RecipeDB.getDeweyConflicts();
+      for (const { code, recipes } of conflicts) {
+        const baseCode =
+          (await splitDeweySequence(scheme, code))?.baseCode ?? code;
+        for (const recipe of recipes.slice(1)) {
+          const sequence = await nextDeweySequence(scheme, baseCode);
+          const to = formatDeweySequence(scheme, baseCode, sequence);
+          await db`UPDATE recipes SET dewey_decimal = ${to} WHERE id = ${recipe.id}`;
+          await recordDeweySequence(scheme, baseCode, sequence);
+          renumbered.push({
+            from: code,
+            name: recipe.name,
+            recipeId: recipe.id,
+            to,
+          });
+        }
+      }
+      await db.unsafe(CREATE_DEWEY_UNIQUE_INDEX);
+    });
+
+    clearRecipeCache();
+    return renumbered;
+  },
+
+  // Runs fn, and everything it goes on to do, against the given library
+  runInLibrary<T>(id: string, fn: () => T): T {
+    return requestLibrary.run(id, fn);
+  },
+
+  // The configured libraries, and the one requests that name none work on
+  setLibraries(configured: LibraryConfig[], defaultId: string): void {
+    libraries = configured;
+    defaultLibraryId = defaultId;
+  },
+
+  // Writes a consistent copy of a library's database while it stays in use
+  async snapshotLibrary(id: string, targetPath: string): Promise<void> {
+    await whenIdle((connection) => connection`VACUUM INTO ${targetPath}`, id);
+  },
+
+  // Runs fn in one transaction, so everything it does through RecipeDB is
+  // committed together or not at all. Inside another transaction, fn simply
+  // becomes part of it.
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    if (transactionScope.getStore()) {
+      return fn();
+    }
+
+    const libraryId = currentLibraryId();
+    const cache = libraryCache();
+    for (let open = holder(libraryId); open; open = holder(libraryId)) {
+      await open.catch(() => {});
+    }
+    // Only the lock fn runs under, if any, can still be open
+    const lock = openTransactions.get(libraryId);
+    const transaction = libraryConnection(libraryId).begin((tx) =>
+      transactionScope.run(tx, fn),
     );
+    openTransactions.set(libraryId, transaction);
+    try {
+      return await transaction;
+    } finally {
+      if (lock) {
+        openTransactions.set(libraryId, lock);
+      } else {
+        openTransactions.delete(libraryId);
+      }
+      // Anything cached inside a rolled back transaction is stale
+      cache.clear();
+    }
   },
 
-  async updateDeweyCategory(
+  async updateClassificationScheme(
     id: number,
-    updates: Partial<Omit<DeweyCategory, 'id'>>,
-  ): Promise<DeweyCategory> {
+    updates: Partial<Omit<ClassificationScheme, 'id' | 'isPrimary'>>,
+  ): Promise<ClassificationScheme | null> {
+    checkSchemeFields(updates);
     const updateData: Record<string, any> = {};
 
-    if (updates.deweyCode !== undefined) {
-      updateData.dewey_code = updates.deweyCode;
-    }
     if (updates.name !== undefined) {
-      updateData.name = updates.name;
+      updateData.name = updates.name.trim();
     }
-    if (updates.level !== undefined) {
-      updateData.level = updates.level;
+    if (updates.codePattern !== undefined) {
+      // The scheme's categories must all fit a new format
+      if (updates.codePattern) {
+        const format = new RegExp(updates.codePattern);
+        const misfit = (await RecipeDB.getAllDeweyCategories(id)).find(
+          ({ deweyCode }) => !format.test(deweyCode),
+        );
+        if (misfit) {
+          throw new ClassificationSchemeError(
+            `Category ${misfit.deweyCode} doesn't match the code format ${updates.codePattern}`,
+          );
+        }
+      }
+      updateData.code_pattern = updates.codePattern || null;
     }
-    if (updates.parentCode !== undefined) {
-      updateData.parent_code = updates.parentCode || null;
+    if (updates.sequenceDigits !== undefined) {
+      updateData.sequence_digits = updates.sequenceDigits;
     }
-    if (updates.isActive !== undefined) {
-      updateData.is_active = updates.isActive;
+    if (updates.sequencePolicy !== undefined) {
+      updateData.sequence_policy = updates.sequencePolicy;
     }
 
-    await db`UPDATE dewey_categories SET ${sql(updateData)} WHERE id = ${id}`;
-
-    const [result] = await db`SELECT * FROM dewey_categories WHERE id = ${id}`;
+    if (Object.keys(updateData).length > 0) {
+      try {
+        await db`UPDATE classification_schemes SET ${sql(updateData)} WHERE id = ${id}`;
+      } catch (error) {
+        if (isNameUniqueViolation(error)) {
+          throw new ClassificationSchemeError(
+            `There is already a scheme called "${updateData.name}"`,
+          );
+        }
+        throw error;
+      }
+    }
 
     clearDeweyCache();
+    const [result] =
+      await db`SELECT * FROM classification_schemes WHERE id = ${id}`;
+    return result ? toClassificationScheme(result) : null;
+  },
 
-    return {
-      deweyCode: result.dewey_code,
-      id: result.id,
-      isActive: result.is_active,
-      level: result.level,
-      name: result.name,
-      parentCode: result.parent_code || undefined,
-    };
+  async updateCookLogEntry(
+    id: number,
+    updates: Partial<Omit<CookLogEntry, 'id' | 'recipeId'>>,
+  ): Promise<CookLogEntry | null> {
+    const updateData: Record<string, any> = {};
+
+    if (updates.date !== undefined) {
+      updateData.cooked_on = updates.date;
+    }
+    if (updates.rating !== undefined) {
+      updateData.rating = updates.rating || null;
+    }
+    if (updates.servings !== undefined) {
+      updateData.servings = updates.servings || null;
+    }
+    if (updates.cookedBy !== undefined) {
+      updateData.cooked_by = updates.cookedBy || null;
+    }
+    if (updates.notes !== undefined) {
+      updateData.notes = updates.notes || null;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await db`UPDATE cook_log SET ${sql(updateData)} WHERE id = ${id}`;
+      clearRecipeCache();
+    }
+
+    const [entry] = await db`SELECT * FROM cook_log WHERE id = ${id}`;
+    return entry ? toCookLogEntry(entry) : null;
+  },
+
+  async updateDeweyCategory(
+    id: number,
+    updates: Partial<Omit<DeweyCategory, 'id'>>,
+  ): Promise<DeweyCategory> {
+    // The move and the rest of the changes are saved together or not at all
+    return RecipeDB.transaction(async () => {
+      const updateData: Record<string, any> = {};
+
+      // A new code or parent moves the whole subtree, which also sets levels
+      const [current] =
+        await db`SELECT dewey_code, parent_code FROM dewey_categories WHERE id = ${id}`;
+      const deweyCode = updates.deweyCode ?? current?.dewey_code;
+      const parentCode =
+        updates.parentCode === undefined
+          ? current?.parent_code || undefined
+          : updates.parentCode || undefined;
+      const moving =
+        current &&
+        (deweyCode !== current.dewey_code ||
+          (parentCode ?? null) !== current.parent_code);
+      if (moving) {
+        await RecipeDB.moveDeweySubtree(id, { deweyCode, parentCode });
+      }
+
+      if (updates.name !== undefined) {
+        updateData.name = updates.name;
+      }
+      if (updates.level !== undefined && !moving) {
+        updateData.level = updates.level;
+      }
+      if (updates.isActive !== undefined) {
+        updateData.is_active = updates.isActive;
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        await db`UPDATE dewey_categories SET ${sql(updateData)} WHERE id = ${id}`;
+      }
+
+      const [result] =
+        await db`SELECT * FROM dewey_categories WHERE id = ${id}`;
+
+      clearDeweyCache();
+
+      return {
+        deweyCode: result.dewey_code,
+        id: result.id,
+        isActive: !!result.is_active,
+        level: result.level,
+        name: result.name,
+        parentCode: result.parent_code || undefined,
+        schemeId: result.scheme_id,
+      };
+    });
+  },
+
+  // The primary scheme's settings, from before each scheme had its own
+  async updateDeweySettings(settings: DeweySettings): Promise<DeweySettings> {
+    await RecipeDB.updateClassificationScheme(PRIMARY_SCHEME_ID, {
+      sequencePolicy: settings.sequencePolicy,
+    });
+    return RecipeDB.getDeweySettings();
+  },
+
+  async updateMealPlanEntry(
+    id: number,
+    updates: Partial<
+      Pick<MealPlanEntry, 'date' | 'slot' | 'servings' | 'note'>
+    >,
+  ): Promise<MealPlanEntry | null> {
+    const updateData: Record<string, any> = {};
+
+    if (updates.date !== undefined) {
+      updateData.date = updates.date;
+    }
+    if (updates.slot !== undefined) {
+      updateData.slot = updates.slot;
+    }
+    if (updates.servings !== undefined) {
+      updateData.servings = updates.servings || null;
+    }
+    if (updates.note !== undefined) {
+      updateData.note = updates.note || null;
+    }
+
+    if (Object.keys(updateData).length > 0) {
+      await db`UPDATE meal_plan_entries SET ${sql(updateData)} WHERE id = ${id}`;
+    }
+
+    return getMealPlanEntry(id);
   },
 
   async updateRecipe(
@@ -622,81 +2584,253 @@ export const RecipeDB = {
       rating?: number;
       tags?: string[];
       deweyDecimal?: string;
+      classifications?: Record<number, string>;
+      servings?: number;
+      ingredients?: RecipeIngredient[];
+      steps?: RecipeStep[];
     },
   ): Promise<Recipe> {
-    const recipeId = parseInt(id.toString(), 10);
+    // As in addRecipe, codes are claimed in the transaction that saves them
+    return RecipeDB.transaction(async () => {
+      const recipeId = parseInt(id.toString(), 10);
+
+      // Build update object for all provided fields
+      const updateData: Record<string, any> = {};
+
+      if (updates.name !== undefined) {
+        updateData.name = updates.name;
+      }
+      if (updates.page !== undefined) {
+        updateData.page = updates.page || null;
+      }
+      if (updates.url !== undefined) {
+        updateData.url = updates.url || null;
+      }
+      if (updates.notes !== undefined) {
+        updateData.notes = updates.notes || null;
+      }
+      if (updates.rating !== undefined) {
+        updateData.rating = updates.rating || null;
+      }
+      if (updates.deweyDecimal !== undefined) {
+        // Only a new code is checked, so saving a recipe that is one of an
+        // existing pair of duplicates doesn't move it
+        const [current] =
+          await db`SELECT dewey_decimal FROM recipes WHERE id = ${recipeId}`;
+        updateData.dewey_decimal =
+          updates.deweyDecimal &&
+          updates.deweyDecimal !== current?.dewey_decimal
+            ? await claimDeweyCode(
+                await getScheme(PRIMARY_SCHEME_ID),
+                updates.deweyDecimal,
+                recipeId,
+              )
+            : updates.deweyDecimal || null;
+      }
+      if (updates.servings !== undefined) {
+        updateData.servings = updates.servings || null;
+      }
+
+      // Apply all recipe field updates at once if any fields are being updated
+      if (Object.keys(updateData).length > 0) {
+        try {
+          await db`UPDATE recipes SET ${sql(updateData)} WHERE id = ${recipeId}`;
+        } catch (error) {
+          if (isDeweyUniqueViolation(error)) {
+            throw new DeweyConflictError(
+              updateData.dewey_decimal,
+              'another recipe',
+            );
+          }
+          throw error;
+        }
+      }
+
+      if (updates.classifications) {
+        await setRecipeClassifications(recipeId, updates.classifications);
+      }
+      if (updates.ingredients) {
+        await setRecipeIngredients(recipeId, updates.ingredients);
+      }
+      if (updates.steps) {
+        await setRecipeSteps(recipeId, updates.steps);
+      }
+
+      // Update tags if provided
+      if (updates.tags) {
+        // Remove all existing tags for this recipe
+        await db`DELETE FROM recipe_tags WHERE recipe_id = ${recipeId}`;
 
-    // Build update object for all provided fields
+        // Add new tags
+        for (const tagName of updates.tags) {
+          // Insert tag if it doesn't exist (or get existing one)
+          await db`INSERT OR IGNORE INTO tags ${sql({ name: tagName })}`;
+
+          // Get tag ID
+          const [tag] = await db`SELECT id FROM tags WHERE name = ${tagName}`;
+
+          // Link recipe to tag
+          await db`INSERT INTO recipe_tags ${sql({
+            recipe_id: recipeId,
+            tag_id: tag.id,
+          })}`;
+        }
+
+        // Clean up orphaned tags after tag changes
+        await this.cleanupOrphanedTags();
+      }
+
+      // Return updated recipe
+      const [recipe] = await db`SELECT * FROM recipes WHERE id = ${recipeId}`;
+
+      const tags = await db`SELECT t.name 
+                            FROM tags t 
+                            JOIN recipe_tags rt ON t.id = rt.tag_id 
+                            WHERE rt.recipe_id = ${recipeId}`;
+
+      const ingredients = await getRecipeIngredients(recipeId);
+      const steps = await getRecipeSteps(recipeId);
+
+      clearRecipeCache();
+
+      return {
+        classifications: await getRecipeClassifications(recipeId),
+        createdAt: new Date(recipe.created_at),
+        deweyDecimal: recipe.dewey_decimal || undefined,
+        id: recipe.id,
+        ingredients,
+        name: recipe.name,
+        notes: recipe.notes || undefined,
+        page: recipe.page || undefined,
+        rating: recipe.rating || undefined,
+        servings: recipe.servings || undefined,
+        steps,
+        tags: tags.map((tag: { name: string }) => tag.name),
+        url: recipe.url || undefined,
+      };
+    });
+  },
+
+  async updateShoppingListItem(
+    listId: number,
+    itemId: number,
+    updates: Partial<
+      Pick<
+        ShoppingListItem,
+        'item' | 'quantity' | 'unit' | 'category' | 'checked'
+      >
+    >,
+  ): Promise<ShoppingListItem | null> {
     const updateData: Record<string, any> = {};
 
-    if (updates.name !== undefined) {
-      updateData.name = updates.name;
+    if (updates.item !== undefined) {
+      updateData.item = updates.item;
     }
-    if (updates.page !== undefined) {
-      updateData.page = updates.page || null;
+    if (updates.quantity !== undefined) {
+      updateData.quantity = updates.quantity || null;
     }
-    if (updates.url !== undefined) {
-      updateData.url = updates.url || null;
+    if (updates.unit !== undefined) {
+      updateData.unit = updates.unit || null;
     }
-    if (updates.notes !== undefined) {
-      updateData.notes = updates.notes || null;
+    if (updates.category !== undefined) {
+      updateData.category = updates.category;
     }
-    if (updates.rating !== undefined) {
-      updateData.rating = updates.rating || null;
-    }
-    if (updates.deweyDecimal !== undefined) {
-      updateData.dewey_decimal = updates.deweyDecimal || null;
+    if (updates.checked !== undefined) {
+      updateData.checked = updates.checked;
     }
 
-    // Apply all recipe field updates at once if any fields are being updated
     if (Object.keys(updateData).length > 0) {
-      await db`UPDATE recipes SET ${sql(updateData)} WHERE id = ${recipeId}`;
+      await db`UPDATE shopping_list_items SET ${sql(updateData)}
+               WHERE id = ${itemId} AND list_id = ${listId}`;
     }
 
-    // Update tags if provided
-    if (updates.tags) {
-      // Remove all existing tags for this recipe
-      await db`DELETE FROM recipe_tags WHERE recipe_id = ${recipeId}`;
+    return getShoppingListItem(listId, itemId);
+  },
 
-      // Add new tags
-      for (const tagName of updates.tags) {
-        // Insert tag if it doesn't exist (or get existing one)
-        await db`INSERT OR IGNORE INTO tags ${sql({ name: tagName })}`;
+  // Checks the category tree and how recipes are filed in it; nothing is
+  // changed, see repairDewey
+  async validateDewey(): Promise<DeweyValidationReport> {
+    const scheme = await getScheme(PRIMARY_SCHEME_ID);
+    const categories = await RecipeDB.getAllDeweyCategories();
+    const byCode = new Map(
+      categories.map((category) => [category.deweyCode, category]),
+    );
+    const tree = new Map<string, DeweyTreeNode>(
+      categories.map(({ deweyCode, name, parentCode }) => [
+        deweyCode,
+        { name, parentCode },
+      ]),
+    );
 
-        // Get tag ID
-        const [tag] = await db`SELECT id FROM tags WHERE name = ${tagName}`;
+    const orphans = categories
+      .filter(({ parentCode }) => parentCode && !byCode.has(parentCode))
+      .map((category) => ({
+        ...toDeweyCategoryIssue(category),
+        parentCode: category.parentCode ?? '',
+      }));
+
+    const levelMismatches = categories
+      .filter(({ deweyCode, level }) => level !== getDeweyLevel(deweyCode))
+      .map((category) => ({
+        ...toDeweyCategoryIssue(category),
+        expectedLevel: getDeweyLevel(category.deweyCode),
+        level: category.level,
+      }));
 
-        // Link recipe to tag
-        await db`INSERT INTO recipe_tags ${sql({
-          recipe_id: recipeId,
-          tag_id: tag.id,
-        })}`;
+    const siblings = new Map<string, DeweyCategory[]>();
+    for (const category of categories) {
+      const key = `${category.parentCode ?? ''}\n${category.name.trim().toLowerCase()}`;
+      siblings.set(key, [...(siblings.get(key) ?? []), category]);
+    }
+    const duplicateNames = [...siblings.values()]
+      .filter((group) => group.length > 1)
+      .map((group) => ({
+        categories: group.map(toDeweyCategoryIssue),
+        name: group[0]?.name ?? '',
+        parentCode: group[0]?.parentCode,
+      }));
+
+    const recipes = await db`SELECT id, name, dewey_decimal FROM recipes
+                             ORDER BY dewey_decimal, name`;
+    const missing = new Map<string, DeweyRecipeIssue[]>();
+    const inactive = new Map<string, DeweyRecipeIssue[]>();
+    const unshelvedRecipes: DeweyRecipeIssue[] = [];
+    for (const row of recipes) {
+      const recipe: DeweyRecipeIssue = {
+        deweyDecimal: row.dewey_decimal || undefined,
+        id: row.id,
+        name: row.name,
+      };
+      if (!row.dewey_decimal) {
+        unshelvedRecipes.push(recipe);
+        continue;
+      }
+      const baseCode = deweyBaseCode(row.dewey_decimal, tree);
+      if (!baseCode) {
+        const code = impliedDeweyBaseCode(scheme, row.dewey_decimal);
+        missing.set(code, [...(missing.get(code) ?? []), recipe]);
+      } else if (!byCode.get(baseCode)?.isActive) {
+        inactive.set(baseCode, [...(inactive.get(baseCode) ?? []), recipe]);
       }
-
-      // Clean up orphaned tags after tag changes
-      await this.cleanupOrphanedTags();
     }
 
-    // Return updated recipe
-    const [recipe] = await db`SELECT * FROM recipes WHERE id = ${recipeId}`;
-
-    const tags = await db`SELECT t.name 
-                          FROM tags t 
-                          JOIN recipe_tags rt ON t.id = rt.tag_id 
-                          WHERE rt.recipe_id = ${recipeId}`;
-
-    clearRecipeCache();
-
     return {
-      createdAt: new Date(recipe.created_at),
-      deweyDecimal: recipe.dewey_decimal || undefined,
-      id: recipe.id,
-      name: recipe.name,
-      notes: recipe.notes || undefined,
-      page: recipe.page || undefined,
-      rating: recipe.rating || undefined,
-      tags: tags.map((tag: { name: string }) => tag.name),
-      url: recipe.url || undefined,
+      duplicateNames,
+      inactiveCategories: [...inactive].flatMap(([code, recipes]) => {
+        const category = byCode.get(code);
+        return category
+          ? [{ category: toDeweyCategoryIssue(category), recipes }]
+          : [];
+      }),
+      levelMismatches,
+      missingCategories: [...missing].map(([deweyCode, recipes]) => ({
+        deweyCode,
+        recipes,
+      })),
+      orphans,
+      unshelvedRecipes: unshelvedRecipes.sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
     };
   },
 };
@@ -0,0 +1,62 @@
+import { RecipeDB } from '@/db';
+import { decodeCursor, type ListCursor } from '@/lib/pagination';
+import type { QueryNode } from '@/lib/query';
+import type { Recipe } from '@/types/recipe';
+
+const PAGE_SIZE = 500;
+
+/**
+ * Loads every recipe matching a query in full, with ingredients and steps,
+ * ordered as on a shelf: by Dewey code, then name, with unfiled recipes last
+ *
+ * @param query Which recipes to load
+ * @returns The recipes
+ */
+export async function collectRecipes(query: QueryNode): Promise<Recipe[]> {
+  const ids: number[] = [];
+  let cursor: ListCursor | undefined;
+  do {
+    const page = await RecipeDB.listRecipes(query, {
+      cursor,
+      limit: PAGE_SIZE,
+      sort: 'name',
+    });
+    ids.push(...page.recipes.map((recipe) => recipe.id));
+    cursor = page.nextCursor
+      ? (decodeCursor(page.nextCursor) ?? undefined)
+      : undefined;
+  } while (cursor);
+
+  const recipes: Recipe[] = [];
+  for (const id of ids) {
+    const recipe = await RecipeDB.getRecipeById(id);
+    if (recipe) recipes.push(recipe);
+  }
+
+  return recipes.sort((a, b) => {
+    if (a.deweyDecimal !== b.deweyDecimal) {
+      if (!a.deweyDecimal) return 1;
+      if (!b.deweyDecimal) return -1;
+      return a.deweyDecimal < b.deweyDecimal ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Turns a recipe name into a file name: lowercase ASCII words joined by
+ * dashes
+ *
+ * @param name The recipe's name
+ * @returns The slug, or an empty string if nothing is left
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+}
@@ -0,0 +1,97 @@
+import { slugify } from '@/exporters/common';
+import { toDateKey } from '@/lib/dates';
+import { formatIngredient } from '@/lib/ingredients';
+import { createTar } from '@/lib/tar';
+import type { Recipe } from '@/types/recipe';
+
+// JSON strings and arrays are valid YAML, which saves working out when a
+// value needs quoting
+const yamlValue = (value: string | number | string[]): string =>
+  JSON.stringify(value);
+
+/**
+ * Renders a recipe as Markdown with YAML front matter holding its
+ * catalogue details
+ *
+ * @param recipe The recipe, with ingredients and steps
+ * @returns The Markdown document
+ */
+export function recipeToMarkdown(recipe: Recipe): string {
+  const frontMatter: Array<[string, string | number | string[] | undefined]> = [
+    ['id', recipe.id],
+    ['name', recipe.name],
+    ['dewey', recipe.deweyDecimal],
+    ['tags', recipe.tags.length > 0 ? recipe.tags : undefined],
+    ['rating', recipe.rating],
+    ['servings', recipe.servings],
+    ['url', recipe.url],
+    ['page', recipe.page],
+    ['created', toDateKey(recipe.createdAt)],
+  ];
+  const lines = [
+    '---',
+    ...frontMatter.flatMap(([key, value]) =>
+      value === undefined ? [] : [`${key}: ${yamlValue(value)}`],
+    ),
+    '---',
+    '',
+    `# ${recipe.name}`,
+  ];
+
+  const ingredients = recipe.ingredients ?? [];
+  if (ingredients.length > 0) {
+    lines.push('', '## Ingredients', '');
+    let group: string | undefined;
+    for (const ingredient of ingredients) {
+      if (ingredient.group && ingredient.group !== group) {
+        lines.push('', `### ${ingredient.group}`, '');
+      }
+      group = ingredient.group;
+      lines.push(`- ${formatIngredient(ingredient)}`);
+    }
+  }
+
+  const steps = recipe.steps ?? [];
+  if (steps.length > 0) {
+    lines.push('', '## Steps', '');
+    steps.forEach((step, index) => {
+      lines.push(`${index + 1}. ${step.text.replace(/\n+/g, ' ')}`);
+    });
+  }
+
+  if (recipe.notes) {
+    lines.push('', '## Notes', '', recipe.notes);
+  }
+
+  // Collapse the doubled blank lines left where a group heading follows the
+  // section heading
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n')}\n`;
+}
+
+/**
+ * Packs recipes into a gzipped tar of Markdown files, one per recipe, in a
+ * recipes folder. Files are named after the recipe, so the folder can be
+ * kept under version control and re-exported over itself.
+ *
+ * @param recipes The recipes, with ingredients and steps
+ * @returns The archive's bytes
+ */
+export function exportMarkdown(recipes: Recipe[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const used = new Set<string>();
+
+  const entries = [...recipes]
+    .sort((a, b) => a.id - b.id)
+    .map((recipe) => {
+      // Recipes that share a name are told apart by their ID
+      let name = slugify(recipe.name) || `recipe-${recipe.id}`;
+      if (used.has(name)) name = `${name}-${recipe.id}`;
+      used.add(name);
+      return {
+        data: encoder.encode(recipeToMarkdown(recipe)),
+        name: `recipes/${name}.md`,
+      };
+    });
+
+  return Bun.gzipSync(createTar(entries));
+}
@@ -0,0 +1,173 @@
+import { toDateKey } from '@/lib/dates';
+import { findDeweyPath } from '@/lib/dewey';
+import { formatIngredient } from '@/lib/ingredients';
+import { createPdf, type PdfWriter } from '@/lib/pdf';
+import { formatDeweyDecimal } from '@/lib/utils';
+import type { DeweyCategory, Recipe } from '@/types/recipe';
+
+const UNCLASSIFIED = 'Not yet classified';
+
+// Writes each recipe starting on a new page; returns the page each starts on
+const writeRecipes = (pdf: PdfWriter, recipes: Recipe[]): number[] =>
+  recipes.map((recipe) => {
+    pdf.newPage();
+    const startPage = pdf.pageCount;
+
+    pdf.text(recipe.name, { font: 'bold', size: 20 });
+    const details = [
+      recipe.deweyDecimal && `Dewey ${formatDeweyDecimal(recipe.deweyDecimal)}`,
+      recipe.servings && `Serves ${recipe.servings}`,
+      recipe.rating && `Rated ${recipe.rating} of 5`,
+      recipe.page && `Page ${recipe.page}`,
+    ].filter(Boolean);
+    if (details.length > 0) {
+      pdf.text(details.join('   ·   '), { gray: 0.35, size: 10 });
+    }
+    if (recipe.tags.length > 0) {
+      pdf.text(`Tags: ${recipe.tags.join(', ')}`, { gray: 0.35, size: 10 });
+    }
+    if (recipe.url) {
+      pdf.text(recipe.url, { gray: 0.35, size: 9 });
+    }
+
+    const ingredients = recipe.ingredients ?? [];
+    if (ingredients.length > 0) {
+      pdf.keepTogether(60);
+      pdf.text('Ingredients', { font: 'bold', size: 13, spaceBefore: 14 });
+      let group: string | undefined;
+      for (const ingredient of ingredients) {
+        if (ingredient.group && ingredient.group !== group) {
+          pdf.text(ingredient.group, { font: 'bold', spaceBefore: 6 });
+        }
+        group = ingredient.group;
+        pdf.text(`•  ${formatIngredient(ingredient)}`, { indent: 8 });
+      }
+    }
+
+    const steps = recipe.steps ?? [];
+    if (steps.length > 0) {
+      pdf.keepTogether(60);
+      pdf.text('Method', { font: 'bold', size: 13, spaceBefore: 14 });
+      steps.forEach((step, index) => {
+        pdf.text(`${index + 1}.  ${step.text}`, { spaceBefore: 4 });
+      });
+    }
+
+    if (recipe.notes) {
+      pdf.keepTogether(60);
+      pdf.text('Notes', { font: 'bold', size: 13, spaceBefore: 14 });
+      pdf.text(recipe.notes);
+    }
+
+    return startPage;
+  });
+
+// The contents follow the Dewey hierarchy: each category heading is written
+// where the shelf order first reaches it
+const writeContents = (
+  pdf: PdfWriter,
+  recipes: Recipe[],
+  paths: DeweyCategory[][],
+  pages: number[],
+) => {
+  pdf.newPage();
+  pdf.text('Contents', { font: 'bold', size: 18 });
+
+  let shownPath: string[] = [];
+  recipes.forEach((recipe, index) => {
+    const path = paths[index] ?? [];
+    const headings =
+      path.length > 0
+        ? path.map((category) => `${category.deweyCode} ${category.name}`)
+        : [UNCLASSIFIED];
+
+    let depth = 0;
+    while (depth < headings.length && headings[depth] === shownPath[depth]) {
+      depth++;
+    }
+    for (; depth < headings.length; depth++) {
+      pdf.keepTogether(40);
+      pdf.text(headings[depth] ?? '', {
+        font: 'bold',
+        indent: depth * 14,
+        size: depth === 0 ? 12 : 11,
+        spaceBefore: depth === 0 ? 10 : 4,
+      });
+    }
+    shownPath = headings;
+
+    pdf.entry(recipe.name, `${pages[index]}`, {
+      indent: headings.length * 14,
+    });
+  });
+};
+
+const writeIndex = (pdf: PdfWriter, recipes: Recipe[], pages: number[]) => {
+  const byTag = new Map<string, Array<{ name: string; page: number }>>();
+  recipes.forEach((recipe, index) => {
+    for (const tag of recipe.tags) {
+      const entries = byTag.get(tag) ?? [];
+      entries.push({ name: recipe.name, page: pages[index] ?? 0 });
+      byTag.set(tag, entries);
+    }
+  });
+  if (byTag.size === 0) return;
+
+  pdf.newPage();
+  pdf.text('Index of Tags', { font: 'bold', size: 18 });
+  const tags = [...byTag.keys()].sort((a, b) =>
+    a.localeCompare(b, undefined, { sensitivity: 'base' }),
+  );
+  for (const tag of tags) {
+    pdf.keepTogether(40);
+    pdf.text(tag, { font: 'bold', spaceBefore: 8 });
+    const entries = (byTag.get(tag) ?? []).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    for (const { name, page } of entries) {
+      pdf.entry(name, `${page}`, { indent: 14 });
+    }
+  }
+};
+
+/**
+ * Lays out recipes as a printable cookbook: a title page, contents arranged
+ * by the Dewey hierarchy, each recipe starting on its own page, and an index
+ * of tags
+ *
+ * @param recipes The recipes in shelf order, with ingredients and steps
+ * @param categories Every Dewey category, for the contents headings
+ * @param title The cookbook's title
+ * @returns The PDF's bytes
+ */
+export function exportCookbookPdf(
+  recipes: Recipe[],
+  categories: DeweyCategory[],
+  title: string,
+): Uint8Array<ArrayBuffer> {
+  const paths = recipes.map((recipe) =>
+    findDeweyPath(recipe.deweyDecimal, categories),
+  );
+
+  // Page numbers aren't known until the pages before them are laid out, so
+  // measure the recipes and contents on scratch documents first
+  const recipePages = writeRecipes(
+    createPdf({ numberFirstPage: true, title }),
+    recipes,
+  );
+  const scratch = createPdf({ numberFirstPage: true, title });
+  writeContents(scratch, recipes, paths, recipePages);
+  // The title page and contents come before the recipes
+  const pages = recipePages.map((page) => page + 1 + scratch.pageCount);
+
+  const pdf = createPdf({ numberFirstPage: false, title });
+  pdf.text(title, { font: 'bold', size: 28, spaceBefore: 0 });
+  pdf.text(
+    `${recipes.length} recipe${recipes.length === 1 ? '' : 's'} · ${toDateKey(new Date())}`,
+    { gray: 0.35, size: 12, spaceBefore: 8 },
+  );
+  writeContents(pdf, recipes, paths, pages);
+  writeRecipes(pdf, recipes);
+  writeIndex(pdf, recipes, pages);
+  return pdf.finish();
+}
@@ -0,0 +1,161 @@
+import { parseIngredientLine } from '@/lib/ingredients';
+import type { RecipeIngredient, RecipeStep } from '@/types/recipe';
+
+// A recipe read from another app's export, before it is saved
+export interface ParsedRecipe {
+  name: string;
+  // The app's categories, keywords or tags; imported as tags
+  categories: string[];
+  ingredients: RecipeIngredient[];
+  steps: RecipeStep[];
+  notes?: string;
+  url?: string;
+  rating?: number;
+  servings?: number;
+  createdAt?: Date;
+  photos: Array<{ filename: string; data: Uint8Array }>;
+}
+
+// One recipe found in a file, or why it couldn't be read
+export type ParsedEntry =
+  | { recipe: ParsedRecipe }
+  | { name: string; error: string };
+
+/**
+ * Thrown when a file isn't in the format it was read as, or is too damaged
+ * to find any recipes in
+ */
+export class RecipeFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecipeFileError';
+  }
+}
+
+const IMAGE_SIGNATURES: Array<[number[], string]> = [
+  [[0xff, 0xd8, 0xff], 'jpg'],
+  [[0x89, 0x50, 0x4e, 0x47], 'png'],
+  [[0x47, 0x49, 0x46], 'gif'],
+  [[0x52, 0x49, 0x46, 0x46], 'webp'],
+];
+
+/**
+ * Decodes a text file. Older apps wrote Windows-1252 rather than UTF-8, so
+ * anything that isn't valid UTF-8 is read as that instead.
+ *
+ * @param data The file's bytes
+ * @returns The file's text
+ */
+export function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch (_error) {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+}
+
+/**
+ * Parses JSON from a file, reporting a RecipeFileError rather than a
+ * SyntaxError
+ *
+ * @param data The file's bytes
+ * @param description What the file is, for the error message
+ * @returns The parsed value
+ * @throws RecipeFileError if the file isn't valid JSON
+ */
+export function parseJSON(data: Uint8Array, description: string): unknown {
+  try {
+    return JSON.parse(decodeText(data));
+  } catch (_error) {
+    throw new RecipeFileError(`${description} is not valid JSON`);
+  }
+}
+
+// Non-empty, trimmed lines of a block of text
+export const toLines = (text: unknown): string[] =>
+  typeof text === 'string'
+    ? text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+    : [];
+
+export const toIngredients = (lines: string[]): RecipeIngredient[] =>
+  lines.map(parseIngredientLine);
+
+export const toSteps = (lines: string[]): RecipeStep[] =>
+  lines.map((text) => ({ text }));
+
+// A trimmed string, or undefined for anything empty or not a string
+export const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Apps rate out of 5 (0 meaning unrated), sometimes as strings
+export const toRating = (value: unknown): number | undefined => {
+  const rating = Math.round(Number(value));
+  return rating >= 1 && rating <= 5 ? rating : undefined;
+};
+
+// The first number in a yield such as "4", "Serves 6" or "2-3 servings"
+export const toServings = (value: unknown): number | undefined => {
+  const match = String(value ?? '').match(/\d+(?:\.\d+)?/);
+  const servings = match ? Number(match[0]) : NaN;
+  return servings > 0 ? servings : undefined;
+};
+
+export const toDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  // "2021-03-04 12:30:00" is how several apps write local times
+  const date = new Date(value.trim().replace(/^(\S+) (\d)/, '$1T$2'));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// Notes made of several optional parts, separated by blank lines
+export const joinNotes = (
+  ...parts: Array<string | undefined>
+): string | undefined =>
+  parts.filter((part) => part?.trim()).join('\n\n') || undefined;
+
+/**
+ * Names a photo after the recipe, with an extension matching its contents
+ *
+ * @param recipeName The recipe the photo belongs to
+ * @param data The photo's bytes
+ * @param index Which of the recipe's photos this is, from 0
+ * @returns A file name such as "Chicken Soup.jpg" or "Chicken Soup 2.png"
+ */
+export function photoFilename(
+  recipeName: string,
+  data: Uint8Array,
+  index = 0,
+): string {
+  const extension =
+    IMAGE_SIGNATURES.find(([signature]) =>
+      signature.every((byte, offset) => data[offset] === byte),
+    )?.[1] ?? 'jpg';
+  const base = recipeName.replace(/[\\/:*?"<>|]+/g, '').trim() || 'photo';
+  return `${base}${index > 0 ? ` ${index + 1}` : ''}.${extension}`;
+}
+
+export const isImageFile = (name: string): boolean =>
+  /\.(jpe?g|png|gif|webp)$/i.test(name);
+
+// Runs a parser for one recipe, turning anything it throws into an entry
+// that reports the failure
+export const parseEntry = (
+  name: string,
+  parse: () => ParsedRecipe,
+): ParsedEntry => {
+  try {
+    const recipe = parse();
+    if (!recipe.name) {
+      return { error: 'The recipe has no name', name };
+    }
+    return { recipe };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Unreadable recipe',
+      name,
+    };
+  }
+};
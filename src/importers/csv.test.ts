@@ -0,0 +1,202 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RecipeDB } from '@/db';
+import {
+  guessColumnMapping,
+  importCSV,
+  validateColumnMapping,
+} from '@/importers/csv';
+import { CSVParseError } from '@/lib/csv';
+import { migrateDatabase } from '@/migrations';
+
+const directory = mkdtempSync(join(tmpdir(), 'csv-import-'));
+let libraryCount = 0;
+
+// Each test gets a fresh library, with a small Dewey tree and one recipe
+beforeEach(async () => {
+  const path = join(directory, `library-${++libraryCount}.db`);
+  migrateDatabase(path);
+  const id = `test-${libraryCount}`;
+  RecipeDB.setLibraries([{ id, name: 'Test', path }], id);
+
+  await RecipeDB.addDeweyCategory({
+    deweyCode: '641',
+    isActive: true,
+    level: 1,
+    name: 'Food',
+  });
+  await RecipeDB.addDeweyCategory({
+    deweyCode: '641.5',
+    isActive: true,
+    level: 2,
+    name: 'Cooking',
+    parentCode: '641',
+  });
+  await RecipeDB.addRecipe({
+    deweyDecimal: '641.5.001',
+    name: 'Lentil soup',
+    tags: ['soup'],
+  });
+});
+
+afterAll(() => {
+  rmSync(directory, { force: true, recursive: true });
+});
+
+const importText = (text: string, dryRun = false) =>
+  importCSV(new Blob([text]).stream().pipeThrough(new TextDecoderStream()), {
+    dryRun,
+  });
+
+describe('guessColumnMapping', () => {
+  test('recognises headers however they are written', () => {
+    expect(
+      guessColumnMapping(['Title', 'Dewey Code', 'tags', 'Colour', 'Name']),
+    ).toEqual(['name', 'deweyDecimal', 'tags', null, null]);
+  });
+});
+
+describe('validateColumnMapping', () => {
+  test.each([
+    [['name', 'page'], 2, null],
+    [['name', 'name'], 2, 'More than one column is mapped to name'],
+    [['page'], 1, 'One column must be mapped to the recipe name'],
+    [['name', 'colour'], 2, 'Unknown field "colour"'],
+    [
+      ['name', null, null],
+      2,
+      'mapping must list a field or null for each column',
+    ],
+    ['name', 1, 'mapping must list a field or null for each column'],
+  ])('%p for %p columns', (mapping, columns, error) => {
+    expect(validateColumnMapping(mapping, columns)).toBe(error);
+  });
+});
+
+describe('importCSV', () => {
+  test('previews a dry run without saving anything', async () => {
+    const result = await importText(
+      'Name,Rating,Tags\nTomato soup,4,"soup; quick"\nBad,7,\n',
+      true,
+    );
+
+    expect(result).toMatchObject({
+      createdCount: 1,
+      dryRun: true,
+      errorCount: 1,
+      headers: ['Name', 'Rating', 'Tags'],
+      mapping: ['name', 'rating', 'tags'],
+    });
+    expect(result.rows).toEqual([
+      { action: 'create', line: 2, message: undefined, name: 'Tomato soup' },
+      {
+        action: 'error',
+        line: 3,
+        message: 'Rating must be a number from 1 to 5, got "7"',
+        name: 'Bad',
+      },
+    ]);
+    expect(await RecipeDB.getAllRecipes()).toHaveLength(1);
+  });
+
+  test('adds new recipes and updates those given by ID', async () => {
+    const [existing] = await RecipeDB.getAllRecipes();
+    const result = await importText(
+      `id,name,page,tags,created\n${existing?.id},Red lentil soup,,,\n,Flatbread,p. 12,"bread, quick",2024-03-01\n`,
+    );
+
+    expect(result).toMatchObject({ createdCount: 1, updatedCount: 1 });
+    const updated = await RecipeDB.getRecipeById(existing?.id as number);
+    // Empty cells leave fields as they are
+    expect(updated).toMatchObject({
+      deweyDecimal: '641.5.001',
+      name: 'Red lentil soup',
+      tags: ['soup'],
+    });
+    const added = await RecipeDB.getRecipeById(
+      result.rows[1]?.recipeId as number,
+    );
+    expect(added).toMatchObject({
+      name: 'Flatbread',
+      page: 'p. 12',
+      tags: ['bread', 'quick'],
+    });
+    expect(added?.createdAt.getFullYear()).toBe(2024);
+  });
+
+  test('uses a mapping given instead of the headers', async () => {
+    const result = await importCSV(
+      new Blob(['A,B\nx,Pancakes\n'])
+        .stream()
+        .pipeThrough(new TextDecoderStream()),
+      { dryRun: true, mapping: [null, 'name'] },
+    );
+    expect(result.rows[0]).toMatchObject({
+      action: 'create',
+      name: 'Pancakes',
+    });
+  });
+
+  test('checks Dewey codes against the library and earlier rows', async () => {
+    const text = [
+      'name,dewey',
+      'Minestrone,641.5.001',
+      'Borscht,641.5',
+      'Chowder,641.5.010',
+      'Gazpacho,641.5.010',
+      'Bisque,soup',
+      'Ramen,650.001',
+    ].join('\n');
+    const preview = await importText(text, true);
+
+    expect(
+      preview.rows.map(({ action, message }) => [action, message]),
+    ).toEqual([
+      [
+        'create',
+        'Dewey code 641.5.001 is taken, so it will get the next free number in its category',
+      ],
+      ['create', undefined],
+      ['create', undefined],
+      [
+        'create',
+        'Dewey code 641.5.010 is taken, so it will get the next free number in its category',
+      ],
+      ['error', "soup doesn't match the Dewey code format (^\\d+(\\.\\d+)*$)"],
+      ['error', "650.001 isn't filed under any Dewey category"],
+    ]);
+
+    const result = await importText(text);
+    expect(result.rows.map(({ message }) => message)).toEqual([
+      'Dewey code 641.5.001 was taken, so it was given 641.5.002',
+      undefined,
+      undefined,
+      'Dewey code 641.5.010 was taken, so it was given 641.5.011',
+      "soup doesn't match the Dewey code format (^\\d+(\\.\\d+)*$)",
+      "650.001 isn't filed under any Dewey category",
+    ]);
+  });
+
+  test('refuses a category code another recipe has', async () => {
+    await RecipeDB.addRecipe({ deweyDecimal: '641', name: 'Food', tags: [] });
+    const result = await importText('name,dewey\nStew,641\n', true);
+    expect(result.rows[0]).toMatchObject({
+      action: 'error',
+      message: 'Dewey code 641 is already used by "Food"',
+    });
+  });
+
+  test('fails a file without a name column', async () => {
+    await expect(importText('page,tags\n12,soup\n', true)).rejects.toThrow(
+      'One column must be mapped to the recipe name',
+    );
+  });
+
+  test('fails a file that is not valid CSV', async () => {
+    await expect(importText('name\n"Soup" x\n', true)).rejects.toBeInstanceOf(
+      CSVParseError,
+    );
+  });
+});
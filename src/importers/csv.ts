@@ -0,0 +1,326 @@
+import { RecipeDB } from '@/db';
+import { type CSVRecord, parseCSV } from '@/lib/csv';
+import { parseDateKey } from '@/lib/dates';
+import type {
+  CSVColumnMapping,
+  CSVField,
+  CSVImportResult,
+  CSVImportRow,
+} from '@/types/recipe';
+
+// Header names each field is recognised by, lowercased with punctuation and
+// spaces removed, so "Dewey Code", "dewey_code" and "DeweyCode" all match
+const FIELD_ALIASES: Record<CSVField, string[]> = {
+  createdAt: ['created', 'createddate', 'createdat', 'dateadded', 'added'],
+  deweyDecimal: [
+    'dewey',
+    'deweycode',
+    'deweydecimal',
+    'classification',
+    'callnumber',
+  ],
+  id: ['id', 'recipeid'],
+  name: ['name', 'title', 'recipe', 'recipename'],
+  notes: ['notes', 'note', 'comments', 'description'],
+  page: ['page', 'pages', 'pagenumber', 'source', 'book'],
+  rating: ['rating', 'stars', 'score'],
+  servings: ['servings', 'serves', 'yield'],
+  tags: ['tags', 'tag', 'categories', 'keywords'],
+  url: ['url', 'link', 'website', 'web'],
+};
+
+export const CSV_FIELDS = Object.keys(FIELD_ALIASES) as CSVField[];
+
+export class CSVImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CSVImportError';
+  }
+}
+
+// A row read into recipe fields; only mapped, non-empty cells are set
+interface CSVRecipeRow {
+  id?: number;
+  name: string;
+  page?: string;
+  url?: string;
+  notes?: string;
+  rating?: number;
+  tags?: string[];
+  deweyDecimal?: string;
+  servings?: number;
+  createdAt?: Date;
+}
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which field each column holds from the header row; columns with
+ * unrecognised headers, and repeats of a field already taken, are left out
+ *
+ * @param headers The CSV's header row
+ * @returns The guessed mapping
+ */
+export function guessColumnMapping(headers: string[]): CSVColumnMapping {
+  const taken = new Set<CSVField>();
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const field = CSV_FIELDS.find(
+      (candidate) =>
+        !taken.has(candidate) && FIELD_ALIASES[candidate].includes(normalized),
+    );
+    if (!field) return null;
+    taken.add(field);
+    return field;
+  });
+}
+
+/**
+ * Checks a mapping sent by a client against the CSV's columns
+ *
+ * @param mapping The mapping to check
+ * @param columnCount How many columns the header row has
+ * @returns An error message, or null if the mapping is usable
+ */
+export function validateColumnMapping(
+  mapping: unknown,
+  columnCount: number,
+): string | null {
+  if (!Array.isArray(mapping) || mapping.length > columnCount) {
+    return 'mapping must list a field or null for each column';
+  }
+  const fields = mapping.filter((field) => field !== null);
+  const unknown = fields.find((field) => !CSV_FIELDS.includes(field));
+  if (unknown !== undefined) {
+    return `Unknown field "${unknown}"`;
+  }
+  const repeated = fields.find(
+    (field, index) => fields.indexOf(field) !== index,
+  );
+  if (repeated) {
+    return `More than one column is mapped to ${repeated}`;
+  }
+  if (!fields.includes('name')) {
+    return 'One column must be mapped to the recipe name';
+  }
+  return null;
+}
+
+const parseNumber = (
+  value: string,
+  label: string,
+  isValid: (number: number) => boolean,
+  expected: string,
+): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number) || !isValid(number)) {
+    throw new CSVImportError(`${label} must be ${expected}, got "${value}"`);
+  }
+  return number;
+};
+
+// Reads one record into recipe fields
+const readRow = (
+  record: CSVRecord,
+  mapping: CSVColumnMapping,
+): CSVRecipeRow => {
+  const row: CSVRecipeRow = { name: '' };
+
+  mapping.forEach((field, column) => {
+    const value = record.fields[column]?.trim() ?? '';
+    if (!field || !value) return;
+
+    switch (field) {
+      case 'id':
+        row.id = parseNumber(
+          value,
+          'ID',
+          (id) => Number.isInteger(id) && id > 0,
+          'a whole number',
+        );
+        break;
+      case 'rating':
+        row.rating = parseNumber(
+          value,
+          'Rating',
+          (rating) => rating >= 1 && rating <= 5,
+          'a number from 1 to 5',
+        );
+        break;
+      case 'servings':
+        row.servings = parseNumber(
+          value,
+          'Servings',
+          (servings) => servings > 0,
+          'a positive number',
+        );
+        break;
+      case 'tags':
+        row.tags = [
+          ...new Set(
+            value
+              .split(/[,;]/)
+              .map((tag) => tag.trim())
+              .filter((tag) => tag.length > 0),
+          ),
+        ];
+        break;
+      case 'createdAt': {
+        // Plain dates, as the recipe list exports them, are local days
+        const createdAt = parseDateKey(value) ?? new Date(value);
+        if (Number.isNaN(createdAt.getTime())) {
+          throw new CSVImportError(`Created date "${value}" is not a date`);
+        }
+        row.createdAt = createdAt;
+        break;
+      }
+      default:
+        row[field] = value;
+    }
+  });
+
+  if (!row.name) {
+    throw new CSVImportError('Missing recipe name');
+  }
+  return row;
+};
+
+/**
+ * Imports recipes from a CSV file whose first row holds the column headers.
+ * Rows with the ID of an existing recipe update it; empty cells leave its
+ * fields as they are. Every other row adds a new recipe.
+ *
+ * Each row is checked before anything is written, including its Dewey code
+ * against the library and earlier rows, and the rows that pass are then
+ * saved in one transaction. With `dryRun`, nothing is saved and the
+ * result previews what the import would do.
+ *
+ * @param text The CSV file's text, as it is read
+ * @param options.mapping Field for each column; guessed from the headers
+ * when not given
+ * @param options.dryRun Only report what would happen
+ * @returns What happened, or would happen, to each row
+ * @throws CSVImportError if the file or mapping can't be used at all
+ * @throws CSVParseError if the file isn't valid CSV
+ */
+export async function importCSV(
+  text: ReadableStream<string>,
+  options: { mapping?: CSVColumnMapping; dryRun: boolean },
+): Promise<CSVImportResult> {
+  const records: CSVRecord[] = [];
+  for await (const record of parseCSV(text)) {
+    records.push(record);
+  }
+
+  const [headerRecord, ...dataRecords] = records;
+  if (!headerRecord) {
+    throw new CSVImportError('CSV file is empty');
+  }
+  const headers = headerRecord.fields.map((header) => header.trim());
+  const mapping = options.mapping ?? guessColumnMapping(headers);
+  const mappingError = validateColumnMapping(mapping, headers.length);
+  if (mappingError) {
+    throw new CSVImportError(mappingError);
+  }
+
+  const planned: Array<{ row: CSVImportRow; recipe?: CSVRecipeRow }> = [];
+  // Dewey codes given by earlier rows, and the recipes they go to
+  const plannedCodes = new Map<string, string>();
+  const nameColumn = mapping.indexOf('name');
+  for (const record of dataRecords) {
+    const name = record.fields[nameColumn]?.trim() ?? '';
+    try {
+      const recipe = readRow(record, mapping);
+      const existing = recipe.id
+        ? await RecipeDB.getRecipeById(recipe.id)
+        : null;
+      const messages: string[] = [];
+      if (recipe.id && !existing) {
+        messages.push(`No recipe has ID ${recipe.id}, so it will be added`);
+      }
+
+      // The checks a save makes, so the preview fails the rows the import
+      // would fail on
+      const code = recipe.deweyDecimal;
+      if (code && code !== existing?.deweyDecimal) {
+        const { owner, isSequence, problem } = await RecipeDB.checkDeweyCode(
+          code,
+          existing?.id,
+        );
+        if (problem) {
+          throw new CSVImportError(problem);
+        }
+        const taken = owner ?? plannedCodes.get(code);
+        if (taken && !isSequence) {
+          throw new CSVImportError(
+            `Dewey code ${code} is already used by "${taken}"`,
+          );
+        }
+        if (taken) {
+          messages.push(
+            `Dewey code ${code} is taken, so it will get the next free number in its category`,
+          );
+        } else {
+          plannedCodes.set(code, name);
+        }
+      }
+
+      planned.push({
+        recipe,
+        row: {
+          action: existing ? 'update' : 'create',
+          line: record.line,
+          message: messages.join('; ') || undefined,
+          name,
+          recipeId: existing?.id,
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof CSVImportError)) throw error;
+      planned.push({
+        row: {
+          action: 'error',
+          line: record.line,
+          message: error.message,
+          name,
+        },
+      });
+    }
+  }
+
+  if (!options.dryRun) {
+    await RecipeDB.transaction(async () => {
+      for (const { row, recipe } of planned) {
+        if (!recipe) continue;
+        const { id: _id, createdAt, ...fields } = recipe;
+        const saved =
+          row.action === 'update' && row.recipeId
+            ? await RecipeDB.updateRecipe(row.recipeId, fields)
+            : await RecipeDB.addRecipe({
+                ...fields,
+                createdAt,
+                tags: fields.tags ?? [],
+              });
+        row.recipeId = saved.id;
+        row.message =
+          fields.deweyDecimal && saved.deweyDecimal !== fields.deweyDecimal
+            ? `Dewey code ${fields.deweyDecimal} was taken, so it was given ${saved.deweyDecimal}`
+            : undefined;
+      }
+    });
+  }
+
+  const rows = planned.map(({ row }) => row);
+  const count = (action: CSVImportRow['action']) =>
+    rows.filter((row) => row.action === action).length;
+  return {
+    createdCount: count('create'),
+    dryRun: options.dryRun,
+    errorCount: count('error'),
+    headers,
+    mapping,
+    rows,
+    updatedCount: count('update'),
+  };
+}
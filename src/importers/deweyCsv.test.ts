@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import { parseDeweyCSV } from '@/importers/deweyCsv';
+import { deweyData } from '../../examples/dewey';
+
+const parse = (lines: string[], scheme?: Parameters<typeof parseDeweyCSV>[1]) =>
+  parseDeweyCSV([`${lines.join('\n')}\n`], scheme);
+
+describe('parseDeweyCSV', () => {
+  test('reads the example tree', async () => {
+    const { categories } = await parseDeweyCSV([deweyData]);
+
+    // The title row is skipped
+    expect(categories[0]).toEqual({
+      depth: 0,
+      deweyCode: '0',
+      line: 2,
+      name: 'North America',
+      parentCode: undefined,
+      writtenCode: undefined,
+    });
+    expect(categories.slice(1, 4)).toMatchObject([
+      { depth: 1, deweyCode: '00', name: 'Americana', parentCode: '0' },
+      { depth: 2, deweyCode: '000', name: 'Chicken', parentCode: '00' },
+      { depth: 3, deweyCode: '000.0', name: 'Breast', parentCode: '000' },
+    ]);
+    expect(categories).toHaveLength(8752);
+  });
+
+  test("reports the example's codes used twice, and skips what's under them", async () => {
+    const { errors } = await parseDeweyCSV([deweyData]);
+
+    expect(
+      errors
+        .filter(({ message }) => !message?.startsWith('Skipped'))
+        .map(({ deweyCode, line, message }) => [line, deweyCode, message]),
+    ).toEqual([
+      [3547, '213', 'Code 213 is already used on line 3504 for "Pork"'],
+      [5389, '313', 'Code 313 is already used on line 5346 for "Pork"'],
+      [6705, '413', 'Code 413 is already used on line 6662 for "Pork"'],
+      [7758, '513', 'Code 513 is already used on line 7715 for "Pork"'],
+    ]);
+    expect(errors).toHaveLength(196);
+  });
+
+  test('takes codes from their place in the tree', async () => {
+    const { categories } = await parseDeweyCSV([deweyData]);
+    const thigh = categories.filter(({ parentCode }) => parentCode === '000.1');
+
+    // The block of cooking methods was copied from under 000.0
+    expect(thigh.slice(0, 2)).toMatchObject([
+      { deweyCode: '000.10', name: 'Oven', writtenCode: '000.00' },
+      { deweyCode: '000.11', name: 'Stovetop', writtenCode: '000.01' },
+    ]);
+  });
+
+  test('reports rows it cannot read, and the rows under them', async () => {
+    const { categories, errors } = await parse([
+      '6 Europe,,',
+      ',Pastries,',
+      ',,60.1 Croissants',
+      ',61 Italy,',
+      ',,,610.1 Risotto',
+      ',,6 Roman,',
+      ',62 France,',
+      ',62 Spain,',
+      ',,62.1 Tapas,Notes are ignored',
+    ]);
+
+    expect(categories.map(({ deweyCode }) => deweyCode)).toEqual([
+      '6',
+      '61',
+      '62',
+    ]);
+    expect(errors.map(({ line, message }) => [line, message])).toEqual([
+      [2, 'No Dewey code; expected a cell such as "641.5 Soups"'],
+      [3, "Skipped because the row it's under wasn't imported"],
+      [5, 'Indented more than one column past the row above'],
+      [6, "Code 6 can't go under 61"],
+      [8, 'Code 62 is already used on line 7 for "France"'],
+      [9, "Skipped because the row it's under wasn't imported"],
+    ]);
+  });
+
+  test('takes codes in other schemes as written', async () => {
+    const { categories, errors } = await parse(
+      [
+        'Cuisines',
+        'EUR Europe',
+        ',ITA Italy',
+        ',,ITA-SIC Sicily',
+        ',fr France',
+      ],
+      { codePattern: '^[A-Z]{3}(-[A-Z]{3})?$', isPrimary: false },
+    );
+
+    expect(categories).toMatchObject([
+      { depth: 0, deweyCode: 'EUR', name: 'Europe' },
+      { depth: 1, deweyCode: 'ITA', parentCode: 'EUR' },
+      { depth: 2, deweyCode: 'ITA-SIC', parentCode: 'ITA' },
+    ]);
+    expect(errors).toMatchObject([
+      {
+        deweyCode: 'fr',
+        line: 5,
+        message:
+          "Code fr doesn't match the code format (^[A-Z]{3}(-[A-Z]{3})?$)",
+      },
+    ]);
+  });
+});
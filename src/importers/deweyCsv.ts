@@ -0,0 +1,363 @@
+import { RecipeDB } from '@/db';
+import { parseCSV } from '@/lib/csv';
+import { getDeweyLevel } from '@/lib/dewey';
+import type {
+  ClassificationScheme,
+  DeweyCategory,
+  DeweyImportChange,
+  DeweyImportEntry,
+  DeweyImportResult,
+  DeweyImportStrategy,
+} from '@/types/recipe';
+
+export class DeweyImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeweyImportError';
+  }
+}
+
+export const DEWEY_IMPORT_STRATEGIES: DeweyImportStrategy[] = [
+  'merge',
+  'replace',
+  'skip',
+];
+
+// A category cell such as "000.0 Breast"; in other schemes the code is
+// whatever comes before the first space, as in "ITA Italian"
+const CATEGORY_CELL = /^(\d[\d.]*)\s+(.+)$/;
+const SCHEME_CATEGORY_CELL = /^(\S+)\s+(.+)$/;
+
+interface ParsedCategory {
+  line: number;
+  // Columns in from the first, 0 for a root
+  depth: number;
+  deweyCode: string;
+  name: string;
+  parentCode?: string;
+  writtenCode?: string;
+}
+
+/**
+ * Reads a category tree in the indented-column format of
+ * examples/dewey.ts: one category per row, in the column of its depth, as
+ * its code and name ("000.0 Breast"). Later cells in a row are notes and
+ * are ignored, as is a title row without a code at the top.
+ *
+ * In the primary Dewey tree a code is taken from its place in the tree:
+ * one that doesn't start with its parent's code, as when a block of children
+ * was copied from another parent, has its start replaced with the parent's
+ * code, so "000.00" under "000.1" becomes "000.10". Other schemes' codes
+ * needn't extend their parent's, so they are taken as written, and a title
+ * row is told apart by not matching the scheme's code format.
+ *
+ * @param text The CSV text
+ * @param scheme The scheme the tree is for; the primary one if not given
+ * @returns The categories, in file order, and the rows that couldn't be
+ * read; rows under a row that couldn't be read are skipped too
+ */
+export async function parseDeweyCSV(
+  text: ReadableStream<string> | Iterable<string>,
+  scheme?: Pick<ClassificationScheme, 'codePattern' | 'isPrimary'>,
+): Promise<{ categories: ParsedCategory[]; errors: DeweyImportEntry[] }> {
+  const isPrimary = scheme?.isPrimary ?? true;
+  const codePattern = scheme?.codePattern;
+  // Checked when the scheme was saved
+  const format = codePattern ? new RegExp(codePattern) : undefined;
+  const categories: ParsedCategory[] = [];
+  const errors: DeweyImportEntry[] = [];
+  const seen = new Map<string, ParsedCategory>();
+  // The code at each depth on the way to the current row; null where that
+  // row couldn't be read
+  const path: Array<string | null> = [];
+  let first = true;
+
+  for await (const record of parseCSV(text)) {
+    const depth = record.fields.findIndex((field) => field.trim());
+    if (depth < 0) continue;
+    const cell = record.fields[depth]?.trim() ?? '';
+    path.length = Math.min(path.length, depth);
+
+    const fail = (message: string, deweyCode = '', name = cell) => {
+      errors.push({
+        action: 'error',
+        deweyCode,
+        line: record.line,
+        message,
+        name,
+      });
+      path[depth] = null;
+    };
+
+    const match = cell.match(isPrimary ? CATEGORY_CELL : SCHEME_CATEGORY_CELL);
+    const isTitle =
+      first &&
+      depth === 0 &&
+      (!match || (!isPrimary && format && !format.test(match[1] ?? '')));
+    first = false;
+    if (isTitle) continue;
+    if (!match?.[1] || !match[2]) {
+      fail(
+        isPrimary
+          ? 'No Dewey code; expected a cell such as "641.5 Soups"'
+          : 'No code; expected a code, a space and a name',
+      );
+      continue;
+    }
+
+    const writtenCode = match[1];
+    const name = match[2].trim();
+    const parentCode = depth > 0 ? path[depth - 1] : undefined;
+    if (parentCode === null) {
+      fail(
+        "Skipped because the row it's under wasn't imported",
+        writtenCode,
+        name,
+      );
+      continue;
+    }
+    if (depth > 0 && parentCode === undefined) {
+      fail(
+        'Indented more than one column past the row above',
+        writtenCode,
+        name,
+      );
+      continue;
+    }
+
+    let deweyCode = writtenCode;
+    if (isPrimary && parentCode && !writtenCode.startsWith(parentCode)) {
+      if (writtenCode.length <= parentCode.length) {
+        fail(
+          `Code ${writtenCode} can't go under ${parentCode}`,
+          writtenCode,
+          name,
+        );
+        continue;
+      }
+      deweyCode = parentCode + writtenCode.slice(parentCode.length);
+    }
+
+    if (format && !format.test(deweyCode)) {
+      fail(
+        `Code ${deweyCode} doesn't match the code format (${codePattern})`,
+        deweyCode,
+        name,
+      );
+      continue;
+    }
+
+    const earlier = seen.get(deweyCode);
+    if (earlier) {
+      fail(
+        `Code ${deweyCode} is already used on line ${earlier.line} for "${earlier.name}"`,
+        deweyCode,
+        name,
+      );
+      continue;
+    }
+
+    const category: ParsedCategory = {
+      depth,
+      deweyCode,
+      line: record.line,
+      name,
+      parentCode: parentCode || undefined,
+      writtenCode: deweyCode === writtenCode ? undefined : writtenCode,
+    };
+    categories.push(category);
+    seen.set(deweyCode, category);
+    path[depth] = deweyCode;
+  }
+
+  return { categories, errors };
+}
+
+const changesFrom = (
+  existing: DeweyCategory,
+  category: ParsedCategory,
+  level: number,
+): DeweyImportChange[] => {
+  const changes: DeweyImportChange[] = [];
+  if (existing.name !== category.name) {
+    changes.push({ field: 'name', from: existing.name, to: category.name });
+  }
+  if ((existing.parentCode ?? '') !== (category.parentCode ?? '')) {
+    changes.push({
+      field: 'parentCode',
+      from: existing.parentCode,
+      to: category.parentCode,
+    });
+  }
+  if (existing.level !== level) {
+    changes.push({ field: 'level', from: existing.level, to: level });
+  }
+  return changes;
+};
+
+/**
+ * Imports a category tree (see parseDeweyCSV) in one transaction, combining
+ * it with a scheme's tree as the strategy says. Replacing never deletes a
+ * category that recipes are filed under.
+ *
+ * @param text The CSV text
+ * @param options.schemeId The scheme whose tree to import into
+ * @param options.strategy How to treat categories that already exist
+ * @param options.dryRun Only report what would happen
+ * @returns What happened, or would happen, to each category
+ * @throws DeweyImportError if the file holds no categories or there is no
+ * such scheme
+ * @throws CSVParseError if the file isn't valid CSV
+ */
+export async function importDeweyCSV(
+  text: ReadableStream<string> | Iterable<string>,
+  options: {
+    schemeId: number;
+    strategy: DeweyImportStrategy;
+    dryRun: boolean;
+  },
+): Promise<DeweyImportResult> {
+  const scheme = (await RecipeDB.getClassificationSchemes()).find(
+    ({ id }) => id === options.schemeId,
+  );
+  if (!scheme) {
+    throw new DeweyImportError(
+      `There is no classification scheme ${options.schemeId}`,
+    );
+  }
+  const { categories, errors } = await parseDeweyCSV(text, scheme);
+  if (categories.length === 0 && errors.length === 0) {
+    throw new DeweyImportError('The file has no categories');
+  }
+
+  const existing = await RecipeDB.getAllDeweyCategories(scheme.id);
+  const byCode = new Map(
+    existing.map((category) => [category.deweyCode, category]),
+  );
+
+  const entries: DeweyImportEntry[] = [...errors];
+  const plan: Parameters<typeof RecipeDB.applyDeweyImport>[0] = {
+    add: [],
+    remove: [],
+    schemeId: scheme.id,
+    update: [],
+  };
+  let unchangedCount = 0;
+
+  for (const category of categories) {
+    // A Dewey code's digits give its level; elsewhere the tree does
+    const level = scheme.isPrimary
+      ? getDeweyLevel(category.deweyCode)
+      : category.depth + 1;
+    const entry = {
+      deweyCode: category.deweyCode,
+      line: category.line,
+      name: category.name,
+      parentCode: category.parentCode,
+      writtenCode: category.writtenCode,
+    };
+    const current = byCode.get(category.deweyCode);
+    if (!current) {
+      entries.push({ ...entry, action: 'add' });
+      plan.add.push({
+        deweyCode: category.deweyCode,
+        isActive: true,
+        level,
+        name: category.name,
+        parentCode: category.parentCode,
+      });
+      continue;
+    }
+
+    const changes = changesFrom(current, category, level);
+    if (changes.length === 0) {
+      unchangedCount++;
+    } else if (options.strategy === 'skip') {
+      entries.push({
+        ...entry,
+        action: 'skip',
+        changes,
+        message: 'Already exists, so left as it is',
+      });
+    } else {
+      entries.push({ ...entry, action: 'update', changes });
+      plan.update.push({
+        id: current.id,
+        level,
+        name: category.name,
+        parentCode: category.parentCode,
+      });
+    }
+  }
+
+  if (options.strategy === 'replace') {
+    // A category on a row that couldn't be read isn't taken as missing
+    const inFile = new Set(
+      [...categories, ...errors].map(({ deweyCode }) => deweyCode),
+    );
+    const missing = existing.filter(({ deweyCode }) => !inFile.has(deweyCode));
+    const recipeCounts = await RecipeDB.countRecipesByDeweyCategory(scheme.id);
+
+    // A category that still has recipes on its shelf stays, and so do the
+    // missing categories above it, so no recipe is left with a code that
+    // names no category. Its recipes have to be moved first.
+    const kept = new Set<string>();
+    for (const category of missing) {
+      if (!recipeCounts.get(category.deweyCode)) continue;
+      for (
+        let code: string | undefined = category.deweyCode;
+        code && !inFile.has(code) && !kept.has(code);
+        code = byCode.get(code)?.parentCode
+      ) {
+        kept.add(code);
+      }
+    }
+
+    for (const category of missing) {
+      const recipeCount = recipeCounts.get(category.deweyCode) ?? 0;
+      const entry = {
+        deweyCode: category.deweyCode,
+        name: category.name,
+        parentCode: category.parentCode,
+        recipeCount,
+      };
+      if (!kept.has(category.deweyCode)) {
+        entries.push({ ...entry, action: 'remove' });
+        plan.remove.push(category.id);
+      } else {
+        entries.push({
+          ...entry,
+          action: 'skip',
+          message:
+            recipeCount > 0
+              ? `Kept, as recipes are filed under it (${recipeCount}); move them to delete it`
+              : 'Kept, as categories under it have recipes filed under them',
+        });
+      }
+    }
+  }
+
+  if (!options.dryRun) {
+    await RecipeDB.applyDeweyImport(plan);
+  }
+
+  // File order, with removals at the end
+  entries.sort(
+    (a, b) =>
+      (a.line ?? Number.POSITIVE_INFINITY) -
+      (b.line ?? Number.POSITIVE_INFINITY),
+  );
+  const count = (action: DeweyImportEntry['action']) =>
+    entries.filter((entry) => entry.action === action).length;
+  return {
+    addedCount: count('add'),
+    dryRun: options.dryRun,
+    entries,
+    errorCount: count('error'),
+    removedCount: count('remove'),
+    skippedCount: count('skip'),
+    strategy: options.strategy,
+    unchangedCount,
+    updatedCount: count('update'),
+  };
+}
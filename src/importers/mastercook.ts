@@ -0,0 +1,229 @@
+import {
+  decodeText,
+  joinNotes,
+  type ParsedEntry,
+  type ParsedRecipe,
+  parseEntry,
+  RecipeFileError,
+  toServings,
+  toText,
+} from '@/importers/common';
+import { parseIngredientLine } from '@/lib/ingredients';
+import { parseQuantity } from '@/lib/scaling';
+import type { RecipeIngredient } from '@/types/recipe';
+
+const MXP_HEADER = /^\s*\*\s*Exported from\s+MasterCook/im;
+const MXP_INGREDIENT_RULE = /^-{8}\s+-{12}\s+-+\s*$/;
+const MXP_END_RULE = /^\s*(?:-\s+){5,}-?\s*$/;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  gt: '>',
+  lt: '<',
+  quot: '"',
+};
+
+// Joins the lines of each paragraph, giving one step per paragraph
+const toParagraphs = (lines: string[]): string[] =>
+  lines
+    .join('\n')
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter((paragraph) => paragraph.length > 0);
+
+// "1  pound  chicken -- cut up", in MasterCook's fixed columns
+const parseMxpIngredient = (line: string): RecipeIngredient | null => {
+  const amount = line.slice(0, 8).trim();
+  const measure = line.slice(8, 24).trim();
+  const text = line.slice(24).trim();
+  if (!text) return null;
+
+  const [item = text, preparation] = text.split(/\s+--\s+/, 2);
+  const parsed = parseIngredientLine(`${amount} ${item}`);
+  return {
+    item: parsed.item,
+    preparation: toText(preparation),
+    quantity: parsed.quantity,
+    unit: measure || parsed.unit,
+  };
+};
+
+const fromMxp = (block: string): ParsedRecipe => {
+  const lines = block.split('\n');
+  let index = lines.findIndex((line) => line.trim());
+  const name = lines[index]?.trim() ?? '';
+  index++;
+
+  const categories: string[] = [];
+  let servings: number | undefined;
+  let inCategories = false;
+  for (; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    if (MXP_INGREDIENT_RULE.test(line)) {
+      index++;
+      break;
+    }
+    const field = line.match(/^(\S[^:]*?)\s*:\s*(.*)$/);
+    if (field) {
+      const [, label = '', value = ''] = field;
+      inCategories = /^categories$/i.test(label);
+      if (inCategories) categories.push(...value.split(/\s{2,}/));
+      if (/^serving size$/i.test(label)) servings = toServings(value);
+    } else if (
+      inCategories &&
+      /^\s+\S/.test(line) &&
+      !/Amount\s+Measure/i.test(line)
+    ) {
+      categories.push(...line.trim().split(/\s{2,}/));
+    } else {
+      inCategories = false;
+    }
+  }
+
+  const ingredients: RecipeIngredient[] = [];
+  for (; index < lines.length && lines[index]?.trim(); index++) {
+    const ingredient = parseMxpIngredient(lines[index] ?? '');
+    if (ingredient) ingredients.push(ingredient);
+  }
+
+  const directions: string[] = [];
+  const after: string[] = [];
+  let ended = false;
+  for (; index < lines.length; index++) {
+    const line = lines[index] ?? '';
+    if (!ended && MXP_END_RULE.test(line)) {
+      ended = true;
+      continue;
+    }
+    (ended ? after : directions).push(line);
+  }
+
+  // "Source:" and similar labelled lines at the end of the directions
+  // belong in the notes rather than the steps
+  const steps: string[] = [];
+  const labelled: string[] = [];
+  for (const paragraph of toParagraphs(directions)) {
+    if (/^(Source|Copyright|Description|Yield)\s*:/i.test(paragraph)) {
+      labelled.push(paragraph.replace(/\s*:\s*/, ': '));
+    } else {
+      steps.push(paragraph);
+    }
+  }
+  const notes = after
+    .join('\n')
+    .match(/^\s*NOTES\s*:\s*([\s\S]*)$/im)?.[1]
+    ?.trim();
+
+  return {
+    categories: categories.map((category) => category.trim()).filter(Boolean),
+    ingredients,
+    name,
+    notes: joinNotes(...labelled, notes),
+    photos: [],
+    servings,
+    steps: steps.map((text) => ({ text })),
+  };
+};
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const isHex = code[1]?.toLowerCase() === 'x';
+        return String.fromCodePoint(
+          parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10),
+        );
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .trim();
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  const value = attributes.match(new RegExp(`\\b${name}="([^"]*)"`, 'i'))?.[1];
+  return value === undefined ? undefined : decodeXml(value);
+};
+
+// The text of each <tag> element in a fragment of XML
+const elementTexts = (xml: string, tag: string): string[] =>
+  [
+    ...xml.matchAll(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'gi')),
+  ].map(([, text = '']) => decodeXml(text));
+
+const fromMx2 = (attributes: string, body: string): ParsedRecipe => {
+  const ingredients = [
+    ...body.matchAll(/<IngR\b([^>]*?)(?:\/>|>([\s\S]*?)<\/IngR>)/gi),
+  ].flatMap(([, ingredientAttributes = '', content = '']) => {
+    const item = attribute(ingredientAttributes, 'name');
+    if (!item) return [];
+    const quantity = parseQuantity(
+      attribute(ingredientAttributes, 'qty') ?? '',
+    );
+    return [
+      {
+        item,
+        preparation: toText(elementTexts(content, 'IPrp')[0]),
+        quantity,
+        unit: toText(attribute(ingredientAttributes, 'unit')),
+      },
+    ];
+  });
+
+  const servings = body.match(/<Serv\b([^>]*)>/i)?.[1];
+  const source = toText(elementTexts(body, 'Srce')[0]);
+  const url = body
+    .match(/<AltS\b([^>]*)>/gi)
+    ?.map((tag) => attribute(tag, 'source'))
+    .find((value) => value && /^https?:\/\//i.test(value));
+
+  return {
+    categories: elementTexts(body, 'CatT').filter(Boolean),
+    ingredients,
+    name: attribute(attributes, 'name') ?? '',
+    notes: joinNotes(
+      ...elementTexts(body, 'Desc'),
+      source && `Source: ${source}`,
+      ...elementTexts(body, 'Note'),
+    ),
+    photos: [],
+    servings: servings ? toServings(attribute(servings, 'qty')) : undefined,
+    steps: elementTexts(body, 'DirT')
+      .flatMap((text) => toParagraphs(text.split(/\r?\n/)))
+      .map((text) => ({ text })),
+    url,
+  };
+};
+
+/**
+ * Reads a MasterCook export, either the plain text .mxp layout or the XML
+ * .mx2 one
+ *
+ * @param data The export's bytes
+ * @returns Each recipe in the export
+ * @throws RecipeFileError if the file isn't a MasterCook export
+ */
+export function parseMasterCook(data: Uint8Array): ParsedEntry[] {
+  const text = decodeText(data).replace(/\r\n?/g, '\n');
+
+  if (/<mx2\b/i.test(text)) {
+    return [...text.matchAll(/<RcpE\b([^>]*)>([\s\S]*?)<\/RcpE>/gi)].map(
+      ([, attributes = '', body = '']) =>
+        parseEntry(attribute(attributes, 'name') ?? 'Unnamed recipe', () =>
+          fromMx2(attributes, body),
+        ),
+    );
+  }
+
+  if (!MXP_HEADER.test(text)) {
+    throw new RecipeFileError('The file is not a MasterCook export');
+  }
+  return text
+    .split(/^.*\*\s*Exported from\s+MasterCook.*$/im)
+    .slice(1)
+    .filter((block) => block.trim())
+    .map((block) => {
+      const fallbackName = block.trim().split('\n')[0]?.trim() || 'Unnamed';
+      return parseEntry(fallbackName, () => fromMxp(block));
+    });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import { RecipeFileError } from '@/importers/common';
+import { parseMealMaster } from '@/importers/mealMaster';
+
+const FIXTURES = join(import.meta.dir, 'fixtures', 'mealMaster');
+
+describe('parseMealMaster', () => {
+  test('reads every recipe in a Windows-1252 file', async () => {
+    const entries = parseMealMaster(
+      await Bun.file(join(FIXTURES, 'desserts.mmf')).bytes(),
+    );
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual({
+      recipe: {
+        categories: ['Desserts', 'French'],
+        ingredients: [
+          { item: 'Heavy cream', quantity: 2, unit: 'cup' },
+          // The semicolon Meal-Master uses for notes
+          { item: 'Sugar', preparation: 'divided', quantity: 0.5, unit: 'cup' },
+          { item: 'Egg yolks', quantity: 5, unit: 'large' },
+          // Followed by a "-" continuation line
+          {
+            item: 'Vanilla extract or seeds of one vanilla bean',
+            quantity: 1,
+            unit: 'tsp',
+          },
+          {
+            group: 'TOPPING',
+            item: 'Turbinado sugar',
+            quantity: 2,
+            unit: 'tbsp',
+          },
+        ],
+        name: 'Crème Brûlée',
+        photos: [],
+        servings: 6,
+        steps: [
+          {
+            text: 'Heat the oven to 325F. Warm the cream until it steams. Whisk the yolks with the sugar, then whisk in the cream.',
+          },
+          {
+            text: 'Bake in a water bath for 40 minutes. Chill, then sprinkle with turbinado sugar and torch until caramelised.',
+          },
+        ],
+      },
+    });
+  });
+
+  test('reads recipes framed with dashes, and drops "None" categories', async () => {
+    const [, pickles] = parseMealMaster(
+      await Bun.file(join(FIXTURES, 'desserts.mmf')).bytes(),
+    );
+    expect(pickles).toMatchObject({
+      recipe: {
+        categories: [],
+        ingredients: [
+          {
+            item: 'Small cucumbers',
+            preparation: 'sliced',
+            quantity: 1,
+            unit: 'lb',
+          },
+          { item: 'Cider vinegar', quantity: 1, unit: 'cup' },
+          { item: 'Salt', quantity: 1, unit: 'tsp' },
+        ],
+        name: 'Quick Pickles',
+        servings: 4,
+      },
+    });
+  });
+
+  test('reports a recipe without a title on its own', async () => {
+    const entries = parseMealMaster(
+      await Bun.file(join(FIXTURES, 'desserts.mmf')).bytes(),
+    );
+    expect(entries[2]).toEqual({
+      error: 'The recipe has no name',
+      name: 'Unnamed recipe',
+    });
+  });
+
+  test('rejects a file with no Meal-Master recipes', () => {
+    expect(() =>
+      parseMealMaster(new TextEncoder().encode('Title: Soup\n1 c Water\n')),
+    ).toThrow(RecipeFileError);
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  decodeText,
+  type ParsedEntry,
+  type ParsedRecipe,
+  parseEntry,
+  RecipeFileError,
+  toServings,
+  toText,
+} from '@/importers/common';
+import { parseIngredientLine } from '@/lib/ingredients';
+import type { RecipeIngredient } from '@/types/recipe';
+
+// Meal-Master's two-letter unit codes; t and T differ only by case
+const UNIT_CODES: Record<string, string> = {
+  bn: 'bunch',
+  c: 'cup',
+  cb: 'cubic cm',
+  cg: 'cg',
+  cl: 'cl',
+  cn: 'can',
+  ct: 'carton',
+  dg: 'dg',
+  dl: 'dl',
+  dr: 'drop',
+  ds: 'dash',
+  ea: 'each',
+  fl: 'fl oz',
+  g: 'g',
+  ga: 'gallon',
+  kg: 'kg',
+  l: 'l',
+  lb: 'lb',
+  lg: 'large',
+  md: 'medium',
+  mg: 'mg',
+  ml: 'ml',
+  oz: 'oz',
+  pk: 'package',
+  pn: 'pinch',
+  pt: 'pint',
+  qt: 'quart',
+  sl: 'slice',
+  sm: 'small',
+  T: 'tbsp',
+  t: 'tsp',
+  tb: 'tbsp',
+  ts: 'tsp',
+  x: '',
+};
+
+const RECIPE_START = /^(?:MMMMM|-----).*Meal-Master/i;
+const RECIPE_END = /^(?:MMMMM|-----)\s*$/;
+// A divider such as "MMMMM-----SAUCE-----" names a group of ingredients
+const GROUP_DIVIDER = /^(?:MMMMM|-----)-*([^-].*?)-+\s*$/;
+// Ingredients sit in fixed columns: a 7 character amount, a 2 character
+// unit code, then the text
+const INGREDIENT_LINE = /^([ \d./-]{7}) ([A-Za-z ]{2}) (\S.*)$/;
+// Ingredients can be laid out in two columns; the second starts here
+const SECOND_COLUMN = 41;
+
+const parseIngredient = (
+  line: string,
+  group: string | undefined,
+): RecipeIngredient | 'continuation' | null => {
+  const match = line.match(INGREDIENT_LINE);
+  if (!match) return null;
+  const [, amount = '', code = '', text = ''] = match;
+  if (!(code.trim() in UNIT_CODES) && code.trim()) return null;
+
+  // A blank amount and unit with text starting "-" continues the line above
+  if (!amount.trim() && !code.trim() && text.startsWith('-')) {
+    return 'continuation';
+  }
+
+  const parsed = parseIngredientLine(
+    `${amount.trim()} ${text.replace(';', ',')}`,
+  );
+  return {
+    group,
+    item: parsed.item,
+    preparation: parsed.preparation,
+    quantity: parsed.quantity,
+    unit: UNIT_CODES[code.trim()] || undefined,
+  };
+};
+
+const fromMealMaster = (lines: string[]): ParsedRecipe => {
+  let name = '';
+  const categories: string[] = [];
+  let servings: number | undefined;
+  const ingredients: RecipeIngredient[] = [];
+  const directions: string[] = [];
+  let group: string | undefined;
+
+  for (const line of lines) {
+    const field = line.match(/^\s*(Title|Categories|Yield|Servings)\s*:(.*)$/i);
+    if (field && directions.length === 0 && ingredients.length === 0) {
+      const [, label = '', value = ''] = field;
+      if (/title/i.test(label)) name = value.trim();
+      else if (/categories/i.test(label)) {
+        categories.push(...value.split(',').map((category) => category.trim()));
+      } else servings = toServings(value);
+      continue;
+    }
+
+    const divider = line.match(GROUP_DIVIDER);
+    if (divider && directions.length === 0) {
+      group = toText(divider[1]);
+      continue;
+    }
+
+    if (directions.length === 0) {
+      const columns =
+        line.length > SECOND_COLUMN
+          ? [line.slice(0, SECOND_COLUMN), line.slice(SECOND_COLUMN)]
+          : [line];
+      const parsed = columns.map((column) =>
+        parseIngredient(column.trimEnd(), group),
+      );
+      if (!line.trim()) continue;
+      if (parsed[0] !== null && parsed.every((result) => result !== null)) {
+        for (const [index, result] of parsed.entries()) {
+          if (result === 'continuation') {
+            const previous = ingredients.at(-1);
+            const extra = (columns[index] ?? '').trim().replace(/^-+/, '');
+            if (previous) previous.item = `${previous.item} ${extra}`.trim();
+          } else if (result) {
+            ingredients.push(result);
+          }
+        }
+        continue;
+      }
+      // A single ingredient too long for the two-column check
+      const single = parseIngredient(line.trimEnd(), group);
+      if (single && single !== 'continuation') {
+        ingredients.push(single);
+        continue;
+      }
+    }
+
+    directions.push(line);
+  }
+
+  return {
+    categories: categories.filter(
+      (category) => category && category.toLowerCase() !== 'none',
+    ),
+    ingredients,
+    name,
+    photos: [],
+    servings,
+    steps: directions
+      .join('\n')
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+      .filter((paragraph) => paragraph.length > 0)
+      .map((text) => ({ text })),
+  };
+};
+
+/**
+ * Reads a Meal-Master text file, which may hold any number of recipes each
+ * framed by "MMMMM" (or "-----") marker lines
+ *
+ * @param data The file's bytes
+ * @returns Each recipe in the file
+ * @throws RecipeFileError if the file has no Meal-Master recipes
+ */
+export function parseMealMaster(data: Uint8Array): ParsedEntry[] {
+  const lines = decodeText(data).split(/\r\n?|\n/);
+  const recipes: string[][] = [];
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    if (RECIPE_START.test(line)) {
+      current = [];
+      recipes.push(current);
+    } else if (current && RECIPE_END.test(line)) {
+      current = null;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  if (recipes.length === 0) {
+    throw new RecipeFileError('The file has no Meal-Master recipes');
+  }
+  return recipes.map((recipe) => {
+    const title =
+      recipe
+        .find((line) => /^\s*Title\s*:/i.test(line))
+        ?.replace(/^\s*Title\s*:/i, '')
+        .trim() || 'Unnamed recipe';
+    return parseEntry(title, () => fromMealMaster(recipe));
+  });
+}
@@ -0,0 +1,203 @@
+import {
+  isImageFile,
+  joinNotes,
+  type ParsedEntry,
+  type ParsedRecipe,
+  parseEntry,
+  parseJSON,
+  photoFilename,
+  RecipeFileError,
+  toDate,
+  toRating,
+  toServings,
+  toText,
+} from '@/importers/common';
+import { parseIngredientLine } from '@/lib/ingredients';
+import { isZip, readZip } from '@/lib/zip';
+import type { RecipeIngredient } from '@/types/recipe';
+
+type Named = { name?: string } | null | undefined;
+
+// The fields of a Mealie recipe this importer uses. Older exports use
+// snake_case and plain strings for ingredients.
+interface MealieRecipe {
+  name?: string;
+  description?: string;
+  recipeYield?: string;
+  recipeServings?: number;
+  recipeIngredient?: Array<string | MealieIngredient>;
+  recipe_ingredient?: Array<string | MealieIngredient>;
+  recipeInstructions?: Array<string | { text?: string; title?: string }>;
+  recipe_instructions?: Array<string | { text?: string; title?: string }>;
+  recipeCategory?: Array<string | Named>;
+  recipe_category?: Array<string | Named>;
+  tags?: Array<string | Named>;
+  notes?: Array<{ title?: string; text?: string }>;
+  rating?: number;
+  orgURL?: string;
+  org_url?: string;
+  dateAdded?: string;
+  date_added?: string;
+}
+
+interface MealieIngredient {
+  title?: string;
+  note?: string;
+  quantity?: number;
+  unit?: Named;
+  food?: Named;
+  originalText?: string;
+  display?: string;
+  disableAmount?: boolean;
+}
+
+const nameOf = (value: string | Named): string | undefined =>
+  typeof value === 'string' ? toText(value) : toText(value?.name);
+
+// Mealie groups ingredients by giving the first of each group a title
+const toIngredients = (
+  ingredients: Array<string | MealieIngredient>,
+): RecipeIngredient[] => {
+  let group: string | undefined;
+  return ingredients.flatMap((ingredient) => {
+    if (typeof ingredient === 'string') {
+      return toText(ingredient) ? [parseIngredientLine(ingredient)] : [];
+    }
+    group = toText(ingredient.title) ?? group;
+
+    const food = nameOf(ingredient.food);
+    if (!food || ingredient.disableAmount) {
+      // Unparsed ingredients keep everything in the note
+      const text =
+        toText(ingredient.originalText) ??
+        toText(ingredient.note) ??
+        toText(ingredient.display);
+      return text ? [{ ...parseIngredientLine(text), group }] : [];
+    }
+    return [
+      {
+        group,
+        item: food,
+        preparation: toText(ingredient.note),
+        quantity: ingredient.quantity || undefined,
+        unit: nameOf(ingredient.unit),
+      },
+    ];
+  });
+};
+
+const fromMealie = (
+  recipe: MealieRecipe,
+  photos: ParsedRecipe['photos'],
+): ParsedRecipe => {
+  const categories = [
+    ...(recipe.recipeCategory ?? recipe.recipe_category ?? []),
+    ...(recipe.tags ?? []),
+  ]
+    .map(nameOf)
+    .filter((name): name is string => !!name);
+
+  const steps = (recipe.recipeInstructions ?? recipe.recipe_instructions ?? [])
+    .map((step) => (typeof step === 'string' ? step : step.text))
+    .map(toText)
+    .filter((text): text is string => !!text)
+    .map((text) => ({ text }));
+
+  return {
+    categories: [...new Set(categories)],
+    createdAt: toDate(recipe.dateAdded ?? recipe.date_added),
+    ingredients: toIngredients(
+      recipe.recipeIngredient ?? recipe.recipe_ingredient ?? [],
+    ),
+    name: toText(recipe.name) ?? '',
+    notes: joinNotes(
+      toText(recipe.description),
+      ...(recipe.notes ?? []).map((note) =>
+        joinNotes(toText(note.title), toText(note.text)),
+      ),
+    ),
+    photos,
+    rating: toRating(recipe.rating),
+    servings: recipe.recipeServings || toServings(recipe.recipeYield),
+    steps,
+    url: toText(recipe.orgURL ?? recipe.org_url),
+  };
+};
+
+export const isMealieRecipe = (value: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  'name' in value &&
+  ('recipeIngredient' in value ||
+    'recipe_ingredient' in value ||
+    'recipeInstructions' in value ||
+    'recipe_instructions' in value);
+
+/**
+ * Reads a Mealie export: either a zip with a folder per recipe, holding the
+ * recipe's JSON and an images folder, or a single recipe's JSON (or a list
+ * of them)
+ *
+ * @param data The export's bytes
+ * @returns Each recipe in the export
+ * @throws RecipeFileError if no Mealie recipes are found
+ */
+export function parseMealie(data: Uint8Array): ParsedEntry[] {
+  if (!isZip(data)) {
+    const json = parseJSON(data, 'The Mealie export');
+    const recipes = (Array.isArray(json) ? json : [json]).filter(
+      isMealieRecipe,
+    );
+    if (recipes.length === 0) {
+      throw new RecipeFileError('The file has no Mealie recipes');
+    }
+    return recipes.map((recipe: MealieRecipe) =>
+      parseEntry(recipe.name ?? 'Unnamed recipe', () => fromMealie(recipe, [])),
+    );
+  }
+
+  const entries = readZip(data);
+  const results: ParsedEntry[] = [];
+  for (const entry of entries) {
+    if (!entry.name.endsWith('.json')) continue;
+    let recipe: MealieRecipe;
+    try {
+      recipe = parseJSON(entry.data, entry.name) as MealieRecipe;
+    } catch (_error) {
+      continue;
+    }
+    if (!isMealieRecipe(recipe)) continue;
+
+    // Photos sit in an images folder next to the recipe's JSON, with the
+    // original alongside smaller copies
+    const folder = entry.name.slice(0, entry.name.lastIndexOf('/') + 1);
+    const images = entries.filter(
+      (image) =>
+        image.name.startsWith(`${folder}images/`) && isImageFile(image.name),
+    );
+    const original =
+      images.find((image) => /\/original\.\w+$/.test(image.name)) ?? images[0];
+    const name = recipe.name ?? 'Unnamed recipe';
+
+    results.push(
+      parseEntry(name, () =>
+        fromMealie(
+          recipe,
+          original
+            ? [
+                {
+                  data: original.data,
+                  filename: photoFilename(name, original.data),
+                },
+              ]
+            : [],
+        ),
+      ),
+    );
+  }
+
+  if (results.length === 0) {
+    throw new RecipeFileError('The archive has no Mealie recipes');
+  }
+  return results;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import { RecipeFileError } from '@/importers/common';
+import { parsePaprika } from '@/importers/paprika';
+
+const EXPORT = join(
+  import.meta.dir,
+  'fixtures',
+  'paprika',
+  'export.paprikarecipes',
+);
+
+describe('parsePaprika', () => {
+  test('reads each gzipped recipe in the export', async () => {
+    const [shakshuka] = parsePaprika(await Bun.file(EXPORT).bytes());
+    if (!shakshuka || !('recipe' in shakshuka)) {
+      throw new Error('Expected Shakshuka to parse');
+    }
+    const { createdAt, photos, ...recipe } = shakshuka.recipe;
+
+    expect(recipe).toEqual({
+      categories: ['Breakfast', 'Eggs'],
+      ingredients: [
+        { item: 'olive oil', quantity: 2, unit: 'tbsp' },
+        { item: 'onion', preparation: 'diced', quantity: 1 },
+        { item: 'can (28 oz) tomatoes', quantity: 1 },
+        { item: 'eggs', quantity: 6 },
+      ],
+      name: 'Shakshuka',
+      // The empty nutritional info is left out
+      notes:
+        'Eggs poached in spiced tomato sauce.\n\nGood with flatbread.\n\nSource: Grandma',
+      rating: 4,
+      servings: 4,
+      steps: [
+        { text: 'Soften the onion in the oil.' },
+        { text: 'Add the tomatoes and simmer 10 minutes.' },
+        { text: 'Crack in the eggs and cover until set.' },
+      ],
+      url: 'https://example.com/shakshuka',
+    });
+    expect(createdAt?.getFullYear()).toBe(2023);
+    expect(createdAt?.getMonth()).toBe(4);
+    expect(photos).toHaveLength(2);
+  });
+
+  test('names photos after the recipe, main photo first', async () => {
+    const [shakshuka] = parsePaprika(await Bun.file(EXPORT).bytes());
+    const photos =
+      shakshuka && 'recipe' in shakshuka ? shakshuka.recipe.photos : [];
+
+    expect(photos.map(({ filename }) => filename)).toEqual([
+      'Shakshuka.png',
+      'Shakshuka 2.png',
+    ]);
+    // A 1×1 PNG
+    expect(photos[0]?.data.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  test('reports recipes it cannot read by their file name', async () => {
+    const [, rice, broken] = parsePaprika(await Bun.file(EXPORT).bytes());
+    expect(rice).toEqual({
+      error: 'The recipe has no name',
+      name: 'Plain Rice',
+    });
+    expect(broken).toEqual({
+      error: 'Broken.paprikarecipe is not valid JSON',
+      name: 'Broken',
+    });
+  });
+
+  test('rejects a file that is not a zip', () => {
+    expect(() => parsePaprika(new TextEncoder().encode('{}'))).toThrow(
+      RecipeFileError,
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  joinNotes,
+  type ParsedEntry,
+  type ParsedRecipe,
+  parseEntry,
+  parseJSON,
+  photoFilename,
+  RecipeFileError,
+  toDate,
+  toIngredients,
+  toLines,
+  toRating,
+  toServings,
+  toSteps,
+  toText,
+} from '@/importers/common';
+import { isZip, readZip } from '@/lib/zip';
+
+// The fields of a Paprika recipe this importer uses
+interface PaprikaRecipe {
+  name?: string;
+  ingredients?: string;
+  directions?: string;
+  description?: string;
+  notes?: string;
+  nutritional_info?: string;
+  source?: string;
+  source_url?: string;
+  rating?: number;
+  servings?: string;
+  categories?: string[];
+  created?: string;
+  photo_data?: string;
+  photos?: Array<{ data?: string; filename?: string }>;
+}
+
+const fromPaprika = (recipe: PaprikaRecipe): ParsedRecipe => {
+  const name = toText(recipe.name) ?? '';
+
+  // photo_data is the main photo; photos holds any others
+  const photos = [
+    recipe.photo_data,
+    ...(recipe.photos ?? []).map((photo) => photo.data),
+  ]
+    .filter((data): data is string => typeof data === 'string' && !!data)
+    .map((data, index) => {
+      const bytes = Buffer.from(data, 'base64');
+      return { data: bytes, filename: photoFilename(name, bytes, index) };
+    });
+
+  return {
+    categories: (recipe.categories ?? []).filter(
+      (category) => typeof category === 'string' && category.trim(),
+    ),
+    createdAt: toDate(recipe.created),
+    ingredients: toIngredients(toLines(recipe.ingredients)),
+    name,
+    notes: joinNotes(
+      toText(recipe.description),
+      toText(recipe.notes),
+      toText(recipe.source) && `Source: ${toText(recipe.source)}`,
+      toText(recipe.nutritional_info),
+    ),
+    photos,
+    rating: toRating(recipe.rating),
+    servings: toServings(recipe.servings),
+    steps: toSteps(toLines(recipe.directions)),
+    url: toText(recipe.source_url),
+  };
+};
+
+/**
+ * Reads a Paprika export (.paprikarecipes): a zip holding one gzipped JSON
+ * file per recipe, photos included as base64
+ *
+ * @param data The export's bytes
+ * @returns Each recipe in the export
+ * @throws RecipeFileError if the file isn't a Paprika export
+ */
+export function parsePaprika(data: Uint8Array): ParsedEntry[] {
+  if (!isZip(data)) {
+    throw new RecipeFileError('The file is not a Paprika export');
+  }
+
+  return readZip(data)
+    .filter((entry) => entry.name.endsWith('.paprikarecipe'))
+    .map((entry) => {
+      const fallbackName = entry.name.replace(/\.paprikarecipe$/, '');
+      return parseEntry(fallbackName, () =>
+        fromPaprika(
+          parseJSON(
+            Bun.gunzipSync(entry.data.slice()),
+            entry.name,
+          ) as PaprikaRecipe,
+        ),
+      );
+    });
+}
@@ -0,0 +1,194 @@
+import { RecipeDB } from '@/db';
+import {
+  decodeText,
+  type ParsedEntry,
+  RecipeFileError,
+} from '@/importers/common';
+import { parseMasterCook } from '@/importers/mastercook';
+import { isMealieRecipe, parseMealie } from '@/importers/mealie';
+import { parseMealMaster } from '@/importers/mealMaster';
+import { parsePaprika } from '@/importers/paprika';
+import { isTandoorRecipe, parseTandoor } from '@/importers/tandoor';
+import { isZip, readZip } from '@/lib/zip';
+import type {
+  RecipeFileFormat,
+  RecipeFileImportResult,
+  RecipeFileImportRow,
+} from '@/types/recipe';
+
+export const RECIPE_FILE_FORMATS: Record<
+  RecipeFileFormat,
+  (data: Uint8Array) => ParsedEntry[]
+> = {
+  mastercook: parseMasterCook,
+  'meal-master': parseMealMaster,
+  mealie: parseMealie,
+  paprika: parsePaprika,
+  tandoor: parseTandoor,
+};
+
+/**
+ * Works out which app exported a file, from its name and contents
+ *
+ * @param filename The uploaded file's name
+ * @param data The file's bytes
+ * @returns The format, or null if it isn't one that can be imported
+ */
+export function detectRecipeFileFormat(
+  filename: string,
+  data: Uint8Array,
+): RecipeFileFormat | null {
+  const extension = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension === 'paprikarecipes') return 'paprika';
+  if (extension === 'mxp' || extension === 'mx2') return 'mastercook';
+
+  if (isZip(data)) {
+    const names = readZip(data).map(({ name }) => name);
+    if (names.some((name) => name.endsWith('.paprikarecipe'))) {
+      return 'paprika';
+    }
+    if (names.some((name) => name.endsWith('.zip') || name === 'recipe.json')) {
+      return 'tandoor';
+    }
+    return names.some((name) => name.endsWith('.json')) ? 'mealie' : null;
+  }
+
+  const text = decodeText(data.subarray(0, 64 * 1024));
+  if (/^\s*[[{]/.test(text)) {
+    try {
+      const json = JSON.parse(decodeText(data));
+      const first = Array.isArray(json) ? json[0] : json;
+      if (isTandoorRecipe(first)) return 'tandoor';
+      if (isMealieRecipe(first)) return 'mealie';
+    } catch (_error) {
+      return null;
+    }
+    return null;
+  }
+  if (/Exported from\s+MasterCook|<mx2\b/i.test(text)) return 'mastercook';
+  if (/^(?:MMMMM|-----).*Meal-Master/im.test(text)) return 'meal-master';
+  return null;
+}
+
+/**
+ * Imports every recipe in another app's export. Categories become tags and
+ * photos become attachments. With `assignDewey`, a recipe whose category
+ * matches the name of a Dewey category is also given the next code under
+ * it. A recipe that can't be read or saved is reported and skipped; the
+ * rest are still imported. A photo that can't be attached is reported with
+ * its recipe, which is kept.
+ *
+ * @param filename The uploaded file's name, used to detect the format
+ * @param data The file's bytes
+ * @param options.format The export's format; detected when not given
+ * @param options.assignDewey File recipes under matching Dewey categories
+ * @returns What happened to each recipe
+ * @throws RecipeFileError if the file isn't in a format that can be imported
+ */
+export async function importRecipeFile(
+  filename: string,
+  data: Uint8Array,
+  options: { format?: RecipeFileFormat; assignDewey: boolean },
+): Promise<RecipeFileImportResult> {
+  const format = options.format ?? detectRecipeFileFormat(filename, data);
+  if (!format) {
+    throw new RecipeFileError(
+      'The file is not an export from Paprika, Mealie, Tandoor, MasterCook or Meal-Master',
+    );
+  }
+
+  let entries: ParsedEntry[];
+  try {
+    entries = RECIPE_FILE_FORMATS[format](data);
+  } catch (error) {
+    if (error instanceof RecipeFileError) throw error;
+    throw new RecipeFileError(
+      `The file could not be read: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  // Dewey categories by lowercased name
+  const deweyCodes = new Map<string, string>();
+  if (options.assignDewey) {
+    for (const category of await RecipeDB.getAllDeweyCategories()) {
+      if (!deweyCodes.has(category.name.toLowerCase())) {
+        deweyCodes.set(category.name.toLowerCase(), category.deweyCode);
+      }
+    }
+  }
+
+  const recipes: RecipeFileImportRow[] = [];
+  for (const entry of entries) {
+    if ('error' in entry) {
+      recipes.push({ error: entry.error, name: entry.name });
+      continue;
+    }
+
+    const { recipe } = entry;
+    try {
+      const tags = [
+        ...new Set(recipe.categories.map((category) => category.trim())),
+      ].filter(Boolean);
+      const baseCode = tags
+        .map((tag) => deweyCodes.get(tag.toLowerCase()))
+        .find((code) => code !== undefined);
+      const deweyDecimal = baseCode
+        ? await RecipeDB.getNextDeweySequence(baseCode)
+        : undefined;
+
+      const added = await RecipeDB.addRecipe({
+        createdAt: recipe.createdAt,
+        deweyDecimal,
+        ingredients: recipe.ingredients,
+        name: recipe.name,
+        notes: recipe.notes,
+        rating: recipe.rating,
+        servings: recipe.servings,
+        steps: recipe.steps,
+        tags,
+        url: recipe.url,
+      });
+      // The recipe is saved by now, so failing it over a photo would have
+      // it imported a second time when the file is tried again
+      const photoErrors: string[] = [];
+      for (const photo of recipe.photos) {
+        try {
+          await RecipeDB.addFile(
+            added.id,
+            photo.filename,
+            photo.data.slice().buffer,
+          );
+        } catch (error) {
+          console.error(
+            `Failed to attach photo ${photo.filename} to ${recipe.name}:`,
+            error,
+          );
+          photoErrors.push(
+            `${photo.filename}: ${error instanceof Error ? error.message : 'Failed to save'}`,
+          );
+        }
+      }
+      recipes.push({
+        deweyDecimal: added.deweyDecimal,
+        name: recipe.name,
+        photoCount: recipe.photos.length - photoErrors.length,
+        photoErrors: photoErrors.length > 0 ? photoErrors : undefined,
+        recipeId: added.id,
+      });
+    } catch (error) {
+      console.error(`Failed to import recipe ${recipe.name}:`, error);
+      recipes.push({
+        error: error instanceof Error ? error.message : 'Failed to save',
+        name: recipe.name,
+      });
+    }
+  }
+
+  const errorCount = recipes.filter((recipe) => recipe.error).length;
+  return {
+    errorCount,
+    format,
+    importedCount: recipes.length - errorCount,
+    recipes,
+  };
+}
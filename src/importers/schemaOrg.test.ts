@@ -0,0 +1,122 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import {
+  checkPageUrl,
+  extractRecipeFromHtml,
+  PageUrlError,
+} from '@/importers/schemaOrg';
+
+const FIXTURES = join(import.meta.dir, 'fixtures', 'schemaOrg');
+
+const extractFixture = async (name: string, sourceUrl?: string) =>
+  extractRecipeFromHtml(await Bun.file(join(FIXTURES, name)).text(), sourceUrl);
+
+describe('extractRecipeFromHtml', () => {
+  test('finds a Recipe in a JSON-LD @graph', async () => {
+    const recipe = await extractFixture(
+      'jsonld-graph.html',
+      'https://kitchen.example/recipes/',
+    );
+
+    expect(recipe).toMatchObject({
+      cookTime: 30,
+      description: 'Chickpeas in a spiced tomato & onion gravy.',
+      image: 'https://kitchen.example/images/chana.jpg',
+      name: 'Weeknight Chana Masala',
+      prepTime: 15,
+      servings: 4,
+      tags: ['Main course', 'Indian'],
+      totalTime: 45,
+      url: 'https://kitchen.example/chana-masala/',
+    });
+    expect(recipe?.ingredients.map(({ item }) => item)).toEqual([
+      'oil',
+      'onion',
+      'cans chickpeas',
+    ]);
+    // Steps inside a HowToSection come before the step that follows it
+    expect(recipe?.steps.map(({ text }) => text)).toEqual([
+      'Fry the onion in the oil until golden.',
+      'Add the spices and cook for 1 minute.',
+      'Stir in the chickpeas and simmer for 20 minutes.',
+    ]);
+  });
+
+  test('finds a Recipe in a JSON-LD array, past a malformed block', async () => {
+    const recipe = await extractFixture('jsonld-array.html');
+
+    expect(recipe).toMatchObject({
+      image: 'https://bakes.example/lemon.jpg',
+      name: 'Lemon Drizzle Cake',
+      servings: 8,
+      tags: ['Cake', 'Baking'],
+      totalTime: 70,
+    });
+    expect(recipe?.url).toBeUndefined();
+    expect(recipe?.steps.map(({ text }) => text)).toEqual([
+      'Cream the butter and sugar.',
+      'Beat in the eggs.',
+      'Bake for 45 minutes.',
+    ]);
+  });
+
+  test('reads microdata from the Recipe item only', async () => {
+    const recipe = await extractFixture(
+      'microdata.html',
+      'https://breakfast.example/pancakes',
+    );
+
+    expect(recipe).toMatchObject({
+      cookTime: 20,
+      description: 'Fluffy pancakes for a slow Sunday.',
+      image: 'https://breakfast.example/img/pancakes.jpg',
+      name: 'Buttermilk Pancakes',
+      prepTime: 10,
+      servings: 12,
+    });
+    // Nothing from the related recipe beside it
+    expect(recipe?.ingredients.map(({ item }) => item)).toEqual([
+      'plain flour',
+      'buttermilk',
+      'egg',
+    ]);
+    expect(recipe?.steps.map(({ text }) => text)).toEqual([
+      'Whisk everything into a thick batter.',
+      'Cook ladlefuls in a hot pan until bubbles form, then flip.',
+    ]);
+  });
+
+  test('returns null for a page without Recipe markup', async () => {
+    expect(await extractFixture('no-recipe.html')).toBeNull();
+  });
+});
+
+describe('checkPageUrl', () => {
+  test('accepts a public http or https address', async () => {
+    expect((await checkPageUrl('https://93.184.215.14/recipe')).href).toBe(
+      'https://93.184.215.14/recipe',
+    );
+    expect((await checkPageUrl('http://[2606:4700::1]/')).hostname).toBe(
+      '[2606:4700::1]',
+    );
+  });
+
+  test.each([
+    'file:///etc/passwd',
+    'ftp://93.184.215.14/recipe',
+    'not a url',
+    'http://localhost:3000/api/export',
+    'http://127.0.0.1/',
+    'http://10.0.0.5/',
+    'http://172.20.1.1/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://0.0.0.0/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[fd12:3456::1]/',
+    'http://[fe80::1]/',
+  ])('rejects %s', async (url) => {
+    await expect(checkPageUrl(url)).rejects.toBeInstanceOf(PageUrlError);
+  });
+});
@@ -0,0 +1,428 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { parseIngredientLine } from '@/lib/ingredients';
+import type { ImportedRecipe, RecipeStep } from '@/types/recipe';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: "'",
+  deg: '°',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  gt: '>',
+  hellip: '…',
+  lt: '<',
+  mdash: '—',
+  nbsp: ' ',
+  ndash: '–',
+  quot: '"',
+  rsquo: '’',
+};
+
+// Decode HTML entities and drop any markup embedded in schema.org strings
+const cleanText = (value: unknown): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+
+  return String(value)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const isHex = code[1]?.toLowerCase() === 'x';
+        const codePoint = parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+        return Number.isNaN(codePoint)
+          ? entity
+          : String.fromCodePoint(codePoint);
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const toArray = (value: unknown): unknown[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// ISO 8601 durations ("PT1H30M") to whole minutes
+const parseDuration = (value: unknown): number | undefined => {
+  const match = cleanText(value).match(
+    /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i,
+  );
+  if (!match) return undefined;
+
+  const [, days, hours, minutes] = match;
+  const total =
+    Number(days || 0) * 24 * 60 +
+    Number(hours || 0) * 60 +
+    Number(minutes || 0);
+  return total > 0 ? total : undefined;
+};
+
+// recipeYield may be "4", "4 servings", "Serves 4-6" or an array of those
+const parseYield = (value: unknown): number | undefined => {
+  for (const entry of toArray(value)) {
+    const match = cleanText(entry).match(/(\d+(?:\.\d+)?)/);
+    if (match?.[1]) return parseFloat(match[1]);
+  }
+  return undefined;
+};
+
+const resolveUrl = (value: string, baseUrl?: string): string => {
+  try {
+    return baseUrl ? new URL(value, baseUrl).toString() : value;
+  } catch {
+    return value;
+  }
+};
+
+const parseImage = (value: unknown, baseUrl?: string): string | undefined => {
+  for (const entry of toArray(value)) {
+    const url =
+      typeof entry === 'string'
+        ? entry
+        : cleanText((entry as { url?: unknown })?.url);
+    if (url) return resolveUrl(url, baseUrl);
+  }
+  return undefined;
+};
+
+// recipeInstructions is a string, a list of strings, HowToSteps, or
+// HowToSections wrapping further steps
+const parseInstructions = (value: unknown): RecipeStep[] => {
+  const steps: RecipeStep[] = [];
+
+  const visit = (entry: unknown) => {
+    if (typeof entry === 'string') {
+      // A single block of text: treat each line as a step
+      for (const line of entry.split(/\r?\n|<br\s*\/?>|<\/p>/i)) {
+        const text = cleanText(line);
+        if (text) steps.push({ text });
+      }
+      return;
+    }
+    if (!entry || typeof entry !== 'object') return;
+
+    const node = entry as Record<string, unknown>;
+    if (node.itemListElement) {
+      for (const child of toArray(node.itemListElement)) visit(child);
+      return;
+    }
+
+    const text = cleanText(node.text) || cleanText(node.name);
+    if (text) steps.push({ text });
+  };
+
+  for (const entry of toArray(value)) visit(entry);
+  return steps;
+};
+
+const isRecipeNode = (node: Record<string, unknown>): boolean =>
+  toArray(node['@type']).some(
+    (type) => typeof type === 'string' && /(^|[/#:])Recipe$/.test(type),
+  );
+
+// Recipes can be top-level, inside an array, inside @graph or under mainEntity
+const findRecipeNode = (
+  value: unknown,
+  depth = 0,
+): Record<string, unknown> | null => {
+  if (!value || typeof value !== 'object' || depth > 6) return null;
+
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findRecipeNode(entry, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  const node = value as Record<string, unknown>;
+  if (isRecipeNode(node)) return node;
+
+  for (const child of Object.values(node)) {
+    const found = findRecipeNode(child, depth + 1);
+    if (found) return found;
+  }
+  return null;
+};
+
+const fromSchemaNode = (
+  node: Record<string, unknown>,
+  sourceUrl?: string,
+): ImportedRecipe => {
+  const tags = [...toArray(node.recipeCategory), ...toArray(node.recipeCuisine)]
+    .flatMap((entry) => cleanText(entry).split(','))
+    .map((tag) => tag.trim())
+    .filter((tag, index, all) => tag && all.indexOf(tag) === index);
+
+  const url = cleanText(node.url) || sourceUrl;
+
+  return {
+    cookTime: parseDuration(node.cookTime),
+    description: cleanText(node.description) || undefined,
+    image: parseImage(node.image, sourceUrl),
+    ingredients: toArray(node.recipeIngredient ?? node.ingredients)
+      .map(cleanText)
+      .filter(Boolean)
+      .map(parseIngredientLine),
+    name: cleanText(node.name) || 'Imported recipe',
+    prepTime: parseDuration(node.prepTime),
+    servings: parseYield(node.recipeYield),
+    steps: parseInstructions(node.recipeInstructions),
+    tags,
+    totalTime: parseDuration(node.totalTime),
+    url: url ? resolveUrl(url, sourceUrl) : undefined,
+  };
+};
+
+interface MicrodataProperty {
+  name: string;
+  value: string;
+}
+
+const RECIPE_ITEMTYPE = /schema\.org\/Recipe$/i;
+
+// Collect the properties of the first Recipe item, using the attribute that
+// carries the machine-readable value (content, datetime, src, href) before
+// the text. Properties of other items, such as a review or an author nested
+// in the recipe or a related recipe beside it, are left out.
+const collectMicrodata = async (
+  html: string,
+): Promise<{ properties: MicrodataProperty[]; hasRecipe: boolean }> => {
+  const properties: MicrodataProperty[] = [];
+  const open: Array<{ name: string; text: string; attribute: string | null }> =
+    [];
+  // The items enclosing the element being read, innermost last
+  const scopes: Array<{ isRecipe: boolean }> = [];
+  let hasRecipe = false;
+
+  await new HTMLRewriter()
+    .on('*', {
+      element(element) {
+        const hasContent = !element.selfClosing && element.canHaveContent;
+        const endTag: Array<() => void> = [];
+
+        // An item's own itemprop names it as a property of the enclosing one
+        const itemprop = element.getAttribute('itemprop');
+        if (itemprop !== null && scopes.at(-1)?.isRecipe) {
+          const entry = {
+            attribute:
+              element.getAttribute('content') ??
+              element.getAttribute('datetime') ??
+              element.getAttribute('src') ??
+              element.getAttribute('href'),
+            name: itemprop,
+            text: '',
+          };
+          open.push(entry);
+          endTag.push(() => {
+            open.splice(open.indexOf(entry), 1);
+            for (const name of entry.name.split(/\s+/)) {
+              properties.push({ name, value: entry.attribute ?? entry.text });
+            }
+          });
+        }
+
+        if (element.hasAttribute('itemscope') && hasContent) {
+          const isRecipe =
+            !hasRecipe &&
+            RECIPE_ITEMTYPE.test(element.getAttribute('itemtype') || '');
+          hasRecipe ||= isRecipe;
+          const scope = { isRecipe };
+          scopes.push(scope);
+          endTag.push(() => {
+            scopes.splice(scopes.lastIndexOf(scope), 1);
+          });
+        }
+
+        const finish = () => {
+          for (const handler of endTag) handler();
+        };
+        if (!hasContent) {
+          finish();
+        } else if (endTag.length > 0) {
+          element.onEndTag(finish);
+        }
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        for (const entry of open) entry.text += chunk.text;
+      },
+    })
+    .transform(new Response(html))
+    .text();
+
+  return { hasRecipe, properties };
+};
+
+const fromMicrodata = (
+  properties: MicrodataProperty[],
+  sourceUrl?: string,
+): ImportedRecipe => {
+  const node: Record<string, unknown> = {};
+  const multiValued = new Set([
+    'recipeIngredient',
+    'ingredients',
+    'recipeInstructions',
+    'recipeCategory',
+    'recipeCuisine',
+    'image',
+  ]);
+
+  for (const { name, value } of properties) {
+    if (multiValued.has(name)) {
+      node[name] = [...toArray(node[name]), value];
+    } else if (node[name] === undefined) {
+      node[name] = value;
+    }
+  }
+
+  return fromSchemaNode(node, sourceUrl);
+};
+
+/**
+ * Extracts a schema.org Recipe from an HTML document, preferring JSON-LD and
+ * falling back to microdata. Works on fetched pages and saved .html files.
+ *
+ * @param html The HTML document
+ * @param sourceUrl The page's URL, used to resolve relative links
+ * @returns The imported recipe, or null if the page has no Recipe markup
+ */
+export async function extractRecipeFromHtml(
+  html: string,
+  sourceUrl?: string,
+): Promise<ImportedRecipe | null> {
+  const scripts: string[] = [];
+  let current = '';
+
+  await new HTMLRewriter()
+    .on('script[type="application/ld+json"]', {
+      text(chunk) {
+        current += chunk.text;
+        if (chunk.lastInTextNode) {
+          scripts.push(current);
+          current = '';
+        }
+      },
+    })
+    .transform(new Response(html))
+    .text();
+
+  for (const script of scripts) {
+    try {
+      const node = findRecipeNode(JSON.parse(script));
+      if (node) return fromSchemaNode(node, sourceUrl);
+    } catch {
+      // Malformed JSON-LD is common; try the next block
+    }
+  }
+
+  const { hasRecipe, properties } = await collectMicrodata(html);
+  return hasRecipe ? fromMicrodata(properties, sourceUrl) : null;
+}
+
+/**
+ * Thrown when a page URL sent for import isn't one the server will fetch
+ */
+export class PageUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageUrlError';
+  }
+}
+
+// The server's own machine and the networks around it. Page URLs come from
+// clients, so none that reaches these is fetched.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Checks that a page URL is http or https and that its host is on the public
+ * internet
+ *
+ * @param value The URL
+ * @returns The parsed URL
+ * @throws PageUrlError if the URL may not be fetched
+ */
+export async function checkPageUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new PageUrlError(`"${value}" is not a URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PageUrlError('Only http and https pages can be imported');
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: Array<{ address: string; family: number }>;
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      throw new PageUrlError(`Could not find ${url.hostname}`);
+    }
+  }
+  if (
+    addresses.some(({ address, family }) =>
+      PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    )
+  ) {
+    throw new PageUrlError(
+      `${url.hostname} is a private address, so it can't be imported from`,
+    );
+  }
+  return url;
+}
+
+/**
+ * Fetches a page to import, checking its URL and every redirect's with
+ * checkPageUrl
+ *
+ * @param url The page's URL, as a client sent it
+ * @returns The last response, which may be an error status
+ * @throws PageUrlError if the URL, or one it redirects to, may not be fetched
+ */
+export async function fetchRecipePage(url: string): Promise<Response> {
+  let next = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await fetch(await checkPageUrl(next), {
+      headers: { Accept: 'text/html' },
+      redirect: 'manual',
+    });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    next = new URL(location, next).toString();
+  }
+  throw new PageUrlError('The page redirects too many times');
+}
@@ -0,0 +1,162 @@
+import {
+  isImageFile,
+  type ParsedEntry,
+  type ParsedRecipe,
+  parseEntry,
+  parseJSON,
+  photoFilename,
+  RecipeFileError,
+  toLines,
+  toServings,
+  toText,
+} from '@/importers/common';
+import { isZip, readZip, type ZipEntry } from '@/lib/zip';
+import type { RecipeIngredient } from '@/types/recipe';
+
+type Named = { name?: string } | null | undefined;
+
+// The fields of a Tandoor recipe.json this importer uses
+interface TandoorRecipe {
+  name?: string;
+  description?: string;
+  keywords?: Named[];
+  steps?: Array<{
+    name?: string;
+    instruction?: string;
+    ingredients?: Array<{
+      food?: Named;
+      unit?: Named;
+      amount?: number;
+      note?: string;
+      is_header?: boolean;
+      no_amount?: boolean;
+      original_text?: string;
+    }>;
+  }>;
+  servings?: number;
+  servings_text?: string;
+  source_url?: string;
+}
+
+const fromTandoor = (
+  recipe: TandoorRecipe,
+  photos: ParsedRecipe['photos'],
+): ParsedRecipe => {
+  const ingredients: RecipeIngredient[] = [];
+  const steps: ParsedRecipe['steps'] = [];
+
+  for (const step of recipe.steps ?? []) {
+    // Each step lists its own ingredients; a header ingredient or a named
+    // step starts a group
+    let group = toText(step.name);
+    for (const ingredient of step.ingredients ?? []) {
+      const food = toText(ingredient.food?.name);
+      if (ingredient.is_header) {
+        group = food ?? toText(ingredient.note) ?? group;
+        continue;
+      }
+      const item = food ?? toText(ingredient.original_text);
+      if (!item) continue;
+      ingredients.push({
+        group,
+        item,
+        preparation: toText(ingredient.note),
+        quantity:
+          ingredient.no_amount || !ingredient.amount
+            ? undefined
+            : ingredient.amount,
+        unit: toText(ingredient.unit?.name),
+      });
+    }
+    for (const text of toLines(step.instruction)) {
+      steps.push({ text });
+    }
+  }
+
+  return {
+    categories: (recipe.keywords ?? [])
+      .map((keyword) => toText(keyword?.name))
+      .filter((name): name is string => !!name),
+    ingredients,
+    name: toText(recipe.name) ?? '',
+    notes: toText(recipe.description),
+    photos,
+    servings: recipe.servings || toServings(recipe.servings_text),
+    steps,
+    url: toText(recipe.source_url),
+  };
+};
+
+// One recipe's zip holds recipe.json and, if it has one, its image
+const fromRecipeZip = (name: string, entries: ZipEntry[]): ParsedEntry => {
+  const json = entries.find((entry) => entry.name.endsWith('recipe.json'));
+  if (!json) {
+    return { error: 'The recipe has no recipe.json', name };
+  }
+  return parseEntry(name, () => {
+    const recipe = parseJSON(json.data, json.name) as TandoorRecipe;
+    const image = entries.find((entry) => isImageFile(entry.name));
+    const recipeName = toText(recipe.name) ?? name;
+    return fromTandoor(
+      recipe,
+      image
+        ? [
+            {
+              data: image.data,
+              filename: photoFilename(recipeName, image.data),
+            },
+          ]
+        : [],
+    );
+  });
+};
+
+export const isTandoorRecipe = (value: unknown): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  'name' in value &&
+  'steps' in value &&
+  'keywords' in value;
+
+/**
+ * Reads a Tandoor export: a zip holding one zip per recipe, each with a
+ * recipe.json and its image. A single recipe's zip or recipe.json works too.
+ *
+ * @param data The export's bytes
+ * @returns Each recipe in the export
+ * @throws RecipeFileError if no Tandoor recipes are found
+ */
+export function parseTandoor(data: Uint8Array): ParsedEntry[] {
+  if (!isZip(data)) {
+    const recipe = parseJSON(data, 'The Tandoor export');
+    if (!isTandoorRecipe(recipe)) {
+      throw new RecipeFileError('The file is not a Tandoor recipe');
+    }
+    return [
+      parseEntry((recipe as TandoorRecipe).name ?? 'Unnamed recipe', () =>
+        fromTandoor(recipe as TandoorRecipe, []),
+      ),
+    ];
+  }
+
+  const entries = readZip(data);
+  const recipeZips = entries.filter((entry) => entry.name.endsWith('.zip'));
+  if (recipeZips.length === 0) {
+    if (!entries.some((entry) => entry.name.endsWith('recipe.json'))) {
+      throw new RecipeFileError('The archive has no Tandoor recipes');
+    }
+    return [fromRecipeZip('Unnamed recipe', entries)];
+  }
+
+  return recipeZips.map((entry) => {
+    const name = entry.name.replace(/^.*\//, '').replace(/\.zip$/, '');
+    try {
+      return fromRecipeZip(name, readZip(entry.data));
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : 'Unreadable recipe',
+        name,
+      };
+    }
+  });
+}
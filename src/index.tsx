@@ -1,6 +1,71 @@
 import { serve } from 'bun';
+import { ArchiveError, exportArchive, importArchive } from '@/archive';
+import {
+  configureSnapshots,
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshotPath,
+  listSnapshots,
+  RestoreError,
+  restoreDatabase,
+  startSnapshotSchedule,
+} from '@/backups';
+import { type AppConfig, type LibraryConfig, loadConfig } from '@/config';
+import { collectRecipes } from '@/exporters/common';
+import { exportMarkdown } from '@/exporters/markdown';
+import { exportCookbookPdf } from '@/exporters/pdf';
+import { RecipeFileError } from '@/importers/common';
+import { CSVImportError, importCSV } from '@/importers/csv';
+import {
+  DEWEY_IMPORT_STRATEGIES,
+  DeweyImportError,
+  importDeweyCSV,
+} from '@/importers/deweyCsv';
+import { importRecipeFile, RECIPE_FILE_FORMATS } from '@/importers/recipeFiles';
+import {
+  extractRecipeFromHtml,
+  fetchRecipePage,
+  PageUrlError,
+} from '@/importers/schemaOrg';
+import { CSVParseError } from '@/lib/csv';
+import { addDays, parseDateKey, toDateKey } from '@/lib/dates';
+import {
+  decodeCursor,
+  type ListCursor,
+  ListCursorError,
+} from '@/lib/pagination';
+import { encodeQr, qrToPng, qrToSvg } from '@/lib/qr';
+import { parseQuery, type QueryNode, QueryParseError } from '@/lib/query';
+import { scaleRecipe } from '@/lib/scaling';
+import { splitSearchTerms } from '@/lib/search';
+import {
+  buildShoppingItems,
+  categorizeItem,
+  formatShoppingList,
+  type ShoppingSource,
+} from '@/lib/shopping';
+import { getSchemaStatus, LATEST_VERSION, migrateDatabase } from '@/migrations';
+import { PRIMARY_SCHEME_ID } from '@/migrations/009_classification_schemes';
+import type {
+  ArchiveImportMode,
+  CSVColumnMapping,
+  DeweyImportStrategy,
+  MealSlot,
+  RecipeFileFormat,
+  RecipeSort,
+  RecipeWalkOrder,
+  UnitSystem,
+} from '@/types/recipe';
 import { deweyData } from '../examples/dewey.ts';
-import { RecipeDB } from './db';
+import {
+  ClassificationSchemeError,
+  DEWEY_REPAIR_FIXES,
+  DEWEY_SEQUENCE_POLICIES,
+  DeweyConflictError,
+  DeweyMoveError,
+  RECIPE_WALK_ORDERS,
+  RecipeDB,
+} from './db';
 import index from './index.html';
 
 type FileWithHeaders = {
@@ -21,36 +86,442 @@ if (index?.files) {
   indexFile = index.files.find((file) => /index-.+\.html$/.test(file.path));
 }
 
-// Helper function to parse CSV line handling quoted fields
-const parseCSVLine = (line: string): string[] => {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const RECIPE_SORTS: RecipeSort[] = [
+  'cooked',
+  'created',
+  'dewey',
+  'name',
+  'rating',
+  'relevance',
+  'times-cooked',
+];
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
+// Read limit, cursor/offset and sort from a listing request
+const parseListOptions = (
+  params: URLSearchParams,
+):
+  | { options: { limit: number; cursor?: ListCursor; sort?: RecipeSort } }
+  | { error: string } => {
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+  }
+
+  const sortParam = params.get('sort');
+  if (sortParam && !RECIPE_SORTS.includes(sortParam as RecipeSort)) {
+    return { error: `sort must be one of ${RECIPE_SORTS.join(', ')}` };
+  }
+  const sort = (sortParam as RecipeSort | null) || undefined;
+
+  const cursorParam = params.get('cursor');
+  const offsetParam = params.get('offset');
+  let cursor: ListCursor | undefined;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam) ?? undefined;
+    if (!cursor) return { error: 'Invalid cursor' };
+  } else if (offsetParam) {
+    const offset = Number(offsetParam);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return { error: 'offset must be a whole number' };
+    }
+    cursor = { offset };
+  }
+
+  return { options: { cursor, limit, sort } };
+};
+
+// The query, search box and tag filter all narrow the same listing
+const buildListingQuery = (params: URLSearchParams): QueryNode => {
+  const tags = params.get('tags');
+  const selectedTags: string[] = tags ? JSON.parse(tags) : [];
+
+  return {
+    children: [
+      parseQuery(params.get('q') || ''),
+      ...splitSearchTerms(params.get('search') || '').map(
+        ({ text, phrase }): QueryNode => ({ phrase, text, type: 'text' }),
+      ),
+      ...selectedTags.map((tag): QueryNode => ({ type: 'tag', value: tag })),
+    ],
+    type: 'and',
+  };
+};
+
+// Exports take the listing filters, plus `dewey` for a whole Dewey subtree
+const buildExportQuery = (params: URLSearchParams): QueryNode => {
+  const listing = buildListingQuery(params);
+  const dewey = params.get('dewey')?.replace(/\*/g, '').trim();
+  return dewey
+    ? {
+        children: [listing, { type: 'dewey', value: `${dewey}*` }],
+        type: 'and',
+      }
+    : listing;
+};
+
+const queryErrorResponse = (error: QueryParseError) =>
+  Response.json(
+    {
+      error: 'Invalid query',
+      queryError: { message: error.message, position: error.position },
+    },
+    { status: 400 },
+  );
+
+// Dewey routes work on the primary tree unless `scheme` names another
+const parseSchemeId = (params: URLSearchParams): number =>
+  Number(params.get('scheme')) || PRIMARY_SCHEME_ID;
+
+// Previous and next follow the order the recipe was reached in
+const parseWalkOrder = (params: URLSearchParams): RecipeWalkOrder | null => {
+  const order = params.get('order') ?? 'created';
+  return RECIPE_WALK_ORDERS.includes(order as RecipeWalkOrder)
+    ? (order as RecipeWalkOrder)
+    : null;
+};
+
+const walkOrderErrorResponse = () =>
+  Response.json(
+    { error: `order must be one of ${RECIPE_WALK_ORDERS.join(', ')}` },
+    { status: 400 },
+  );
+
+const MAX_RANDOM_COUNT = 20;
+
+// Constraints for the random picker, on top of the listing filters
+const parseRandomOptions = (
+  params: URLSearchParams,
+):
+  | { constraints: QueryNode[]; count: number; weighted: boolean }
+  | { error: string } => {
+  const constraints: QueryNode[] = [];
+
+  const countParam = params.get('count');
+  const count = countParam ? Number(countParam) : 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_RANDOM_COUNT) {
+    return {
+      error: `count must be a whole number from 1 to ${MAX_RANDOM_COUNT}`,
+    };
+  }
+
+  // A Dewey code selects its whole subtree: 641 includes 641.5 and 641.59
+  const dewey = params.get('dewey')?.replace(/\*/g, '').trim();
+  if (dewey) {
+    constraints.push({ type: 'dewey', value: `${dewey}*` });
+  }
+
+  const minRatingParam = params.get('minRating');
+  if (minRatingParam) {
+    const minRating = Number(minRatingParam);
+    if (!Number.isInteger(minRating) || minRating < 1 || minRating > 5) {
+      return { error: 'minRating must be a whole number from 1 to 5' };
+    }
+    constraints.push({ operator: '>=', type: 'rating', value: minRating });
+  }
+
+  // Skip anything cooked in the last N days, counting today
+  const notCookedParam = params.get('notCookedDays');
+  if (notCookedParam) {
+    const days = Number(notCookedParam);
+    if (!Number.isInteger(days) || days < 1) {
+      return { error: 'notCookedDays must be a positive whole number' };
+    }
+    const cutoff = addDays(toDateKey(new Date()), -days + 1);
+    constraints.push({
+      child: {
+        end: addDays(cutoff, 1),
+        operator: '>=',
+        start: cutoff,
+        type: 'cooked',
+      },
+      type: 'not',
+    });
+  }
+
+  return {
+    constraints,
+    count,
+    weighted: params.get('weighted') !== 'false',
+  };
+};
+
+const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Check the fields of a meal plan entry from a request body. With `partial`,
+// missing fields are allowed (for updates) but present ones must be valid.
+const validateMealPlanEntry = (body: any, partial: boolean): string | null => {
+  if ((!partial || body.date !== undefined) && !parseDateKey(body.date || '')) {
+    return 'date must be a date in YYYY-MM-DD format';
+  }
+  if (
+    (!partial || body.slot !== undefined) &&
+    !MEAL_SLOTS.includes(body.slot)
+  ) {
+    return `slot must be one of ${MEAL_SLOTS.join(', ')}`;
+  }
+  if (!partial && !Number.isInteger(body.recipeId)) {
+    return 'recipeId is required';
+  }
+  if (
+    body.servings !== undefined &&
+    body.servings !== null &&
+    !(Number(body.servings) > 0)
+  ) {
+    return 'servings must be a positive number';
+  }
+  return null;
+};
+
+// Check the fields of a cook log entry from a request body. With `partial`,
+// missing fields are allowed (for updates) but present ones must be valid.
+const validateCookLogEntry = (body: any, partial: boolean): string | null => {
+  if ((!partial || body.date !== undefined) && !parseDateKey(body.date || '')) {
+    return 'date must be a date in YYYY-MM-DD format';
+  }
+  if (
+    body.rating !== undefined &&
+    body.rating !== null &&
+    !(Number.isInteger(body.rating) && body.rating >= 1 && body.rating <= 5)
+  ) {
+    return 'rating must be a whole number from 1 to 5';
+  }
+  if (
+    body.servings !== undefined &&
+    body.servings !== null &&
+    !(Number(body.servings) > 0)
+  ) {
+    return 'servings must be a positive number';
+  }
+  return null;
+};
+
+// Check the fields of a shopping list item from a request body. With
+// `partial`, missing fields are allowed (for updates).
+const validateShoppingListItem = (
+  body: any,
+  partial: boolean,
+): string | null => {
+  if (
+    (!partial || body.item !== undefined) &&
+    !(typeof body.item === 'string' && body.item.trim())
+  ) {
+    return 'item is required';
+  }
+  if (
+    body.quantity !== undefined &&
+    body.quantity !== null &&
+    !(Number(body.quantity) > 0)
+  ) {
+    return 'quantity must be a positive number';
+  }
+  if (body.checked !== undefined && typeof body.checked !== 'boolean') {
+    return 'checked must be true or false';
+  }
+  return null;
+};
+
+// Collect the recipes a new shopping list is built from: chosen recipes (each
+// with optional servings) and/or every meal planned between two dates
+const collectShoppingSources = async (
+  body: any,
+): Promise<{ sources: ShoppingSource[]; name: string } | { error: string }> => {
+  const sources: ShoppingSource[] = [];
+  const names: string[] = [];
+
+  const addSource = async (recipeId: unknown, servings: unknown) => {
+    const recipe = await RecipeDB.getRecipeById(Number(recipeId));
+    if (!recipe) return false;
+
+    const wanted = Number(servings);
+    sources.push({
+      factor: wanted > 0 && recipe.servings ? wanted / recipe.servings : 1,
+      ingredients: recipe.ingredients || [],
+      recipeName: recipe.name,
+    });
+    names.push(recipe.name);
+    return true;
+  };
+
+  if (body.recipes !== undefined) {
+    if (!Array.isArray(body.recipes)) {
+      return { error: 'recipes must be a list of { id, servings }' };
+    }
+    for (const entry of body.recipes) {
+      if (!(await addSource(entry?.id, entry?.servings))) {
+        return { error: `Recipe ${entry?.id} not found` };
+      }
+    }
+  }
+
+  let mealPlanName: string | undefined;
+  if (body.start !== undefined || body.end !== undefined) {
+    if (!parseDateKey(body.start || '') || !parseDateKey(body.end || '')) {
+      return { error: 'start and end must be dates in YYYY-MM-DD format' };
+    }
+    const entries = await RecipeDB.getMealPlanEntries(body.start, body.end);
+    for (const entry of entries) {
+      await addSource(entry.recipeId, entry.servings);
+    }
+    mealPlanName = `Meal plan ${body.start} to ${body.end}`;
+  }
+
+  const distinctNames = [...new Set(names)];
+  const name =
+    (typeof body.name === 'string' && body.name.trim()) ||
+    mealPlanName ||
+    (distinctNames.length > 0 && distinctNames.length <= 2
+      ? distinctNames.join(' & ')
+      : distinctNames.length > 2
+        ? `${distinctNames.length} recipes`
+        : 'Shopping list');
+
+  return { name, sources };
+};
 
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
+// Reports whether each library's database needs migrating. Exits 0 when all
+// are up to date, 1 when migrations are pending and 2 when one is newer than
+// this build.
+const checkSchema = (libraries: LibraryConfig[]): number => {
+  let exitCode = 0;
+  for (const library of libraries) {
+    const { currentVersion, pending } = getSchemaStatus(library.path);
+    console.log(
+      `${library.name} (${library.path}): schema version ${currentVersion}, latest known ${LATEST_VERSION}`,
+    );
+    if (currentVersion > LATEST_VERSION) {
+      console.log('  Written by a newer Recipe Manager');
+      exitCode = 2;
+    } else if (pending.length > 0) {
+      for (const migration of pending) {
+        console.log(`  Pending: ${migration.version} ${migration.name}`);
+      }
+      exitCode = Math.max(exitCode, 1);
     } else {
-      current += char;
+      console.log('  Up to date');
+    }
+  }
+  return exitCode;
+};
+
+let config: AppConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  console.error(
+    'Invalid configuration:',
+    error instanceof Error ? error.message : error,
+  );
+  process.exit(1);
+}
+
+// --check and --migrate-only let the compiled binary be used from scripts
+// without starting the server
+if (process.argv.includes('--check')) {
+  process.exit(checkSchema(config.libraries));
+}
+
+for (const library of config.libraries) {
+  try {
+    for (const migration of migrateDatabase(library.path)) {
+      console.log(
+        `${library.name}: applied migration ${migration.version} (${migration.name})`,
+      );
     }
+  } catch (error) {
+    console.error(
+      `Failed to initialize database ${library.path}:`,
+      error instanceof Error ? error.message : error,
+    );
+    process.exit(1);
   }
+}
+console.log('Database initialized successfully');
+
+if (process.argv.includes('--migrate-only')) {
+  process.exit(0);
+}
+
+RecipeDB.setLibraries(config.libraries, config.defaultLibrary);
+configureSnapshots(config.snapshots);
+startSnapshotSchedule(config.libraries.map(({ id }) => id));
+
+const HTTP_METHODS = new Set([
+  'DELETE',
+  'GET',
+  'HEAD',
+  'OPTIONS',
+  'PATCH',
+  'POST',
+  'PUT',
+]);
+
+type RouteHandler = (req: Bun.BunRequest, ...rest: never[]) => unknown;
+
+// Runs a route's handlers against the library named in the request path, or
+// answers 404 if there is no such library. Static responses, files and the
+// HTML bundle touch no library and are left as they are.
+const libraryRoute = (route: unknown): unknown => {
+  const scope =
+    (handler: RouteHandler) =>
+    (req: Bun.BunRequest, ...rest: never[]) => {
+      const { library } = req.params as { library: string };
+      if (!RecipeDB.hasLibrary(library)) {
+        return Response.json({ error: 'Library not found' }, { status: 404 });
+      }
+      return RecipeDB.runInLibrary(library, () => handler(req, ...rest));
+    };
 
-  result.push(current);
-  return result.map((field) => field.replace(/^"|"$/g, '').trim());
+  if (typeof route === 'function') {
+    return scope(route as RouteHandler);
+  }
+  if (
+    route &&
+    Object.getPrototypeOf(route) === Object.prototype &&
+    Object.keys(route).every((key) => HTTP_METHODS.has(key))
+  ) {
+    return Object.fromEntries(
+      Object.entries(route as Record<string, RouteHandler>).map(
+        ([method, handler]) => [method, scope(handler)],
+      ),
+    );
+  }
+  return route;
 };
 
-const server = serve({
+// serve, with every API route also served under /api/libraries/:library to
+// work on that library. Unprefixed routes work on the default library. The
+// app names the library its tab has open on every request, so tabs on
+// different libraries never write to each other's.
+const serveLibraries: typeof serve = (options) =>
+  serve({
+    ...options,
+    routes: options.routes && {
+      ...options.routes,
+      ...Object.fromEntries(
+        Object.entries(options.routes)
+          .filter(
+            ([path]) => path.startsWith('/api/') && path !== '/api/libraries',
+          )
+          .map(([path, route]) => [
+            `/api/libraries/:library/${path.slice('/api/'.length)}`,
+            libraryRoute(route),
+          ]),
+      ),
+    },
+  } as typeof options);
+
+const server = serveLibraries({
   development: process.env.NODE_ENV !== 'production' && {
     // Echo console logs from the browser to the server
     console: true,
     // Enable browser hot reloading in development
     hmr: true,
   },
+  hostname: config.host,
+  port: config.port,
   routes: {
     // Serve React app for all other routes
     '/*': index?.files
@@ -76,11 +547,19 @@ const server = serve({
         }
       : index,
 
-    '/api/dewey': {
-      async GET() {
+    '/api/admin/backup': {
+      // Snapshots the active library and downloads the copy
+      async POST() {
         try {
-          const categories = await RecipeDB.getAllDeweyCategories();
-          return Response.json(categories);
+          const { active } = RecipeDB.getLibraries();
+          const snapshot = await createSnapshot(active, 'manual');
+          const path = await getSnapshotPath(active, snapshot.name);
+          return new Response(Bun.file(path ?? ''), {
+            headers: {
+              'Content-Disposition': `attachment; filename="${snapshot.name}"`,
+              'Content-Type': 'application/vnd.sqlite3',
+            },
+          });
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -89,12 +568,26 @@ const server = serve({
           );
         }
       },
+    },
+
+    '/api/admin/restore': {
       async POST(req: Bun.BunRequest) {
         try {
-          const category = await req.json();
-          const newCategory = await RecipeDB.addDeweyCategory(category);
-          return Response.json(newCategory);
+          const formData = await req.formData();
+          const file = formData.get('file') as File | null;
+          if (!file) {
+            return Response.json(
+              { error: 'No file provided' },
+              { status: 400 },
+            );
+          }
+
+          await restoreDatabase(RecipeDB.getLibraries().active, file);
+          return Response.json({ success: true });
         } catch (error) {
+          if (error instanceof RestoreError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -104,12 +597,11 @@ const server = serve({
       },
     },
 
-    '/api/dewey/:id': {
-      async DELETE(req: Bun.BunRequest) {
+    '/api/admin/snapshots': {
+      async GET() {
         try {
-          const id = parseInt((req.params as any).id, 10);
-          RecipeDB.deleteDeweyCategory(id);
-          return Response.json({ success: true });
+          const snapshots = await listSnapshots(RecipeDB.getLibraries().active);
+          return Response.json(snapshots);
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -118,15 +610,14 @@ const server = serve({
           );
         }
       },
-      async PUT(req: Bun.BunRequest) {
+
+      async POST() {
         try {
-          const id = parseInt((req.params as any).id, 10);
-          const updates = await req.json();
-          const updatedCategory = await RecipeDB.updateDeweyCategory(
-            id,
-            updates,
+          const snapshot = await createSnapshot(
+            RecipeDB.getLibraries().active,
+            'manual',
           );
-          return Response.json(updatedCategory);
+          return Response.json(snapshot, { status: 201 });
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -137,29 +628,73 @@ const server = serve({
       },
     },
 
-    '/api/dewey/default-csv': {
-      async GET() {
+    '/api/admin/snapshots/:name': {
+      async DELETE(req: Bun.BunRequest) {
         try {
-          return new Response(deweyData, {
-            headers: { 'Content-Type': 'text/csv' },
+          const name = (req.params as any).name;
+          if (!(await deleteSnapshot(RecipeDB.getLibraries().active, name))) {
+            return Response.json(
+              { error: 'Snapshot not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async GET(req: Bun.BunRequest) {
+        try {
+          const name = (req.params as any).name;
+          const path = await getSnapshotPath(
+            RecipeDB.getLibraries().active,
+            name,
+          );
+          if (!path) {
+            return Response.json(
+              { error: 'Snapshot not found' },
+              { status: 404 },
+            );
+          }
+          return new Response(Bun.file(path), {
+            headers: {
+              'Content-Disposition': `attachment; filename="${name}"`,
+              'Content-Type': 'application/vnd.sqlite3',
+            },
           });
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
-            { error: 'Failed to load default CSV file' },
+            { error: 'Internal Server Error' },
             { status: 500 },
           );
         }
       },
     },
 
-    '/api/dewey/next-sequence/:baseCode': {
-      async GET(req: Bun.BunRequest) {
+    '/api/admin/snapshots/:name/restore': {
+      async POST(req: Bun.BunRequest) {
         try {
-          const baseCode = (req.params as any).baseCode;
-          const nextSequence = await RecipeDB.getNextDeweySequence(baseCode);
-          return Response.json({ nextSequence });
+          const { active } = RecipeDB.getLibraries();
+          const path = await getSnapshotPath(active, (req.params as any).name);
+          if (!path) {
+            return Response.json(
+              { error: 'Snapshot not found' },
+              { status: 404 },
+            );
+          }
+
+          await restoreDatabase(active, Bun.file(path));
+          return Response.json({ success: true });
         } catch (error) {
+          if (error instanceof RestoreError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -169,11 +704,11 @@ const server = serve({
       },
     },
 
-    '/api/files/:id': {
+    '/api/cook-log/:id': {
       async DELETE(req: Bun.BunRequest) {
         try {
-          const fileId = (req.params as any).id;
-          RecipeDB.deleteFile(fileId);
+          const id = parseInt((req.params as any).id, 10);
+          await RecipeDB.deleteCookLogEntry(id);
           return Response.json({ success: true });
         } catch (error) {
           console.error('API Error:', error);
@@ -183,21 +718,31 @@ const server = serve({
           );
         }
       },
-      async GET(req: Bun.BunRequest) {
-        try {
-          const fileId = (req.params as any).id;
-          const file = await RecipeDB.getFileById(fileId);
 
-          if (!file) {
-            return Response.json({ error: 'File not found' }, { status: 404 });
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const body = await req.json();
+          const validationError = validateCookLogEntry(body, true);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
           }
 
-          return new Response(new Uint8Array(file.content), {
-            headers: {
-              'Content-Disposition': `attachment; filename="${file.filename}"`,
-              'Content-Type': 'application/octet-stream',
-            },
+          const entry = await RecipeDB.updateCookLogEntry(id, {
+            cookedBy: body.cookedBy,
+            date: body.date,
+            notes: body.notes,
+            rating: body.rating === undefined ? undefined : body.rating || 0,
+            servings:
+              body.servings === undefined ? undefined : Number(body.servings),
           });
+          if (!entry) {
+            return Response.json(
+              { error: 'Cook log entry not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json(entry);
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -207,21 +752,14 @@ const server = serve({
         }
       },
     },
-    // API Routes
-    '/api/recipes': {
-      async GET(req) {
-        try {
-          const url = new URL(req.url);
-          const searchTerm = url.searchParams.get('search') || '';
-          const tags = url.searchParams.get('tags');
-          const selectedTags = tags ? JSON.parse(tags) : [];
 
-          const recipes =
-            searchTerm || selectedTags.length > 0
-              ? await RecipeDB.searchRecipes(searchTerm, selectedTags)
-              : await RecipeDB.getAllRecipes();
-
-          return Response.json(recipes);
+    '/api/dewey': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const categories = await RecipeDB.getAllDeweyCategories(
+            parseSchemeId(new URL(req.url).searchParams),
+          );
+          return Response.json(categories);
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -230,13 +768,15 @@ const server = serve({
           );
         }
       },
-
       async POST(req: Bun.BunRequest) {
         try {
-          const recipe = await req.json();
-          const newRecipe = await RecipeDB.addRecipe(recipe);
-          return Response.json(newRecipe);
+          const category = await req.json();
+          const newCategory = await RecipeDB.addDeweyCategory(category);
+          return Response.json(newCategory);
         } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -246,11 +786,11 @@ const server = serve({
       },
     },
 
-    '/api/recipes/:id': {
+    '/api/dewey/:id': {
       async DELETE(req: Bun.BunRequest) {
         try {
-          const id = (req.params as any).id;
-          await RecipeDB.deleteRecipe(id);
+          const id = parseInt((req.params as any).id, 10);
+          RecipeDB.deleteDeweyCategory(id);
           return Response.json({ success: true });
         } catch (error) {
           console.error('API Error:', error);
@@ -260,19 +800,72 @@ const server = serve({
           );
         }
       },
-      async GET(req: Bun.BunRequest) {
+      async PUT(req: Bun.BunRequest) {
         try {
-          const id = (req.params as any).id;
-          const recipe = await RecipeDB.getRecipeById(id);
-          if (recipe) {
-            return Response.json(recipe);
-          } else {
+          const id = parseInt((req.params as any).id, 10);
+          const updates = await req.json();
+          const updatedCategory = await RecipeDB.updateDeweyCategory(
+            id,
+            updates,
+          );
+          return Response.json(updatedCategory);
+        } catch (error) {
+          if (
+            error instanceof DeweyMoveError ||
+            error instanceof ClassificationSchemeError
+          ) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/:id/move': {
+      // Renumbers and/or reparents a category with everything under it;
+      // dryRun previews the recipes whose labels would change
+      async POST(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const { deweyCode, dryRun, parentCode } = await req.json();
+          if (
+            typeof deweyCode !== 'string' ||
+            (parentCode != null && typeof parentCode !== 'string')
+          ) {
             return Response.json(
-              { error: 'Recipe not found' },
+              { error: 'deweyCode must be a string' },
+              { status: 400 },
+            );
+          }
+          const result = await RecipeDB.moveDeweySubtree(
+            id,
+            { deweyCode, parentCode: parentCode ?? undefined },
+            { dryRun: dryRun === true },
+          );
+          if (!result) {
+            return Response.json(
+              { error: 'Category not found' },
               { status: 404 },
             );
           }
+          return Response.json(result);
         } catch (error) {
+          if (
+            error instanceof DeweyMoveError ||
+            error instanceof ClassificationSchemeError
+          ) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -280,13 +873,13 @@ const server = serve({
           );
         }
       },
+    },
 
-      async PUT(req: Bun.BunRequest) {
+    '/api/dewey/conflicts': {
+      // Recipes that share a Dewey code
+      async GET() {
         try {
-          const id = (req.params as any).id;
-          const updates = await req.json();
-          const updatedRecipe = await RecipeDB.updateRecipe(id, updates);
-          return Response.json(updatedRecipe);
+          return Response.json(await RecipeDB.getDeweyConflicts());
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -297,28 +890,969 @@ const server = serve({
       },
     },
 
-    '/api/recipes/:id/files': {
-      async POST(req: Bun.BunRequest) {
+    '/api/dewey/conflicts/resolve': {
+      // Renumbers all but the oldest recipe in each conflict, then makes the
+      // database reject duplicate codes, and reports the new codes so their
+      // labels can be reprinted
+      async POST() {
         try {
-          const recipeId = (req.params as any).id;
-          const formData = await req.formData();
+          return Response.json(await RecipeDB.resolveDeweyConflicts());
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/default-csv': {
+      async GET() {
+        try {
+          return new Response(deweyData, {
+            headers: { 'Content-Type': 'text/csv' },
+          });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Failed to load default CSV file' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/import': {
+      // Reads an indented category tree into the primary scheme, or the one
+      // ?scheme= names; see importers/deweyCsv.ts
+      async POST(req: Bun.BunRequest) {
+        try {
+          const formData = await req.formData();
+          const file = formData.get('file') as File;
+
+          if (!file) {
+            return Response.json(
+              { error: 'No file provided' },
+              { status: 400 },
+            );
+          }
+
+          const strategy = formData.get('strategy') ?? 'merge';
+          if (
+            !DEWEY_IMPORT_STRATEGIES.includes(strategy as DeweyImportStrategy)
+          ) {
+            return Response.json(
+              {
+                error: `strategy must be one of ${DEWEY_IMPORT_STRATEGIES.join(', ')}`,
+              },
+              { status: 400 },
+            );
+          }
+
+          const result = await importDeweyCSV(
+            file.stream().pipeThrough(new TextDecoderStream()),
+            {
+              dryRun: formData.get('dryRun') === 'true',
+              schemeId: parseSchemeId(new URL(req.url).searchParams),
+              strategy: strategy as DeweyImportStrategy,
+            },
+          );
+          return Response.json(result);
+        } catch (error) {
+          if (
+            error instanceof DeweyImportError ||
+            error instanceof CSVParseError
+          ) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('Dewey Import Error:', error);
+          return Response.json(
+            { error: 'Failed to import categories' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/next-sequence/:baseCode': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const baseCode = (req.params as any).baseCode;
+          const nextSequence = await RecipeDB.getNextDeweySequence(
+            baseCode,
+            parseSchemeId(new URL(req.url).searchParams),
+          );
+          return Response.json({ nextSequence });
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/repair': {
+      // Applies the chosen fixes for problems /api/dewey/validate reports
+      async POST(req: Bun.BunRequest) {
+        try {
+          const { fixes } = await req.json();
+          if (
+            !Array.isArray(fixes) ||
+            fixes.some((fix) => !DEWEY_REPAIR_FIXES.includes(fix))
+          ) {
+            return Response.json(
+              {
+                error: `fixes must be a list of ${DEWEY_REPAIR_FIXES.join(', ')}`,
+              },
+              { status: 400 },
+            );
+          }
+          return Response.json(await RecipeDB.repairDewey(fixes));
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/reservations': {
+      // Sets the next code in a category aside for a recipe form
+      async POST(req: Bun.BunRequest) {
+        try {
+          const { baseCode, schemeId } = await req.json();
+          const scheme = Number(schemeId) || PRIMARY_SCHEME_ID;
+          const categories = await RecipeDB.getAllDeweyCategories(scheme);
+          if (
+            typeof baseCode !== 'string' ||
+            !categories.some(({ deweyCode }) => deweyCode === baseCode)
+          ) {
+            return Response.json(
+              { error: 'baseCode must be a category code in the scheme' },
+              { status: 400 },
+            );
+          }
+          return Response.json(
+            await RecipeDB.reserveDeweyCode(baseCode, scheme),
+          );
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/reservations/:code': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const code = decodeURIComponent((req.params as any).code);
+          await RecipeDB.releaseDeweyReservation(
+            code,
+            parseSchemeId(new URL(req.url).searchParams),
+          );
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/schemes': {
+      async GET() {
+        try {
+          return Response.json(await RecipeDB.getClassificationSchemes());
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+      async POST(req: Bun.BunRequest) {
+        try {
+          const { codePattern, name, sequenceDigits, sequencePolicy } =
+            await req.json();
+          return Response.json(
+            await RecipeDB.addClassificationScheme({
+              codePattern,
+              name: name ?? '',
+              sequenceDigits: sequenceDigits ?? 3,
+              sequencePolicy: sequencePolicy ?? 'next',
+            }),
+          );
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/schemes/:id': {
+      // Deletes the scheme with its categories and every recipe's code in it
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          await RecipeDB.deleteClassificationScheme(id);
+          return Response.json({ success: true });
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const updates = await req.json();
+          const scheme = await RecipeDB.updateClassificationScheme(id, updates);
+          if (!scheme) {
+            return Response.json(
+              { error: 'Scheme not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json(scheme);
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/settings': {
+      // The primary scheme's settings, from before there were several
+      async GET() {
+        try {
+          return Response.json(await RecipeDB.getDeweySettings());
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const { sequencePolicy } = await req.json();
+          if (!DEWEY_SEQUENCE_POLICIES.includes(sequencePolicy)) {
+            return Response.json(
+              {
+                error: `sequencePolicy must be one of ${DEWEY_SEQUENCE_POLICIES.join(', ')}`,
+              },
+              { status: 400 },
+            );
+          }
+          return Response.json(
+            await RecipeDB.updateDeweySettings({ sequencePolicy }),
+          );
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/shelf': {
+      // The category tree with how many recipes are shelved under each node
+      async GET() {
+        try {
+          return Response.json(await RecipeDB.getDeweyShelf());
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/shelf/:deweyCode': {
+      // Recipes filed under the category itself, in shelf order
+      async GET(req: Bun.BunRequest) {
+        try {
+          const deweyCode = decodeURIComponent((req.params as any).deweyCode);
+          return Response.json(await RecipeDB.getShelfRecipes(deweyCode));
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/dewey/validate': {
+      // Reports problems in the category tree and how recipes are filed
+      async GET() {
+        try {
+          return Response.json(await RecipeDB.validateDewey());
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/export': {
+      // Downloads the whole active library as a portable archive
+      async GET() {
+        try {
+          const archive = await exportArchive();
+          return new Response(archive, {
+            headers: {
+              'Content-Disposition': `attachment; filename="recipe-library-${toDateKey(new Date())}.tar.gz"`,
+              'Content-Type': 'application/gzip',
+            },
+          });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/export/markdown': {
+      // A folder of Markdown files, one per recipe, for keeping in git
+      async GET(req) {
+        try {
+          const recipes = await collectRecipes(
+            buildExportQuery(new URL(req.url).searchParams),
+          );
+          return new Response(exportMarkdown(recipes), {
+            headers: {
+              'Content-Disposition': `attachment; filename="recipes-markdown-${toDateKey(new Date())}.tar.gz"`,
+              'Content-Type': 'application/gzip',
+            },
+          });
+        } catch (error) {
+          if (error instanceof QueryParseError) {
+            return queryErrorResponse(error);
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/export/pdf': {
+      // A printable cookbook of the matching recipes
+      async GET(req) {
+        try {
+          const { searchParams } = new URL(req.url);
+          const recipes = await collectRecipes(buildExportQuery(searchParams));
+          const pdf = exportCookbookPdf(
+            recipes,
+            await RecipeDB.getAllDeweyCategories(),
+            searchParams.get('title')?.trim() || 'Recipes',
+          );
+          return new Response(pdf, {
+            headers: {
+              'Content-Disposition': `attachment; filename="cookbook-${toDateKey(new Date())}.pdf"`,
+              'Content-Type': 'application/pdf',
+            },
+          });
+        } catch (error) {
+          if (error instanceof QueryParseError) {
+            return queryErrorResponse(error);
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/files/:id': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const fileId = (req.params as any).id;
+          RecipeDB.deleteFile(fileId);
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+      async GET(req: Bun.BunRequest) {
+        try {
+          const fileId = (req.params as any).id;
+          const file = await RecipeDB.getFileById(fileId);
+
+          if (!file) {
+            return Response.json({ error: 'File not found' }, { status: 404 });
+          }
+
+          return new Response(new Uint8Array(file.content), {
+            headers: {
+              'Content-Disposition': `attachment; filename="${file.filename}"`,
+              'Content-Type': 'application/octet-stream',
+            },
+          });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+    '/api/import': {
+      async POST(req: Bun.BunRequest) {
+        try {
+          const formData = await req.formData();
+          const file = formData.get('file') as File | null;
+          if (!file) {
+            return Response.json(
+              { error: 'No file provided' },
+              { status: 400 },
+            );
+          }
+          const mode = (formData.get('mode') || 'merge') as ArchiveImportMode;
+          if (mode !== 'merge' && mode !== 'replace') {
+            return Response.json(
+              { error: 'mode must be merge or replace' },
+              { status: 400 },
+            );
+          }
+
+          const summary = await importArchive(await file.bytes(), mode);
+          return Response.json(summary);
+        } catch (error) {
+          if (
+            error instanceof ArchiveError ||
+            error instanceof ClassificationSchemeError
+          ) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    // API Routes
+    '/api/libraries': {
+      GET() {
+        return Response.json(RecipeDB.getLibraries());
+      },
+    },
+
+    '/api/meal-plan': {
+      async GET(req) {
+        try {
+          const url = new URL(req.url);
+          const start = url.searchParams.get('start') || '';
+          const end = url.searchParams.get('end') || '';
+          if (!parseDateKey(start) || !parseDateKey(end)) {
+            return Response.json(
+              { error: 'start and end must be dates in YYYY-MM-DD format' },
+              { status: 400 },
+            );
+          }
+
+          const entries = await RecipeDB.getMealPlanEntries(start, end);
+          return Response.json(entries);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async POST(req: Bun.BunRequest) {
+        try {
+          const body = await req.json();
+          const validationError = validateMealPlanEntry(body, false);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
+          }
+
+          const recipe = await RecipeDB.getRecipeById(body.recipeId);
+          if (!recipe) {
+            return Response.json(
+              { error: 'Recipe not found' },
+              { status: 404 },
+            );
+          }
+
+          const entry = await RecipeDB.addMealPlanEntry({
+            date: body.date,
+            note: body.note,
+            recipeId: body.recipeId,
+            servings: body.servings ? Number(body.servings) : undefined,
+            slot: body.slot,
+          });
+          return Response.json(entry);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/meal-plan/:id': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          await RecipeDB.deleteMealPlanEntry(id);
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const body = await req.json();
+          const validationError = validateMealPlanEntry(body, true);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
+          }
+
+          const entry = await RecipeDB.updateMealPlanEntry(id, {
+            date: body.date,
+            note: body.note,
+            servings:
+              body.servings === undefined ? undefined : Number(body.servings),
+            slot: body.slot,
+          });
+          if (!entry) {
+            return Response.json(
+              { error: 'Meal plan entry not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json(entry);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes': {
+      async GET(req) {
+        try {
+          const { searchParams } = new URL(req.url);
+          const listOptions = parseListOptions(searchParams);
+          if ('error' in listOptions) {
+            return Response.json({ error: listOptions.error }, { status: 400 });
+          }
+
+          return Response.json(
+            await RecipeDB.listRecipes(
+              buildListingQuery(searchParams),
+              listOptions.options,
+            ),
+          );
+        } catch (error) {
+          if (error instanceof QueryParseError) {
+            return queryErrorResponse(error);
+          }
+          if (error instanceof ListCursorError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async POST(req: Bun.BunRequest) {
+        try {
+          const recipe = await req.json();
+          const newRecipe = await RecipeDB.addRecipe(recipe);
+          return Response.json(newRecipe);
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          await RecipeDB.deleteRecipe(id);
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          const recipe = await RecipeDB.getRecipeById(id);
+          if (!recipe) {
+            return Response.json(
+              { error: 'Recipe not found' },
+              { status: 404 },
+            );
+          }
+
+          // Optional scaling: ?servings=8 or ?factor=1.5, plus ?units=metric|us
+          const url = new URL(req.url);
+          const servingsParam = url.searchParams.get('servings');
+          const factorParam = url.searchParams.get('factor');
+          const unitsParam = url.searchParams.get('units');
+
+          if (!servingsParam && !factorParam && !unitsParam) {
+            return Response.json(recipe);
+          }
+
+          let factor = 1;
+          if (servingsParam) {
+            const servings = parseFloat(servingsParam);
+            if (!(Number.isFinite(servings) && servings > 0)) {
+              return Response.json(
+                { error: 'servings must be a positive number' },
+                { status: 400 },
+              );
+            }
+            if (!recipe.servings) {
+              return Response.json(
+                { error: 'Recipe has no base servings to scale from' },
+                { status: 400 },
+              );
+            }
+            factor = servings / recipe.servings;
+          } else if (factorParam) {
+            factor = parseFloat(factorParam);
+            if (!(Number.isFinite(factor) && factor > 0)) {
+              return Response.json(
+                { error: 'factor must be a positive number' },
+                { status: 400 },
+              );
+            }
+          }
+
+          if (unitsParam && unitsParam !== 'metric' && unitsParam !== 'us') {
+            return Response.json(
+              { error: 'units must be "metric" or "us"' },
+              { status: 400 },
+            );
+          }
+
+          return Response.json(
+            scaleRecipe(recipe, {
+              factor,
+              units: (unitsParam as UnitSystem) || undefined,
+            }),
+          );
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          const updates = await req.json();
+          const updatedRecipe = await RecipeDB.updateRecipe(id, updates);
+          return Response.json(updatedRecipe);
+        } catch (error) {
+          if (error instanceof ClassificationSchemeError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id/cook-log': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const recipeId = parseInt((req.params as any).id, 10);
+          const entries = await RecipeDB.getCookLog(recipeId);
+          return Response.json(entries);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async POST(req: Bun.BunRequest) {
+        try {
+          const recipeId = parseInt((req.params as any).id, 10);
+          const body = await req.json();
+          const validationError = validateCookLogEntry(body, false);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
+          }
+
+          const recipe = await RecipeDB.getRecipeById(recipeId);
+          if (!recipe) {
+            return Response.json(
+              { error: 'Recipe not found' },
+              { status: 404 },
+            );
+          }
+
+          const entry = await RecipeDB.addCookLogEntry({
+            cookedBy: body.cookedBy?.trim() || undefined,
+            date: body.date,
+            notes: body.notes?.trim() || undefined,
+            rating: body.rating || undefined,
+            recipeId,
+            servings: body.servings ? Number(body.servings) : undefined,
+          });
+          return Response.json(entry);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id/files': {
+      async POST(req: Bun.BunRequest) {
+        try {
+          const recipeId = (req.params as any).id;
+          const formData = await req.formData();
           const file = formData.get('file') as File;
 
-          if (!file) {
+          if (!file) {
+            return Response.json(
+              { error: 'No file provided' },
+              { status: 400 },
+            );
+          }
+
+          const content = await file.arrayBuffer();
+          const fileRecord = await RecipeDB.addFile(
+            recipeId,
+            file.name,
+            content,
+          );
+
+          return Response.json(fileRecord);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id/next': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          const order = parseWalkOrder(new URL(req.url).searchParams);
+          if (!order) {
+            return walkOrderErrorResponse();
+          }
+          const nextRecipe = await RecipeDB.getNextRecipe(id, order);
+          if (nextRecipe) {
+            return Response.json(nextRecipe);
+          } else {
+            return Response.json(null);
+          }
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id/previous': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          const order = parseWalkOrder(new URL(req.url).searchParams);
+          if (!order) {
+            return walkOrderErrorResponse();
+          }
+          const previousRecipe = await RecipeDB.getPreviousRecipe(id, order);
+          if (previousRecipe) {
+            return Response.json(previousRecipe);
+          } else {
+            return Response.json(null);
+          }
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/:id/qr': {
+      // A QR code for a recipe's label: ?content=url (default) links to the
+      // recipe's page on this server, ?content=dewey holds its Dewey code;
+      // ?format=svg (default) or png
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = (req.params as any).id;
+          const url = new URL(req.url);
+          const format = url.searchParams.get('format') || 'svg';
+          const content = url.searchParams.get('content') || 'url';
+          if (format !== 'svg' && format !== 'png') {
             return Response.json(
-              { error: 'No file provided' },
+              { error: 'format must be "svg" or "png"' },
+              { status: 400 },
+            );
+          }
+          if (content !== 'url' && content !== 'dewey') {
+            return Response.json(
+              { error: 'content must be "url" or "dewey"' },
               { status: 400 },
             );
           }
 
-          const content = await file.arrayBuffer();
-          const fileRecord = await RecipeDB.addFile(
-            recipeId,
-            file.name,
-            content,
-          );
+          const recipe = await RecipeDB.getRecipeById(id);
+          if (!recipe) {
+            return Response.json(
+              { error: 'Recipe not found' },
+              { status: 404 },
+            );
+          }
+          if (content === 'dewey' && !recipe.deweyDecimal) {
+            return Response.json(
+              { error: 'Recipe has no Dewey code' },
+              { status: 400 },
+            );
+          }
 
-          return Response.json(fileRecord);
+          // The link uses the address the request came in on, so a code
+          // generated from a phone on the home network opens on that network
+          const matrix = encodeQr(
+            content === 'dewey'
+              ? (recipe.deweyDecimal as string)
+              : `${url.origin}/recipe/${recipe.id}`,
+          );
+          const filename = `recipe-${recipe.id}-qr.${format}`;
+          if (format === 'png') {
+            return new Response(qrToPng(matrix, 10), {
+              headers: {
+                'Content-Disposition': `inline; filename="${filename}"`,
+                'Content-Type': 'image/png',
+              },
+            });
+          }
+          return new Response(qrToSvg(matrix), {
+            headers: {
+              'Content-Disposition': `inline; filename="${filename}"`,
+              'Content-Type': 'image/svg+xml',
+            },
+          });
         } catch (error) {
           console.error('API Error:', error);
           return Response.json(
@@ -329,17 +1863,27 @@ const server = serve({
       },
     },
 
-    '/api/recipes/:id/next': {
+    '/api/recipes/dewey/:deweyCode': {
       async GET(req: Bun.BunRequest) {
         try {
-          const id = (req.params as any).id;
-          const nextRecipe = await RecipeDB.getNextRecipe(id);
-          if (nextRecipe) {
-            return Response.json(nextRecipe);
-          } else {
-            return Response.json(null);
+          const deweyCode = decodeURIComponent((req.params as any).deweyCode);
+
+          const listOptions = parseListOptions(new URL(req.url).searchParams);
+          if ('error' in listOptions) {
+            return Response.json({ error: listOptions.error }, { status: 400 });
           }
+
+          // Exact code only; strip wildcards the query language would expand
+          return Response.json(
+            await RecipeDB.listRecipes(
+              { type: 'dewey', value: deweyCode.replace(/\*/g, '') },
+              listOptions.options,
+            ),
+          );
         } catch (error) {
+          if (error instanceof ListCursorError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -349,17 +1893,41 @@ const server = serve({
       },
     },
 
-    '/api/recipes/:id/previous': {
-      async GET(req: Bun.BunRequest) {
+    '/api/recipes/import-file': {
+      async POST(req: Bun.BunRequest) {
         try {
-          const id = (req.params as any).id;
-          const previousRecipe = await RecipeDB.getPreviousRecipe(id);
-          if (previousRecipe) {
-            return Response.json(previousRecipe);
-          } else {
-            return Response.json(null);
+          // An export from another recipe app; the format is detected from
+          // the file unless `format` names it
+          const formData = await req.formData();
+          const file = formData.get('file') as File | null;
+          if (!file) {
+            return Response.json(
+              { error: 'No file provided' },
+              { status: 400 },
+            );
+          }
+
+          const format = (formData.get('format') as string | null) || undefined;
+          if (format && !(format in RECIPE_FILE_FORMATS)) {
+            return Response.json(
+              { error: `Unknown format: ${format}` },
+              { status: 400 },
+            );
           }
+
+          const result = await importRecipeFile(
+            file.name,
+            new Uint8Array(await file.arrayBuffer()),
+            {
+              assignDewey: formData.get('assignDewey') === 'true',
+              format: format as RecipeFileFormat | undefined,
+            },
+          );
+          return Response.json(result);
         } catch (error) {
+          if (error instanceof RecipeFileError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -369,13 +1937,98 @@ const server = serve({
       },
     },
 
-    '/api/recipes/dewey/:deweyCode': {
-      async GET(req: Bun.BunRequest) {
+    '/api/recipes/import-html': {
+      async POST(req: Bun.BunRequest) {
         try {
-          const deweyCode = decodeURIComponent((req.params as any).deweyCode);
-          const recipes = await RecipeDB.getRecipesByDeweyCode(deweyCode);
-          return Response.json(recipes);
+          // Accepts a saved page upload (multipart `file`), pasted `html`, or
+          // a `url` for the server to fetch
+          let html = '';
+          let sourceUrl: string | undefined;
+
+          const contentType = req.headers.get('Content-Type') || '';
+          if (contentType.includes('multipart/form-data')) {
+            const formData = await req.formData();
+            const file = formData.get('file') as File | null;
+            html = file ? await file.text() : '';
+            sourceUrl = (formData.get('url') as string | null) || undefined;
+          } else {
+            const body = await req.json();
+            html = body.html || '';
+            sourceUrl = body.url || undefined;
+          }
+
+          if (!html && sourceUrl) {
+            const response = await fetchRecipePage(sourceUrl);
+            if (!response.ok) {
+              return Response.json(
+                {
+                  error: `Failed to fetch page (${response.status} ${response.statusText})`,
+                },
+                { status: 502 },
+              );
+            }
+            html = await response.text();
+          }
+
+          if (!html) {
+            return Response.json(
+              { error: 'Provide a URL, pasted HTML or an .html file' },
+              { status: 400 },
+            );
+          }
+
+          const recipe = await extractRecipeFromHtml(html, sourceUrl);
+          if (!recipe) {
+            return Response.json(
+              { error: 'No schema.org Recipe found on this page' },
+              { status: 422 },
+            );
+          }
+
+          return Response.json(recipe);
         } catch (error) {
+          if (error instanceof PageUrlError) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          console.error('HTML Import Error:', error);
+          return Response.json(
+            { error: 'Failed to import recipe from page' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/recipes/random': {
+      async GET(req) {
+        try {
+          const { searchParams } = new URL(req.url);
+          const randomOptions = parseRandomOptions(searchParams);
+          if ('error' in randomOptions) {
+            return Response.json(
+              { error: randomOptions.error },
+              { status: 400 },
+            );
+          }
+
+          const query: QueryNode = {
+            children: [
+              buildListingQuery(searchParams),
+              ...randomOptions.constraints,
+            ],
+            type: 'and',
+          };
+
+          return Response.json(
+            await RecipeDB.pickRandomRecipes(query, {
+              count: randomOptions.count,
+              weighted: randomOptions.weighted,
+            }),
+          );
+        } catch (error) {
+          if (error instanceof QueryParseError) {
+            return queryErrorResponse(error);
+          }
           console.error('API Error:', error);
           return Response.json(
             { error: 'Internal Server Error' },
@@ -405,109 +2058,248 @@ const server = serve({
             );
           }
 
-          const text = await file.text();
-          const lines = text.split('\n').filter((line) => line.trim());
+          let mapping: unknown;
+          const mappingField = formData.get('mapping');
+          if (typeof mappingField === 'string' && mappingField) {
+            try {
+              mapping = JSON.parse(mappingField);
+            } catch (_error) {
+              return Response.json(
+                { error: 'mapping must be JSON' },
+                { status: 400 },
+              );
+            }
+          }
+
+          const result = await importCSV(
+            file.stream().pipeThrough(new TextDecoderStream()),
+            {
+              dryRun: formData.get('dryRun') === 'true',
+              mapping: mapping as CSVColumnMapping | undefined,
+            },
+          );
+          return Response.json(result);
+        } catch (error) {
+          if (
+            error instanceof CSVImportError ||
+            error instanceof CSVParseError
+          ) {
+            return Response.json({ error: error.message }, { status: 400 });
+          }
+          if (error instanceof DeweyConflictError) {
+            return Response.json({ error: error.message }, { status: 409 });
+          }
+          console.error('CSV Upload Error:', error);
+          return Response.json(
+            { error: 'Failed to process CSV file' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/shopping-lists': {
+      async GET() {
+        try {
+          const lists = await RecipeDB.getShoppingLists();
+          return Response.json(lists);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async POST(req: Bun.BunRequest) {
+        try {
+          const body = await req.json();
+          const collected = await collectShoppingSources(body);
+          if ('error' in collected) {
+            return Response.json({ error: collected.error }, { status: 400 });
+          }
+
+          const list = await RecipeDB.addShoppingList(
+            collected.name,
+            buildShoppingItems(collected.sources),
+          );
+          return Response.json(list);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/shopping-lists/:id': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          await RecipeDB.deleteShoppingList(id);
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const list = await RecipeDB.getShoppingList(id);
+          if (!list) {
+            return Response.json(
+              { error: 'Shopping list not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json(list);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
 
-          if (lines.length === 0) {
+    '/api/shopping-lists/:id/export': {
+      async GET(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const format =
+            new URL(req.url).searchParams.get('format') || 'markdown';
+          if (format !== 'markdown' && format !== 'text') {
             return Response.json(
-              { error: 'CSV file is empty' },
+              { error: 'format must be markdown or text' },
               { status: 400 },
             );
           }
 
-          // Skip header line if present
-          const dataLines = lines.slice(1);
-          let importedCount = 0;
-          let updatedCount = 0;
-          const errors: string[] = [];
+          const list = await RecipeDB.getShoppingList(id);
+          if (!list) {
+            return Response.json(
+              { error: 'Shopping list not found' },
+              { status: 404 },
+            );
+          }
+
+          const filename = `${list.name.replace(/[^\w -]+/g, '').trim() || 'shopping-list'}.${format === 'markdown' ? 'md' : 'txt'}`;
+          return new Response(
+            formatShoppingList(list.name, list.items, format),
+            {
+              headers: {
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Content-Type': `${format === 'markdown' ? 'text/markdown' : 'text/plain'}; charset=utf-8`,
+              },
+            },
+          );
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
 
-          for (const line of dataLines) {
-            if (!line.trim()) continue;
+    '/api/shopping-lists/:id/items': {
+      async POST(req: Bun.BunRequest) {
+        try {
+          const id = parseInt((req.params as any).id, 10);
+          const body = await req.json();
+          const validationError = validateShoppingListItem(body, false);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
+          }
 
-            try {
-              // Parse CSV line handling quoted fields
-              const fields = parseCSVLine(line);
-
-              // Expected format: ID, Name, Page, URL, Notes, Rating, Tags, Created Date
-              if (fields.length < 7) {
-                errors.push(`Invalid line format: ${line.substring(0, 50)}...`);
-                continue;
-              }
-
-              const [idStr, name, page, url, notes, ratingStr, tagsStr] =
-                fields;
-
-              if (!name?.trim()) {
-                errors.push(`Missing recipe name: ${line.substring(0, 50)}...`);
-                continue;
-              }
-
-              // Parse ID
-              let recipeId = 0;
-              if (idStr?.trim()) {
-                const parsedId = parseInt(idStr.trim(), 10);
-                if (!Number.isNaN(parsedId)) {
-                  recipeId = parsedId;
-                }
-              }
-
-              // Parse rating
-              let rating: number | undefined;
-              if (ratingStr?.trim()) {
-                const parsedRating = parseFloat(ratingStr);
-                if (!Number.isNaN(parsedRating)) {
-                  rating = parsedRating;
-                }
-              }
-
-              // Parse tags from comma-separated string
-              const tags = tagsStr
-                ? tagsStr
-                    .split(',')
-                    .map((tag) => tag.trim())
-                    .filter((tag) => tag.length > 0)
-                : [];
-
-              // Create recipe object
-              const recipe = {
-                name: name.trim(),
-                notes: notes?.trim() || undefined,
-                page: page?.trim() || undefined,
-                rating: rating,
-                tags: tags,
-                url: url?.trim() || undefined,
-              };
-
-              const existingRecipe = recipeId
-                ? RecipeDB.getRecipeById(recipeId)
-                : false;
-              if (existingRecipe) {
-                // Update existing recipe
-                RecipeDB.updateRecipe(recipeId, recipe);
-                updatedCount++;
-              } else {
-                RecipeDB.addRecipe(recipe);
-                importedCount++;
-              }
-            } catch (error) {
-              console.error(`Error importing line: ${line}`, error);
-              errors.push(
-                `Line "${line.substring(0, 50)}...": ${error instanceof Error ? error.message : 'Unknown error'}`,
-              );
-            }
+          if (!(await RecipeDB.getShoppingList(id))) {
+            return Response.json(
+              { error: 'Shopping list not found' },
+              { status: 404 },
+            );
           }
 
-          return Response.json({
-            errorCount: errors.length,
-            errors: errors.slice(0, 10), // Return first 10 errors
-            importedCount,
-            success: true,
-            updatedCount,
+          const item = await RecipeDB.addShoppingListItem(id, {
+            category:
+              (typeof body.category === 'string' && body.category.trim()) ||
+              categorizeItem(body.item),
+            item: body.item.trim(),
+            manual: true,
+            quantity: body.quantity ? Number(body.quantity) : undefined,
+            recipes: [],
+            unit: body.unit?.trim() || undefined,
           });
+          return Response.json(item);
         } catch (error) {
-          console.error('CSV Upload Error:', error);
+          console.error('API Error:', error);
           return Response.json(
-            { error: 'Failed to process CSV file' },
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+    },
+
+    '/api/shopping-lists/:id/items/:itemId': {
+      async DELETE(req: Bun.BunRequest) {
+        try {
+          const params = req.params as any;
+          await RecipeDB.deleteShoppingListItem(
+            parseInt(params.id, 10),
+            parseInt(params.itemId, 10),
+          );
+          return Response.json({ success: true });
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
+            { status: 500 },
+          );
+        }
+      },
+
+      async PUT(req: Bun.BunRequest) {
+        try {
+          const params = req.params as any;
+          const body = await req.json();
+          const validationError = validateShoppingListItem(body, true);
+          if (validationError) {
+            return Response.json({ error: validationError }, { status: 400 });
+          }
+
+          const item = await RecipeDB.updateShoppingListItem(
+            parseInt(params.id, 10),
+            parseInt(params.itemId, 10),
+            {
+              category: body.category,
+              checked: body.checked,
+              item: body.item?.trim(),
+              quantity:
+                body.quantity === undefined ? undefined : Number(body.quantity),
+              unit: body.unit,
+            },
+          );
+          if (!item) {
+            return Response.json(
+              { error: 'Shopping list item not found' },
+              { status: 404 },
+            );
+          }
+          return Response.json(item);
+        } catch (error) {
+          console.error('API Error:', error);
+          return Response.json(
+            { error: 'Internal Server Error' },
             { status: 500 },
           );
         }
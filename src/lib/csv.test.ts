@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  CSVParseError,
+  type CSVRecord,
+  formatCSVField,
+  parseCSV,
+} from '@/lib/csv';
+
+const parseAll = async (...chunks: string[]): Promise<CSVRecord[]> => {
+  const records: CSVRecord[] = [];
+  for await (const record of parseCSV(chunks)) {
+    records.push(record);
+  }
+  return records;
+};
+
+const fieldsOf = async (...chunks: string[]): Promise<string[][]> =>
+  (await parseAll(...chunks)).map(({ fields }) => fields);
+
+describe('parseCSV', () => {
+  test('splits records on LF and CRLF', async () => {
+    expect(await fieldsOf('name,page\r\nSoup,12\nStew,40\r\n')).toEqual([
+      ['name', 'page'],
+      ['Soup', '12'],
+      ['Stew', '40'],
+    ]);
+  });
+
+  test('keeps commas, doubled quotes and line breaks in quoted fields', async () => {
+    expect(
+      await fieldsOf(
+        'name,notes\r\n"Soup, hot","Say ""hello""\r\nthen serve"\r\n',
+      ),
+    ).toEqual([
+      ['name', 'notes'],
+      ['Soup, hot', 'Say "hello"\r\nthen serve'],
+    ]);
+  });
+
+  test('numbers records by the line they start on', async () => {
+    const records = await parseAll('name\n"two\nlines"\n\nlast\n');
+    expect(records.map(({ line }) => line)).toEqual([1, 2, 5]);
+  });
+
+  test('skips blank lines but keeps empty fields', async () => {
+    expect(await fieldsOf('a,b\n\n,\n"",x')).toEqual([
+      ['a', 'b'],
+      ['', ''],
+      ['', 'x'],
+    ]);
+  });
+
+  test('ignores a byte order mark', async () => {
+    expect(await fieldsOf('\uFEFFname\nSoup')).toEqual([['name'], ['Soup']]);
+  });
+
+  test('reads fields split across chunks anywhere', async () => {
+    expect(await fieldsOf('"So', 'up ""', '1""",2\r', '\nnext')).toEqual([
+      ['Soup "1"', '2'],
+      ['next'],
+    ]);
+  });
+
+  test('keeps quotes inside unquoted fields', async () => {
+    expect(await fieldsOf('5" pan,ok')).toEqual([['5" pan', 'ok']]);
+  });
+
+  test('reads a stream', async () => {
+    const stream = new Blob(['a,b\r\n1,2'])
+      .stream()
+      .pipeThrough(new TextDecoderStream());
+    const records: string[][] = [];
+    for await (const record of parseCSV(stream)) {
+      records.push(record.fields);
+    }
+    expect(records).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  test('rejects text after a closing quote', async () => {
+    const error = await parseAll('name\n"Soup" hot\n').catch((e) => e);
+    expect(error).toBeInstanceOf(CSVParseError);
+    expect(error.line).toBe(2);
+    expect(error.message).toBe(
+      'Line 2: Expected a comma or line break after a closing quote',
+    );
+  });
+
+  test('rejects a quoted field that is never closed', async () => {
+    const error = await parseAll('name\n"Soup\nand more').catch((e) => e);
+    expect(error).toBeInstanceOf(CSVParseError);
+    expect(error.message).toBe('Line 2: Quoted field is never closed');
+  });
+});
+
+describe('formatCSVField', () => {
+  test('quotes only fields that need it', () => {
+    expect(formatCSVField('Soup')).toBe('Soup');
+    expect(formatCSVField(12)).toBe('12');
+    expect(formatCSVField(undefined)).toBe('');
+    expect(formatCSVField('Soup, hot')).toBe('"Soup, hot"');
+    expect(formatCSVField('5" pan')).toBe('"5"" pan"');
+    expect(formatCSVField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  test('round-trips through the parser', async () => {
+    const values = ['a, "b"', 'line\r\nbreak', '', 'plain'];
+    expect(await fieldsOf(values.map(formatCSVField).join(','))).toEqual([
+      values,
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+// RFC 4180 CSV parsing: quoted fields may contain commas, doubled quotes and
+// line breaks, and records end with CRLF or a bare LF
+
+export interface CSVRecord {
+  // 1-based line on which the record starts, for error messages
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Thrown when the input isn't valid CSV. `line` is the 1-based line where the
+ * problem was found.
+ */
+export class CSVParseError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'CSVParseError';
+  }
+}
+
+// Where the parser is within the current field
+type FieldState = 'start' | 'unquoted' | 'quoted' | 'quote-in-quoted';
+
+// Reads a stream's chunks one at a time
+async function* readStream<T>(stream: ReadableStream<T>): AsyncGenerator<T> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses CSV text as it arrives, so a file can be read without holding it
+ * all in memory or splitting it into lines first. Records are yielded as soon
+ * as they are complete; blank lines are skipped and a leading byte order mark
+ * is ignored.
+ *
+ * @param input The text, as a stream or in pieces of any size
+ * @returns The records, in order
+ * @throws CSVParseError if a quoted field is unterminated or followed by
+ * anything but a delimiter
+ */
+export async function* parseCSV(
+  input: ReadableStream<string> | AsyncIterable<string> | Iterable<string>,
+): AsyncGenerator<CSVRecord> {
+  const chunks = input instanceof ReadableStream ? readStream(input) : input;
+  let fields: string[] = [];
+  let field = '';
+  let state: FieldState = 'start';
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+  // A CR just ended a record; swallow the LF of a CRLF that follows it
+  let afterCR = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'start';
+  };
+
+  // The finished record, or null for a blank line
+  const endRecord = (): CSVRecord | null => {
+    const isBlank = fields.length === 0 && field === '' && state === 'start';
+    endField();
+    const record = isBlank ? null : { fields, line: recordLine };
+    fields = [];
+    return record;
+  };
+
+  for await (const chunk of chunks) {
+    let text = chunk;
+    if (first) {
+      first = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (afterCR) {
+        afterCR = false;
+        if (char === '\n') continue;
+      }
+
+      if (state === 'quoted') {
+        if (char === '"') {
+          state = 'quote-in-quoted';
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (state === 'quote-in-quoted') {
+        if (char === '"') {
+          // A doubled quote is a literal quote
+          field += '"';
+          state = 'quoted';
+          continue;
+        }
+        if (char !== ',' && char !== '\n' && char !== '\r') {
+          throw new CSVParseError(
+            'Expected a comma or line break after a closing quote',
+            line,
+          );
+        }
+      }
+
+      if (char === ',') {
+        endField();
+      } else if (char === '\n' || char === '\r') {
+        const record = endRecord();
+        if (record) yield record;
+        afterCR = char === '\r';
+        line++;
+        recordLine = line;
+      } else if (char === '"' && state === 'start') {
+        state = 'quoted';
+      } else {
+        // Quotes inside an unquoted field are kept as they are
+        field += char;
+        state = 'unquoted';
+      }
+    }
+  }
+
+  if (state === 'quoted') {
+    throw new CSVParseError('Quoted field is never closed', recordLine);
+  }
+  const record = endRecord();
+  if (record) yield record;
+}
+
+/**
+ * Formats one CSV field, quoting it only when it needs to be
+ *
+ * @param value The field's value
+ * @returns The field as it should appear in a CSV file
+ */
+export function formatCSVField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -1,26 +1,184 @@
-import type { DeweyCategory, Recipe } from '@/types/recipe';
+import { QueryParseError } from '@/lib/query';
+import type {
+  ArchiveImportMode,
+  ArchiveImportSummary,
+  ClassificationScheme,
+  CookLogEntry,
+  CSVColumnMapping,
+  CSVImportResult,
+  DeweyCategory,
+  DeweyConflictReport,
+  DeweyImportResult,
+  DeweyImportStrategy,
+  DeweyRenumbering,
+  DeweyRepairFix,
+  DeweyRepairResult,
+  DeweyReservation,
+  DeweyShelfCategory,
+  DeweySubtreeMove,
+  DeweySubtreeTarget,
+  DeweyValidationReport,
+  ImportedRecipe,
+  LibraryList,
+  MealPlanEntry,
+  QrCodeContent,
+  QrCodeFormat,
+  RandomRecipeOptions,
+  Recipe,
+  RecipeExportFormat,
+  RecipeExportOptions,
+  RecipeFileFormat,
+  RecipeFileImportResult,
+  RecipeIngredient,
+  RecipePage,
+  RecipeSort,
+  RecipeStep,
+  RecipeWalkOrder,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListRequest,
+  ShoppingListSummary,
+  Snapshot,
+  UnitSystem,
+} from '@/types/recipe';
 
-const API_BASE = '/api';
+// The library this tab has open, named in the path of every request so that
+// tabs on different libraries keep apart. Until one is chosen, requests go
+// to the server's default library.
+let libraryId: string | null = null;
+
+const apiBase = (): string =>
+  libraryId === null
+    ? '/api'
+    : `/api/libraries/${encodeURIComponent(libraryId)}`;
+const MAX_PAGE_SIZE = 500;
+
+// Follow a paginated recipe listing to the end, for exports and other callers
+// that need every row
+const fetchAllPages = async (url: string): Promise<Recipe[]> => {
+  const recipes: Recipe[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams({ limit: MAX_PAGE_SIZE.toString() });
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await fetch(`${url}?${params}`);
+    if (!response.ok) {
+      console.error(
+        'Failed to fetch recipes:',
+        response.status,
+        response.statusText,
+      );
+      return recipes;
+    }
+    const page: RecipePage = await response.json();
+    for (const recipe of page.recipes) {
+      recipes.push({ ...recipe, createdAt: new Date(recipe.createdAt) });
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return recipes;
+};
+
+// Save a download response under the filename the server suggested
+const saveDownload = async (response: Response): Promise<void> => {
+  const blob = await response.blob();
+  const contentDisposition = response.headers.get('Content-Disposition');
+  const filename =
+    contentDisposition?.match(/filename="(.+)"/)?.[1] || 'download';
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const toShoppingList = (list: ShoppingList): ShoppingList => ({
+  ...list,
+  createdAt: new Date(list.createdAt),
+});
 
 export const RecipeDB = {
+  async addClassificationScheme(
+    scheme: Omit<ClassificationScheme, 'id' | 'isPrimary'>,
+  ): Promise<ClassificationScheme> {
+    const response = await fetch(`${apiBase()}/dewey/schemes`, {
+      body: JSON.stringify(scheme),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to add scheme');
+    }
+    return response.json();
+  },
+
+  async addCookLogEntry(
+    entry: Omit<CookLogEntry, 'id'>,
+  ): Promise<CookLogEntry> {
+    const response = await fetch(
+      `${apiBase()}/recipes/${entry.recipeId}/cook-log`,
+      {
+        body: JSON.stringify(entry),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      },
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to log cooking');
+    }
+    return response.json();
+  },
+
   async addDeweyCategory(
     category: Omit<DeweyCategory, 'id'>,
   ): Promise<DeweyCategory> {
-    const response = await fetch(`${API_BASE}/dewey`, {
+    const response = await fetch(`${apiBase()}/dewey`, {
       body: JSON.stringify(category),
       headers: { 'Content-Type': 'application/json' },
       method: 'POST',
     });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to add category');
+    }
     return response.json();
   },
+  async addMealPlanEntry(
+    entry: Omit<MealPlanEntry, 'id' | 'recipeName' | 'deweyDecimal'>,
+  ): Promise<MealPlanEntry> {
+    const response = await fetch(`${apiBase()}/meal-plan`, {
+      body: JSON.stringify(entry),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to add to meal plan');
+    }
+    return response.json();
+  },
+
   addRecipe: async (
     recipe: Omit<Recipe, 'id' | 'createdAt'>,
   ): Promise<Recipe> => {
-    const response = await fetch(`${API_BASE}/recipes`, {
+    const response = await fetch(`${apiBase()}/recipes`, {
       body: JSON.stringify(recipe),
       headers: { 'Content-Type': 'application/json' },
       method: 'POST',
     });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to add recipe');
+    }
     const newRecipe = await response.json();
     return {
       ...newRecipe,
@@ -28,14 +186,80 @@ export const RecipeDB = {
     };
   },
 
+  async addShoppingListItem(
+    listId: number,
+    item: Pick<ShoppingListItem, 'item' | 'quantity' | 'unit'> & {
+      category?: string;
+    },
+  ): Promise<ShoppingListItem> {
+    const response = await fetch(
+      `${apiBase()}/shopping-lists/${listId}/items`,
+      {
+        body: JSON.stringify(item),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      },
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to add item');
+    }
+    return response.json();
+  },
+
+  async createShoppingList(
+    request: ShoppingListRequest,
+  ): Promise<ShoppingList> {
+    const response = await fetch(`${apiBase()}/shopping-lists`, {
+      body: JSON.stringify(request),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to create shopping list');
+    }
+    return toShoppingList(await response.json());
+  },
+
+  async createSnapshot(): Promise<Snapshot> {
+    const response = await fetch(`${apiBase()}/admin/snapshots`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to create snapshot');
+    }
+    const snapshot: Snapshot = await response.json();
+    return { ...snapshot, createdAt: new Date(snapshot.createdAt) };
+  },
+
+  async deleteClassificationScheme(id: number): Promise<void> {
+    const response = await fetch(`${apiBase()}/dewey/schemes/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to delete scheme');
+    }
+  },
+
+  async deleteCookLogEntry(id: number): Promise<void> {
+    const response = await fetch(`${apiBase()}/cook-log/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to remove cook log entry');
+    }
+  },
+
   async deleteDeweyCategory(id: number): Promise<void> {
-    await fetch(`${API_BASE}/dewey/${id}`, {
+    await fetch(`${apiBase()}/dewey/${id}`, {
       method: 'DELETE',
     });
   },
 
   async deleteFile(fileId: number): Promise<void> {
-    const response = await fetch(`${API_BASE}/files/${fileId}`, {
+    const response = await fetch(`${apiBase()}/files/${fileId}`, {
       method: 'DELETE',
     });
 
@@ -44,37 +268,142 @@ export const RecipeDB = {
     }
   },
 
+  async deleteMealPlanEntry(id: number): Promise<void> {
+    const response = await fetch(`${apiBase()}/meal-plan/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to remove meal plan entry');
+    }
+  },
+
   async deleteRecipe(id: string | number): Promise<void> {
-    await fetch(`${API_BASE}/recipes/${id}`, {
+    await fetch(`${apiBase()}/recipes/${id}`, {
       method: 'DELETE',
     });
   },
 
+  async deleteShoppingList(id: number): Promise<void> {
+    const response = await fetch(`${apiBase()}/shopping-lists/${id}`, {
+      method: 'DELETE',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to delete shopping list');
+    }
+  },
+
+  async deleteShoppingListItem(listId: number, itemId: number): Promise<void> {
+    const response = await fetch(
+      `${apiBase()}/shopping-lists/${listId}/items/${itemId}`,
+      { method: 'DELETE' },
+    );
+    if (!response.ok) {
+      throw new Error('Failed to remove item');
+    }
+  },
+
+  async deleteSnapshot(name: string): Promise<void> {
+    const response = await fetch(
+      `${apiBase()}/admin/snapshots/${encodeURIComponent(name)}`,
+      { method: 'DELETE' },
+    );
+    if (!response.ok) {
+      throw new Error('Failed to delete snapshot');
+    }
+  },
+
+  async downloadBackup(): Promise<void> {
+    const response = await fetch(`${apiBase()}/admin/backup`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to back up the library');
+    }
+    await saveDownload(response);
+  },
+
   async downloadFile(fileId: number): Promise<void> {
-    const response = await fetch(`${API_BASE}/files/${fileId}`);
+    const response = await fetch(`${apiBase()}/files/${fileId}`);
 
     if (!response.ok) {
       throw new Error('Failed to download file');
     }
 
-    const blob = await response.blob();
-    const contentDisposition = response.headers.get('Content-Disposition');
-    const filename =
-      contentDisposition?.match(/filename="(.+)"/)?.[1] || 'download';
+    await saveDownload(response);
+  },
+
+  async downloadQrCode(
+    id: string | number,
+    options: { content?: QrCodeContent; format?: QrCodeFormat },
+  ): Promise<void> {
+    const response = await fetch(RecipeDB.getQrCodeUrl(id, options));
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to download QR code');
+    }
+
+    await saveDownload(response);
+  },
+
+  async downloadShoppingList(
+    id: number,
+    format: 'markdown' | 'text',
+  ): Promise<void> {
+    const response = await fetch(
+      `${apiBase()}/shopping-lists/${id}/export?format=${format}`,
+    );
+
+    if (!response.ok) {
+      throw new Error('Failed to download shopping list');
+    }
+
+    await saveDownload(response);
+  },
+
+  async downloadSnapshot(name: string): Promise<void> {
+    const response = await fetch(
+      `${apiBase()}/admin/snapshots/${encodeURIComponent(name)}`,
+    );
+    if (!response.ok) {
+      throw new Error('Failed to download snapshot');
+    }
+    await saveDownload(response);
+  },
+
+  async exportLibrary(): Promise<void> {
+    const response = await fetch(`${apiBase()}/export`);
+    if (!response.ok) {
+      throw new Error('Failed to export the library');
+    }
+    await saveDownload(response);
+  },
+
+  async exportRecipes(
+    format: RecipeExportFormat,
+    options: RecipeExportOptions,
+  ): Promise<void> {
+    const params = new URLSearchParams();
+    if (options.search) params.set('search', options.search);
+    if (options.tags && options.tags.length > 0)
+      params.set('tags', JSON.stringify(options.tags));
+    if (options.query) params.set('q', options.query);
+    if (options.deweyCode) params.set('dewey', options.deweyCode);
+    if (options.title) params.set('title', options.title);
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const response = await fetch(`${apiBase()}/export/${format}?${params}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to export recipes');
+    }
+    await saveDownload(response);
   },
 
   // Dewey Category operations
-  async getAllDeweyCategories(): Promise<DeweyCategory[]> {
-    const response = await fetch(`${API_BASE}/dewey`);
+  async getAllDeweyCategories(schemeId?: number): Promise<DeweyCategory[]> {
+    const response = await fetch(
+      `${apiBase()}/dewey${schemeId ? `?scheme=${schemeId}` : ''}`,
+    );
     if (!response.ok) {
       console.error(
         'Failed to fetch Dewey categories:',
@@ -91,28 +420,11 @@ export const RecipeDB = {
     return categories;
   },
   getAllRecipes: async (): Promise<Recipe[]> => {
-    const response = await fetch(`${API_BASE}/recipes`);
-    if (!response.ok) {
-      console.error(
-        'Failed to fetch recipes:',
-        response.status,
-        response.statusText,
-      );
-      return [];
-    }
-    const recipes = await response.json();
-    if (!Array.isArray(recipes)) {
-      console.error('Expected array of recipes, got:', recipes);
-      return [];
-    }
-    return recipes.map((recipe: any) => ({
-      ...recipe,
-      createdAt: new Date(recipe.createdAt),
-    }));
+    return fetchAllPages(`${apiBase()}/recipes`);
   },
 
   getAllTags: async (): Promise<string[]> => {
-    const response = await fetch(`${API_BASE}/tags`);
+    const response = await fetch(`${apiBase()}/tags`);
     if (!response.ok) {
       console.error(
         'Failed to fetch tags:',
@@ -129,16 +441,77 @@ export const RecipeDB = {
     return tags;
   },
 
-  async getNextDeweySequence(baseCode: string): Promise<string> {
+  async getClassificationSchemes(): Promise<ClassificationScheme[]> {
+    const response = await fetch(`${apiBase()}/dewey/schemes`);
+    if (!response.ok) {
+      throw new Error('Failed to load classification schemes');
+    }
+    return response.json();
+  },
+
+  async getCookLog(recipeId: number): Promise<CookLogEntry[]> {
+    const response = await fetch(`${apiBase()}/recipes/${recipeId}/cook-log`);
+    if (!response.ok) {
+      throw new Error('Failed to load cook log');
+    }
+    return response.json();
+  },
+
+  async getDeweyConflicts(): Promise<DeweyConflictReport> {
+    const response = await fetch(`${apiBase()}/dewey/conflicts`);
+    if (!response.ok) {
+      throw new Error('Failed to check for duplicate Dewey codes');
+    }
+    return response.json();
+  },
+
+  async getDeweyShelf(): Promise<DeweyShelfCategory[]> {
+    const response = await fetch(`${apiBase()}/dewey/shelf`);
+    if (!response.ok) {
+      throw new Error('Failed to load the shelf');
+    }
+    return response.json();
+  },
+
+  async getLibraries(): Promise<LibraryList> {
+    const response = await fetch('/api/libraries');
+    if (!response.ok) {
+      throw new Error('Failed to load libraries');
+    }
+    return response.json();
+  },
+
+  async getMealPlanEntries(
+    startDate: string,
+    endDate: string,
+  ): Promise<MealPlanEntry[]> {
+    const params = new URLSearchParams({ end: endDate, start: startDate });
+    const response = await fetch(`${apiBase()}/meal-plan?${params}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to load meal plan');
+    }
+    return response.json();
+  },
+
+  async getNextDeweySequence(
+    baseCode: string,
+    schemeId?: number,
+  ): Promise<string> {
     const response = await fetch(
-      `${API_BASE}/dewey/next-sequence/${encodeURIComponent(baseCode)}`,
+      `${apiBase()}/dewey/next-sequence/${encodeURIComponent(baseCode)}${schemeId ? `?scheme=${schemeId}` : ''}`,
     );
     const data = await response.json();
     return data.nextSequence;
   },
 
-  getNextRecipe: async (currentId: string | number): Promise<Recipe | null> => {
-    const response = await fetch(`${API_BASE}/recipes/${currentId}/next`);
+  getNextRecipe: async (
+    currentId: string | number,
+    order: RecipeWalkOrder = 'created',
+  ): Promise<Recipe | null> => {
+    const response = await fetch(
+      `${apiBase()}/recipes/${currentId}/next?order=${order}`,
+    );
     const recipe = await response.json();
     if (!recipe) return null;
     return {
@@ -149,8 +522,11 @@ export const RecipeDB = {
 
   getPreviousRecipe: async (
     currentId: string | number,
+    order: RecipeWalkOrder = 'created',
   ): Promise<Recipe | null> => {
-    const response = await fetch(`${API_BASE}/recipes/${currentId}/previous`);
+    const response = await fetch(
+      `${apiBase()}/recipes/${currentId}/previous?order=${order}`,
+    );
     const recipe = await response.json();
     if (!recipe) return null;
     return {
@@ -159,8 +535,52 @@ export const RecipeDB = {
     };
   },
 
+  // For <img> tags and links; the server renders the code
+  getQrCodeUrl: (
+    id: string | number,
+    options: { content?: QrCodeContent; format?: QrCodeFormat } = {},
+  ): string => {
+    const params = new URLSearchParams();
+    if (options.content) params.set('content', options.content);
+    if (options.format) params.set('format', options.format);
+    const query = params.toString();
+    return `${apiBase()}/recipes/${id}/qr${query ? `?${query}` : ''}`;
+  },
+
+  async getRandomRecipes(
+    options: RandomRecipeOptions & {
+      search?: string;
+      tags?: string[];
+      query?: string;
+    },
+  ): Promise<Recipe[]> {
+    const params = new URLSearchParams();
+    if (options.search) params.set('search', options.search);
+    if (options.tags && options.tags.length > 0)
+      params.set('tags', JSON.stringify(options.tags));
+    if (options.query) params.set('q', options.query);
+    if (options.count) params.set('count', options.count.toString());
+    if (options.deweyCode) params.set('dewey', options.deweyCode);
+    if (options.minRating)
+      params.set('minRating', options.minRating.toString());
+    if (options.notCookedDays)
+      params.set('notCookedDays', options.notCookedDays.toString());
+    if (options.weighted === false) params.set('weighted', 'false');
+
+    const response = await fetch(`${apiBase()}/recipes/random?${params}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to pick recipes');
+    }
+    const recipes = await response.json();
+    return recipes.map((recipe: any) => ({
+      ...recipe,
+      createdAt: new Date(recipe.createdAt),
+    }));
+  },
+
   getRecipeById: async (id: string | number): Promise<Recipe | null> => {
-    const response = await fetch(`${API_BASE}/recipes/${id}`);
+    const response = await fetch(`${apiBase()}/recipes/${id}`);
     if (response.status === 404) {
       return null;
     }
@@ -172,32 +592,86 @@ export const RecipeDB = {
   },
 
   getRecipesByDeweyCode: async (deweyCode: string): Promise<Recipe[]> => {
+    return fetchAllPages(
+      `${apiBase()}/recipes/dewey/${encodeURIComponent(deweyCode)}`,
+    );
+  },
+
+  getScaledRecipe: async (
+    id: string | number,
+    options: { factor?: number; servings?: number; units?: UnitSystem },
+  ): Promise<Recipe | null> => {
+    const params = new URLSearchParams();
+    if (options.servings) params.set('servings', options.servings.toString());
+    if (options.factor) params.set('factor', options.factor.toString());
+    if (options.units) params.set('units', options.units);
+
+    const response = await fetch(`${apiBase()}/recipes/${id}?${params}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to scale recipe');
+    }
+    const recipe = await response.json();
+    return {
+      ...recipe,
+      createdAt: new Date(recipe.createdAt),
+    };
+  },
+
+  async getShelfRecipes(deweyCode: string): Promise<Recipe[]> {
     const response = await fetch(
-      `${API_BASE}/recipes/dewey/${encodeURIComponent(deweyCode)}`,
+      `${apiBase()}/dewey/shelf/${encodeURIComponent(deweyCode)}`,
     );
     if (!response.ok) {
-      console.error(
-        'Failed to fetch recipes by Dewey code:',
-        response.status,
-        response.statusText,
-      );
-      return [];
+      throw new Error('Failed to load the recipes on the shelf');
     }
     const recipes = await response.json();
-    if (!Array.isArray(recipes)) {
-      console.error('Expected array of recipes by Dewey code, got:', recipes);
-      return [];
-    }
     return recipes.map((recipe: any) => ({
       ...recipe,
       createdAt: new Date(recipe.createdAt),
     }));
   },
 
+  async getShoppingList(id: number): Promise<ShoppingList | null> {
+    const response = await fetch(`${apiBase()}/shopping-lists/${id}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error('Failed to load shopping list');
+    }
+    return toShoppingList(await response.json());
+  },
+
+  async getShoppingLists(): Promise<ShoppingListSummary[]> {
+    const response = await fetch(`${apiBase()}/shopping-lists`);
+    if (!response.ok) {
+      throw new Error('Failed to load shopping lists');
+    }
+    const lists: ShoppingListSummary[] = await response.json();
+    return lists.map((list) => ({
+      ...list,
+      createdAt: new Date(list.createdAt),
+    }));
+  },
+
+  async getSnapshots(): Promise<Snapshot[]> {
+    const response = await fetch(`${apiBase()}/admin/snapshots`);
+    if (!response.ok) {
+      throw new Error('Failed to load snapshots');
+    }
+    const snapshots: Snapshot[] = await response.json();
+    return snapshots.map((snapshot) => ({
+      ...snapshot,
+      createdAt: new Date(snapshot.createdAt),
+    }));
+  },
+
   getTagsWithCounts: async (): Promise<
     Array<{ name: string; count: number }>
   > => {
-    const response = await fetch(`${API_BASE}/tags/counts`);
+    const response = await fetch(`${apiBase()}/tags/counts`);
     if (!response.ok) {
       console.error(
         'Failed to fetch tags with counts:',
@@ -214,44 +688,308 @@ export const RecipeDB = {
     return tagsWithCounts;
   },
 
-  searchRecipes: async (
-    searchTerm: string,
-    selectedTags: string[],
-  ): Promise<Recipe[]> => {
+  async importDeweyCSV(
+    file: File,
+    options: { strategy: DeweyImportStrategy; dryRun: boolean },
+    schemeId?: number,
+  ): Promise<DeweyImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('strategy', options.strategy);
+    formData.append('dryRun', String(options.dryRun));
+
+    const response = await fetch(
+      `${apiBase()}/dewey/import${schemeId ? `?scheme=${schemeId}` : ''}`,
+      {
+        body: formData,
+        method: 'POST',
+      },
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to import categories');
+    }
+    return response.json();
+  },
+
+  async importLibrary(
+    file: File,
+    mode: ArchiveImportMode,
+  ): Promise<ArchiveImportSummary> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mode', mode);
+
+    const response = await fetch(`${apiBase()}/import`, {
+      body: formData,
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to import the library');
+    }
+    return response.json();
+  },
+
+  async importRecipeFile(
+    file: File,
+    options: { format?: RecipeFileFormat; assignDewey: boolean },
+  ): Promise<RecipeFileImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('assignDewey', String(options.assignDewey));
+    if (options.format) formData.append('format', options.format);
+
+    const response = await fetch(`${apiBase()}/recipes/import-file`, {
+      body: formData,
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to import recipes');
+    }
+    return response.json();
+  },
+
+  async importRecipeFromHtml(source: {
+    url?: string;
+    html?: string;
+    file?: File;
+  }): Promise<ImportedRecipe> {
+    let response: Response;
+    if (source.file) {
+      const formData = new FormData();
+      formData.append('file', source.file);
+      if (source.url) formData.append('url', source.url);
+      response = await fetch(`${apiBase()}/recipes/import-html`, {
+        body: formData,
+        method: 'POST',
+      });
+    } else {
+      response = await fetch(`${apiBase()}/recipes/import-html`, {
+        body: JSON.stringify({ html: source.html, url: source.url }),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      });
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to import recipe');
+    }
+
+    return response.json();
+  },
+
+  async listRecipes(options: {
+    search?: string;
+    tags?: string[];
+    query?: string;
+    sort?: RecipeSort;
+    limit?: number;
+    cursor?: string;
+  }): Promise<RecipePage> {
     const params = new URLSearchParams();
-    if (searchTerm) params.set('search', searchTerm);
-    if (selectedTags.length > 0)
-      params.set('tags', JSON.stringify(selectedTags));
+    if (options.search) params.set('search', options.search);
+    if (options.tags && options.tags.length > 0)
+      params.set('tags', JSON.stringify(options.tags));
+    if (options.query) params.set('q', options.query);
+    if (options.sort) params.set('sort', options.sort);
+    if (options.limit) params.set('limit', options.limit.toString());
+    if (options.cursor) params.set('cursor', options.cursor);
 
-    const response = await fetch(`${API_BASE}/recipes?${params}`);
+    const response = await fetch(`${apiBase()}/recipes?${params}`);
+    if (response.status === 400) {
+      const errorData = await response.json();
+      if (errorData.queryError) {
+        throw new QueryParseError(
+          errorData.queryError.message,
+          errorData.queryError.position,
+        );
+      }
+    }
     if (!response.ok) {
       console.error(
-        'Failed to search recipes:',
+        'Failed to list recipes:',
         response.status,
         response.statusText,
       );
-      return [];
+      return { nextCursor: null, recipes: [], total: 0 };
     }
-    const recipes = await response.json();
-    if (!Array.isArray(recipes)) {
-      console.error('Expected array of recipes from search, got:', recipes);
-      return [];
+    const page = await response.json();
+    if (!Array.isArray(page?.recipes)) {
+      console.error('Expected a page of recipes, got:', page);
+      return { nextCursor: null, recipes: [], total: 0 };
+    }
+    return {
+      nextCursor: page.nextCursor,
+      recipes: page.recipes.map((recipe: any) => ({
+        ...recipe,
+        createdAt: new Date(recipe.createdAt),
+      })),
+      total: page.total,
+    };
+  },
+
+  async moveDeweySubtree(
+    id: number,
+    target: DeweySubtreeTarget,
+    dryRun = false,
+  ): Promise<DeweySubtreeMove> {
+    const response = await fetch(`${apiBase()}/dewey/${id}/move`, {
+      body: JSON.stringify({ ...target, dryRun }),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to move Dewey category');
+    }
+    return response.json();
+  },
+
+  // Sends this tab's requests from now on to the given library
+  openLibrary(id: string): void {
+    libraryId = id;
+  },
+
+  async releaseDeweyReservation(
+    code: string,
+    schemeId?: number,
+  ): Promise<void> {
+    await fetch(
+      `${apiBase()}/dewey/reservations/${encodeURIComponent(code)}${schemeId ? `?scheme=${schemeId}` : ''}`,
+      { method: 'DELETE' },
+    );
+  },
+
+  async repairDewey(fixes: DeweyRepairFix[]): Promise<DeweyRepairResult> {
+    const response = await fetch(`${apiBase()}/dewey/repair`, {
+      body: JSON.stringify({ fixes }),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to repair Dewey categories');
+    }
+    return response.json();
+  },
+
+  async reserveDeweyCode(
+    baseCode: string,
+    schemeId?: number,
+  ): Promise<DeweyReservation> {
+    const response = await fetch(`${apiBase()}/dewey/reservations`, {
+      body: JSON.stringify({ baseCode, schemeId }),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to reserve a Dewey code');
+    }
+    return response.json();
+  },
+
+  async resolveDeweyConflicts(): Promise<DeweyRenumbering[]> {
+    const response = await fetch(`${apiBase()}/dewey/conflicts/resolve`, {
+      method: 'POST',
+    });
+    if (!response.ok) {
+      throw new Error('Failed to renumber duplicate Dewey codes');
+    }
+    return response.json();
+  },
+
+  async restoreBackup(file: File): Promise<void> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch(`${apiBase()}/admin/restore`, {
+      body: formData,
+      method: 'POST',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to restore backup');
+    }
+  },
+
+  async restoreSnapshot(name: string): Promise<void> {
+    const response = await fetch(
+      `${apiBase()}/admin/snapshots/${encodeURIComponent(name)}/restore`,
+      { method: 'POST' },
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to restore snapshot');
     }
-    return recipes.map((recipe: any) => ({
-      ...recipe,
-      createdAt: new Date(recipe.createdAt),
-    }));
+  },
+
+  async updateClassificationScheme(
+    id: number,
+    updates: Partial<Omit<ClassificationScheme, 'id' | 'isPrimary'>>,
+  ): Promise<ClassificationScheme> {
+    const response = await fetch(`${apiBase()}/dewey/schemes/${id}`, {
+      body: JSON.stringify(updates),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'PUT',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save scheme');
+    }
+    return response.json();
+  },
+
+  async updateCookLogEntry(
+    id: number,
+    updates: Partial<Omit<CookLogEntry, 'id' | 'recipeId'>>,
+  ): Promise<CookLogEntry> {
+    const response = await fetch(`${apiBase()}/cook-log/${id}`, {
+      body: JSON.stringify(updates),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'PUT',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update cook log entry');
+    }
+    return response.json();
   },
 
   async updateDeweyCategory(
     id: number,
     updates: Partial<Omit<DeweyCategory, 'id'>>,
   ): Promise<DeweyCategory> {
-    const response = await fetch(`${API_BASE}/dewey/${id}`, {
+    const response = await fetch(`${apiBase()}/dewey/${id}`, {
+      body: JSON.stringify(updates),
+      headers: { 'Content-Type': 'application/json' },
+      method: 'PUT',
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update Dewey category');
+    }
+    return response.json();
+  },
+
+  async updateMealPlanEntry(
+    id: number,
+    updates: Partial<
+      Pick<MealPlanEntry, 'date' | 'slot' | 'servings' | 'note'>
+    >,
+  ): Promise<MealPlanEntry> {
+    const response = await fetch(`${apiBase()}/meal-plan/${id}`, {
       body: JSON.stringify(updates),
       headers: { 'Content-Type': 'application/json' },
       method: 'PUT',
     });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update meal plan entry');
+    }
     return response.json();
   },
 
@@ -265,13 +1003,20 @@ export const RecipeDB = {
       rating?: number;
       tags?: string[];
       deweyDecimal?: string;
+      servings?: number;
+      ingredients?: RecipeIngredient[];
+      steps?: RecipeStep[];
     },
   ): Promise<Recipe> {
-    const response = await fetch(`${API_BASE}/recipes/${id}`, {
+    const response = await fetch(`${apiBase()}/recipes/${id}`, {
       body: JSON.stringify(updates),
       headers: { 'Content-Type': 'application/json' },
       method: 'PUT',
     });
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update recipe');
+    }
     const recipe = await response.json();
     return {
       ...recipe,
@@ -280,17 +1025,43 @@ export const RecipeDB = {
   },
 
   // CSV operations
-  async uploadCSV(file: File): Promise<{
-    success: boolean;
-    importedCount: number;
-    updatedCount: number;
-    errorCount: number;
-    errors: string[];
-  }> {
+  async updateShoppingListItem(
+    listId: number,
+    itemId: number,
+    updates: Partial<
+      Pick<
+        ShoppingListItem,
+        'item' | 'quantity' | 'unit' | 'category' | 'checked'
+      >
+    >,
+  ): Promise<ShoppingListItem> {
+    const response = await fetch(
+      `${apiBase()}/shopping-lists/${listId}/items/${itemId}`,
+      {
+        body: JSON.stringify(updates),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'PUT',
+      },
+    );
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to update item');
+    }
+    return response.json();
+  },
+
+  async uploadCSV(
+    file: File,
+    options: { mapping?: CSVColumnMapping; dryRun: boolean },
+  ): Promise<CSVImportResult> {
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('dryRun', String(options.dryRun));
+    if (options.mapping) {
+      formData.append('mapping', JSON.stringify(options.mapping));
+    }
 
-    const response = await fetch(`${API_BASE}/recipes/upload-csv`, {
+    const response = await fetch(`${apiBase()}/recipes/upload-csv`, {
       body: formData,
       method: 'POST',
     });
@@ -311,7 +1082,7 @@ export const RecipeDB = {
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch(`${API_BASE}/recipes/${recipeId}/files`, {
+    const response = await fetch(`${apiBase()}/recipes/${recipeId}/files`, {
       body: formData,
       method: 'POST',
     });
@@ -322,4 +1093,12 @@ export const RecipeDB = {
 
     return response.json();
   },
+
+  async validateDewey(): Promise<DeweyValidationReport> {
+    const response = await fetch(`${apiBase()}/dewey/validate`);
+    if (!response.ok) {
+      throw new Error('Failed to check Dewey categories');
+    }
+    return response.json();
+  },
 };
@@ -0,0 +1,58 @@
+// Calendar dates are passed around as local "YYYY-MM-DD" keys so a meal
+// planned for Tuesday stays on Tuesday whatever the time zone
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Formats a date as a local calendar date key.
+ *
+ * @param date The date to format
+ * @returns The date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD key into a local date at midnight.
+ *
+ * @param key The date key
+ * @returns The date, or null if the key is not a real calendar date
+ */
+export function parseDateKey(key: string): Date | null {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  return toDateKey(date) === key ? date : null;
+}
+
+/**
+ * Moves a date key forwards or backwards by a number of days.
+ *
+ * @param key The starting date key
+ * @param days The number of days to add; negative to go back
+ * @returns The resulting date key
+ */
+export function addDays(key: string, days: number): string {
+  const date = parseDateKey(key) ?? new Date();
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Finds the Monday that starts the week containing a date.
+ *
+ * @param key A date key within the week
+ * @returns The date key of that week's Monday
+ */
+export function startOfWeek(key: string): string {
+  const date = parseDateKey(key) ?? new Date();
+  // getDay() is 0 for Sunday; count Sunday as the last day of the week
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return addDays(toDateKey(date), -daysSinceMonday);
+}
@@ -0,0 +1,98 @@
+import type { DeweyCategory } from '@/types/recipe';
+
+/**
+ * Finds the categories a recipe's Dewey code is filed under, from the root
+ * down. A recipe's code is its category's code plus a sequence number, so
+ * "000.01.002" is filed under "000.01"; codes that don't follow that pattern
+ * fall back to the longest category code they start with.
+ *
+ * @param deweyDecimal The recipe's Dewey code
+ * @param categories Every Dewey category
+ * @returns The category path, or an empty list if no category matches
+ */
+export function findDeweyPath(
+  deweyDecimal: string | undefined,
+  categories: DeweyCategory[],
+): DeweyCategory[] {
+  if (!deweyDecimal) return [];
+
+  const byCode = new Map<string, DeweyCategory>();
+  for (const category of categories) {
+    if (!byCode.has(category.deweyCode)) {
+      byCode.set(category.deweyCode, category);
+    }
+  }
+
+  const lastDot = deweyDecimal.lastIndexOf('.');
+  let category =
+    (lastDot > 0 ? byCode.get(deweyDecimal.slice(0, lastDot)) : undefined) ??
+    byCode.get(deweyDecimal) ??
+    categories
+      .filter((candidate) => deweyDecimal.startsWith(candidate.deweyCode))
+      .sort((a, b) => b.deweyCode.length - a.deweyCode.length)[0];
+
+  const path: DeweyCategory[] = [];
+  while (category && !path.includes(category)) {
+    path.unshift(category);
+    category = category.parentCode
+      ? byCode.get(category.parentCode)
+      : undefined;
+  }
+  return path;
+}
+
+/**
+ * The level a category's code implies: one per digit, counting the digits
+ * on both sides of the dot, so "0" is 1, "000" is 3 and "000.00" is 5.
+ *
+ * @param deweyCode A category code
+ * @returns The level, 1 for an empty code
+ */
+export function getDeweyLevel(deweyCode: string): number {
+  if (!deweyCode) return 1;
+
+  // Handle decimal hierarchy
+  if (deweyCode.includes('.')) {
+    const parts = deweyCode.split('.');
+    const beforeDot = parts[0] || '';
+    const afterDot = parts[1] || '';
+
+    // Level = base level from digits + decimal level
+    // "000.0" = 3 (from "000") + 1 (from ".0") = 4
+    // "000.00" = 3 (from "000") + 2 (from ".00") = 5
+    return beforeDot.length + afterDot.length;
+  }
+
+  // Handle digit hierarchy: "0" = 1, "00" = 2, "000" = 3
+  return deweyCode.length;
+}
+
+/**
+ * The parent a category's code implies, one digit shorter: "000.00" is
+ * under "000.0", which is under "000".
+ *
+ * @param deweyCode A category code
+ * @returns The parent's code, or undefined for a single digit
+ */
+export function getDeweyParentCode(deweyCode: string): string | undefined {
+  if (!deweyCode) return undefined;
+
+  // Handle decimal hierarchy: "000.00" -> "000.0" -> "000"
+  if (deweyCode.includes('.')) {
+    const lastDotIndex = deweyCode.lastIndexOf('.');
+    const beforeDot = deweyCode.substring(0, lastDotIndex);
+    const afterDot = deweyCode.substring(lastDotIndex + 1);
+
+    if (afterDot.length > 1) {
+      // Remove last digit after decimal: "000.00" -> "000.0"
+      return `${beforeDot}.${afterDot.slice(0, -1)}`;
+    } else {
+      // Remove decimal part: "000.0" -> "000"
+      return beforeDot;
+    }
+  }
+
+  // Handle digit hierarchy: "000" -> "00" -> "0" -> undefined
+  if (deweyCode.length <= 1) return undefined;
+  return deweyCode.slice(0, -1);
+}
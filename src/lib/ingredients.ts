@@ -0,0 +1,86 @@
+import { formatQuantity, normalizeUnit, parseQuantity } from '@/lib/scaling';
+import type { RecipeIngredient } from '@/types/recipe';
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': ' 1/4',
+  '½': ' 1/2',
+  '¾': ' 3/4',
+  '⅓': ' 1/3',
+  '⅔': ' 2/3',
+  '⅛': ' 1/8',
+  '⅜': ' 3/8',
+  '⅝': ' 5/8',
+  '⅞': ' 7/8',
+};
+
+// Leading amount: "1 1/2", "3/4", "2.5" or "2,5", optionally a range like "2-3"
+const QUANTITY_PATTERN =
+  /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:[.,]\d+)?)?\s*/;
+
+/**
+ * Splits a free-text ingredient line ("1 ½ cups flour, sifted") into its
+ * quantity, unit, item and preparation note. Units are only recognised when
+ * they are in the conversion table; anything else stays part of the item.
+ *
+ * @param line The ingredient line as written in the source recipe
+ * @returns The structured ingredient
+ */
+export function parseIngredientLine(line: string): RecipeIngredient {
+  let text = line
+    .replace(/[¼½¾⅓⅔⅛⅜⅝⅞]/g, (fraction) => UNICODE_FRACTIONS[fraction] || '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  let quantity: number | undefined;
+  const quantityMatch = text.match(QUANTITY_PATTERN);
+  if (quantityMatch?.[1]) {
+    quantity = parseQuantity(quantityMatch[1].replace(',', '.'));
+    text = text.slice(quantityMatch[0].length);
+  }
+
+  let unit: string | undefined;
+  if (quantity !== undefined) {
+    const words = text.split(' ');
+    // Try two-word units first so "fl oz" wins over a bare "fl"
+    for (const length of [2, 1]) {
+      const candidate = words.slice(0, length).join(' ').replace(/\.$/, '');
+      if (words.length > length && normalizeUnit(candidate)) {
+        unit = candidate;
+        text = words.slice(length).join(' ');
+        break;
+      }
+    }
+  }
+
+  const commaIndex = text.indexOf(',');
+  const item = (commaIndex >= 0 ? text.slice(0, commaIndex) : text).trim();
+  const preparation =
+    commaIndex >= 0 ? text.slice(commaIndex + 1).trim() : undefined;
+
+  return {
+    item: item || line.trim(),
+    preparation: preparation || undefined,
+    quantity,
+    unit,
+  };
+}
+
+/**
+ * Formats an ingredient as one line of text, the inverse of
+ * parseIngredientLine: "2 1/2 cups flour, sifted".
+ *
+ * @param ingredient The structured ingredient
+ * @returns The ingredient as it reads in a recipe
+ */
+export function formatIngredient(ingredient: RecipeIngredient): string {
+  const line = [
+    ingredient.quantity !== undefined
+      ? formatQuantity(ingredient.quantity, ingredient.unit)
+      : '',
+    ingredient.unit,
+    ingredient.item,
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return ingredient.preparation ? `${line}, ${ingredient.preparation}` : line;
+}
@@ -0,0 +1,102 @@
+// Sheet layouts for printing labels and index cards. Measurements are in
+// inches on US Letter paper, taken from Avery's template specifications.
+
+export type LabelKind = 'spine' | 'shelf' | 'card';
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  // The label content each template suits best
+  kind: LabelKind;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  // Offset of the first label from the sheet's top-left corner
+  marginTop: number;
+  marginLeft: number;
+  // Distance from one label's corner to the next one's
+  pitchX: number;
+  pitchY: number;
+}
+
+export const SHEET_WIDTH = 8.5;
+export const SHEET_HEIGHT = 11;
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    columns: 4,
+    id: 'avery-5167',
+    kind: 'spine',
+    labelHeight: 0.5,
+    labelWidth: 1.75,
+    marginLeft: 0.28125,
+    marginTop: 0.5,
+    name: 'Avery 5167 / 8167 return address, 1/2" × 1 3/4" (80 per sheet)',
+    pitchX: 2.0625,
+    pitchY: 0.5,
+    rows: 20,
+  },
+  {
+    columns: 3,
+    id: 'avery-5160',
+    kind: 'shelf',
+    labelHeight: 1,
+    labelWidth: 2.625,
+    marginLeft: 0.1875,
+    marginTop: 0.5,
+    name: 'Avery 5160 / 8160 address, 1" × 2 5/8" (30 per sheet)',
+    pitchX: 2.75,
+    pitchY: 1,
+    rows: 10,
+  },
+  {
+    columns: 2,
+    id: 'avery-5163',
+    kind: 'shelf',
+    labelHeight: 2,
+    labelWidth: 4,
+    marginLeft: 0.15625,
+    marginTop: 0.5,
+    name: 'Avery 5163 / 8163 shipping, 2" × 4" (10 per sheet)',
+    pitchX: 4.1875,
+    pitchY: 2,
+    rows: 5,
+  },
+  {
+    columns: 1,
+    id: 'avery-5388',
+    kind: 'card',
+    labelHeight: 3,
+    labelWidth: 5,
+    marginLeft: 1.75,
+    marginTop: 1,
+    name: 'Avery 5388 index cards, 3" × 5" (3 per sheet)',
+    pitchX: 5,
+    pitchY: 3,
+    rows: 3,
+  },
+];
+
+/**
+ * Works out where a label sits on its sheet
+ *
+ * @param template The sheet layout
+ * @param position The label's position, counting across then down from 0
+ *   and continuing onto later sheets
+ * @returns The sheet number from 0, and the label's top-left corner in inches
+ */
+export function labelPosition(
+  template: LabelTemplate,
+  position: number,
+): { sheet: number; top: number; left: number } {
+  const perSheet = template.columns * template.rows;
+  const onSheet = position % perSheet;
+  return {
+    left: template.marginLeft + (onSheet % template.columns) * template.pitchX,
+    sheet: Math.floor(position / perSheet),
+    top:
+      template.marginTop +
+      Math.floor(onSheet / template.columns) * template.pitchY,
+  };
+}
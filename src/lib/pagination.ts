@@ -0,0 +1,54 @@
+// Position in a listing: either the sort key and id of the last row returned
+// (keyset), with the sort they belong to, or a plain row offset for orderings
+// that can't be keyed, such as full-text relevance
+export type ListCursor =
+  | { id: number; sort: string; value: string | number }
+  | { offset: number };
+
+export class ListCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListCursorError';
+  }
+}
+
+/**
+ * Encodes a listing position as an opaque, URL-safe cursor string.
+ *
+ * @param cursor The position after the last row returned
+ * @returns The cursor to hand back to the client
+ */
+export function encodeCursor(cursor: ListCursor): string {
+  return btoa(encodeURIComponent(JSON.stringify(cursor)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes a cursor produced by encodeCursor.
+ *
+ * @param text The cursor string from the request
+ * @returns The listing position, or null if the cursor is malformed
+ */
+export function decodeCursor(text: string): ListCursor | null {
+  try {
+    const cursor = JSON.parse(
+      decodeURIComponent(atob(text.replace(/-/g, '+').replace(/_/g, '/'))),
+    );
+
+    if (Number.isInteger(cursor?.offset) && cursor.offset >= 0) {
+      return { offset: cursor.offset };
+    }
+    if (
+      Number.isInteger(cursor?.id) &&
+      typeof cursor.sort === 'string' &&
+      (typeof cursor.value === 'string' || typeof cursor.value === 'number')
+    ) {
+      return { id: cursor.id, sort: cursor.sort, value: cursor.value };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
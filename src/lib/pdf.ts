@@ -0,0 +1,370 @@
+// Minimal PDF writer for printable text documents: Letter pages, the
+// built-in Helvetica fonts and left-aligned, wrapped text. Text is written
+// in WinAnsi encoding, so characters outside it print as "?".
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  // Grey level from 0 (black) to 1 (white)
+  gray?: number;
+  // Extra left margin, in points
+  indent?: number;
+  // Space before the text, in points
+  spaceBefore?: number;
+}
+
+export interface PdfWriter {
+  readonly pageCount: number;
+  // Starts a new page, unless the current one is still empty
+  newPage(): void;
+  // Moves to a new page unless this many points are left on the current one
+  keepTogether(height: number): void;
+  // Writes text wrapped to the page width; newlines start new lines
+  text(text: string, options?: PdfTextOptions): void;
+  // Writes text with a right-aligned label, joined by a dotted leader, as in
+  // a table of contents
+  entry(text: string, label: string, options?: PdfTextOptions): void;
+  finish(): Uint8Array<ArrayBuffer>;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_Y = 30;
+const LINE_SPACING = 1.3;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  bold: 'Helvetica-Bold',
+  regular: 'Helvetica',
+};
+
+// Glyph widths in thousandths of an em for characters 32 to 126, from the
+// Adobe font metrics for the standard Helvetica fonts
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+    584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+    278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+    556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+    500, 389, 280, 389, 584,
+  ],
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+    278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+    584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+    833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+    278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+    500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+    500, 334, 260, 334, 584,
+  ],
+};
+
+// WinAnsi codes for the characters it places in 128-159
+const WIN_ANSI: Record<string, number> = {
+  Œ: 0x8c,
+  œ: 0x9c,
+  Š: 0x8a,
+  š: 0x9a,
+  Ÿ: 0x9f,
+  Ž: 0x8e,
+  ž: 0x9e,
+  ƒ: 0x83,
+  ˆ: 0x88,
+  '˜': 0x98,
+  '–': 0x96,
+  '—': 0x97,
+  '‘': 0x91,
+  '’': 0x92,
+  '‚': 0x82,
+  '“': 0x93,
+  '”': 0x94,
+  '„': 0x84,
+  '†': 0x86,
+  '‡': 0x87,
+  '•': 0x95,
+  '…': 0x85,
+  '‰': 0x89,
+  '‹': 0x8b,
+  '›': 0x9b,
+  '€': 0x80,
+  '™': 0x99,
+};
+
+// Widths of the wider or narrower WinAnsi characters; the rest are close
+// enough to a lowercase letter's
+const SPECIAL_WIDTHS: Record<number, number> = {
+  133: 1000,
+  145: 222,
+  146: 222,
+  147: 333,
+  148: 333,
+  149: 350,
+  151: 1000,
+  153: 1000,
+  176: 400,
+  188: 834,
+  189: 834,
+  190: 834,
+};
+
+// Vulgar fractions WinAnsi lacks
+const FRACTIONS: Record<string, string> = {
+  '⅓': '1/3',
+  '⅔': '2/3',
+  '⅛': '1/8',
+  '⅜': '3/8',
+  '⅝': '5/8',
+  '⅞': '7/8',
+};
+
+// Converts text to WinAnsi codes, one per character
+const encode = (text: string): number[] =>
+  [...text.normalize('NFC').replace(/[⅓⅔⅛⅜⅝⅞]/g, (f) => FRACTIONS[f] ?? f)]
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 63;
+      if (code === 9) return 32;
+      if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) {
+        return code;
+      }
+      return WIN_ANSI[char] ?? 63;
+    })
+    .filter((code) => code >= 32);
+
+const charWidth = (code: number, font: PdfFont): number =>
+  code < 127
+    ? (ASCII_WIDTHS[font][code - 32] ?? 556)
+    : (SPECIAL_WIDTHS[code] ?? 556);
+
+/**
+ * Measures text as it would be set in a PDF
+ *
+ * @param text The text
+ * @param font The font
+ * @param size The font size, in points
+ * @returns The width, in points
+ */
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  return (
+    (encode(text).reduce((total, code) => total + charWidth(code, font), 0) *
+      size) /
+    1000
+  );
+}
+
+// A PDF string literal; non-ASCII bytes are written as octal escapes so the
+// file stays plain ASCII
+const pdfString = (text: string): string =>
+  `(${encode(text)
+    .map((code) => {
+      if (code === 40 || code === 41 || code === 92) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      return code < 127
+        ? String.fromCharCode(code)
+        : `\\${code.toString(8).padStart(3, '0')}`;
+    })
+    .join('')})`;
+
+// Breaks text into lines no wider than width; a word too long for a line
+// of its own is split
+const wrap = (
+  text: string,
+  font: PdfFont,
+  size: number,
+  width: number,
+): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (textWidth(rest, font, size) > width) {
+        let fits = 1;
+        while (
+          fits < rest.length &&
+          textWidth(rest.slice(0, fits + 1), font, size) <= width
+        ) {
+          fits++;
+        }
+        lines.push(rest.slice(0, fits));
+        rest = rest.slice(fits);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Cuts text down to fit width, ending it with an ellipsis
+const truncate = (
+  text: string,
+  font: PdfFont,
+  size: number,
+  width: number,
+): string => {
+  if (textWidth(text, font, size) <= width) return text;
+  let end = text.length;
+  while (end > 0 && textWidth(`${text.slice(0, end)}…`, font, size) > width) {
+    end--;
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+};
+
+/**
+ * Starts a PDF document. Pages are numbered in their footers, except the
+ * first when `numberFirstPage` is false (e.g. for a title page).
+ *
+ * @param options.title The document title, shown by PDF viewers
+ * @param options.numberFirstPage Whether the first page shows its number
+ * @returns A writer that lays out text top to bottom, page by page
+ */
+export function createPdf(options: {
+  title: string;
+  numberFirstPage: boolean;
+}): PdfWriter {
+  const pages: string[][] = [];
+  let y = 0;
+
+  const bottom = MARGIN;
+  const lineHeight = (size: number) => size * LINE_SPACING;
+
+  const addPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const show = (
+    x: number,
+    text: string,
+    font: PdfFont,
+    size: number,
+    gray: number,
+  ) => {
+    pages[pages.length - 1]?.push(
+      `BT ${gray} g /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`,
+    );
+  };
+
+  // Moves down a line, starting a new page when this one is full
+  const advance = (size: number) => {
+    if (pages.length === 0 || y - lineHeight(size) < bottom) addPage();
+    y -= lineHeight(size);
+  };
+
+  const space = (points: number) => {
+    // Space at the top of a page is dropped
+    if (pages.length > 0 && y < PAGE_HEIGHT - MARGIN) {
+      y = Math.max(y - points, bottom);
+    }
+  };
+
+  return {
+    entry(text, label, options = {}) {
+      const { font = 'regular', gray = 0, indent = 0, size = 11 } = options;
+      space(options.spaceBefore ?? 0);
+      advance(size);
+
+      const right = PAGE_WIDTH - MARGIN;
+      const labelWidth = textWidth(label, font, size);
+      const dotWidth = textWidth('.', 'regular', size);
+      const left = MARGIN + indent;
+      const shown = truncate(
+        text,
+        font,
+        size,
+        right - left - labelWidth - dotWidth * 4,
+      );
+      show(left, shown, font, size, gray);
+      show(right - labelWidth, label, font, size, gray);
+
+      const leaderStart = left + textWidth(shown, font, size) + dotWidth;
+      const dots = Math.floor(
+        (right - labelWidth - dotWidth - leaderStart) / dotWidth,
+      );
+      if (dots > 1) {
+        show(leaderStart, '.'.repeat(dots), 'regular', size, 0.6);
+      }
+    },
+
+    finish() {
+      if (pages.length === 0) addPage();
+
+      // Number the pages
+      pages.forEach((content, index) => {
+        if (index === 0 && !options.numberFirstPage) return;
+        const label = `${index + 1}`;
+        content.push(
+          `BT 0.4 g /F1 9 Tf ${((PAGE_WIDTH - textWidth(label, 'regular', 9)) / 2).toFixed(2)} ${FOOTER_Y} Td ${pdfString(label)} Tj ET`,
+        );
+      });
+
+      // Objects 1-5 are fixed; each page then has a page and a content object
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Count ${pages.length} /Kids [${pages
+          .map((_content, index) => `${6 + index * 2} 0 R`)
+          .join(' ')}] >>`,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular} /Encoding /WinAnsiEncoding >>`,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold} /Encoding /WinAnsiEncoding >>`,
+        `<< /Title ${pdfString(options.title)} /Producer (Recipe Manager) >>`,
+      ];
+      for (const [index, content] of pages.entries()) {
+        const stream = content.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+          `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+        );
+      }
+
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, index) => {
+        const offset = output.length;
+        output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      for (const offset of offsets) {
+        output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+      }
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+      // Everything above is ASCII, so each character is one byte
+      return new TextEncoder().encode(output) as Uint8Array<ArrayBuffer>;
+    },
+
+    keepTogether(height) {
+      if (pages.length === 0 || y - height < bottom) addPage();
+    },
+
+    newPage() {
+      if (pages.length === 0 || y < PAGE_HEIGHT - MARGIN) addPage();
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    text(text, options = {}) {
+      const { font = 'regular', gray = 0, indent = 0, size = 11 } = options;
+      space(options.spaceBefore ?? 0);
+      const width = PAGE_WIDTH - MARGIN * 2 - indent;
+      for (const line of wrap(text, font, size, width)) {
+        advance(size);
+        if (line) show(MARGIN + indent, line, font, size, gray);
+      }
+    },
+  };
+}
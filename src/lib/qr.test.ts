@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import { decodeQr, encodeQr, type QrImage, type QrMatrix } from '@/lib/qr';
+// Symbols made by node-qrcode 1.5.4 in every error correction level and in
+// numeric, alphanumeric and byte mode, '#' for dark
+import otherEncoder from './fixtures/qr/node-qrcode.json';
+
+interface PhotoOptions {
+  // Pixels per module, square on
+  scale?: number;
+  // Turn in radians, clockwise
+  angle?: number;
+  // How much nearer the bottom of the symbol is than the top
+  tilt?: number;
+  // Greys, ±, added at random
+  noise?: number;
+}
+
+// Draws a symbol the way a phone might photograph it: turned, tilted, lit
+// unevenly from one side and grainy
+function photograph(
+  matrix: QrMatrix,
+  { scale = 6, angle = 0, tilt = 0, noise = 0 }: PhotoOptions = {},
+): QrImage {
+  const size = matrix.length;
+  const width = Math.ceil((size + 16) * scale * 1.3);
+  const height = width;
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      const dx = px - width / 2;
+      const dy = py - height / 2;
+      const depth = 1 - (tilt * dy) / height;
+      const rx = (Math.cos(angle) * dx + Math.sin(angle) * dy) / depth;
+      const ry = (-Math.sin(angle) * dx + Math.cos(angle) * dy) / depth;
+      const x = Math.floor(rx / scale + size / 2);
+      const y = Math.floor(ry / scale + size / 2);
+      const dark = matrix[y]?.[x] ?? false;
+
+      const light = 230 - (90 * px) / width;
+      const grey = (dark ? 40 : light) + (random() * 2 - 1) * noise;
+      const i = (py * width + px) * 4;
+      data[i] = grey;
+      data[i + 1] = grey;
+      data[i + 2] = grey;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, height, width };
+}
+
+const LINK = 'http://192.168.1.20:3000/recipe/1234';
+
+describe('decodeQr', () => {
+  test('reads a code photographed square on', () => {
+    expect(decodeQr(photograph(encodeQr(LINK)))).toBe(LINK);
+  });
+
+  test('reads a short code with no alignment pattern', () => {
+    expect(decodeQr(photograph(encodeQr('641.5.001')))).toBe('641.5.001');
+  });
+
+  test.each([0.5, 2, Math.PI])('reads a code turned %p radians', (angle) => {
+    expect(decodeQr(photograph(encodeQr(LINK), { angle }))).toBe(LINK);
+  });
+
+  test('reads a tilted, grainy code', () => {
+    expect(
+      decodeQr(
+        photograph(encodeQr(LINK), { angle: 0.3, noise: 30, tilt: 0.25 }),
+      ),
+    ).toBe(LINK);
+  });
+
+  test('reads a tilted code with no alignment pattern', () => {
+    expect(
+      decodeQr(photograph(encodeQr('641.5.001'), { angle: 1.3, tilt: 0.1 })),
+    ).toBe('641.5.001');
+  });
+
+  test('reads a larger code with UTF-8 text', () => {
+    const text = `Crème brûlée — ${'https://example.com/recipes/'.repeat(4)}`;
+    expect(decodeQr(photograph(encodeQr(text), { angle: 1, scale: 4 }))).toBe(
+      text,
+    );
+  });
+
+  test('corrects damaged modules', () => {
+    const matrix = encodeQr(LINK).map((row) => [...row]);
+    for (let y = 12; y < 16; y++) {
+      for (let x = 12; x < 16; x++) {
+        (matrix[y] as boolean[])[x] = !(matrix[y] as boolean[])[x];
+      }
+    }
+    expect(decodeQr(photograph(matrix))).toBe(LINK);
+  });
+
+  test.each(otherEncoder)(
+    'reads level $level in $mode mode from another encoder',
+    ({ rows, text }) => {
+      const matrix = rows.map((row) =>
+        [...row].map((module) => module === '#'),
+      );
+      expect(decodeQr(photograph(matrix, { angle: 0.3, tilt: 0.1 }))).toBe(
+        text,
+      );
+    },
+  );
+
+  test('returns null when there is no code', () => {
+    const blank = photograph([[false]], { noise: 30 });
+    expect(decodeQr(blank)).toBeNull();
+  });
+});
@@ -0,0 +1,574 @@
+// Minimal QR code encoder for the short texts printed on labels: byte mode,
+// error correction level M (about 15% of the symbol can be damaged), with
+// SVG and PNG output. Follows ISO/IEC 18004; the version is the smallest
+// that fits. Photos are decoded with jsQR, which reads every mode and level.
+
+import jsQR from 'jsqr';
+
+// Codewords per error correction block and number of blocks at level M,
+// indexed by version - 1
+const ECC_CODEWORDS_PER_BLOCK = [
+  10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26,
+  26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28,
+];
+const ECC_BLOCKS = [
+  1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18,
+  20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Level M's two-bit indicator in the format information
+const ECC_LEVEL_BITS = 0;
+const MAX_VERSION = 40;
+// Light modules around the symbol that scanners need to find it
+const QUIET_ZONE = 4;
+
+export type QrMatrix = boolean[][];
+
+export class QrCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QrCodeError';
+  }
+}
+
+// Arithmetic in GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let result = 0;
+  for (let bit = 7; bit >= 0; bit--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    result ^= ((y >>> bit) & 1) * x;
+  }
+  return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j] as number, root);
+      if (j + 1 < degree) {
+        result[j] = (result[j] as number) ^ (result[j + 1] as number);
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] = (result[i] as number) ^ gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Modules left for data and error correction once the function patterns
+// are drawn
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    (ECC_CODEWORDS_PER_BLOCK[version - 1] as number) *
+      (ECC_BLOCKS[version - 1] as number)
+  );
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+}
+
+// Packs the text into data codewords: mode, length, bytes, terminator and
+// padding
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) append(byte, 8);
+
+  const capacity = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0),
+    );
+  }
+  return codewords;
+}
+
+// Splits the data into blocks, adds each block's error correction and
+// interleaves the result
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ECC_BLOCKS[version - 1] as number;
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version - 1] as number;
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    blocks.push([...block, ...reedSolomonRemainder(block, divisor)]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortBlockLength; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks have one data codeword fewer than long ones, so they
+      // sit out that column and their error correction comes one earlier
+      const short = j < shortBlockCount;
+      if (short && i === shortBlockLength - eccLength) return;
+      const index = short && i > shortBlockLength - eccLength ? i - 1 : i;
+      if (index < block.length) result.push(block[index] as number);
+    });
+  }
+  return result;
+}
+
+// The 15 format bits: error correction level and mask, with their own error
+// correction
+function formatBits(levelBits: number, mask: number): number {
+  const data = (levelBits << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+// Where each format bit goes, as [x, y], in the copy beside the top left
+// finder pattern and in the copy split between the other two
+function formatBitPositions(
+  size: number,
+): Array<[[number, number], [number, number]]> {
+  return Array.from({ length: 15 }, (_unused, i) => {
+    let first: [number, number];
+    if (i <= 5) first = [8, i];
+    else if (i <= 7) first = [8, i + 1];
+    else if (i === 8) first = [7, 8];
+    else first = [14 - i, 8];
+    const second: [number, number] =
+      i < 8 ? [size - 1 - i, 8] : [8, size - 15 + i];
+    return [first, second];
+  });
+}
+
+class QrSymbol {
+  readonly size: number;
+  readonly modules: QrMatrix;
+  // Finder, timing, alignment and format modules, which masks leave alone
+  readonly reserved: QrMatrix;
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+    this.reserved = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false),
+    );
+  }
+
+  get(x: number, y: number): boolean {
+    return (this.modules[y] as boolean[])[x] as boolean;
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    (this.modules[y] as boolean[])[x] = dark;
+    (this.reserved[y] as boolean[])[x] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [
+      [3, 3],
+      [this.size - 4, 3],
+      [3, this.size - 4],
+    ] as const) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        // The corners that overlap the finder patterns are skipped
+        if (
+          (i === 0 && j === 0) ||
+          (i === 0 && j === last) ||
+          (i === last && j === 0)
+        ) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(
+              cx + dx,
+              cy + dy,
+              Math.max(Math.abs(dx), Math.abs(dy)) !== 1,
+            );
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits go in once a mask is chosen
+    this.drawFormatBits(0);
+
+    if (this.version >= 7) {
+      let remainder = this.version;
+      for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (this.version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1;
+        const a = this.size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        this.setFunction(a, b, dark);
+        this.setFunction(b, a, dark);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const bits = formatBits(ECC_LEVEL_BITS, mask);
+    formatBitPositions(this.size).forEach(([first, second], i) => {
+      const dark = ((bits >>> i) & 1) === 1;
+      this.setFunction(first[0], first[1], dark);
+      this.setFunction(second[0], second[1], dark);
+    });
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  // The modules left for codewords, in the zigzag order they are placed in:
+  // two columns at a time from the bottom right
+  dataPositions(): Array<[number, number]> {
+    const positions: Array<[number, number]> = [];
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!(this.reserved[y] as boolean[])[x]) positions.push([x, y]);
+        }
+      }
+    }
+    return positions;
+  }
+
+  drawCodewords(codewords: number[]) {
+    this.dataPositions()
+      .slice(0, codewords.length * 8)
+      .forEach(([x, y], index) => {
+        const byte = codewords[index >>> 3] as number;
+        (this.modules[y] as boolean[])[x] =
+          ((byte >>> (7 - (index & 7))) & 1) === 1;
+      });
+  }
+
+  // Masks are their own inverse, so applying one twice removes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if ((this.reserved[y] as boolean[])[x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0;
+            break;
+          case 1:
+            invert = y % 2 === 0;
+            break;
+          case 2:
+            invert = x % 3 === 0;
+            break;
+          case 3:
+            invert = (x + y) % 3 === 0;
+            break;
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+            break;
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0;
+            break;
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+            break;
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+        }
+        if (invert) {
+          (this.modules[y] as boolean[])[x] = !this.get(x, y);
+        }
+      }
+    }
+  }
+
+  // Scores how hard the symbol is to scan: long runs, 2x2 blocks, shapes
+  // that look like finder patterns and an uneven dark/light balance
+  penalty(): number {
+    let result = 0;
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true],
+    ];
+
+    for (const vertical of [false, true]) {
+      for (let a = 0; a < this.size; a++) {
+        const line = Array.from({ length: this.size }, (_unused, b) =>
+          vertical ? this.get(a, b) : this.get(b, a),
+        );
+
+        let run = 1;
+        for (let b = 1; b <= this.size; b++) {
+          if (b < this.size && line[b] === line[b - 1]) {
+            run++;
+          } else {
+            if (run >= 5) result += 3 + (run - 5);
+            run = 1;
+          }
+        }
+
+        // Beyond the edge is the quiet zone, which is light
+        for (let b = -4; b + 11 <= this.size + 4; b++) {
+          for (const pattern of finderLike) {
+            if (pattern.every((dark, k) => (line[b + k] ?? false) === dark)) {
+              result += 40;
+            }
+          }
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.get(x, y);
+        if (color) dark++;
+        if (
+          x > 0 &&
+          y > 0 &&
+          color === this.get(x - 1, y) &&
+          color === this.get(x, y - 1) &&
+          color === this.get(x - 1, y - 1)
+        ) {
+          result += 3;
+        }
+      }
+    }
+    const total = this.size * this.size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return result;
+  }
+}
+
+/**
+ * Encodes text as a QR code
+ *
+ * @param text The text, usually a URL; encoded as UTF-8
+ * @returns The symbol's modules by row then column, true for dark, without
+ *   the quiet zone
+ * @throws QrCodeError if the text is too long for the largest QR code
+ */
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  while (
+    version <= MAX_VERSION &&
+    4 + (version < 10 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8
+  ) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new QrCodeError('Text is too long for a QR code');
+  }
+
+  const symbol = new QrSymbol(version);
+  symbol.drawFunctionPatterns();
+  symbol.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Number.POSITIVE_INFINITY;
+  for (let mask = 0; mask < 8; mask++) {
+    symbol.applyMask(mask);
+    symbol.drawFormatBits(mask);
+    const penalty = symbol.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    symbol.applyMask(mask);
+  }
+  symbol.applyMask(bestMask);
+  symbol.drawFormatBits(bestMask);
+
+  return symbol.modules;
+}
+
+/**
+ * Draws a QR code as SVG, one module per user unit, so it scales to any size
+ *
+ * @param matrix The symbol from `encodeQr`
+ * @returns The SVG document, quiet zone included
+ */
+export function qrToSvg(matrix: QrMatrix): string {
+  const size = matrix.length + QUIET_ZONE * 2;
+  const path: string[] = [];
+  matrix.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+    });
+  });
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/>` +
+    `<path d="${path.join('')}" fill="#000"/></svg>`
+  );
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(
+    data.length + 8,
+    Bun.hash.crc32(chunk.subarray(4, data.length + 8)),
+  );
+  return chunk;
+}
+
+/**
+ * Draws a QR code as a greyscale PNG
+ *
+ * @param matrix The symbol from `encodeQr`
+ * @param scale Pixels per module
+ * @returns The PNG file, quiet zone included
+ */
+export function qrToPng(
+  matrix: QrMatrix,
+  scale: number,
+): Uint8Array<ArrayBuffer> {
+  const width = (matrix.length + QUIET_ZONE * 2) * scale;
+
+  // Each row is a filter type byte (0, none) followed by one byte per pixel
+  const pixels = new Uint8Array((width + 1) * width).fill(0xff);
+  for (let y = 0; y < width; y++) {
+    const row = y * (width + 1);
+    pixels[row] = 0;
+    const moduleRow = matrix[Math.floor(y / scale) - QUIET_ZONE];
+    if (!moduleRow) continue;
+    for (let x = 0; x < width; x++) {
+      if (moduleRow[Math.floor(x / scale) - QUIET_ZONE]) {
+        pixels[row + 1 + x] = 0;
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, width);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+
+  // PNG wants a zlib stream; Bun.deflateSync gives raw deflate, so add the
+  // zlib header and Adler-32 trailer around it
+  const deflated = Bun.deflateSync(pixels);
+  const zlib = new Uint8Array(deflated.length + 6);
+  zlib.set([0x78, 0x01]);
+  zlib.set(deflated, 2);
+  new DataView(zlib.buffer).setUint32(
+    deflated.length + 2,
+    Bun.hash.adler32(pixels),
+  );
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib),
+    pngChunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
+
+/** Pixels as in the browser's ImageData: RGBA, four bytes each, by row */
+export interface QrImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Finds and reads a QR code in a photo, for browsers without the Barcode
+ * Detection API. Reads any QR code, not only the ones encodeQr makes.
+ *
+ * @param image The photo's pixels; a canvas's `getImageData` will do, best
+ *   scaled to about a thousand pixels across
+ * @returns The text, or null if there is no code in the photo
+ */
+export function decodeQr({ data, width, height }: QrImage): string | null {
+  return jsQR(data, width, height)?.data ?? null;
+}
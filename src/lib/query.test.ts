@@ -0,0 +1,149 @@
+import { describe, expect, test } from 'bun:test';
+import { parseQuery, QueryParseError } from '@/lib/query';
+
+// The error parseQuery throws for a query, or undefined if it parses
+const parseError = (input: string): QueryParseError | undefined => {
+  try {
+    parseQuery(input);
+    return undefined;
+  } catch (error) {
+    if (error instanceof QueryParseError) return error;
+    throw error;
+  }
+};
+
+describe('parseQuery', () => {
+  test('parses an empty query as an AND with no children', () => {
+    expect(parseQuery('   ')).toEqual({ children: [], type: 'and' });
+  });
+
+  test('ANDs terms together and keeps phrases whole', () => {
+    expect(parseQuery('curry "sous vide"')).toEqual({
+      children: [
+        { phrase: false, text: 'curry', type: 'text' },
+        { phrase: true, text: 'sous vide', type: 'text' },
+      ],
+      type: 'and',
+    });
+  });
+
+  test('binds OR looser than AND, and groups with parentheses', () => {
+    expect(
+      parseQuery('tag:chicken -tag:spicy (rating:>=4 OR has:file)'),
+    ).toEqual({
+      children: [
+        { type: 'tag', value: 'chicken' },
+        { child: { type: 'tag', value: 'spicy' }, type: 'not' },
+        {
+          children: [
+            { operator: '>=', type: 'rating', value: 4 },
+            { target: 'file', type: 'has' },
+          ],
+          type: 'or',
+        },
+      ],
+      type: 'and',
+    });
+    expect(parseQuery('soup OR stew AND beans')).toEqual({
+      children: [
+        { phrase: false, text: 'soup', type: 'text' },
+        {
+          children: [
+            { phrase: false, text: 'stew', type: 'text' },
+            { phrase: false, text: 'beans', type: 'text' },
+          ],
+          type: 'and',
+        },
+      ],
+      type: 'or',
+    });
+  });
+
+  test('negates with NOT', () => {
+    expect(parseQuery('NOT has:rating')).toEqual({
+      child: { target: 'rating', type: 'has' },
+      type: 'not',
+    });
+  });
+
+  test('searches one field at a time', () => {
+    expect(parseQuery('Ingredient:"brown butter"')).toEqual({
+      field: 'ingredients',
+      phrase: true,
+      text: 'brown butter',
+      type: 'text',
+    });
+  });
+
+  test('treats lowercase and quoted operators as words', () => {
+    expect(parseQuery('salt or "OR"')).toEqual({
+      children: [
+        { phrase: false, text: 'salt', type: 'text' },
+        { phrase: false, text: 'or', type: 'text' },
+        { phrase: true, text: 'OR', type: 'text' },
+      ],
+      type: 'and',
+    });
+  });
+
+  test('reads dates as the range of days they cover', () => {
+    expect(parseQuery('created:2024')).toEqual({
+      end: '2025-01-01',
+      operator: '=',
+      start: '2024-01-01',
+      type: 'created',
+    });
+    expect(parseQuery('cooked:<2024-02')).toEqual({
+      end: '2024-03-01',
+      operator: '<',
+      start: '2024-02-01',
+      type: 'cooked',
+    });
+    expect(parseQuery('created:>=2024-02-29')).toEqual({
+      end: '2024-03-01',
+      operator: '>=',
+      start: '2024-02-29',
+      type: 'created',
+    });
+  });
+
+  test('reads how often a recipe was cooked', () => {
+    expect(parseQuery('timescooked:0')).toEqual({
+      operator: '=',
+      type: 'timesCooked',
+      value: 0,
+    });
+  });
+
+  test('keeps Dewey wildcards for the server', () => {
+    expect(parseQuery('dewey:641.*')).toEqual({
+      type: 'dewey',
+      value: '641.*',
+    });
+  });
+});
+
+describe('parseQuery errors', () => {
+  test.each([
+    ['soup "sous vide', 'Unclosed quote', 5],
+    ['tag:', 'Expected a value after "tag:"', 4],
+    ['- soup', 'Expected a term after "-"', 0],
+    ['soup colour:red', 'Unknown field "colour"', 5],
+    ['rating:6', 'rating must be a whole number from 1 to 5', 7],
+    ['rating:>=', 'rating must be a whole number from 1 to 5', 7],
+    ['timescooked:-1', 'timescooked must be a whole number', 12],
+    ['created:2023-02-29', 'created must be a date', 8],
+    ['has:photo', 'Unknown has: value "photo"', 4],
+    ['(soup OR stew', 'Missing closing ")"', 0],
+    ['soup)', 'Unexpected ")"', 4],
+    ['AND soup', 'Expected a term before AND', 0],
+    ['soup OR', 'Expected a term', 7],
+    ['OR soup', 'Expected a term before OR', 0],
+    ['soup NOT', 'Expected a term after NOT', 5],
+    ['()', 'Expected a term before ")"', 1],
+  ])('%p fails with %p at %p', (input, message, position) => {
+    const error = parseError(input);
+    expect(error?.message).toStartWith(message);
+    expect(error?.position).toBe(position);
+  });
+});
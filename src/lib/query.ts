@@ -0,0 +1,395 @@
+import type { SearchField } from '@/types/recipe';
+
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+export type HasTarget =
+  | 'cooked'
+  | 'dewey'
+  | 'file'
+  | 'ingredients'
+  | 'notes'
+  | 'rating'
+  | 'servings'
+  | 'steps'
+  | 'tags'
+  | 'url';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; text: string; phrase: boolean; field?: SearchField }
+  | { type: 'tag'; value: string }
+  | { type: 'dewey'; value: string }
+  | { type: 'rating'; operator: ComparisonOperator; value: number }
+  | { type: 'timesCooked'; operator: ComparisonOperator; value: number }
+  | {
+      // Creation date, or the date the recipe was last cooked
+      type: 'created' | 'cooked';
+      operator: ComparisonOperator;
+      // Half-open range [start, end) covered by the date as written
+      start: string;
+      end: string;
+    }
+  | { type: 'has'; target: HasTarget };
+
+/**
+ * Thrown when a query can't be parsed. `position` is the character offset in
+ * the query string where the problem was found, so the UI can point at it.
+ */
+export class QueryParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+  }
+}
+
+// Free-text fields that can be searched individually, e.g. name:curry
+const TEXT_FIELDS: Record<string, SearchField> = {
+  file: 'files',
+  files: 'files',
+  ingredient: 'ingredients',
+  ingredients: 'ingredients',
+  name: 'name',
+  notes: 'notes',
+  url: 'url',
+};
+
+const HAS_TARGETS: Record<string, HasTarget> = {
+  cooked: 'cooked',
+  dewey: 'dewey',
+  file: 'file',
+  files: 'file',
+  ingredient: 'ingredients',
+  ingredients: 'ingredients',
+  notes: 'notes',
+  rating: 'rating',
+  servings: 'servings',
+  steps: 'steps',
+  tag: 'tags',
+  tags: 'tags',
+  url: 'url',
+};
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; position: number }
+  | {
+      type: 'term';
+      position: number;
+      negated: boolean;
+      field?: string;
+      value: string;
+      valuePosition: number;
+      quoted: boolean;
+    };
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index] as string;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({
+        position: index,
+        type: char === '(' ? 'lparen' : 'rparen',
+      });
+      index++;
+      continue;
+    }
+
+    const position = index;
+    let negated = false;
+    if (char === '-') {
+      negated = true;
+      index++;
+      if (index >= input.length || /[\s()]/.test(input[index] as string)) {
+        throw new QueryParseError('Expected a term after "-"', position);
+      }
+    }
+
+    // An optional field prefix ("tag:") followed by a bare or quoted value
+    let field: string | undefined;
+    const fieldMatch = input.slice(index).match(/^([a-z]+):/i);
+    if (fieldMatch?.[1]) {
+      field = fieldMatch[1].toLowerCase();
+      index += fieldMatch[0].length;
+    }
+
+    const valuePosition = index;
+    let value = '';
+    let quoted = false;
+    if (input[index] === '"') {
+      const close = input.indexOf('"', index + 1);
+      if (close < 0) {
+        throw new QueryParseError('Unclosed quote', index);
+      }
+      value = input.slice(index + 1, close);
+      quoted = true;
+      index = close + 1;
+    } else {
+      const start = index;
+      while (index < input.length && !/[\s()]/.test(input[index] as string)) {
+        index++;
+      }
+      value = input.slice(start, index);
+    }
+
+    if (field && !value) {
+      throw new QueryParseError(`Expected a value after "${field}:"`, index);
+    }
+
+    // Bare uppercase OR/AND/NOT are operators; quote them to search for the word
+    if (!field && !quoted && !negated && /^(OR|AND|NOT)$/.test(value)) {
+      tokens.push({
+        position,
+        type: value.toLowerCase() as 'or' | 'and' | 'not',
+      });
+      continue;
+    }
+
+    tokens.push({
+      field,
+      negated,
+      position,
+      quoted,
+      type: 'term',
+      value,
+      valuePosition,
+    });
+  }
+
+  return tokens;
+};
+
+const parseComparison = (
+  value: string,
+): { operator: ComparisonOperator; operand: string } => {
+  const match = value.match(/^(>=|<=|>|<|=)?(.*)$/);
+  return {
+    operand: match?.[2] ?? '',
+    operator: (match?.[1] as ComparisonOperator | undefined) ?? '=',
+  };
+};
+
+// "2025", "2025-03" or "2025-03-14" as the half-open range of days it covers
+const parseDateRange = (
+  text: string,
+): { start: string; end: string } | null => {
+  const match = text.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  const start = new Date(Date.UTC(year, (month ?? 1) - 1, day ?? 1));
+  if (
+    (month !== undefined && start.getUTCMonth() !== month - 1) ||
+    (day !== undefined && start.getUTCDate() !== day)
+  ) {
+    return null;
+  }
+
+  const end = new Date(start);
+  if (day !== undefined) end.setUTCDate(end.getUTCDate() + 1);
+  else if (month !== undefined) end.setUTCMonth(end.getUTCMonth() + 1);
+  else end.setUTCFullYear(end.getUTCFullYear() + 1);
+
+  const toDay = (date: Date) => date.toISOString().slice(0, 10);
+  return { end: toDay(end), start: toDay(start) };
+};
+
+const termToNode = (token: Extract<Token, { type: 'term' }>): QueryNode => {
+  const { field, value, valuePosition, quoted } = token;
+
+  if (!field) {
+    return { phrase: quoted, text: value, type: 'text' };
+  }
+
+  const textField = TEXT_FIELDS[field];
+  if (textField) {
+    return { field: textField, phrase: quoted, text: value, type: 'text' };
+  }
+
+  switch (field) {
+    case 'tag':
+      return { type: 'tag', value };
+
+    case 'dewey':
+      return { type: 'dewey', value };
+
+    case 'rating': {
+      const { operator, operand } = parseComparison(value);
+      const rating = Number(operand);
+      if (!operand || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+        throw new QueryParseError(
+          'rating must be a whole number from 1 to 5, e.g. rating:>=4',
+          valuePosition,
+        );
+      }
+      return { operator, type: 'rating', value: rating };
+    }
+
+    case 'timescooked': {
+      const { operator, operand } = parseComparison(value);
+      const count = Number(operand);
+      if (!operand || !Number.isInteger(count) || count < 0) {
+        throw new QueryParseError(
+          'timescooked must be a whole number, e.g. timescooked:>=3',
+          valuePosition,
+        );
+      }
+      return { operator, type: 'timesCooked', value: count };
+    }
+
+    case 'created':
+    case 'cooked': {
+      const { operator, operand } = parseComparison(value);
+      const range = parseDateRange(operand);
+      if (!range) {
+        throw new QueryParseError(
+          `${field} must be a date like 2025, 2025-01 or 2025-01-31`,
+          valuePosition,
+        );
+      }
+      return { ...range, operator, type: field };
+    }
+
+    case 'has': {
+      const target = HAS_TARGETS[value.toLowerCase()];
+      if (!target) {
+        throw new QueryParseError(
+          `Unknown has: value "${value}"; try ${Object.values(HAS_TARGETS)
+            .filter((name, index, all) => all.indexOf(name) === index)
+            .join(', ')}`,
+          valuePosition,
+        );
+      }
+      return { target, type: 'has' };
+    }
+
+    default:
+      throw new QueryParseError(`Unknown field "${field}"`, token.position);
+  }
+};
+
+/**
+ * Parses the recipe search query language into a tree that the server
+ * compiles to SQL.
+ *
+ * Terms are ANDed together; `OR` (uppercase) binds looser than AND, `-term` or
+ * `NOT term` negates, and parentheses group. Supported terms:
+ * - `word`, `"exact phrase"`: full-text search across every indexed field
+ * - `name:`, `notes:`, `url:`, `ingredient:`, `file:`: full-text in one field
+ * - `tag:chicken`, `dewey:641.*`: exact match, `*` as a wildcard
+ * - `rating:>=4`, `created:>2025-01-01`: comparisons with = > >= < <=
+ * - `cooked:2025-06`, `timescooked:>=3`: when and how often it was cooked
+ * - `has:file`, `has:rating`, `has:cooked` ...: the field is filled in
+ *
+ * Example: `tag:chicken -tag:spicy (rating:>=4 OR has:file) "sous vide"`
+ *
+ * @param input The query as typed
+ * @returns The parsed query; an empty query is an AND with no children
+ * @throws {QueryParseError} If the query is malformed
+ */
+export function parseQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      index++;
+      children.push(parseAnd());
+    }
+    return children.length === 1
+      ? (children[0] as QueryNode)
+      : { children, type: 'or' };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+
+    for (let token = peek(); token; token = peek()) {
+      if (token.type === 'or' || token.type === 'rparen') break;
+      if (token.type === 'and') {
+        if (children.length === 0) {
+          throw new QueryParseError(
+            'Expected a term before AND',
+            token.position,
+          );
+        }
+        index++;
+        continue;
+      }
+      children.push(parseUnary());
+    }
+
+    if (children.length === 0) {
+      const token = peek();
+      throw new QueryParseError(
+        token
+          ? `Expected a term before ${token.type === 'or' ? 'OR' : '")"'}`
+          : 'Expected a term',
+        token?.position ?? input.length,
+      );
+    }
+
+    return children.length === 1
+      ? (children[0] as QueryNode)
+      : { children, type: 'and' };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[index++] as Token;
+
+    if (token.type === 'not') {
+      if (!peek() || peek()?.type === 'or' || peek()?.type === 'rparen') {
+        throw new QueryParseError('Expected a term after NOT', token.position);
+      }
+      return { child: parseUnary(), type: 'not' };
+    }
+
+    if (token.type === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') {
+        throw new QueryParseError('Missing closing ")"', token.position);
+      }
+      index++;
+      return inner;
+    }
+
+    if (token.type === 'term') {
+      const node = termToNode(token);
+      return token.negated ? { child: node, type: 'not' } : node;
+    }
+
+    // Stray ")" or a leading AND/OR
+    throw new QueryParseError(
+      token.type === 'rparen' ? 'Unexpected ")"' : 'Unexpected operator',
+      token.position,
+    );
+  };
+
+  if (tokens.length === 0) {
+    return { children: [], type: 'and' };
+  }
+
+  const query = parseOr();
+  const leftover = peek();
+  if (leftover) {
+    throw new QueryParseError('Unexpected ")"', leftover.position);
+  }
+  return query;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { weightedSample } from '@/lib/random';
+
+// A seeded generator, so the draws are the same on every run
+const seeded = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const recipes = [
+  { name: 'Soup', weight: 1 },
+  { name: 'Stew', weight: 2 },
+  { name: 'Curry', weight: 0 },
+  { name: 'Salad', weight: 1 },
+];
+const byWeight = ({ weight }: { weight: number }) => weight;
+
+describe('weightedSample', () => {
+  test('draws the highest keys first', () => {
+    // Keys: 0.5, 0.5^(1/2) ≈ 0.71, and 0.9 for Salad
+    const draws = [0.5, 0.5, 0.9];
+    const picked = weightedSample(
+      recipes,
+      byWeight,
+      4,
+      () => draws.shift() ?? 0,
+    );
+    expect(picked.map(({ name }) => name)).toEqual(['Salad', 'Stew', 'Soup']);
+  });
+
+  test('never picks an item weighing nothing, or one twice', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const names = weightedSample(recipes, byWeight, 10, seeded(seed)).map(
+        ({ name }) => name,
+      );
+      expect(names).toHaveLength(3);
+      expect(new Set(names).size).toBe(3);
+      expect(names).not.toContain('Curry');
+    }
+  });
+
+  test('picks at most count items', () => {
+    expect(weightedSample(recipes, byWeight, 2, seeded(1))).toHaveLength(2);
+    expect(weightedSample(recipes, byWeight, 0, seeded(1))).toEqual([]);
+    expect(weightedSample([], byWeight, 3)).toEqual([]);
+  });
+
+  test('picks items first in proportion to their weight', () => {
+    const items = ['often', 'rarely'];
+    const random = seeded(7);
+    let often = 0;
+    for (let trial = 0; trial < 6000; trial++) {
+      const [first] = weightedSample(
+        items,
+        (item) => (item === 'often' ? 5 : 1),
+        1,
+        random,
+      );
+      if (first === 'often') often++;
+    }
+    // 5 in 6
+    expect(often / 6000).toBeCloseTo(5 / 6, 1);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Picks distinct items at random, each with a chance proportional to its
+ * weight (Efraimidis–Spirakis sampling: every item draws a key of
+ * random^(1/weight) and the highest keys win).
+ *
+ * Example: with weights 5 and 1, the first item is picked first 5 times as often
+ *
+ * @param items The items to choose from
+ * @param weightOf The weight of an item; items weighing 0 are never picked
+ * @param count How many items to pick at most
+ * @param random Source of uniform numbers in [0, 1)
+ * @returns The picked items, in the order they were drawn
+ */
+export function weightedSample<T>(
+  items: T[],
+  weightOf: (item: T) => number,
+  count: number,
+  random: () => number = Math.random,
+): T[] {
+  return items
+    .map((item) => ({ item, weight: weightOf(item) }))
+    .filter(({ weight }) => weight > 0)
+    .map(({ item, weight }) => ({ item, key: random() ** (1 / weight) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ item }) => item);
+}
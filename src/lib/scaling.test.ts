@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  convertIngredient,
+  convertTemperatures,
+  formatQuantity,
+  fromBaseQuantity,
+  normalizeUnit,
+  parseQuantity,
+  roundToKitchenFraction,
+  scaleIngredients,
+  scaleRecipe,
+} from '@/lib/scaling';
+import type { Recipe } from '@/types/recipe';
+
+const recipe: Recipe = {
+  createdAt: new Date('2024-01-01'),
+  id: 1,
+  ingredients: [
+    { item: 'flour', quantity: 2, unit: 'cups' },
+    { item: 'butter', quantity: 2, unit: 'lb' },
+    { item: 'eggs', quantity: 3 },
+    { item: 'salt', unit: 'pinch' },
+  ],
+  name: 'Pound cake',
+  servings: 8,
+  steps: [{ text: 'Bake at 350°F for an hour.' }],
+  tags: [],
+};
+
+describe('parseQuantity', () => {
+  test.each([
+    ['1 1/2', 1.5],
+    ['3/4', 0.75],
+    ['0.5', 0.5],
+    [' 2 ', 2],
+  ])('reads %p', (text, quantity) => {
+    expect(parseQuantity(text)).toBe(quantity);
+  });
+
+  test.each(['', 'a pinch', '1/2 cup'])('rejects %p', (text) => {
+    expect(parseQuantity(text)).toBeUndefined();
+  });
+});
+
+describe('normalizeUnit', () => {
+  test('maps spellings to one unit', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit(' fl. oz ')).toBe('fl oz');
+    expect(normalizeUnit('pinch')).toBeUndefined();
+  });
+});
+
+describe('roundToKitchenFraction', () => {
+  test.each([
+    [0.3, 1 / 3],
+    [1.6, 1.625],
+    [0.01, 1 / 8],
+    [23.4, 23],
+  ])('rounds %p to %p', (quantity, rounded) => {
+    expect(roundToKitchenFraction(quantity)).toBeCloseTo(rounded, 10);
+  });
+});
+
+describe('formatQuantity', () => {
+  test('shows US amounts as fractions and metric ones as decimals', () => {
+    expect(formatQuantity(1.5, 'cup')).toBe('1 1/2');
+    expect(formatQuantity(0.75)).toBe('3/4');
+    expect(formatQuantity(1.5, 'l')).toBe('1.5');
+    expect(formatQuantity(0.99, 'tsp')).toBe('1');
+  });
+});
+
+describe('convertIngredient', () => {
+  test('converts into the unit a cook would reach for', () => {
+    expect(
+      convertIngredient({ item: 'milk', quantity: 2, unit: 'cups' }, 'metric'),
+    ).toEqual({ item: 'milk', quantity: 475, unit: 'ml' });
+    expect(
+      convertIngredient({ item: 'sugar', quantity: 1200, unit: 'g' }, 'us'),
+    ).toEqual({ item: 'sugar', quantity: 2.625, unit: 'lb' });
+  });
+
+  test('leaves units already in the system, and unknown ones, alone', () => {
+    const cups = { item: 'milk', quantity: 2, unit: 'cups' };
+    const pinch = { item: 'salt', quantity: 1, unit: 'pinch' };
+    expect(convertIngredient(cups, 'us')).toBe(cups);
+    expect(convertIngredient(pinch, 'metric')).toBe(pinch);
+  });
+});
+
+describe('fromBaseQuantity', () => {
+  test('turns a base amount back into a measurable one', () => {
+    expect(fromBaseQuantity(473, 'volume', 'us')).toEqual({
+      quantity: 2,
+      unit: 'cup',
+    });
+    expect(fromBaseQuantity(1500, 'mass', 'metric')).toEqual({
+      quantity: 1.5,
+      unit: 'kg',
+    });
+  });
+});
+
+describe('convertTemperatures', () => {
+  test('rewrites oven temperatures to the nearest 5 degrees', () => {
+    expect(convertTemperatures('Bake at 350°F.', 'metric')).toBe(
+      'Bake at 175°C.',
+    );
+    expect(convertTemperatures('Heat to 180 degrees C', 'us')).toBe(
+      'Heat to 355°F',
+    );
+    expect(convertTemperatures('Bake at 350°F.', 'us')).toBe('Bake at 350°F.');
+  });
+});
+
+describe('scaleIngredients', () => {
+  test('rounds once, after scaling and converting', () => {
+    const [butter] = scaleIngredients(
+      [{ item: 'butter', quantity: 2, unit: 'lb' }],
+      0.22,
+      'metric',
+    );
+    expect(butter).toEqual({ item: 'butter', quantity: 200, unit: 'g' });
+  });
+
+  test('leaves ingredients without a quantity alone', () => {
+    const salt = { item: 'salt', unit: 'pinch' };
+    expect(scaleIngredients([salt], 2)).toEqual([salt]);
+  });
+});
+
+describe('scaleRecipe', () => {
+  test('scales ingredients and servings', () => {
+    const scaled = scaleRecipe(recipe, { factor: 1.5 });
+    expect(scaled.ingredients?.map(({ quantity }) => quantity)).toEqual([
+      3,
+      3,
+      4.5,
+      undefined,
+    ]);
+    expect(scaled.servings).toBe(12);
+    expect(scaled.scaling).toEqual({
+      factor: 1.5,
+      servings: 12,
+      units: undefined,
+    });
+  });
+
+  test('converts units and oven temperatures', () => {
+    const scaled = scaleRecipe(recipe, { factor: 0.5, units: 'metric' });
+    expect(scaled.ingredients?.slice(0, 2)).toEqual([
+      { item: 'flour', quantity: 235, unit: 'ml' },
+      { item: 'butter', quantity: 455, unit: 'g' },
+    ]);
+    expect(scaled.steps?.[0]?.text).toBe('Bake at 175°C for an hour.');
+  });
+});
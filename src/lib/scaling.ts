@@ -0,0 +1,395 @@
+import type {
+  Recipe,
+  RecipeIngredient,
+  RecipeStep,
+  UnitSystem,
+} from '@/types/recipe';
+
+export type UnitKind = 'mass' | 'volume';
+
+interface UnitDefinition {
+  kind: UnitKind;
+  system: UnitSystem;
+  // Size of one unit in the base unit for its kind (ml for volume, g for mass)
+  toBase: number;
+}
+
+const ML_PER_TBSP = 14.7868;
+const ML_PER_CUP = 236.588;
+const G_PER_LB = 453.592;
+
+const UNITS: Record<string, UnitDefinition> = {
+  cup: { kind: 'volume', system: 'us', toBase: ML_PER_CUP },
+  'fl oz': { kind: 'volume', system: 'us', toBase: 29.5735 },
+  g: { kind: 'mass', system: 'metric', toBase: 1 },
+  gallon: { kind: 'volume', system: 'us', toBase: 3785.41 },
+  kg: { kind: 'mass', system: 'metric', toBase: 1000 },
+  l: { kind: 'volume', system: 'metric', toBase: 1000 },
+  lb: { kind: 'mass', system: 'us', toBase: G_PER_LB },
+  ml: { kind: 'volume', system: 'metric', toBase: 1 },
+  oz: { kind: 'mass', system: 'us', toBase: 28.3495 },
+  pint: { kind: 'volume', system: 'us', toBase: 473.176 },
+  quart: { kind: 'volume', system: 'us', toBase: 946.353 },
+  tbsp: { kind: 'volume', system: 'us', toBase: ML_PER_TBSP },
+  tsp: { kind: 'volume', system: 'us', toBase: 4.92892 },
+};
+
+// Spellings seen in cookbooks, mapped to the keys of UNITS
+const UNIT_ALIASES: Record<string, string> = {
+  c: 'cup',
+  cup: 'cup',
+  cups: 'cup',
+  'fl oz': 'fl oz',
+  'fl. oz': 'fl oz',
+  'fl. oz.': 'fl oz',
+  'fluid ounce': 'fl oz',
+  'fluid ounces': 'fl oz',
+  g: 'g',
+  gal: 'gallon',
+  gallon: 'gallon',
+  gallons: 'gallon',
+  gram: 'g',
+  gramme: 'g',
+  grammes: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  l: 'l',
+  lb: 'lb',
+  lbs: 'lb',
+  liter: 'l',
+  liters: 'l',
+  litre: 'l',
+  litres: 'l',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  ml: 'ml',
+  ounce: 'oz',
+  ounces: 'oz',
+  oz: 'oz',
+  pint: 'pint',
+  pints: 'pint',
+  pound: 'lb',
+  pounds: 'lb',
+  pt: 'pint',
+  qt: 'quart',
+  quart: 'quart',
+  quarts: 'quart',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  tbl: 'tbsp',
+  tbs: 'tbsp',
+  tbsp: 'tbsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tsp: 'tsp',
+  tsps: 'tsp',
+};
+
+// Fractions a home cook can actually measure, as [value, label]
+const KITCHEN_FRACTIONS: Array<[number, string]> = [
+  [0, ''],
+  [1 / 8, '1/8'],
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [3 / 8, '3/8'],
+  [1 / 2, '1/2'],
+  [5 / 8, '5/8'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+  [7 / 8, '7/8'],
+  [1, ''],
+];
+
+const nearestFraction = (fraction: number): [number, string] => {
+  let best = KITCHEN_FRACTIONS[0] as [number, string];
+  for (const candidate of KITCHEN_FRACTIONS) {
+    if (Math.abs(candidate[0] - fraction) < Math.abs(best[0] - fraction)) {
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+/**
+ * Looks up a free-text unit ("Tablespoons", "fl. oz") in the conversion table.
+ *
+ * @param unit The unit as entered on the ingredient
+ * @returns The canonical unit key, or undefined for units we cannot convert
+ */
+export function normalizeUnit(unit?: string): string | undefined {
+  if (!unit) return undefined;
+  return UNIT_ALIASES[unit.trim().toLowerCase()];
+}
+
+/**
+ * Rounds a quantity to the nearest fraction that can be measured with
+ * standard cups and spoons (1/8, 1/4, 1/3, 1/2, 2/3, 3/4 ...).
+ *
+ * Example: 0.3 becomes 1/3, 1.6 becomes 1 5/8
+ *
+ * @param quantity The quantity to round
+ * @returns The rounded quantity
+ */
+export function roundToKitchenFraction(quantity: number): number {
+  if (quantity >= 20) return Math.round(quantity);
+
+  const whole = Math.floor(quantity);
+  const [fraction] = nearestFraction(quantity - whole);
+  const rounded = whole + fraction;
+
+  // Never round a small non-zero amount away entirely
+  return rounded === 0 && quantity > 0 ? 1 / 8 : rounded;
+}
+
+const roundMetric = (quantity: number): number => {
+  if (quantity >= 100) return Math.round(quantity / 5) * 5;
+  if (quantity >= 10) return Math.round(quantity);
+  return Math.round(quantity * 10) / 10;
+};
+
+const roundForUnit = (quantity: number, unit?: string): number => {
+  const definition = UNITS[normalizeUnit(unit) || ''];
+  return definition?.system === 'metric'
+    ? roundMetric(quantity)
+    : roundToKitchenFraction(quantity);
+};
+
+/**
+ * Formats a quantity for display. US customary and unitless amounts are shown
+ * as kitchen fractions, metric amounts as plain decimals.
+ *
+ * Example: formatQuantity(1.5, 'cup') is "1 1/2", formatQuantity(1.5, 'l') is "1.5"
+ *
+ * @param quantity The quantity to format
+ * @param unit The unit the quantity is measured in, if any
+ * @returns The display string
+ */
+export function formatQuantity(quantity: number, unit?: string): string {
+  const definition = UNITS[normalizeUnit(unit) || ''];
+  if (definition?.system === 'metric' || quantity >= 20) {
+    return `${Math.round(quantity * 100) / 100}`;
+  }
+
+  const whole = Math.floor(quantity);
+  const [fraction, label] = nearestFraction(quantity - whole);
+  if (fraction === 1) return `${whole + 1}`;
+  if (!label) return `${whole}`;
+  return whole > 0 ? `${whole} ${label}` : label;
+}
+
+/**
+ * Parses a typed quantity such as "1 1/2", "3/4" or "0.5".
+ *
+ * @param text The quantity text
+ * @returns The numeric quantity, or undefined if the text is not a quantity
+ */
+export function parseQuantity(text: string): number | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Math.max(Number(mixed[3]), 1);
+  }
+
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[1]) / Math.max(Number(fraction[2]), 1);
+  }
+
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Pick the unit a cook in the target system would naturally reach for
+const chooseUnit = (
+  kind: UnitKind,
+  system: UnitSystem,
+  baseAmount: number,
+): string => {
+  if (kind === 'mass') {
+    if (system === 'metric') return baseAmount >= 1000 ? 'kg' : 'g';
+    return baseAmount >= G_PER_LB ? 'lb' : 'oz';
+  }
+
+  if (system === 'metric') return baseAmount >= 1000 ? 'l' : 'ml';
+  if (baseAmount < ML_PER_TBSP) return 'tsp';
+  if (baseAmount < ML_PER_CUP / 4) return 'tbsp';
+  return 'cup';
+};
+
+/**
+ * Expresses a quantity in the base unit for its kind (ml or g), so amounts
+ * written in different units can be added together.
+ *
+ * @param quantity The quantity in `unit`
+ * @param unit The unit as entered on the ingredient
+ * @returns The base amount with its kind and measurement system, or undefined
+ * for units we cannot convert
+ */
+export function toBaseQuantity(
+  quantity: number,
+  unit?: string,
+): { amount: number; kind: UnitKind; system: UnitSystem } | undefined {
+  const definition = UNITS[normalizeUnit(unit) || ''];
+  if (!definition) return undefined;
+
+  return {
+    amount: quantity * definition.toBase,
+    kind: definition.kind,
+    system: definition.system,
+  };
+}
+
+/**
+ * Turns a base amount (ml or g) back into a quantity in the unit a cook in
+ * the given measurement system would use.
+ *
+ * Example: fromBaseQuantity(473, 'volume', 'us') is 2 cups
+ *
+ * @param amount The amount in ml (volume) or g (mass)
+ * @param kind Whether the amount is a volume or a mass
+ * @param system The measurement system to express it in
+ * @returns The rounded quantity and its unit
+ */
+export function fromBaseQuantity(
+  amount: number,
+  kind: UnitKind,
+  system: UnitSystem,
+): { quantity: number; unit: string } {
+  const unit = chooseUnit(kind, system, amount);
+  const target = UNITS[unit] as UnitDefinition;
+  return { quantity: roundForUnit(amount / target.toBase, unit), unit };
+}
+
+// Expresses a quantity in the unit a cook in the given system would use,
+// unrounded. Undefined if the unit is unknown or already in that system.
+const toSystem = (
+  quantity: number,
+  unit: string | undefined,
+  system: UnitSystem,
+): { quantity: number; unit: string } | undefined => {
+  const definition = UNITS[normalizeUnit(unit) || ''];
+  if (!definition || definition.system === system) return undefined;
+
+  const baseAmount = quantity * definition.toBase;
+  const targetUnit = chooseUnit(definition.kind, system, baseAmount);
+  const target = UNITS[targetUnit] as UnitDefinition;
+  return { quantity: baseAmount / target.toBase, unit: targetUnit };
+};
+
+/**
+ * Converts an ingredient's quantity and unit into the given measurement
+ * system. Ingredients with unknown units or no quantity are returned as-is.
+ *
+ * @param ingredient The ingredient to convert
+ * @param system The target measurement system
+ * @returns The converted ingredient
+ */
+export function convertIngredient(
+  ingredient: RecipeIngredient,
+  system: UnitSystem,
+): RecipeIngredient {
+  return scaleIngredients([ingredient], 1, system)[0] as RecipeIngredient;
+}
+
+const TEMPERATURE_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(?:°|º|degrees?\s*)\s*(F|C|Fahrenheit|Celsius)\b/gi;
+
+/**
+ * Rewrites oven temperatures in step text ("350°F", "180 degrees C") into the
+ * given measurement system, rounded to the nearest 5 degrees.
+ *
+ * @param text The step text
+ * @param system The target measurement system
+ * @returns The text with temperatures converted
+ */
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  return text.replace(TEMPERATURE_PATTERN, (match, value, scale) => {
+    const isFahrenheit = scale[0].toUpperCase() === 'F';
+    const degrees = parseFloat(value);
+
+    if (system === 'metric' && isFahrenheit) {
+      return `${Math.round(((degrees - 32) * 5) / 9 / 5) * 5}°C`;
+    }
+    if (system === 'us' && !isFahrenheit) {
+      return `${Math.round(((degrees * 9) / 5 + 32) / 5) * 5}°F`;
+    }
+    return match;
+  });
+}
+
+/**
+ * Multiplies every ingredient quantity by a factor, and optionally converts
+ * it into another measurement system, rounding the result once to something
+ * measurable in the unit it ends up in. Rounding in between would compound:
+ * 2 lb scaled by 0.22 would become 1/2 lb and then 225 g rather than 200 g.
+ *
+ * @param ingredients The ingredients to scale
+ * @param factor The multiplier (2 doubles the recipe)
+ * @param units The measurement system to convert into, if any
+ * @returns The scaled ingredients
+ */
+export function scaleIngredients(
+  ingredients: RecipeIngredient[],
+  factor: number,
+  units?: UnitSystem,
+): RecipeIngredient[] {
+  return ingredients.map((ingredient) => {
+    if (ingredient.quantity === undefined) return ingredient;
+
+    const scaled = ingredient.quantity * factor;
+    const converted = units && toSystem(scaled, ingredient.unit, units);
+    if (converted) {
+      return {
+        ...ingredient,
+        quantity: roundForUnit(converted.quantity, converted.unit),
+        unit: converted.unit,
+      };
+    }
+    // Left in the cook's own unit, and unchanged if not scaled either
+    return factor === 1
+      ? ingredient
+      : { ...ingredient, quantity: roundForUnit(scaled, ingredient.unit) };
+  });
+}
+
+/**
+ * Produces a scaled (and optionally unit-converted) copy of a recipe.
+ *
+ * @param recipe The recipe to scale, including ingredients and steps
+ * @param options The scale factor and target measurement system
+ * @returns The scaled recipe with a `scaling` summary attached
+ */
+export function scaleRecipe(
+  recipe: Recipe,
+  options: { factor: number; units?: UnitSystem },
+): Recipe {
+  const { factor, units } = options;
+
+  const ingredients = scaleIngredients(recipe.ingredients || [], factor, units);
+  let steps: RecipeStep[] = recipe.steps || [];
+
+  if (units) {
+    steps = steps.map((step) => ({
+      ...step,
+      text: convertTemperatures(step.text, units),
+    }));
+  }
+
+  const servings = recipe.servings
+    ? Math.round(recipe.servings * factor * 10) / 10
+    : undefined;
+
+  return {
+    ...recipe,
+    ingredients,
+    scaling: { factor, servings, units },
+    servings,
+    steps,
+  };
+}
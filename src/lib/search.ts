@@ -0,0 +1,69 @@
+import type { SearchField } from '@/types/recipe';
+
+// Markers wrapped around matched terms in search snippets. Control characters
+// can't appear in typed recipe text, so snippets never need HTML escaping.
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  files: 'Files',
+  ingredients: 'Ingredients',
+  name: 'Name',
+  notes: 'Notes',
+  tags: 'Tags',
+  url: 'URL',
+};
+
+/**
+ * Quotes a single search term for an SQLite FTS5 query. Words become prefix
+ * matches so "chick" finds "chicken"; phrases must match as written.
+ *
+ * @param text The word or phrase
+ * @param phrase Whether the user quoted the text
+ * @returns The FTS5 term, or an empty string if there is nothing searchable
+ */
+export function toFtsTerm(text: string, phrase: boolean): string {
+  const cleaned = text.replace(/"/g, '').trim();
+
+  // Tokens without letters or digits are dropped by the tokenizer and would
+  // otherwise turn into an empty phrase that matches nothing
+  if (!/[\p{L}\p{N}]/u.test(cleaned)) return '';
+
+  return phrase ? `"${cleaned}"` : `"${cleaned}"*`;
+}
+
+/**
+ * Splits search box text into words and "quoted phrases".
+ *
+ * @param input The raw search text
+ * @returns The terms in order
+ */
+export function splitSearchTerms(
+  input: string,
+): Array<{ text: string; phrase: boolean }> {
+  return [...input.matchAll(/"([^"]*)"?|(\S+)/g)].map((match) => ({
+    phrase: match[1] !== undefined,
+    text: match[1] ?? match[2] ?? '',
+  }));
+}
+
+/**
+ * Splits a highlighted snippet into plain and matched segments for rendering.
+ *
+ * @param snippet The snippet returned with a search result
+ * @returns The segments in order, flagged when they matched the query
+ */
+export function splitHighlights(
+  snippet: string,
+): Array<{ text: string; highlighted: boolean }> {
+  const segments: Array<{ text: string; highlighted: boolean }> = [];
+
+  for (const [index, part] of snippet.split(HIGHLIGHT_START).entries()) {
+    const [matched, rest] =
+      index === 0 ? ['', part] : part.split(HIGHLIGHT_END, 2);
+    if (matched) segments.push({ highlighted: true, text: matched });
+    if (rest) segments.push({ highlighted: false, text: rest });
+  }
+
+  return segments;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  buildShoppingItems,
+  categorizeItem,
+  formatShoppingItem,
+  formatShoppingList,
+} from '@/lib/shopping';
+import type { ShoppingListItem } from '@/types/recipe';
+
+describe('categorizeItem', () => {
+  test.each([
+    ['yellow onions', 'Produce'],
+    ['coconut milk', 'Pantry'],
+    ['whole milk', 'Dairy & Eggs'],
+    ['eggs', 'Dairy & Eggs'],
+    ['red bell pepper', 'Produce'],
+    ['black pepper', 'Spices & Seasonings'],
+    ['fresh oregano', 'Produce'],
+    ['salted butter', 'Dairy & Eggs'],
+    ['frozen peas', 'Frozen'],
+    ['saffron', 'Other'],
+  ])('puts %p in %p', (item, category) => {
+    expect(categorizeItem(item)).toBe(category);
+  });
+});
+
+describe('buildShoppingItems', () => {
+  test('sums convertible amounts into the unit a cook would use', () => {
+    const items = buildShoppingItems([
+      {
+        factor: 1,
+        ingredients: [{ item: 'Olive oil', quantity: 3, unit: 'tsp' }],
+        recipeName: 'Salad',
+      },
+      {
+        factor: 1,
+        ingredients: [{ item: 'olive oil', quantity: 0.25, unit: 'cup' }],
+        recipeName: 'Roast',
+      },
+    ]);
+    expect(items).toEqual([
+      {
+        category: 'Pantry',
+        item: 'Olive oil',
+        manual: false,
+        quantity: 1 / 3,
+        recipes: ['Salad', 'Roast'],
+        unit: 'cup',
+      },
+    ]);
+  });
+
+  test('scales each recipe by its factor before merging', () => {
+    const [flour] = buildShoppingItems([
+      {
+        factor: 2,
+        ingredients: [{ item: 'flour', quantity: 250, unit: 'g' }],
+        recipeName: 'Bread',
+      },
+      {
+        factor: 0.5,
+        ingredients: [{ item: 'flour', quantity: 1, unit: 'kg' }],
+        recipeName: 'Pizza',
+      },
+    ]);
+    expect(flour).toMatchObject({ quantity: 1, unit: 'kg' });
+  });
+
+  test('only sums other units with the same unit', () => {
+    const items = buildShoppingItems([
+      {
+        factor: 1,
+        ingredients: [
+          { item: 'garlic', quantity: 2, unit: 'cloves' },
+          { item: 'tomatoes', quantity: 1, unit: 'can' },
+        ],
+        recipeName: 'Sauce',
+      },
+      {
+        factor: 1,
+        ingredients: [
+          { item: 'garlic', quantity: 3, unit: 'clove' },
+          { item: 'tomato', quantity: 4 },
+        ],
+        recipeName: 'Stew',
+      },
+    ]);
+    expect(
+      items.map(({ item, quantity, unit }) => [item, quantity, unit]),
+    ).toEqual([
+      ['garlic', 5, 'cloves'],
+      ['tomato', 4, undefined],
+      ['tomatoes', 1, 'can'],
+    ]);
+  });
+
+  test('keeps items without an amount apart from measured ones', () => {
+    const items = buildShoppingItems([
+      {
+        factor: 1,
+        ingredients: [
+          { item: 'salt' },
+          { item: 'salt', quantity: 1, unit: 'tsp' },
+          { item: ' ' },
+        ],
+        recipeName: 'Soup',
+      },
+      { factor: 3, ingredients: [{ item: 'Salt' }], recipeName: 'Stew' },
+    ]);
+    expect(items.map(({ quantity, recipes }) => [quantity, recipes])).toEqual([
+      [undefined, ['Soup', 'Stew']],
+      [1, ['Soup']],
+    ]);
+  });
+});
+
+describe('formatShoppingList', () => {
+  const item = (
+    id: number,
+    fields: Partial<ShoppingListItem>,
+  ): ShoppingListItem => ({
+    category: 'Other',
+    checked: false,
+    id,
+    item: '',
+    manual: false,
+    recipes: [],
+    ...fields,
+  });
+  const items = [
+    item(1, { category: 'Pantry', item: 'flour', quantity: 2.5, unit: 'cup' }),
+    item(2, { category: 'Produce', checked: true, item: 'leeks', quantity: 2 }),
+    item(3, { item: 'saffron' }),
+  ];
+
+  test('formats one item', () => {
+    expect(formatShoppingItem(items[0] as ShoppingListItem)).toBe(
+      '2 1/2 cup flour',
+    );
+  });
+
+  test('groups items by aisle as Markdown', () => {
+    expect(formatShoppingList('Week', items, 'markdown')).toBe(
+      [
+        '# Week',
+        '',
+        '## Produce',
+        '- [x] 2 leeks',
+        '',
+        '## Pantry',
+        '- [ ] 2 1/2 cup flour',
+        '',
+        '## Other',
+        '- [ ] saffron',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('groups items by aisle as plain text', () => {
+    expect(formatShoppingList('Week', items, 'text')).toBe(
+      [
+        'Week',
+        '',
+        'PRODUCE',
+        '☑ 2 leeks',
+        '',
+        'PANTRY',
+        '☐ 2 1/2 cup flour',
+        '',
+        'OTHER',
+        '☐ saffron',
+        '',
+      ].join('\n'),
+    );
+  });
+});
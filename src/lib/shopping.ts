@@ -0,0 +1,393 @@
+import {
+  formatQuantity,
+  fromBaseQuantity,
+  toBaseQuantity,
+  type UnitKind,
+} from '@/lib/scaling';
+import type {
+  RecipeIngredient,
+  ShoppingListItem,
+  UnitSystem,
+} from '@/types/recipe';
+
+export type ShoppingItemDraft = Omit<ShoppingListItem, 'id' | 'checked'>;
+
+// The ingredients of one recipe as they should be bought: `factor` scales the
+// recipe's quantities, e.g. 2 when a 4-serving recipe is planned for 8
+export interface ShoppingSource {
+  recipeName: string;
+  ingredients: RecipeIngredient[];
+  factor: number;
+}
+
+// Aisles in the order most grocery stores lay them out
+export const SHOPPING_CATEGORIES = [
+  'Produce',
+  'Meat & Seafood',
+  'Dairy & Eggs',
+  'Bakery',
+  'Pantry',
+  'Spices & Seasonings',
+  'Frozen',
+  'Beverages',
+  'Other',
+] as const;
+
+// Checked in order, so more specific words come before general ones
+// ("coconut milk" is pantry, "milk" is dairy)
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ['Frozen', ['frozen', 'ice cream']],
+  [
+    'Pantry',
+    [
+      'coconut milk',
+      'broth',
+      'stock',
+      'canned',
+      'flour',
+      'sugar',
+      'rice',
+      'pasta',
+      'noodle',
+      'oil',
+      'vinegar',
+      'honey',
+      'syrup',
+      'bean',
+      'lentil',
+      'chickpea',
+      'oat',
+      'baking',
+      'yeast',
+      'cocoa',
+      'chocolate',
+      'sauce',
+      'paste',
+      'nut',
+      'almond',
+      'walnut',
+      'pecan',
+      'raisin',
+      'mustard',
+      'ketchup',
+      'mayonnaise',
+      'jam',
+      'cornstarch',
+      'breadcrumb',
+      'panko',
+      'quinoa',
+      'couscous',
+    ],
+  ],
+  [
+    'Spices & Seasonings',
+    [
+      'salt',
+      'pepper',
+      'cumin',
+      'paprika',
+      'cinnamon',
+      'nutmeg',
+      'oregano',
+      'thyme',
+      'rosemary',
+      'chili powder',
+      'curry',
+      'turmeric',
+      'vanilla',
+      'bay leaf',
+      'bay leaves',
+      'spice',
+      'seasoning',
+    ],
+  ],
+  [
+    'Meat & Seafood',
+    [
+      'chicken',
+      'beef',
+      'pork',
+      'lamb',
+      'turkey',
+      'bacon',
+      'sausage',
+      'ham',
+      'steak',
+      'mince',
+      'fish',
+      'salmon',
+      'tuna',
+      'cod',
+      'shrimp',
+      'prawn',
+      'crab',
+      'mussel',
+      'clam',
+    ],
+  ],
+  [
+    'Dairy & Eggs',
+    ['milk', 'cream', 'butter', 'cheese', 'yogurt', 'yoghurt', 'egg'],
+  ],
+  ['Bakery', ['bread', 'bun', 'roll', 'tortilla', 'pita', 'bagel', 'baguette']],
+  [
+    'Produce',
+    [
+      'onion',
+      'garlic',
+      'shallot',
+      'scallion',
+      'leek',
+      'tomato',
+      'potato',
+      'carrot',
+      'celery',
+      'lettuce',
+      'spinach',
+      'kale',
+      'cabbage',
+      'broccoli',
+      'cauliflower',
+      'zucchini',
+      'squash',
+      'cucumber',
+      'mushroom',
+      'apple',
+      'banana',
+      'lemon',
+      'lime',
+      'orange',
+      'berry',
+      'berries',
+      'avocado',
+      'ginger',
+      'cilantro',
+      'parsley',
+      'basil',
+      'mint',
+      'chive',
+      'herb',
+      'fresh',
+      'bell pepper',
+      'jalapeño',
+      'jalapeno',
+      'chile',
+    ],
+  ],
+  ['Beverages', ['wine', 'beer', 'juice', 'coffee', 'tea', 'soda', 'water']],
+];
+
+/**
+ * Guesses the store aisle for an ingredient from keywords in its name.
+ *
+ * @param item The ingredient name, e.g. "yellow onion"
+ * @returns One of SHOPPING_CATEGORIES, "Other" when nothing matches
+ */
+export function categorizeItem(item: string): string {
+  const name = item.toLowerCase();
+
+  for (const [category, keywords] of CATEGORY_KEYWORDS) {
+    // Bell peppers and fresh herbs are produce even though "pepper" and
+    // "oregano" are spices, so produce phrases win when both match
+    if (
+      category === 'Spices & Seasonings' &&
+      /\b(bell peppers?|fresh)\b/.test(name)
+    ) {
+      continue;
+    }
+    // Whole words only, allowing plurals: "eggs" is an egg, "salted" isn't salt
+    if (
+      keywords.some((keyword) =>
+        new RegExp(`\\b${keyword}(e?s)?\\b`).test(name),
+      )
+    ) {
+      return category;
+    }
+  }
+  return 'Other';
+}
+
+// "Tomatoes" and "tomato" are the same thing to buy
+const toMergeName = (item: string): string =>
+  item
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .map((word) =>
+      word.endsWith('oes')
+        ? word.slice(0, -2)
+        : word.endsWith('s') && !word.endsWith('ss')
+          ? word.slice(0, -1)
+          : word,
+    )
+    .join(' ');
+
+interface MergedItem {
+  item: string;
+  // Total in ml or g for convertible units, otherwise in `unit` as written
+  amount?: number;
+  kind?: UnitKind;
+  system?: UnitSystem;
+  unit?: string;
+  recipes: string[];
+}
+
+/**
+ * Combines the ingredients of several recipes into one list to shop from.
+ * Identical items are merged: amounts in convertible units are summed and
+ * expressed in the unit a cook would use (3 tsp + 1/4 cup is 1/3 cup), while
+ * amounts in units that can't be converted (cloves, cans) are only summed
+ * with the same unit.
+ *
+ * @param sources The recipes to shop for, each with its scaling factor
+ * @returns The merged items, grouped by aisle and sorted by name
+ */
+export function buildShoppingItems(
+  sources: ShoppingSource[],
+): ShoppingItemDraft[] {
+  const merged = new Map<string, MergedItem>();
+
+  for (const { recipeName, ingredients, factor } of sources) {
+    for (const ingredient of ingredients) {
+      const item = ingredient.item.trim();
+      if (!item) continue;
+
+      const quantity =
+        ingredient.quantity !== undefined
+          ? ingredient.quantity * factor
+          : undefined;
+      const base =
+        quantity !== undefined
+          ? toBaseQuantity(quantity, ingredient.unit)
+          : undefined;
+      const unit = ingredient.unit?.trim().toLowerCase() || undefined;
+
+      // Convertible amounts merge by kind, anything else by its written unit,
+      // and items with no amount ("salt to taste") only with each other
+      const key = [
+        toMergeName(item),
+        base ? base.kind : toMergeName(unit ?? ''),
+        quantity === undefined ? 'unmeasured' : 'measured',
+      ].join('|');
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          amount: base ? base.amount : quantity,
+          item,
+          kind: base?.kind,
+          recipes: [recipeName],
+          system: base?.system,
+          unit: base ? undefined : unit,
+        });
+        continue;
+      }
+
+      if (existing.amount !== undefined) {
+        existing.amount += base ? base.amount : (quantity ?? 0);
+      }
+      if (!existing.recipes.includes(recipeName)) {
+        existing.recipes.push(recipeName);
+      }
+    }
+  }
+
+  return [...merged.values()]
+    .map((entry): ShoppingItemDraft => {
+      const { quantity, unit } =
+        entry.kind && entry.system && entry.amount !== undefined
+          ? fromBaseQuantity(entry.amount, entry.kind, entry.system)
+          : {
+              quantity:
+                entry.amount !== undefined
+                  ? Math.round(entry.amount * 100) / 100
+                  : undefined,
+              unit: entry.unit,
+            };
+
+      return {
+        category: categorizeItem(entry.item),
+        item: entry.item,
+        manual: false,
+        quantity,
+        recipes: entry.recipes,
+        unit,
+      };
+    })
+    .sort(compareShoppingItems);
+}
+
+/**
+ * Orders items by aisle, then alphabetically within the aisle.
+ */
+export function compareShoppingItems(
+  a: Pick<ShoppingListItem, 'category' | 'item'>,
+  b: Pick<ShoppingListItem, 'category' | 'item'>,
+): number {
+  const aisle = (category: string) => {
+    const index = SHOPPING_CATEGORIES.indexOf(
+      category as (typeof SHOPPING_CATEGORIES)[number],
+    );
+    return index < 0 ? SHOPPING_CATEGORIES.length : index;
+  };
+
+  return (
+    aisle(a.category) - aisle(b.category) ||
+    a.category.localeCompare(b.category) ||
+    a.item.localeCompare(b.item, undefined, { sensitivity: 'base' })
+  );
+}
+
+/**
+ * Formats an item as it reads on a list, e.g. "2 1/2 cups flour".
+ */
+export function formatShoppingItem(
+  item: Pick<ShoppingListItem, 'item' | 'quantity' | 'unit'>,
+): string {
+  return [
+    item.quantity !== undefined ? formatQuantity(item.quantity, item.unit) : '',
+    item.unit,
+    item.item,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Renders a shopping list for pasting into a notes app or messages.
+ * Markdown uses task-list checkboxes, which most phone notes apps understand;
+ * plain text uses simple ballot boxes.
+ *
+ * @param name The list's title
+ * @param items The items, in any order
+ * @param format 'markdown' or 'text'
+ * @returns The list grouped by aisle
+ */
+export function formatShoppingList(
+  name: string,
+  items: ShoppingListItem[],
+  format: 'markdown' | 'text',
+): string {
+  const lines = [format === 'markdown' ? `# ${name}` : name];
+  let category: string | undefined;
+
+  for (const item of [...items].sort(compareShoppingItems)) {
+    if (item.category !== category) {
+      category = item.category;
+      lines.push(
+        '',
+        format === 'markdown' ? `## ${category}` : category.toUpperCase(),
+      );
+    }
+
+    const text = formatShoppingItem(item);
+    lines.push(
+      format === 'markdown'
+        ? `- [${item.checked ? 'x' : ' '}] ${text}`
+        : `${item.checked ? '☑' : '☐'} ${text}`,
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
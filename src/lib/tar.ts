@@ -0,0 +1,148 @@
+// Minimal ustar reader and writer, enough for library archives: regular
+// files only, names up to 100 bytes
+
+export interface TarEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const BLOCK_SIZE = 512;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const writeString = (
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: string,
+): void => {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+};
+
+// Numeric fields are zero-padded octal followed by a NUL
+const writeOctal = (
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: number,
+): void => {
+  writeString(
+    header,
+    offset,
+    length,
+    `${value.toString(8).padStart(length - 1, '0')}\0`,
+  );
+};
+
+const readString = (
+  block: Uint8Array,
+  offset: number,
+  length: number,
+): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (block: Uint8Array, offset: number, length: number) =>
+  parseInt(readString(block, offset, length).trim() || '0', 8);
+
+const checksum = (header: Uint8Array): number =>
+  header.reduce(
+    // The checksum field itself counts as eight spaces
+    (sum, byte, index) => sum + (index >= 148 && index < 156 ? 32 : byte),
+    0,
+  );
+
+const paddedSize = (size: number): number =>
+  Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+/**
+ * Packs files into a tar archive
+ *
+ * @param entries The files to pack, in order
+ * @returns The archive's bytes
+ * @throws Error if a name doesn't fit in a ustar header
+ */
+export function createTar(entries: TarEntry[]): Uint8Array<ArrayBuffer> {
+  const mtime = Math.floor(Date.now() / 1000);
+  const size =
+    entries.reduce(
+      (total, entry) => total + BLOCK_SIZE + paddedSize(entry.data.length),
+      0,
+    ) +
+    // Two empty blocks mark the end of the archive
+    BLOCK_SIZE * 2;
+  const archive = new Uint8Array(size);
+
+  let offset = 0;
+  for (const { name, data } of entries) {
+    if (encoder.encode(name).length > 100) {
+      throw new Error(`File name too long for tar: ${name}`);
+    }
+
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    writeString(header, 0, 100, name);
+    writeOctal(header, 100, 8, 0o644);
+    writeOctal(header, 108, 8, 0);
+    writeOctal(header, 116, 8, 0);
+    writeOctal(header, 124, 12, data.length);
+    writeOctal(header, 136, 12, mtime);
+    writeString(header, 156, 1, '0');
+    writeString(header, 257, 6, 'ustar\0');
+    writeString(header, 263, 2, '00');
+    writeString(
+      header,
+      148,
+      8,
+      `${checksum(header).toString(8).padStart(6, '0')}\0 `,
+    );
+
+    archive.set(data, offset + BLOCK_SIZE);
+    offset += BLOCK_SIZE + paddedSize(data.length);
+  }
+
+  return archive;
+}
+
+/**
+ * Unpacks the regular files in a tar archive; directories, links and
+ * extended headers are skipped
+ *
+ * @param archive The archive's bytes
+ * @returns The files, in archive order
+ * @throws Error if the archive is truncated or a header is corrupt
+ */
+export function readTar(archive: Uint8Array): TarEntry[] {
+  const entries: TarEntry[] = [];
+
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error('Corrupt tar header');
+    }
+
+    const size = readOctal(header, 124, 12);
+    const start = offset + BLOCK_SIZE;
+    if (start + size > archive.length) {
+      throw new Error('Truncated tar archive');
+    }
+
+    const type = readString(header, 156, 1);
+    if (type === '0' || type === '') {
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      entries.push({
+        data: archive.slice(start, start + size),
+        name: prefix ? `${prefix}/${name}` : name,
+      });
+    }
+    offset = start + paddedSize(size);
+  }
+
+  return entries;
+}
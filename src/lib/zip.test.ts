@@ -0,0 +1,59 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'path';
+import { isZip, readZip } from '@/lib/zip';
+
+// Made with Info-ZIP's zip: a folder, an empty and a deflated file inside it,
+// a stored file, and an archive comment
+const FIXTURES = join(import.meta.dir, 'fixtures', 'zip');
+
+const readFixture = (name: string) => Bun.file(join(FIXTURES, name)).bytes();
+
+describe('isZip', () => {
+  test('checks the signature', async () => {
+    expect(isZip(await readFixture('export.zip'))).toBe(true);
+    expect(isZip(new TextEncoder().encode('PK'))).toBe(false);
+    expect(isZip(new TextEncoder().encode('name,page\n'))).toBe(false);
+  });
+});
+
+describe('readZip', () => {
+  test('unpacks stored and deflated files and skips folders', async () => {
+    const entries = readZip(await readFixture('export.zip'));
+
+    expect(entries.map(({ name }) => name)).toEqual([
+      'recipes/empty.txt',
+      'recipes/soup.txt',
+      'notes.txt',
+    ]);
+    const decoder = new TextDecoder();
+    expect(entries[0]?.data).toHaveLength(0);
+    expect(decoder.decode(entries[1]?.data)).toBe(
+      `Lentil soup\n${'Simmer the lentils. '.repeat(40)}\n`,
+    );
+    expect(decoder.decode(entries[2]?.data)).toBe('Crème brûlée\n');
+  });
+
+  test('reads an archive inside a larger buffer', async () => {
+    const archive = await readFixture('export.zip');
+    const padded = new Uint8Array(archive.length + 8);
+    padded.set(archive, 8);
+    expect(readZip(padded.subarray(8))).toHaveLength(3);
+  });
+
+  test('rejects compression other than deflate', async () => {
+    const archive = await readFixture('bzip2.zip');
+    expect(() => readZip(archive)).toThrow(
+      'Unsupported zip compression method 12',
+    );
+  });
+
+  test('rejects a damaged archive', async () => {
+    const archive = await readFixture('export.zip');
+    expect(() => readZip(archive.subarray(0, 200))).toThrow(
+      'Not a zip archive',
+    );
+    const corrupt = archive.slice();
+    corrupt.fill(0, 100, 300);
+    expect(() => readZip(corrupt)).toThrow(/Corrupt zip/);
+  });
+});
@@ -0,0 +1,100 @@
+// Minimal zip reader, enough for the archives other recipe apps export:
+// stored and deflated entries, no encryption or zip64
+
+import type { TarEntry } from '@/lib/tar';
+
+// Zip entries unpack to the same shape as tar entries
+export type ZipEntry = TarEntry;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// The end record is 22 bytes plus a comment of up to 64 KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const decoder = new TextDecoder();
+
+/**
+ * Checks for the signature every zip file starts with
+ *
+ * @param data The file's bytes
+ * @returns Whether the file looks like a zip archive
+ */
+export function isZip(data: Uint8Array): boolean {
+  return (
+    data.length >= 4 &&
+    new DataView(data.buffer, data.byteOffset).getUint32(0, true) ===
+      LOCAL_FILE_HEADER
+  );
+}
+
+/**
+ * Unpacks the files in a zip archive; directories are skipped
+ *
+ * @param archive The archive's bytes
+ * @returns The files, in the order the archive lists them
+ * @throws Error if the archive is damaged or uses an unsupported compression
+ */
+export function readZip(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength,
+  );
+
+  let end = -1;
+  const searchFrom = Math.max(0, archive.length - MAX_END_RECORD_SEARCH);
+  for (let offset = archive.length - 22; offset >= searchFrom; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    // The local header's own name and extra field lengths can differ from
+    // the central directory's
+    const start =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const compressed = archive.slice(start, start + compressedSize);
+
+    if (method === 0) {
+      entries.push({ data: compressed, name });
+    } else if (method === 8) {
+      entries.push({ data: Bun.inflateSync(compressed), name });
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
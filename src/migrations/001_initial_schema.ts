@@ -0,0 +1,58 @@
+import type { Migration } from './migration';
+
+export const initialSchema: Migration = {
+  name: 'initial_schema',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        page TEXT,
+        url TEXT,
+        notes TEXT,
+        rating INTEGER CHECK (rating >= 1 AND rating <= 5),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipe_tags (
+        recipe_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        PRIMARY KEY (recipe_id, tag_id),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+        FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipe_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        filename TEXT NOT NULL,
+        content BLOB NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS dewey_categories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dewey_code TEXT UNIQUE NOT NULL,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        parent_code TEXT,
+        is_active BOOLEAN DEFAULT 1
+      )
+    `);
+  },
+  version: 1,
+};
@@ -0,0 +1,9 @@
+import { addColumn, type Migration } from './migration';
+
+export const recipeDeweyDecimal: Migration = {
+  name: 'recipe_dewey_decimal',
+  up: (database) => {
+    addColumn(database, 'recipes', 'dewey_decimal', 'TEXT');
+  },
+  version: 2,
+};
@@ -0,0 +1,33 @@
+import { addColumn, type Migration } from './migration';
+
+export const structuredRecipes: Migration = {
+  name: 'structured_recipes',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipe_ingredients (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        quantity REAL,
+        unit TEXT,
+        item TEXT NOT NULL,
+        preparation TEXT,
+        group_name TEXT,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipe_steps (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )
+    `);
+
+    addColumn(database, 'recipes', 'servings', 'REAL');
+  },
+  version: 3,
+};
@@ -0,0 +1,102 @@
+import type { Migration } from './migration';
+
+// SQL that rebuilds one recipe's row in recipe_search from the source tables
+const refreshSearchRowSql = (recipeId: string) => `
+  DELETE FROM recipe_search WHERE rowid = ${recipeId};
+  INSERT INTO recipe_search (rowid, name, tags, ingredients, notes, files, url)
+  SELECT
+    r.id,
+    r.name,
+    (SELECT group_concat(t.name, ' ') FROM recipe_tags rt
+      JOIN tags t ON t.id = rt.tag_id WHERE rt.recipe_id = r.id),
+    (SELECT group_concat(ri.item || ' ' || COALESCE(ri.preparation, ''), ' ')
+      FROM recipe_ingredients ri WHERE ri.recipe_id = r.id),
+    r.notes,
+    (SELECT group_concat(rf.filename, ' ') FROM recipe_files rf
+      WHERE rf.recipe_id = r.id),
+    r.url
+  FROM recipes r WHERE r.id = ${recipeId};
+`;
+
+// Triggers that keep recipe_search in sync with every table it indexes
+const SEARCH_TRIGGERS: Array<{ name: string; event: string; body: string }> = [
+  {
+    body: refreshSearchRowSql('NEW.id'),
+    event: 'AFTER INSERT ON recipes',
+    name: 'recipes_search_insert',
+  },
+  {
+    body: refreshSearchRowSql('NEW.id'),
+    event: 'AFTER UPDATE OF name, notes, url ON recipes',
+    name: 'recipes_search_update',
+  },
+  {
+    body: 'DELETE FROM recipe_search WHERE rowid = OLD.id;',
+    event: 'AFTER DELETE ON recipes',
+    name: 'recipes_search_delete',
+  },
+  {
+    body: refreshSearchRowSql('NEW.recipe_id'),
+    event: 'AFTER INSERT ON recipe_tags',
+    name: 'recipe_tags_search_insert',
+  },
+  {
+    body: refreshSearchRowSql('OLD.recipe_id'),
+    event: 'AFTER DELETE ON recipe_tags',
+    name: 'recipe_tags_search_delete',
+  },
+  {
+    body: refreshSearchRowSql('NEW.recipe_id'),
+    event: 'AFTER INSERT ON recipe_ingredients',
+    name: 'recipe_ingredients_search_insert',
+  },
+  {
+    body: refreshSearchRowSql('NEW.recipe_id'),
+    event: 'AFTER UPDATE ON recipe_ingredients',
+    name: 'recipe_ingredients_search_update',
+  },
+  {
+    body: refreshSearchRowSql('OLD.recipe_id'),
+    event: 'AFTER DELETE ON recipe_ingredients',
+    name: 'recipe_ingredients_search_delete',
+  },
+  {
+    body: refreshSearchRowSql('NEW.recipe_id'),
+    event: 'AFTER INSERT ON recipe_files',
+    name: 'recipe_files_search_insert',
+  },
+  {
+    body: refreshSearchRowSql('OLD.recipe_id'),
+    event: 'AFTER DELETE ON recipe_files',
+    name: 'recipe_files_search_delete',
+  },
+];
+
+export const searchIndex: Migration = {
+  name: 'search_index',
+  up: (database) => {
+    // Full-text index over everything a recipe can be found by
+    database.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS recipe_search USING fts5(
+        name, tags, ingredients, notes, files, url,
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      )
+    `);
+
+    for (const trigger of SEARCH_TRIGGERS) {
+      database.run(
+        `CREATE TRIGGER IF NOT EXISTS ${trigger.name} ${trigger.event} BEGIN ${trigger.body} END`,
+      );
+    }
+
+    // Index the recipes that were added before the index existed
+    database.run('DELETE FROM recipe_search');
+    const recipes = database
+      .query<{ id: number }, []>('SELECT id FROM recipes')
+      .all();
+    for (const { id } of recipes) {
+      database.run(refreshSearchRowSql(String(id)));
+    }
+  },
+  version: 4,
+};
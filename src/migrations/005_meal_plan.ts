@@ -0,0 +1,23 @@
+import type { Migration } from './migration';
+
+export const mealPlan: Migration = {
+  name: 'meal_plan',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS meal_plan_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        slot TEXT NOT NULL,
+        recipe_id INTEGER NOT NULL,
+        servings REAL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )
+    `);
+    database.run(
+      'CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_date ON meal_plan_entries (date)',
+    );
+  },
+  version: 5,
+};
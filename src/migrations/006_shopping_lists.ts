@@ -0,0 +1,33 @@
+import type { Migration } from './migration';
+
+export const shoppingLists: Migration = {
+  name: 'shopping_lists',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS shopping_lists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS shopping_list_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        list_id INTEGER NOT NULL,
+        item TEXT NOT NULL,
+        quantity REAL,
+        unit TEXT,
+        category TEXT NOT NULL,
+        checked BOOLEAN DEFAULT 0,
+        manual BOOLEAN DEFAULT 0,
+        recipes TEXT,
+        FOREIGN KEY (list_id) REFERENCES shopping_lists(id) ON DELETE CASCADE
+      )
+    `);
+    database.run(
+      'CREATE INDEX IF NOT EXISTS idx_shopping_list_items_list_id ON shopping_list_items (list_id)',
+    );
+  },
+  version: 6,
+};
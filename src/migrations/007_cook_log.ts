@@ -0,0 +1,24 @@
+import type { Migration } from './migration';
+
+export const cookLog: Migration = {
+  name: 'cook_log',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS cook_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        recipe_id INTEGER NOT NULL,
+        cooked_on TEXT NOT NULL,
+        rating INTEGER,
+        servings REAL,
+        cooked_by TEXT,
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )
+    `);
+    database.run(
+      'CREATE INDEX IF NOT EXISTS idx_cook_log_recipe_id ON cook_log (recipe_id, cooked_on)',
+    );
+  },
+  version: 7,
+};
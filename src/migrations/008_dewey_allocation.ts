@@ -0,0 +1,60 @@
+import type { Migration } from './migration';
+
+// Recipes filed under the same code are allowed until their duplicates are
+// resolved, so the index is only created on a library that has none;
+// RecipeDB creates it later, once the conflict report comes back empty
+export const DEWEY_UNIQUE_INDEX = 'idx_recipes_dewey_decimal_unique';
+export const CREATE_DEWEY_UNIQUE_INDEX = `CREATE UNIQUE INDEX IF NOT EXISTS ${DEWEY_UNIQUE_INDEX} ON recipes (dewey_decimal) WHERE dewey_decimal IS NOT NULL AND dewey_decimal != ''`;
+
+export const deweyAllocation: Migration = {
+  name: 'dewey_allocation',
+  up: (database) => {
+    // Codes handed to a form before its recipe is saved, so two forms
+    // adding to one category are given different numbers
+    database.run(`
+      CREATE TABLE IF NOT EXISTS dewey_reservations (
+        code TEXT PRIMARY KEY,
+        base_code TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )
+    `);
+    // Highest sequence number ever issued under each category, for the
+    // policy that never reissues the codes of deleted recipes
+    database.run(`
+      CREATE TABLE IF NOT EXISTS dewey_sequences (
+        base_code TEXT PRIMARY KEY,
+        last_sequence INTEGER NOT NULL
+      )
+    `);
+    database.run(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+
+    // Seed the high-water marks from the codes already on the shelves: a
+    // category code, a dot and a number, that isn't a category of its own
+    database.run(`
+      INSERT INTO dewey_sequences (base_code, last_sequence)
+      SELECT c.dewey_code, MAX(CAST(substr(r.dewey_decimal, length(c.dewey_code) + 2) AS INTEGER))
+      FROM recipes r
+      JOIN dewey_categories c
+        ON substr(r.dewey_decimal, 1, length(c.dewey_code) + 1) = c.dewey_code || '.'
+      WHERE substr(r.dewey_decimal, length(c.dewey_code) + 2) != ''
+        AND substr(r.dewey_decimal, length(c.dewey_code) + 2) NOT GLOB '*[^0-9]*'
+        AND r.dewey_decimal NOT IN (SELECT dewey_code FROM dewey_categories)
+      GROUP BY c.dewey_code
+    `);
+
+    const duplicate = database
+      .query(
+        "SELECT 1 FROM recipes WHERE COALESCE(dewey_decimal, '') != '' GROUP BY dewey_decimal HAVING COUNT(*) > 1 LIMIT 1",
+      )
+      .get();
+    if (!duplicate) {
+      database.run(CREATE_DEWEY_UNIQUE_INDEX);
+    }
+  },
+  version: 8,
+};
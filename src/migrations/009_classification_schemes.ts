@@ -0,0 +1,106 @@
+import type { Migration } from './migration';
+
+// The Dewey tree the library already has. Its recipe codes stay in
+// recipes.dewey_decimal; other schemes keep theirs in recipe_classifications.
+export const PRIMARY_SCHEME_ID = 1;
+
+export const classificationSchemes: Migration = {
+  name: 'classification_schemes',
+  up: (database) => {
+    database.run(`
+      CREATE TABLE IF NOT EXISTS classification_schemes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        code_pattern TEXT,
+        sequence_digits INTEGER NOT NULL DEFAULT 3,
+        sequence_policy TEXT NOT NULL DEFAULT 'next'
+      )
+    `);
+    // The sequence policy was a library-wide setting until schemes had
+    // their own
+    database.run(
+      `INSERT INTO classification_schemes (id, name, code_pattern, sequence_policy)
+       VALUES (?, 'Dewey', '^\\d+(\\.\\d+)*$',
+               COALESCE((SELECT value FROM settings WHERE key = 'dewey.sequencePolicy'), 'next'))`,
+      [PRIMARY_SCHEME_ID],
+    );
+    database.run("DELETE FROM settings WHERE key = 'dewey.sequencePolicy'");
+
+    // Codes were unique across the library; now only within a scheme, which
+    // SQLite can only change by rebuilding the tables
+    database.run(`
+      CREATE TABLE dewey_categories_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        scheme_id INTEGER NOT NULL DEFAULT ${PRIMARY_SCHEME_ID},
+        dewey_code TEXT NOT NULL,
+        name TEXT NOT NULL,
+        level INTEGER NOT NULL,
+        parent_code TEXT,
+        is_active BOOLEAN DEFAULT 1,
+        UNIQUE (scheme_id, dewey_code)
+      )
+    `);
+    database.run(`
+      INSERT INTO dewey_categories_new (id, dewey_code, name, level, parent_code, is_active)
+      SELECT id, dewey_code, name, level, parent_code, is_active FROM dewey_categories
+    `);
+    database.run('DROP TABLE dewey_categories');
+    database.run('ALTER TABLE dewey_categories_new RENAME TO dewey_categories');
+
+    database.run(`
+      CREATE TABLE dewey_reservations_new (
+        scheme_id INTEGER NOT NULL DEFAULT ${PRIMARY_SCHEME_ID},
+        code TEXT NOT NULL,
+        base_code TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        PRIMARY KEY (scheme_id, code)
+      )
+    `);
+    database.run(`
+      INSERT INTO dewey_reservations_new (code, base_code, expires_at)
+      SELECT code, base_code, expires_at FROM dewey_reservations
+    `);
+    database.run('DROP TABLE dewey_reservations');
+    database.run(
+      'ALTER TABLE dewey_reservations_new RENAME TO dewey_reservations',
+    );
+
+    database.run(`
+      CREATE TABLE dewey_sequences_new (
+        scheme_id INTEGER NOT NULL DEFAULT ${PRIMARY_SCHEME_ID},
+        base_code TEXT NOT NULL,
+        last_sequence INTEGER NOT NULL,
+        PRIMARY KEY (scheme_id, base_code)
+      )
+    `);
+    database.run(`
+      INSERT INTO dewey_sequences_new (base_code, last_sequence)
+      SELECT base_code, last_sequence FROM dewey_sequences
+    `);
+    database.run('DROP TABLE dewey_sequences');
+    database.run('ALTER TABLE dewey_sequences_new RENAME TO dewey_sequences');
+
+    database.run(`
+      CREATE TABLE IF NOT EXISTS recipe_classifications (
+        recipe_id INTEGER NOT NULL,
+        scheme_id INTEGER NOT NULL,
+        code TEXT NOT NULL,
+        PRIMARY KEY (recipe_id, scheme_id),
+        UNIQUE (scheme_id, code),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE,
+        FOREIGN KEY (scheme_id) REFERENCES classification_schemes(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Every recipe's code in every scheme, so allocation can look codes up
+    // the same way whichever scheme they belong to
+    database.run(`
+      CREATE VIEW IF NOT EXISTS recipe_codes AS
+      SELECT ${PRIMARY_SCHEME_ID} AS scheme_id, id AS recipe_id, dewey_decimal AS code
+      FROM recipes WHERE COALESCE(dewey_decimal, '') != ''
+      UNION ALL
+      SELECT scheme_id, recipe_id, code FROM recipe_classifications
+    `);
+  },
+  version: 9,
+};
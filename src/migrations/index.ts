@@ -0,0 +1,141 @@
+import { Database } from 'bun:sqlite';
+import { existsSync } from 'fs';
+import { initialSchema } from './001_initial_schema';
+import { recipeDeweyDecimal } from './002_recipe_dewey_decimal';
+import { structuredRecipes } from './003_structured_recipes';
+import { searchIndex } from './004_search_index';
+import { mealPlan } from './005_meal_plan';
+import { shoppingLists } from './006_shopping_lists';
+import { cookLog } from './007_cook_log';
+import { deweyAllocation } from './008_dewey_allocation';
+import { classificationSchemes } from './009_classification_schemes';
+import type { Migration } from './migration';
+
+// Every migration in the order it runs. Append new ones at the end with the
+// next version number.
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  recipeDeweyDecimal,
+  structuredRecipes,
+  searchIndex,
+  mealPlan,
+  shoppingLists,
+  cookLog,
+  deweyAllocation,
+  classificationSchemes,
+];
+
+export const LATEST_VERSION = Math.max(
+  ...MIGRATIONS.map(({ version }) => version),
+);
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  pending: Migration[];
+}
+
+export class SchemaTooNewError extends Error {
+  currentVersion: number;
+
+  constructor(currentVersion: number) {
+    super(
+      `Database schema is at version ${currentVersion}, but this build only knows up to version ${LATEST_VERSION}. Upgrade Recipe Manager to open it.`,
+    );
+    this.name = 'SchemaTooNewError';
+    this.currentVersion = currentVersion;
+  }
+}
+
+const ensureMigrationsTable = (database: Database): void => {
+  database.run(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+// Versions already applied; none for a database from before migrations were
+// tracked, whose tables the early migrations adopt as they are
+const readAppliedVersions = (database: Database): number[] => {
+  const tracked = database
+    .query(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'",
+    )
+    .get();
+  if (!tracked) {
+    return [];
+  }
+  return database
+    .query<{ version: number }, []>('SELECT version FROM schema_migrations')
+    .all()
+    .map(({ version }) => version);
+};
+
+const toStatus = (applied: number[]): SchemaStatus => ({
+  currentVersion: Math.max(0, ...applied),
+  latestVersion: LATEST_VERSION,
+  pending: MIGRATIONS.filter(({ version }) => !applied.includes(version)),
+});
+
+/**
+ * Reports which migrations a database still needs, without changing it
+ *
+ * @param filename Path of the SQLite database file
+ * @returns The database's version and the migrations not yet applied
+ */
+export function getSchemaStatus(filename: string): SchemaStatus {
+  if (!existsSync(filename)) {
+    return toStatus([]);
+  }
+
+  const database = new Database(filename, { readonly: true });
+  try {
+    return toStatus(readAppliedVersions(database));
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Brings a database up to the latest schema. Each migration runs in its own
+ * transaction, so a failure leaves the database at the last good version.
+ *
+ * Runs synchronously so the server never starts against a half-migrated
+ * database.
+ *
+ * @param filename Path of the SQLite database file
+ * @returns The migrations that were applied
+ * @throws SchemaTooNewError if the database was written by a newer build
+ */
+export function migrateDatabase(filename: string): Migration[] {
+  const database = new Database(filename, { create: true });
+  try {
+    const { currentVersion, pending } = toStatus(readAppliedVersions(database));
+    if (currentVersion > LATEST_VERSION) {
+      throw new SchemaTooNewError(currentVersion);
+    }
+
+    ensureMigrationsTable(database);
+    for (const migration of pending) {
+      try {
+        database.transaction(() => {
+          migration.up(database);
+          database.run(
+            'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+            [migration.version, migration.name],
+          );
+        })();
+      } catch (error) {
+        throw new Error(
+          `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+    return pending;
+  } finally {
+    database.close();
+  }
+}
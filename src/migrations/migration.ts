@@ -0,0 +1,25 @@
+import type { Database } from 'bun:sqlite';
+
+// One step in the schema's history. Migrations run in version order, each
+// inside its own transaction, and are never edited once released.
+export interface Migration {
+  name: string;
+  up: (database: Database) => void;
+  version: number;
+}
+
+// Adds a column unless it is already there. Databases from before migrations
+// were tracked may already have it; any other failure is a real error.
+export const addColumn = (
+  database: Database,
+  table: string,
+  column: string,
+  definition: string,
+): void => {
+  const columns = database
+    .query<{ name: string }, []>(`PRAGMA table_info(${table})`)
+    .all();
+  if (!columns.some(({ name }) => name === column)) {
+    database.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
@@ -1,6 +1,75 @@
 import { create } from 'zustand';
 import { RecipeDB } from '@/lib/database';
-import type { DeweyCategory, Recipe } from '@/types/recipe';
+import { QueryParseError } from '@/lib/query';
+import { compareShoppingItems } from '@/lib/shopping';
+import type {
+  ArchiveImportMode,
+  ArchiveImportSummary,
+  ClassificationScheme,
+  CookLogEntry,
+  CSVColumnMapping,
+  CSVImportResult,
+  DeweyCategory,
+  DeweyConflictReport,
+  DeweyImportResult,
+  DeweyImportStrategy,
+  DeweyRenumbering,
+  DeweyRepairFix,
+  DeweyRepairResult,
+  DeweyReservation,
+  DeweyShelfCategory,
+  DeweySubtreeMove,
+  DeweySubtreeTarget,
+  DeweyValidationReport,
+  ImportedRecipe,
+  Library,
+  MealPlanEntry,
+  QrCodeContent,
+  QrCodeFormat,
+  RandomRecipeOptions,
+  Recipe,
+  RecipeExportFormat,
+  RecipeExportOptions,
+  RecipeFileFormat,
+  RecipeFileImportResult,
+  RecipeSort,
+  RecipeWalkOrder,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListRequest,
+  ShoppingListSummary,
+  Snapshot,
+  UnitSystem,
+} from '@/types/recipe';
+
+const PAGE_SIZE = 50;
+
+// The primary scheme's categories are kept in deweyCategories; the others'
+// in schemeCategories, by scheme id
+const isOtherScheme = (schemes: ClassificationScheme[], schemeId?: number) =>
+  schemes.some((scheme) => scheme.id === schemeId && !scheme.isPrimary);
+
+// Resets everything loaded from the database, for when the database itself
+// changes underneath the page
+const UNLOADED_LIBRARY = {
+  classificationSchemes: [],
+  cookLog: [],
+  deweyCategories: [],
+  deweyCategoriesLoaded: false,
+  mealPlanEntries: [],
+  nextCursor: null,
+  query: '',
+  queryError: null,
+  recipes: [],
+  schemeCategories: {},
+  searchTerm: '',
+  selectedTags: [],
+  shoppingList: null,
+  shoppingLists: [],
+  snapshots: [],
+  tags: [],
+  totalRecipes: 0,
+};
 
 interface RecipeStore {
   // State
@@ -8,6 +77,7 @@ interface RecipeStore {
   tags: string[];
   deweyCategories: DeweyCategory[];
   loading: boolean;
+  loadingMore: boolean;
   searching: boolean;
   error: string | null;
   deweyCategoriesLoaded: boolean;
@@ -16,10 +86,19 @@ interface RecipeStore {
   // Search state
   searchTerm: string;
   selectedTags: string[];
+  query: string;
+  queryError: { message: string; position: number } | null;
+  sort: RecipeSort | null;
+
+  // Pagination state
+  totalRecipes: number;
+  nextCursor: string | null;
 
   // Actions
   setSearchTerm: (term: string) => void;
   setSelectedTags: (tags: string[]) => void;
+  setQuery: (query: string) => void;
+  setSort: (sort: RecipeSort | null) => void;
 
   // Recipe operations
   loadRecipes: (
@@ -27,16 +106,31 @@ interface RecipeStore {
     selectedTags?: string[],
     isSearching?: boolean,
   ) => Promise<void>;
+  loadMoreRecipes: () => Promise<void>;
   getAllRecipesForExport: () => Promise<Recipe[]>;
+  findRecipes: (searchTerm: string) => Promise<Recipe[]>;
+  // Every recipe matching a query, in Dewey order; throws QueryParseError
+  findRecipesByQuery: (query: string) => Promise<Recipe[]>;
+  pickRandomRecipes: (options: RandomRecipeOptions) => Promise<Recipe[]>;
   addRecipe: (recipe: Omit<Recipe, 'id' | 'createdAt'>) => Promise<Recipe>;
   updateRecipe: (
     id: string | number,
     updates: Partial<Recipe>,
-  ) => Promise<void>;
+  ) => Promise<Recipe>;
   deleteRecipe: (id: string | number) => Promise<void>;
   getRecipeById: (id: string | number) => Promise<Recipe | null>;
-  getNextRecipe: (currentId: string | number) => Promise<Recipe | null>;
-  getPreviousRecipe: (currentId: string | number) => Promise<Recipe | null>;
+  getNextRecipe: (
+    currentId: string | number,
+    order?: RecipeWalkOrder,
+  ) => Promise<Recipe | null>;
+  getPreviousRecipe: (
+    currentId: string | number,
+    order?: RecipeWalkOrder,
+  ) => Promise<Recipe | null>;
+  getScaledRecipe: (
+    id: string | number,
+    options: { factor?: number; servings?: number; units?: UnitSystem },
+  ) => Promise<Recipe | null>;
 
   // Tag operations
   loadTags: () => Promise<void>;
@@ -51,9 +145,33 @@ interface RecipeStore {
     rating: number,
   ) => Promise<void>;
 
-  // Dewey operations
+  // Dewey operations; those taking a schemeId default to the primary scheme
   loadDeweyCategories: () => Promise<void>;
-  getNextDeweySequence: (baseCode: string) => Promise<string>;
+  getNextDeweySequence: (
+    baseCode: string,
+    schemeId?: number,
+  ) => Promise<string>;
+  reserveDeweyCode: (
+    baseCode: string,
+    schemeId?: number,
+  ) => Promise<DeweyReservation>;
+  releaseDeweyReservation: (code: string, schemeId?: number) => Promise<void>;
+  getDeweyConflicts: () => Promise<DeweyConflictReport>;
+  getDeweyShelf: () => Promise<DeweyShelfCategory[]>;
+  getShelfRecipes: (deweyCode: string) => Promise<Recipe[]>;
+  resolveDeweyConflicts: () => Promise<DeweyRenumbering[]>;
+  moveDeweySubtree: (
+    id: number,
+    target: DeweySubtreeTarget,
+    dryRun?: boolean,
+  ) => Promise<DeweySubtreeMove>;
+  validateDewey: () => Promise<DeweyValidationReport>;
+  repairDewey: (fixes: DeweyRepairFix[]) => Promise<DeweyRepairResult>;
+  importDeweyCategories: (
+    file: File,
+    options: { strategy: DeweyImportStrategy; dryRun: boolean },
+    schemeId?: number,
+  ) => Promise<DeweyImportResult>;
   addDeweyCategory: (
     category: Omit<DeweyCategory, 'id'>,
   ) => Promise<DeweyCategory>;
@@ -63,6 +181,96 @@ interface RecipeStore {
   ) => Promise<DeweyCategory>;
   deleteDeweyCategory: (id: number) => Promise<void>;
 
+  // Classification scheme operations
+  classificationSchemes: ClassificationScheme[];
+  schemeCategories: Record<number, DeweyCategory[]>;
+  loadClassificationSchemes: () => Promise<void>;
+  loadSchemeCategories: (schemeId: number) => Promise<void>;
+  addClassificationScheme: (
+    scheme: Omit<ClassificationScheme, 'id' | 'isPrimary'>,
+  ) => Promise<ClassificationScheme>;
+  updateClassificationScheme: (
+    id: number,
+    updates: Partial<Omit<ClassificationScheme, 'id' | 'isPrimary'>>,
+  ) => Promise<ClassificationScheme>;
+  deleteClassificationScheme: (id: number) => Promise<void>;
+
+  // Meal plan operations
+  mealPlanEntries: MealPlanEntry[];
+  loadMealPlan: (startDate: string, endDate: string) => Promise<void>;
+  addMealPlanEntry: (
+    entry: Omit<MealPlanEntry, 'id' | 'recipeName' | 'deweyDecimal'>,
+  ) => Promise<MealPlanEntry>;
+  updateMealPlanEntry: (
+    id: number,
+    updates: Partial<
+      Pick<MealPlanEntry, 'date' | 'slot' | 'servings' | 'note'>
+    >,
+  ) => Promise<void>;
+  deleteMealPlanEntry: (id: number) => Promise<void>;
+
+  // Cook log operations, for the recipe being viewed
+  cookLog: CookLogEntry[];
+  loadCookLog: (recipeId: number) => Promise<void>;
+  addCookLogEntry: (entry: Omit<CookLogEntry, 'id'>) => Promise<CookLogEntry>;
+  updateCookLogEntry: (
+    id: number,
+    updates: Partial<Omit<CookLogEntry, 'id' | 'recipeId'>>,
+  ) => Promise<void>;
+  deleteCookLogEntry: (id: number) => Promise<void>;
+
+  // Shopping list operations
+  shoppingLists: ShoppingListSummary[];
+  shoppingList: ShoppingList | null;
+  loadShoppingLists: () => Promise<void>;
+  loadShoppingList: (id: number) => Promise<void>;
+  createShoppingList: (request: ShoppingListRequest) => Promise<ShoppingList>;
+  deleteShoppingList: (id: number) => Promise<void>;
+  downloadShoppingList: (
+    id: number,
+    format: 'markdown' | 'text',
+  ) => Promise<void>;
+  addShoppingListItem: (
+    listId: number,
+    item: Pick<ShoppingListItem, 'item' | 'quantity' | 'unit'>,
+  ) => Promise<void>;
+  updateShoppingListItem: (
+    listId: number,
+    itemId: number,
+    updates: Partial<
+      Pick<
+        ShoppingListItem,
+        'item' | 'quantity' | 'unit' | 'category' | 'checked'
+      >
+    >,
+  ) => Promise<void>;
+  deleteShoppingListItem: (listId: number, itemId: number) => Promise<void>;
+
+  // Library operations
+  libraries: Library[];
+  activeLibrary: string | null;
+  loadLibraries: () => Promise<void>;
+  switchLibrary: (id: string) => Promise<void>;
+
+  // Backup operations, for the active library
+  snapshots: Snapshot[];
+  loadSnapshots: () => Promise<void>;
+  createSnapshot: () => Promise<void>;
+  deleteSnapshot: (name: string) => Promise<void>;
+  downloadSnapshot: (name: string) => Promise<void>;
+  downloadBackup: () => Promise<void>;
+  restoreSnapshot: (name: string) => Promise<void>;
+  restoreBackup: (file: File) => Promise<void>;
+  exportLibrary: () => Promise<void>;
+  exportRecipes: (
+    format: RecipeExportFormat,
+    options: RecipeExportOptions,
+  ) => Promise<void>;
+  importLibrary: (
+    file: File,
+    mode: ArchiveImportMode,
+  ) => Promise<ArchiveImportSummary>;
+
   // Tag operations with counts
   getTagsWithCounts: () => Promise<Array<{ name: string; count: number }>>;
 
@@ -71,14 +279,32 @@ interface RecipeStore {
   deleteFile: (fileId: number, recipeId: string | number) => Promise<void>;
   downloadFile: (fileId: number) => Promise<void>;
 
+  // QR code operations, for labels that link back to a recipe
+  getQrCodeUrl: (
+    id: string | number,
+    options?: { content?: QrCodeContent; format?: QrCodeFormat },
+  ) => string;
+  downloadQrCode: (
+    id: string | number,
+    options: { content?: QrCodeContent; format?: QrCodeFormat },
+  ) => Promise<void>;
+
   // CSV operations
-  uploadCSV: (file: File) => Promise<{
-    success: boolean;
-    importedCount: number;
-    updatedCount: number;
-    errorCount: number;
-    errors: string[];
-  }>;
+  uploadCSV: (
+    file: File,
+    options: { mapping?: CSVColumnMapping; dryRun: boolean },
+  ) => Promise<CSVImportResult>;
+
+  // Import operations
+  importRecipeFile: (
+    file: File,
+    options: { format?: RecipeFileFormat; assignDewey: boolean },
+  ) => Promise<RecipeFileImportResult>;
+  importRecipeFromHtml: (source: {
+    url?: string;
+    html?: string;
+    file?: File;
+  }) => Promise<ImportedRecipe>;
 
   // Utility
   clearError: () => void;
@@ -86,15 +312,73 @@ interface RecipeStore {
 }
 
 export const useRecipeStore = create<RecipeStore>((set, get) => ({
+  activeLibrary: null,
+  addClassificationScheme: async (scheme) => {
+    try {
+      const newScheme = await RecipeDB.addClassificationScheme(scheme);
+      set({
+        classificationSchemes: [...get().classificationSchemes, newScheme],
+      });
+      return newScheme;
+    } catch (error) {
+      console.error('Failed to add scheme:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to add scheme',
+      });
+      throw error;
+    }
+  },
+  addCookLogEntry: async (entry) => {
+    try {
+      const newEntry = await RecipeDB.addCookLogEntry(entry);
+      set({
+        cookLog: [newEntry, ...get().cookLog].sort((a, b) =>
+          b.date.localeCompare(a.date),
+        ),
+      });
+      return newEntry;
+    } catch (error) {
+      console.error('Failed to log cooking:', error);
+      set({ error: 'Failed to log cooking' });
+      throw error;
+    }
+  },
   addDeweyCategory: async (category) => {
     try {
       const newCategory = await RecipeDB.addDeweyCategory(category);
-      const { deweyCategories } = get();
-      set({ deweyCategories: [...deweyCategories, newCategory] });
+      const { classificationSchemes, deweyCategories, schemeCategories } =
+        get();
+      if (isOtherScheme(classificationSchemes, newCategory.schemeId)) {
+        const schemeId = newCategory.schemeId as number;
+        set({
+          schemeCategories: {
+            ...schemeCategories,
+            [schemeId]: [...(schemeCategories[schemeId] ?? []), newCategory],
+          },
+        });
+      } else {
+        set({ deweyCategories: [...deweyCategories, newCategory] });
+      }
       return newCategory;
     } catch (error) {
       console.error('Failed to add Dewey category:', error);
-      set({ error: 'Failed to add Dewey category' });
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to add Dewey category',
+      });
+      throw error;
+    }
+  },
+  addMealPlanEntry: async (entry) => {
+    try {
+      const newEntry = await RecipeDB.addMealPlanEntry(entry);
+      set({ mealPlanEntries: [...get().mealPlanEntries, newEntry] });
+      return newEntry;
+    } catch (error) {
+      console.error('Failed to add to meal plan:', error);
+      set({ error: 'Failed to add to meal plan' });
       throw error;
     }
   },
@@ -104,7 +388,7 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       const newRecipe = await RecipeDB.addRecipe(recipe);
 
       // Optimistic update - add to current recipes if it matches current search
-      const { searchTerm, selectedTags, recipes } = get();
+      const { searchTerm, selectedTags, query, recipes } = get();
       const matchesSearch =
         !searchTerm ||
         newRecipe.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -113,8 +397,13 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
         selectedTags.length === 0 ||
         selectedTags.every((tag) => newRecipe.tags.includes(tag));
 
-      if (matchesSearch && matchesTags) {
-        set({ loading: false, recipes: [newRecipe, ...recipes] });
+      // An advanced query can't be checked client-side; wait for a reload
+      if (!query && matchesSearch && matchesTags) {
+        set({
+          loading: false,
+          recipes: [newRecipe, ...recipes],
+          totalRecipes: get().totalRecipes + 1,
+        });
       } else {
         set({ loading: false });
       }
@@ -131,14 +420,98 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
   },
 
   // Utility
+  addShoppingListItem: async (listId, item) => {
+    try {
+      const newItem = await RecipeDB.addShoppingListItem(listId, item);
+      const { shoppingList } = get();
+      if (shoppingList?.id === listId) {
+        set({
+          shoppingList: {
+            ...shoppingList,
+            items: [...shoppingList.items, newItem].sort(compareShoppingItems),
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to add item:', error);
+      set({ error: 'Failed to add item' });
+      throw error;
+    }
+  },
+  classificationSchemes: [],
   clearError: () => set({ error: null }),
 
+  cookLog: [],
+
+  createShoppingList: async (request) => {
+    try {
+      const list = await RecipeDB.createShoppingList(request);
+      set({ shoppingList: list });
+      return list;
+    } catch (error) {
+      console.error('Failed to create shopping list:', error);
+      set({ error: 'Failed to create shopping list' });
+      throw error;
+    }
+  },
+  createSnapshot: async () => {
+    try {
+      const snapshot = await RecipeDB.createSnapshot();
+      set({ snapshots: [snapshot, ...get().snapshots] });
+    } catch (error) {
+      console.error('Failed to create snapshot:', error);
+      set({ error: 'Failed to create snapshot' });
+      throw error;
+    }
+  },
+
+  deleteClassificationScheme: async (id) => {
+    try {
+      await RecipeDB.deleteClassificationScheme(id);
+      const { [id]: _deleted, ...schemeCategories } = get().schemeCategories;
+      set({
+        classificationSchemes: get().classificationSchemes.filter(
+          (scheme) => scheme.id !== id,
+        ),
+        schemeCategories,
+      });
+    } catch (error) {
+      console.error('Failed to delete scheme:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to delete scheme',
+      });
+      throw error;
+    }
+  },
+
+  deleteCookLogEntry: async (id) => {
+    const { cookLog } = get();
+    try {
+      // Optimistic update
+      set({ cookLog: cookLog.filter((entry) => entry.id !== id) });
+      await RecipeDB.deleteCookLogEntry(id);
+    } catch (error) {
+      console.error('Failed to remove cook log entry:', error);
+      set({ cookLog, error: 'Failed to remove cook log entry' });
+      throw error;
+    }
+  },
+
   deleteDeweyCategory: async (id) => {
     try {
       await RecipeDB.deleteDeweyCategory(id);
-      const { deweyCategories } = get();
+      const { deweyCategories, schemeCategories } = get();
       const filteredCategories = deweyCategories.filter((cat) => cat.id !== id);
-      set({ deweyCategories: filteredCategories });
+      set({
+        deweyCategories: filteredCategories,
+        schemeCategories: Object.fromEntries(
+          Object.entries(schemeCategories).map(([schemeId, categories]) => [
+            schemeId,
+            categories.filter((cat) => cat.id !== id),
+          ]),
+        ),
+      });
     } catch (error) {
       console.error('Failed to delete Dewey category:', error);
       set({ error: 'Failed to delete Dewey category' });
@@ -165,12 +538,30 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
+  deleteMealPlanEntry: async (id) => {
+    const { mealPlanEntries } = get();
+    try {
+      // Optimistic update
+      set({
+        mealPlanEntries: mealPlanEntries.filter((entry) => entry.id !== id),
+      });
+      await RecipeDB.deleteMealPlanEntry(id);
+    } catch (error) {
+      console.error('Failed to remove meal plan entry:', error);
+      set({ error: 'Failed to remove meal plan entry', mealPlanEntries });
+      throw error;
+    }
+  },
+
   deleteRecipe: async (id) => {
     try {
       // Optimistic update
-      const { recipes } = get();
+      const { recipes, totalRecipes } = get();
       const filteredRecipes = recipes.filter((recipe) => recipe.id !== id);
-      set({ recipes: filteredRecipes });
+      set({
+        recipes: filteredRecipes,
+        totalRecipes: totalRecipes - (recipes.length - filteredRecipes.length),
+      });
 
       await RecipeDB.deleteRecipe(id);
 
@@ -184,9 +575,69 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       throw error;
     }
   },
+  deleteShoppingList: async (id) => {
+    const { shoppingLists } = get();
+    try {
+      // Optimistic update
+      set({ shoppingLists: shoppingLists.filter((list) => list.id !== id) });
+      await RecipeDB.deleteShoppingList(id);
+      if (get().shoppingList?.id === id) {
+        set({ shoppingList: null });
+      }
+    } catch (error) {
+      console.error('Failed to delete shopping list:', error);
+      set({ error: 'Failed to delete shopping list', shoppingLists });
+      throw error;
+    }
+  },
+
+  deleteShoppingListItem: async (listId, itemId) => {
+    const { shoppingList } = get();
+    try {
+      // Optimistic update
+      if (shoppingList?.id === listId) {
+        set({
+          shoppingList: {
+            ...shoppingList,
+            items: shoppingList.items.filter((item) => item.id !== itemId),
+          },
+        });
+      }
+      await RecipeDB.deleteShoppingListItem(listId, itemId);
+    } catch (error) {
+      console.error('Failed to remove item:', error);
+      set({ error: 'Failed to remove item', shoppingList });
+      throw error;
+    }
+  },
+  deleteSnapshot: async (name) => {
+    const { snapshots } = get();
+    try {
+      // Optimistic update
+      set({
+        snapshots: snapshots.filter((snapshot) => snapshot.name !== name),
+      });
+      await RecipeDB.deleteSnapshot(name);
+    } catch (error) {
+      console.error('Failed to delete snapshot:', error);
+      set({ error: 'Failed to delete snapshot', snapshots });
+      throw error;
+    }
+  },
   deweyCategories: [],
   deweyCategoriesLoaded: false,
   deweyCategoriesLoading: false,
+  downloadBackup: async () => {
+    try {
+      await RecipeDB.downloadBackup();
+      // The backup is also kept as a snapshot
+      await get().loadSnapshots();
+    } catch (error) {
+      console.error('Failed to back up the library:', error);
+      set({ error: 'Failed to back up the library' });
+      throw error;
+    }
+  },
 
   downloadFile: async (fileId) => {
     try {
@@ -197,8 +648,90 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       throw error;
     }
   },
+  downloadQrCode: async (id, options) => {
+    try {
+      await RecipeDB.downloadQrCode(id, options);
+    } catch (error) {
+      console.error('Failed to download QR code:', error);
+      set({ error: 'Failed to download QR code' });
+      throw error;
+    }
+  },
+  downloadShoppingList: async (id, format) => {
+    try {
+      await RecipeDB.downloadShoppingList(id, format);
+    } catch (error) {
+      console.error('Failed to download shopping list:', error);
+      set({ error: 'Failed to download shopping list' });
+      throw error;
+    }
+  },
+  downloadSnapshot: async (name) => {
+    try {
+      await RecipeDB.downloadSnapshot(name);
+    } catch (error) {
+      console.error('Failed to download snapshot:', error);
+      set({ error: 'Failed to download snapshot' });
+      throw error;
+    }
+  },
   error: null,
 
+  // Search without touching the home page's recipe list, for pickers
+  exportLibrary: async () => {
+    try {
+      await RecipeDB.exportLibrary();
+    } catch (error) {
+      console.error('Failed to export the library:', error);
+      set({ error: 'Failed to export the library' });
+      throw error;
+    }
+  },
+  exportRecipes: async (format, options) => {
+    try {
+      await RecipeDB.exportRecipes(format, options);
+    } catch (error) {
+      console.error('Failed to export recipes:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to export recipes',
+      });
+      throw error;
+    }
+  },
+  findRecipes: async (searchTerm) => {
+    try {
+      const page = await RecipeDB.listRecipes({
+        limit: 20,
+        search: searchTerm,
+      });
+      return page.recipes;
+    } catch (error) {
+      console.error('Failed to find recipes:', error);
+      return [];
+    }
+  },
+  findRecipesByQuery: async (query) => {
+    const recipes: Recipe[] = [];
+    let cursor: string | undefined;
+    try {
+      do {
+        const page = await RecipeDB.listRecipes({
+          cursor,
+          limit: 500,
+          query,
+          sort: 'dewey',
+        });
+        recipes.push(...page.recipes);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return recipes;
+    } catch (error) {
+      console.error('Failed to find recipes:', error);
+      throw error;
+    }
+  },
+
   getAllRecipesForExport: async () => {
     try {
       return await RecipeDB.getAllRecipes();
@@ -209,9 +742,29 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
-  getNextDeweySequence: async (baseCode) => {
+  getDeweyConflicts: async () => {
+    try {
+      return await RecipeDB.getDeweyConflicts();
+    } catch (error) {
+      console.error('Failed to check for duplicate Dewey codes:', error);
+      set({ error: 'Failed to check for duplicate Dewey codes' });
+      throw error;
+    }
+  },
+
+  getDeweyShelf: async () => {
     try {
-      return await RecipeDB.getNextDeweySequence(baseCode);
+      return await RecipeDB.getDeweyShelf();
+    } catch (error) {
+      console.error('Failed to load the shelf:', error);
+      set({ error: 'Failed to load the shelf' });
+      throw error;
+    }
+  },
+
+  getNextDeweySequence: async (baseCode, schemeId) => {
+    try {
+      return await RecipeDB.getNextDeweySequence(baseCode, schemeId);
     } catch (error) {
       console.error('Failed to get next Dewey sequence:', error);
       set({ error: 'Failed to get next Dewey sequence' });
@@ -219,9 +772,9 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
-  getNextRecipe: async (currentId) => {
+  getNextRecipe: async (currentId, order) => {
     try {
-      return await RecipeDB.getNextRecipe(currentId);
+      return await RecipeDB.getNextRecipe(currentId, order);
     } catch (error) {
       console.error('Failed to get next recipe:', error);
       set({ error: 'Failed to load next recipe' });
@@ -229,9 +782,9 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
-  getPreviousRecipe: async (currentId) => {
+  getPreviousRecipe: async (currentId, order) => {
     try {
-      return await RecipeDB.getPreviousRecipe(currentId);
+      return await RecipeDB.getPreviousRecipe(currentId, order);
     } catch (error) {
       console.error('Failed to get previous recipe:', error);
       set({ error: 'Failed to load previous recipe' });
@@ -239,6 +792,8 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
+  getQrCodeUrl: (id, options) => RecipeDB.getQrCodeUrl(id, options),
+
   getRecipeById: async (id) => {
     set({ error: null, loading: true });
     try {
@@ -252,7 +807,27 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
+  getScaledRecipe: async (id, options) => {
+    try {
+      return await RecipeDB.getScaledRecipe(id, options);
+    } catch (error) {
+      // Not stored in `error`: a bad scale request shouldn't replace the page
+      console.error('Failed to scale recipe:', error);
+      throw error;
+    }
+  },
+
   // Tag operations with counts
+  getShelfRecipes: async (deweyCode) => {
+    try {
+      return await RecipeDB.getShelfRecipes(deweyCode);
+    } catch (error) {
+      console.error('Failed to load the recipes on the shelf:', error);
+      set({ error: 'Failed to load the recipes on the shelf' });
+      throw error;
+    }
+  },
+
   getTagsWithCounts: async () => {
     try {
       return await RecipeDB.getTagsWithCounts();
@@ -263,6 +838,93 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
+  // Import operations
+  importDeweyCategories: async (file, options, schemeId) => {
+    try {
+      const result = await RecipeDB.importDeweyCSV(file, options, schemeId);
+      if (!options.dryRun) {
+        if (isOtherScheme(get().classificationSchemes, schemeId)) {
+          await get().loadSchemeCategories(schemeId as number);
+        } else {
+          set({ deweyCategoriesLoaded: false });
+          await get().loadDeweyCategories();
+        }
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to import Dewey categories:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to import Dewey categories',
+      });
+      throw error;
+    }
+  },
+  importLibrary: async (file, mode) => {
+    try {
+      const summary = await RecipeDB.importLibrary(file, mode);
+      set(UNLOADED_LIBRARY);
+      // Replacing the library snapshots it first
+      await get().loadSnapshots();
+      return summary;
+    } catch (error) {
+      console.error('Failed to import the library:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to import the library',
+      });
+      throw error;
+    }
+  },
+  importRecipeFile: async (file, options) => {
+    set({ error: null });
+    try {
+      const result = await RecipeDB.importRecipeFile(file, options);
+      await get().loadRecipes(get().searchTerm, get().selectedTags);
+      return result;
+    } catch (error) {
+      console.error('Failed to import recipes:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to import recipes',
+      });
+      throw error;
+    }
+  },
+  importRecipeFromHtml: async (source) => {
+    try {
+      return await RecipeDB.importRecipeFromHtml(source);
+    } catch (error) {
+      console.error('Failed to import recipe from page:', error);
+      set({ error: 'Failed to import recipe from page' });
+      throw error;
+    }
+  },
+
+  libraries: [],
+  loadClassificationSchemes: async () => {
+    try {
+      set({ classificationSchemes: await RecipeDB.getClassificationSchemes() });
+    } catch (error) {
+      console.error('Failed to load classification schemes:', error);
+      set({ error: 'Failed to load classification schemes' });
+    }
+  },
+
+  loadCookLog: async (recipeId) => {
+    try {
+      const entries = await RecipeDB.getCookLog(recipeId);
+      set({ cookLog: entries });
+    } catch (error) {
+      console.error('Failed to load cook log:', error);
+      set({ error: 'Failed to load cook log' });
+    }
+  },
+
   // Dewey operations
   loadDeweyCategories: async () => {
     const { deweyCategoriesLoaded, deweyCategoriesLoading } = get();
@@ -289,8 +951,63 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
   loading: false,
+  loadingMore: false,
 
   // Recipe operations
+  loadLibraries: async () => {
+    try {
+      const { active, libraries } = await RecipeDB.getLibraries();
+      // A tab that has switched library stays on it
+      set({ activeLibrary: get().activeLibrary ?? active, libraries });
+    } catch (error) {
+      console.error('Failed to load libraries:', error);
+      set({ error: 'Failed to load libraries' });
+    }
+  },
+
+  loadMealPlan: async (startDate, endDate) => {
+    try {
+      const entries = await RecipeDB.getMealPlanEntries(startDate, endDate);
+      set({ mealPlanEntries: entries });
+    } catch (error) {
+      console.error('Failed to load meal plan:', error);
+      set({ error: 'Failed to load meal plan' });
+    }
+  },
+
+  loadMoreRecipes: async () => {
+    const { nextCursor, loadingMore, searchTerm, selectedTags, query, sort } =
+      get();
+    if (!nextCursor || loadingMore) return;
+
+    set({ loadingMore: true });
+    try {
+      const page = await RecipeDB.listRecipes({
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+        query,
+        search: searchTerm,
+        sort: sort ?? undefined,
+        tags: selectedTags,
+      });
+
+      // Drop the page if the search changed while it was loading
+      if (get().nextCursor !== nextCursor) {
+        set({ loadingMore: false });
+        return;
+      }
+      set({
+        loadingMore: false,
+        nextCursor: page.nextCursor,
+        recipes: [...get().recipes, ...page.recipes],
+        totalRecipes: page.total,
+      });
+    } catch (error) {
+      console.error('Failed to load more recipes:', error);
+      set({ error: 'Failed to load more recipes', loadingMore: false });
+    }
+  },
+
   loadRecipes: async (
     searchTerm = '',
     selectedTags = [],
@@ -302,20 +1019,43 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       set({ error: null, loading: true });
     }
 
+    const { query, sort } = get();
+
     try {
-      const [recipesData, tagsData] = await Promise.all([
-        searchTerm || selectedTags.length > 0
-          ? RecipeDB.searchRecipes(searchTerm, selectedTags)
-          : RecipeDB.getAllRecipes(),
+      const [page, tagsData] = await Promise.all([
+        RecipeDB.listRecipes({
+          limit: PAGE_SIZE,
+          query,
+          search: searchTerm,
+          sort: sort ?? undefined,
+          tags: selectedTags,
+        }),
         RecipeDB.getAllTags(),
       ]);
 
+      const pageState = {
+        nextCursor: page.nextCursor,
+        queryError: null,
+        recipes: page.recipes,
+        tags: tagsData,
+        totalRecipes: page.total,
+      };
       if (isSearching) {
-        set({ recipes: recipesData, searching: false, tags: tagsData });
+        set({ ...pageState, searching: false });
       } else {
-        set({ loading: false, recipes: recipesData, tags: tagsData });
+        set({ ...pageState, loading: false });
       }
     } catch (error) {
+      // A malformed query is shown next to the query box, not as a page error
+      if (error instanceof QueryParseError) {
+        set({
+          loading: false,
+          queryError: { message: error.message, position: error.position },
+          searching: false,
+        });
+        return;
+      }
+
       console.error('Failed to load recipes:', error);
       if (isSearching) {
         set({ error: 'Failed to load recipes', searching: false });
@@ -325,6 +1065,49 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     }
   },
 
+  loadSchemeCategories: async (schemeId) => {
+    try {
+      const categories = await RecipeDB.getAllDeweyCategories(schemeId);
+      set({
+        schemeCategories: { ...get().schemeCategories, [schemeId]: categories },
+      });
+    } catch (error) {
+      console.error('Failed to load scheme categories:', error);
+      set({ error: 'Failed to load scheme categories' });
+    }
+  },
+
+  loadShoppingList: async (id) => {
+    try {
+      const list = await RecipeDB.getShoppingList(id);
+      set({
+        error: list ? null : 'Shopping list not found',
+        shoppingList: list,
+      });
+    } catch (error) {
+      console.error('Failed to load shopping list:', error);
+      set({ error: 'Failed to load shopping list' });
+    }
+  },
+
+  loadShoppingLists: async () => {
+    try {
+      const lists = await RecipeDB.getShoppingLists();
+      set({ shoppingLists: lists });
+    } catch (error) {
+      console.error('Failed to load shopping lists:', error);
+      set({ error: 'Failed to load shopping lists' });
+    }
+  },
+  loadSnapshots: async () => {
+    try {
+      set({ snapshots: await RecipeDB.getSnapshots() });
+    } catch (error) {
+      console.error('Failed to load snapshots:', error);
+      set({ error: 'Failed to load snapshots' });
+    }
+  },
+
   // Tag operations
   loadTags: async () => {
     try {
@@ -335,9 +1118,64 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       set({ error: 'Failed to load tags' });
     }
   },
+  mealPlanEntries: [],
+  // Picks honour the current search, tags and query
+  moveDeweySubtree: async (id, target, dryRun = false) => {
+    try {
+      const result = await RecipeDB.moveDeweySubtree(id, target, dryRun);
+      if (result.applied) {
+        set({ deweyCategoriesLoaded: false });
+        await get().loadDeweyCategories();
+        await Promise.all(
+          Object.keys(get().schemeCategories).map((schemeId) =>
+            get().loadSchemeCategories(Number(schemeId)),
+          ),
+        );
+        get().loadRecipes(get().searchTerm, get().selectedTags);
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to move Dewey category:', error);
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to move Dewey category',
+      });
+      throw error;
+    }
+  },
+  nextCursor: null,
+
+  pickRandomRecipes: async (options) => {
+    const { searchTerm, selectedTags, query } = get();
+    try {
+      return await RecipeDB.getRandomRecipes({
+        ...options,
+        query,
+        search: searchTerm,
+        tags: selectedTags,
+      });
+    } catch (error) {
+      console.error('Failed to pick recipes:', error);
+      set({ error: 'Failed to pick recipes' });
+      throw error;
+    }
+  },
+  query: '',
+  queryError: null,
   // Initial state
   recipes: [],
 
+  releaseDeweyReservation: async (code, schemeId) => {
+    try {
+      await RecipeDB.releaseDeweyReservation(code, schemeId);
+    } catch (error) {
+      // An unreleased reservation expires on its own, so don't surface this
+      console.error('Failed to release Dewey reservation:', error);
+    }
+  },
+
   removeTagFromRecipe: async (recipeId, tagToRemove) => {
     try {
       const { recipes } = get();
@@ -352,12 +1190,84 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       throw error;
     }
   },
+  repairDewey: async (fixes) => {
+    try {
+      const result = await RecipeDB.repairDewey(fixes);
+      set({ deweyCategoriesLoaded: false });
+      await get().loadDeweyCategories();
+      get().loadRecipes(get().searchTerm, get().selectedTags);
+      return result;
+    } catch (error) {
+      console.error('Failed to repair Dewey categories:', error);
+      set({ error: 'Failed to repair Dewey categories' });
+      throw error;
+    }
+  },
+
+  reserveDeweyCode: async (baseCode, schemeId) => {
+    try {
+      return await RecipeDB.reserveDeweyCode(baseCode, schemeId);
+    } catch (error) {
+      console.error('Failed to reserve Dewey code:', error);
+      set({ error: 'Failed to reserve Dewey code' });
+      throw error;
+    }
+  },
+
+  resolveDeweyConflicts: async () => {
+    try {
+      const renumberings = await RecipeDB.resolveDeweyConflicts();
+      if (renumberings.length > 0) {
+        get().loadRecipes(get().searchTerm, get().selectedTags);
+      }
+      return renumberings;
+    } catch (error) {
+      console.error('Failed to renumber duplicate Dewey codes:', error);
+      set({ error: 'Failed to renumber duplicate Dewey codes' });
+      throw error;
+    }
+  },
+
+  restoreBackup: async (file) => {
+    try {
+      await RecipeDB.restoreBackup(file);
+      set(UNLOADED_LIBRARY);
+      await get().loadSnapshots();
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to restore backup',
+      });
+      throw error;
+    }
+  },
+  restoreSnapshot: async (name) => {
+    try {
+      await RecipeDB.restoreSnapshot(name);
+      set(UNLOADED_LIBRARY);
+      await get().loadSnapshots();
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to restore snapshot',
+      });
+      throw error;
+    }
+  },
+  schemeCategories: {},
   searching: false,
   searchTerm: '',
   selectedTags: [],
   setError: (error) => set({ error }),
 
   // Search actions
+  setQuery: (query) => {
+    set({ query });
+    get().loadRecipes(get().searchTerm, get().selectedTags, true);
+  },
+
   setSearchTerm: (term) => {
     set({ searchTerm: term });
     get().loadRecipes(term, get().selectedTags, true);
@@ -367,12 +1277,84 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
     set({ selectedTags: tags });
     get().loadRecipes(get().searchTerm, tags, true);
   },
+
+  setSort: (sort) => {
+    set({ sort });
+    get().loadRecipes(get().searchTerm, get().selectedTags, true);
+  },
+  shoppingList: null,
+  shoppingLists: [],
+  snapshots: [],
+  sort: null,
+  switchLibrary: async (id) => {
+    try {
+      RecipeDB.openLibrary(id);
+      set({ ...UNLOADED_LIBRARY, activeLibrary: id });
+      await get().loadRecipes();
+    } catch (error) {
+      console.error('Failed to switch library:', error);
+      set({ error: 'Failed to switch library' });
+      throw error;
+    }
+  },
   tags: [],
+  totalRecipes: 0,
+
+  updateClassificationScheme: async (id, updates) => {
+    try {
+      const updated = await RecipeDB.updateClassificationScheme(id, updates);
+      set({
+        classificationSchemes: get().classificationSchemes.map((scheme) =>
+          scheme.id === id ? updated : scheme,
+        ),
+      });
+      return updated;
+    } catch (error) {
+      console.error('Failed to save scheme:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save scheme',
+      });
+      throw error;
+    }
+  },
+
+  updateCookLogEntry: async (id, updates) => {
+    const { cookLog } = get();
+    try {
+      const updatedEntry = await RecipeDB.updateCookLogEntry(id, updates);
+      set({
+        cookLog: get()
+          .cookLog.map((entry) => (entry.id === id ? updatedEntry : entry))
+          .sort((a, b) => b.date.localeCompare(a.date)),
+      });
+    } catch (error) {
+      console.error('Failed to update cook log entry:', error);
+      set({ cookLog, error: 'Failed to update cook log entry' });
+      throw error;
+    }
+  },
 
   updateDeweyCategory: async (id, updates) => {
     try {
       const updatedCategory = await RecipeDB.updateDeweyCategory(id, updates);
-      const { deweyCategories } = get();
+      const { classificationSchemes, deweyCategories } = get();
+      if (isOtherScheme(classificationSchemes, updatedCategory.schemeId)) {
+        // Reloaded, as a new code moves the category's subtree with it
+        await get().loadSchemeCategories(updatedCategory.schemeId as number);
+        return updatedCategory;
+      }
+      const previous = deweyCategories.find((cat) => cat.id === id);
+      if (
+        previous &&
+        (previous.deweyCode !== updatedCategory.deweyCode ||
+          previous.parentCode !== updatedCategory.parentCode)
+      ) {
+        // The server moved the category's subtree and recipes along with it
+        set({ deweyCategoriesLoaded: false });
+        await get().loadDeweyCategories();
+        get().loadRecipes(get().searchTerm, get().selectedTags);
+        return updatedCategory;
+      }
       const updatedCategories = deweyCategories.map((cat) =>
         cat.id === id ? updatedCategory : cat,
       );
@@ -380,7 +1362,34 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       return updatedCategory;
     } catch (error) {
       console.error('Failed to update Dewey category:', error);
-      set({ error: 'Failed to update Dewey category' });
+      set({
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to update Dewey category',
+      });
+      throw error;
+    }
+  },
+
+  updateMealPlanEntry: async (id, updates) => {
+    const { mealPlanEntries } = get();
+    try {
+      // Optimistic update so drag and drop feels immediate
+      set({
+        mealPlanEntries: mealPlanEntries.map((entry) =>
+          entry.id === id ? { ...entry, ...updates } : entry,
+        ),
+      });
+      const updatedEntry = await RecipeDB.updateMealPlanEntry(id, updates);
+      set({
+        mealPlanEntries: get().mealPlanEntries.map((entry) =>
+          entry.id === id ? updatedEntry : entry,
+        ),
+      });
+    } catch (error) {
+      console.error('Failed to update meal plan entry:', error);
+      set({ error: 'Failed to update meal plan entry', mealPlanEntries });
       throw error;
     }
   },
@@ -394,15 +1403,26 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       );
       set({ recipes: updatedRecipes });
 
-      await RecipeDB.updateRecipe(id, updates);
+      const savedRecipe = await RecipeDB.updateRecipe(id, updates);
+      // The server may file the recipe under a different Dewey code than
+      // the one asked for if another recipe took it first
+      set({
+        recipes: get().recipes.map((recipe) =>
+          recipe.id === savedRecipe.id ? savedRecipe : recipe,
+        ),
+      });
 
       // Refresh tags if tags were updated
       if (updates.tags) {
         get().loadTags();
       }
+      return savedRecipe;
     } catch (error) {
       console.error('Failed to update recipe:', error);
-      set({ error: 'Failed to update recipe' });
+      set({
+        error:
+          error instanceof Error ? error.message : 'Failed to update recipe',
+      });
       // Revert optimistic update
       get().loadRecipes(get().searchTerm, get().selectedTags);
       throw error;
@@ -421,17 +1441,57 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
   },
 
   // CSV operations
-  uploadCSV: async (file) => {
-    set({ error: null, loading: true });
+  updateShoppingListItem: async (listId, itemId, updates) => {
+    const { shoppingList } = get();
     try {
-      const result = await RecipeDB.uploadCSV(file);
-      // Refresh recipes after CSV upload
-      await get().loadRecipes(get().searchTerm, get().selectedTags);
-      set({ loading: false });
+      // Optimistic update so checking items off feels immediate
+      if (shoppingList?.id === listId) {
+        set({
+          shoppingList: {
+            ...shoppingList,
+            items: shoppingList.items.map((item) =>
+              item.id === itemId ? { ...item, ...updates } : item,
+            ),
+          },
+        });
+      }
+      const updatedItem = await RecipeDB.updateShoppingListItem(
+        listId,
+        itemId,
+        updates,
+      );
+      const current = get().shoppingList;
+      if (current?.id === listId) {
+        set({
+          shoppingList: {
+            ...current,
+            items: current.items
+              .map((item) => (item.id === itemId ? updatedItem : item))
+              .sort(compareShoppingItems),
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to update item:', error);
+      set({ error: 'Failed to update item', shoppingList });
+      throw error;
+    }
+  },
+
+  uploadCSV: async (file, options) => {
+    set({ error: null });
+    try {
+      const result = await RecipeDB.uploadCSV(file, options);
+      if (!options.dryRun) {
+        // Refresh recipes after CSV upload
+        await get().loadRecipes(get().searchTerm, get().selectedTags);
+      }
       return result;
     } catch (error) {
       console.error('Failed to upload CSV:', error);
-      set({ error: 'Failed to upload CSV', loading: false });
+      set({
+        error: error instanceof Error ? error.message : 'Failed to upload CSV',
+      });
       throw error;
     }
   },
@@ -455,4 +1515,14 @@ export const useRecipeStore = create<RecipeStore>((set, get) => ({
       throw error;
     }
   },
+
+  validateDewey: async () => {
+    try {
+      return await RecipeDB.validateDewey();
+    } catch (error) {
+      console.error('Failed to check Dewey categories:', error);
+      set({ error: 'Failed to check Dewey categories' });
+      throw error;
+    }
+  },
 }));
@@ -3,6 +3,41 @@ export interface RecipeFile {
   filename: string;
 }
 
+export interface RecipeIngredient {
+  id?: number;
+  quantity?: number;
+  unit?: string;
+  item: string;
+  preparation?: string;
+  group?: string;
+}
+
+export interface RecipeStep {
+  id?: number;
+  text: string;
+}
+
+export type UnitSystem = 'metric' | 'us';
+
+export interface RecipeScaling {
+  factor: number;
+  servings?: number;
+  units?: UnitSystem;
+}
+
+export type SearchField =
+  | 'name'
+  | 'tags'
+  | 'ingredients'
+  | 'notes'
+  | 'files'
+  | 'url';
+
+export interface SearchMatch {
+  field: SearchField;
+  snippet: string;
+}
+
 export interface Recipe {
   id: number;
   name: string;
@@ -10,17 +45,457 @@ export interface Recipe {
   url?: string;
   tags: string[];
   files?: RecipeFile[];
+  ingredients?: RecipeIngredient[];
+  steps?: RecipeStep[];
   createdAt: Date;
   notes?: string;
   rating?: number;
   deweyDecimal?: string;
+  // Codes in the classification schemes other than the primary Dewey tree,
+  // by scheme id
+  classifications?: Record<number, string>;
+  servings?: number;
+  scaling?: RecipeScaling;
+  matches?: SearchMatch[];
+  // Derived from the cook log: date (YYYY-MM-DD) of the latest attempt
+  lastCookedAt?: string;
+  timesCooked?: number;
+}
+
+// Orderings for recipe listings; relevance only applies to text searches
+export type RecipeSort =
+  | 'cooked'
+  | 'created'
+  | 'dewey'
+  | 'name'
+  | 'rating'
+  | 'relevance'
+  | 'times-cooked';
+
+// The orders a recipe's previous and next links can follow: when recipes
+// were added, or their places on the shelf
+export type RecipeWalkOrder = 'created' | 'dewey';
+
+// Constraints for the random recipe picker, on top of the search filters
+export interface RandomRecipeOptions {
+  count?: number;
+  // Dewey code whose whole subtree is eligible, e.g. "641.5"
+  deweyCode?: string;
+  minRating?: number;
+  // Skip recipes cooked in the last N days
+  notCookedDays?: number;
+  // Favour higher-rated recipes; on unless false
+  weighted?: boolean;
+}
+
+// Formats a set of recipes can be exported in, and which recipes to include
+export type RecipeExportFormat = 'markdown' | 'pdf';
+
+export interface RecipeExportOptions {
+  search?: string;
+  tags?: string[];
+  query?: string;
+  // Dewey code whose whole subtree is exported, e.g. "641.5"
+  deweyCode?: string;
+  // The PDF cookbook's title
+  title?: string;
+}
+
+export type QrCodeFormat = 'svg' | 'png';
+
+// What a recipe's QR code holds: a link to its page, or its Dewey code
+export type QrCodeContent = 'url' | 'dewey';
+
+// One page of a recipe listing
+export interface RecipePage {
+  recipes: Recipe[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// A recipe parsed from an external source, ready to be reviewed and saved
+export interface ImportedRecipe {
+  name: string;
+  url?: string;
+  description?: string;
+  image?: string;
+  servings?: number;
+  prepTime?: number;
+  cookTime?: number;
+  totalTime?: number;
+  tags: string[];
+  ingredients: RecipeIngredient[];
+  steps: RecipeStep[];
+}
+
+// Recipe fields a CSV column can be imported into
+export type CSVField =
+  | 'id'
+  | 'name'
+  | 'page'
+  | 'url'
+  | 'notes'
+  | 'rating'
+  | 'tags'
+  | 'deweyDecimal'
+  | 'servings'
+  | 'createdAt';
+
+// The field each CSV column is imported into, by column position; null
+// leaves the column out
+export type CSVColumnMapping = Array<CSVField | null>;
+
+// What importing one CSV row does, or would do in a dry run
+export interface CSVImportRow {
+  line: number;
+  action: 'create' | 'update' | 'error';
+  name: string;
+  // The recipe updated, or created when the import was committed
+  recipeId?: number;
+  message?: string;
+}
+
+export interface CSVImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: CSVColumnMapping;
+  rows: CSVImportRow[];
+  createdCount: number;
+  updatedCount: number;
+  errorCount: number;
+}
+
+// Export formats of other recipe apps that can be imported
+export type RecipeFileFormat =
+  | 'paprika'
+  | 'mealie'
+  | 'tandoor'
+  | 'mastercook'
+  | 'meal-master';
+
+// What happened to one recipe found in an imported file
+export interface RecipeFileImportRow {
+  name: string;
+  // Set when the recipe was added
+  recipeId?: number;
+  photoCount?: number;
+  // Photos that couldn't be attached to the added recipe, each with why
+  photoErrors?: string[];
+  deweyDecimal?: string;
+  error?: string;
+}
+
+export interface RecipeFileImportResult {
+  format: RecipeFileFormat;
+  importedCount: number;
+  errorCount: number;
+  recipes: RecipeFileImportRow[];
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// A recipe planned for a meal on a given day
+export interface MealPlanEntry {
+  id: number;
+  // Local calendar date as YYYY-MM-DD
+  date: string;
+  slot: MealSlot;
+  recipeId: number;
+  recipeName: string;
+  deweyDecimal?: string;
+  servings?: number;
+  note?: string;
+}
+
+// One time a recipe was actually cooked
+export interface CookLogEntry {
+  id: number;
+  recipeId: number;
+  // Local calendar date as YYYY-MM-DD
+  date: string;
+  // How this attempt turned out, 1 to 5
+  rating?: number;
+  servings?: number;
+  cookedBy?: string;
+  notes?: string;
+}
+
+// Something to buy, merged from every recipe ingredient that calls for it
+export interface ShoppingListItem {
+  id: number;
+  item: string;
+  quantity?: number;
+  unit?: string;
+  // Store aisle the item is grouped under, e.g. "Produce"
+  category: string;
+  checked: boolean;
+  // Added by hand rather than generated from a recipe
+  manual: boolean;
+  // Names of the recipes that call for the item
+  recipes: string[];
+}
+
+export interface ShoppingList {
+  id: number;
+  name: string;
+  createdAt: Date;
+  items: ShoppingListItem[];
+}
+
+// What a new shopping list is generated from: chosen recipes (servings
+// rescale them), every meal planned between two dates, or both
+export interface ShoppingListRequest {
+  name?: string;
+  recipes?: Array<{ id: number; servings?: number }>;
+  start?: string;
+  end?: string;
+}
+
+export interface ShoppingListSummary {
+  id: number;
+  name: string;
+  createdAt: Date;
+  itemCount: number;
+  checkedCount: number;
+}
+
+// A separate recipe collection; each request works on one
+export interface Library {
+  id: string;
+  name: string;
+}
+
+export interface LibraryList {
+  // The library the request worked on, the default one unless it named another
+  active: string;
+  libraries: Library[];
+}
+
+// Why a database snapshot was taken
+export type SnapshotKind =
+  | 'scheduled'
+  | 'manual'
+  | 'pre-restore'
+  | 'pre-import';
+
+export interface Snapshot {
+  name: string;
+  kind: SnapshotKind;
+  createdAt: Date;
+  size: number;
+}
+
+// How an imported library archive is combined with the active library
+export type ArchiveImportMode = 'merge' | 'replace';
+
+// How much of an archive was imported
+export interface ArchiveImportSummary {
+  recipes: number;
+  skippedRecipes: number;
+  files: number;
+  cookLogEntries: number;
+  deweyCategories: number;
+  mealPlanEntries: number;
+  shoppingLists: number;
+  // Recipes given a new Dewey code because theirs was taken here, whose
+  // labels need reprinting
+  renumbered: DeweyRenumbering[];
 }
 
 export interface DeweyCategory {
   id: number;
+  // The classification scheme whose tree the category belongs to; the
+  // primary scheme when left out
+  schemeId?: number;
   deweyCode: string;
   name: string;
   level: number;
   parentCode?: string;
   isActive: boolean;
 }
+
+// A category in the shelf browser with the recipes shelved under it
+export interface DeweyShelfCategory extends DeweyCategory {
+  // Filed under the category itself
+  recipeCount: number;
+  // Filed under it or any category below it
+  totalCount: number;
+}
+
+// How the next number under a Dewey category is chosen:
+// - next: one past the highest in use, so the last code comes back if its
+//   recipe is deleted
+// - fill-gaps: the lowest free number, reusing the codes of deleted recipes
+// - never-reuse: one past the highest ever issued, so codes already on
+//   printed labels stay retired
+export type DeweySequencePolicy = 'next' | 'fill-gaps' | 'never-reuse';
+
+export interface DeweySettings {
+  sequencePolicy: DeweySequencePolicy;
+}
+
+// A named tree of categories recipes can be filed under, such as the
+// cuisine-based Dewey tree, courses, or a second set of shelves. Each has
+// its own codes and sequence numbers. The primary scheme's codes are the
+// recipes' deweyDecimal, which labels, search and exports use.
+export interface ClassificationScheme {
+  id: number;
+  name: string;
+  isPrimary: boolean;
+  // Regular expression every category code in the scheme must match
+  codePattern?: string;
+  // Digits in a recipe's sequence number, e.g. 3 for "641.5.003"
+  sequenceDigits: number;
+  sequencePolicy: DeweySequencePolicy;
+}
+
+// A code set aside for a recipe form until the recipe is saved or the
+// reservation runs out
+export interface DeweyReservation {
+  code: string;
+  expiresAt: string;
+}
+
+// Recipes that share one Dewey code, oldest first
+export interface DeweyConflict {
+  code: string;
+  recipes: Array<{ id: number; name: string }>;
+}
+
+export interface DeweyConflictReport {
+  conflicts: DeweyConflict[];
+  // Whether the database rejects duplicate codes; it starts to once the
+  // conflicts are resolved
+  uniqueIndex: boolean;
+}
+
+// A recipe moved to a new code, whose shelf label needs reprinting
+export interface DeweyRenumbering {
+  recipeId: number;
+  name: string;
+  from: string;
+  to: string;
+}
+
+// Where a category and everything filed under it are moved to
+export interface DeweySubtreeTarget {
+  deweyCode: string;
+  parentCode?: string;
+}
+
+export interface DeweyCategoryRenumbering {
+  id: number;
+  name: string;
+  from: string;
+  to: string;
+}
+
+// What moving a subtree changes; with applied false, only a preview
+export interface DeweySubtreeMove {
+  applied: boolean;
+  categories: DeweyCategoryRenumbering[];
+  recipes: DeweyRenumbering[];
+  retaggedRecipes: number;
+}
+
+// A category or recipe reported by the Dewey integrity check
+export interface DeweyCategoryIssue {
+  id: number;
+  deweyCode: string;
+  name: string;
+}
+
+export interface DeweyRecipeIssue {
+  id: number;
+  name: string;
+  deweyDecimal?: string;
+}
+
+export interface DeweyValidationReport {
+  // Categories whose parent code matches no category
+  orphans: Array<DeweyCategoryIssue & { parentCode: string }>;
+  // Categories whose level isn't the one their code's shape implies
+  levelMismatches: Array<
+    DeweyCategoryIssue & { level: number; expectedLevel: number }
+  >;
+  // Categories with the same name under one parent
+  duplicateNames: Array<{
+    parentCode?: string;
+    name: string;
+    categories: DeweyCategoryIssue[];
+  }>;
+  // Recipes filed under a code whose category doesn't exist, by that code
+  missingCategories: Array<{ deweyCode: string; recipes: DeweyRecipeIssue[] }>;
+  // Recipes filed under a category that has been deactivated
+  inactiveCategories: Array<{
+    category: DeweyCategoryIssue;
+    recipes: DeweyRecipeIssue[];
+  }>;
+  // Recipes with no Dewey code
+  unshelvedRecipes: DeweyRecipeIssue[];
+}
+
+// Repairs the integrity check can make:
+// - 'reparent-orphans': move orphans under the nearest existing category
+//   their code implies, or to the top level
+// - 'fix-levels': set levels from the codes
+// - 'restore-missing-categories': recreate categories recipes are filed
+//   under, named after their code
+// - 'activate-categories': reactivate categories that have recipes
+// - 'shelve-by-tags': file unshelved recipes under the most specific
+//   category named by one of their tags
+export type DeweyRepairFix =
+  | 'reparent-orphans'
+  | 'fix-levels'
+  | 'restore-missing-categories'
+  | 'activate-categories'
+  | 'shelve-by-tags';
+
+// How an imported category tree is combined with the existing one:
+// - 'merge': add new categories and update existing ones from the file
+// - 'replace': as merge, and remove categories the file doesn't have
+// - 'skip': only add new categories, leaving existing ones as they are
+export type DeweyImportStrategy = 'merge' | 'replace' | 'skip';
+
+export interface DeweyImportChange {
+  field: 'name' | 'parentCode' | 'level';
+  from?: string | number;
+  to?: string | number;
+}
+
+// What happened, or would happen, to one category
+export interface DeweyImportEntry {
+  action: 'add' | 'update' | 'skip' | 'remove' | 'error';
+  // Line in the file; removed categories have none
+  line?: number;
+  deweyCode: string;
+  name: string;
+  parentCode?: string;
+  // The code as written, when it was corrected to fit under its parent
+  writtenCode?: string;
+  changes?: DeweyImportChange[];
+  // Recipes filed under a category the file leaves out
+  recipeCount?: number;
+  message?: string;
+}
+
+export interface DeweyImportResult {
+  dryRun: boolean;
+  strategy: DeweyImportStrategy;
+  // Every category but the unchanged ones, in file order then removals
+  entries: DeweyImportEntry[];
+  addedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  skippedCount: number;
+  removedCount: number;
+  errorCount: number;
+}
+
+export interface DeweyRepairResult {
+  // How many categories or recipes each fix changed
+  fixed: Partial<Record<DeweyRepairFix, number>>;
+  // Recipes given a code, whose labels need printing
+  shelved: DeweyRenumbering[];
+  report: DeweyValidationReport;
+}